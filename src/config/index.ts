@@ -14,6 +14,26 @@ import { parseCustomExtensionsConfig } from '../types/metadata.js'
 // Load .env file
 dotenvConfig()
 
+/**
+ * Boolean environment flag
+ * @description z.coerce.boolean() turns the string "false" into true (non-empty string!),
+ * so flags are parsed explicitly.
+ */
+const booleanFlag = (defaultValue: boolean) =>
+  z
+    .enum(['true', 'false', '1', '0', 'yes', 'no'])
+    .default(defaultValue ? 'true' : 'false')
+    .transform((value) => ['true', '1', 'yes'].includes(value))
+
+/**
+ * Boolean environment flag without a default (undefined when unset)
+ */
+const optionalBooleanFlag = () =>
+  z
+    .enum(['true', 'false', '1', '0', 'yes', 'no'])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : ['true', '1', 'yes'].includes(value)))
+
 /**
  * Configuration schema using Zod
  * @description Validates all environment variables and provides defaults
@@ -31,8 +51,25 @@ const configSchema = z.object({
   // Logging config
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
 
+  // Storage backend: filesystem | git | sqlite | s3, or any name registered with registerStorageProvider()
+  // (default: git when ENABLE_GIT_INTEGRATION is set, filesystem otherwise)
+  STORAGE_PROVIDER: z.string().optional(),
+  SQLITE_FILENAME: z.string().optional(), // default: DATA_DIR/openapi-control.db
+  S3_BUCKET: z.string().optional(),
+  S3_ENDPOINT: z.string().optional(), // e.g. http://minio:9000 for S3-compatible services
+  S3_REGION: z.string().default('us-east-1'),
+  S3_PREFIX: z.string().optional(),
+  S3_FORCE_PATH_STYLE: optionalBooleanFlag(), // default: true when S3_ENDPOINT is set
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+
+  // Git integration: store DATA_DIR in a git repository (GitStorageProvider)
+  ENABLE_GIT_INTEGRATION: booleanFlag(false),
+  GIT_REMOTE: z.string().optional(), // bare repo path or URL to push to
+  GIT_BRANCH: z.string().default('main'),
+  GIT_AUTO_PUSH: booleanFlag(false),
+
   // Features (future use)
-  ENABLE_GIT_INTEGRATION: z.coerce.boolean().default(false),
   AUTO_BACKUP_INTERVAL: z.coerce.number().default(3600), // seconds
 
   // Authentication (future use)
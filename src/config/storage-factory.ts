@@ -0,0 +1,101 @@
+/**
+ * Storage Factory
+ *
+ * @description Turns the storage settings from the environment into a storage provider.
+ * The one place that knows which env variable feeds which provider option. 🏭
+ *
+ * @module config/storage-factory
+ */
+
+import { config, type Config } from './index.js'
+import type { BaseStorageProvider, StorageConfig } from '../storage/base-storage-provider.js'
+import { createStorageProvider } from '../storage/storage-registry.js'
+import { createValidationError } from '../utils/errors.js'
+
+/**
+ * Which provider to create and where it keeps its data
+ */
+export interface StorageSelection {
+  /** Provider name (default: STORAGE_PROVIDER, see resolveStorageProviderName) */
+  provider?: string
+  /**
+   * Where the data lives, overriding the environment: a directory for filesystem/git,
+   * a database file for sqlite, a bucket for s3
+   */
+  location?: string
+}
+
+/**
+ * Provider configured in the environment
+ * @description STORAGE_PROVIDER wins; without it ENABLE_GIT_INTEGRATION still picks git,
+ * so existing setups keep working.
+ */
+export function resolveStorageProviderName(appConfig: Config = config): string {
+  return appConfig.STORAGE_PROVIDER || (appConfig.ENABLE_GIT_INTEGRATION ? 'git' : 'filesystem')
+}
+
+/**
+ * Builds the StorageConfig for a provider from the environment
+ * @param provider - Provider name
+ * @param location - Optional location override (see StorageSelection)
+ * @param appConfig - Parsed configuration
+ * @throws ValidationError if required settings are missing
+ */
+export function storageConfigFor(provider: string, location?: string, appConfig: Config = config): StorageConfig {
+  switch (provider) {
+    case 'git':
+      return {
+        basePath: location || appConfig.DATA_DIR,
+        options: {
+          remote: appConfig.GIT_REMOTE,
+          branch: appConfig.GIT_BRANCH,
+          autoPush: appConfig.GIT_AUTO_PUSH,
+        },
+      }
+    case 'sqlite':
+      return {
+        basePath: appConfig.DATA_DIR,
+        options: { filename: location || appConfig.SQLITE_FILENAME },
+      }
+    case 's3': {
+      const bucket = location || appConfig.S3_BUCKET
+      if (!bucket) {
+        throw createValidationError('S3_BUCKET is required for the s3 storage provider', 'S3_BUCKET', 'bucket name')
+      }
+      const credentials =
+        appConfig.S3_ACCESS_KEY_ID && appConfig.S3_SECRET_ACCESS_KEY
+          ? { accessKeyId: appConfig.S3_ACCESS_KEY_ID, secretAccessKey: appConfig.S3_SECRET_ACCESS_KEY }
+          : undefined
+      return {
+        basePath: bucket,
+        options: {
+          endpoint: appConfig.S3_ENDPOINT,
+          region: appConfig.S3_REGION,
+          prefix: appConfig.S3_PREFIX,
+          forcePathStyle: appConfig.S3_FORCE_PATH_STYLE,
+          credentials,
+        },
+      }
+    }
+    default:
+      // filesystem and custom providers get the data directory
+      return { basePath: location || appConfig.DATA_DIR }
+  }
+}
+
+/**
+ * Creates the storage provider selected by the environment (or by `selection`)
+ * @param selection - Provider and location overrides
+ * @param appConfig - Parsed configuration
+ * @returns Storage provider
+ *
+ * @example
+ * ```typescript
+ * const storage = createStorage()                                        // STORAGE_PROVIDER
+ * const target = createStorage({ provider: 'sqlite', location: './specs.db' })
+ * ```
+ */
+export function createStorage(selection: StorageSelection = {}, appConfig: Config = config): BaseStorageProvider {
+  const provider = selection.provider || resolveStorageProviderName(appConfig)
+  return createStorageProvider(provider, storageConfigFor(provider, selection.location, appConfig))
+}
@@ -13,13 +13,16 @@ import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
-import { config } from './config/index.js'
-import { FileSystemStorage } from './storage/file-system-storage.js'
+import { createStorage } from './config/storage-factory.js'
 import { SpecManager } from './services/spec-manager.js'
 import { VersionManager } from './services/version-manager.js'
 import { DiffCalculator } from './services/diff-calculator.js'
 import { ValidationService } from './services/validation-service.js'
 import { AuditLogger } from './services/audit-logger.js'
+import { FolderManager } from './services/folder-manager.js'
+import { ChangeSetManager } from './services/change-set-manager.js'
+import { CrossSpecResolver } from './services/cross-spec-resolver.js'
+import { DependencyGraph } from './services/dependency-graph.js'
 import {
   SpecReadTool,
   SpecValidateTool,
@@ -31,15 +34,29 @@ import {
   ResponsesConfigureTool,
   SecurityConfigureTool,
   ReferencesManageTool,
+  SpecImportTool,
+  SpecPatchTool,
+  TagsManageTool,
+  ServersConfigureTool,
+  RequestBodyConfigureTool,
+  WebhooksManageTool,
+  CallbacksManageTool,
+  ComponentsManageTool,
+  DependencyGraphTool,
+  ChangeSetTool,
 } from './tools/index.js'
 
 // Initialize services
-const storage = new FileSystemStorage({ basePath: config.DATA_DIR })
+const storage = createStorage()
 const specManager = new SpecManager(storage)
 const versionManager = new VersionManager(storage)
 const diffCalculator = new DiffCalculator()
 const validationService = new ValidationService(specManager)
 const auditLogger = new AuditLogger(storage)
+const folderManager = new FolderManager(storage)
+const changeSetManager = new ChangeSetManager(specManager, auditLogger)
+const crossSpecResolver = new CrossSpecResolver(specManager, versionManager, folderManager)
+const dependencyGraph = new DependencyGraph(crossSpecResolver, specManager, diffCalculator)
 
 // Initialize tools
 const tools = [
@@ -52,7 +69,17 @@ const tools = [
   new ParametersConfigureTool(specManager, auditLogger),
   new ResponsesConfigureTool(specManager, auditLogger),
   new SecurityConfigureTool(specManager, auditLogger),
-  new ReferencesManageTool(specManager, auditLogger),
+  new ReferencesManageTool(specManager, auditLogger, crossSpecResolver),
+  new SpecImportTool(specManager, versionManager, folderManager, auditLogger),
+  new SpecPatchTool(specManager, validationService, auditLogger),
+  new TagsManageTool(specManager, auditLogger),
+  new ServersConfigureTool(specManager, auditLogger),
+  new RequestBodyConfigureTool(specManager, auditLogger),
+  new WebhooksManageTool(specManager, auditLogger),
+  new CallbacksManageTool(specManager, auditLogger),
+  new ComponentsManageTool(specManager, auditLogger),
+  new DependencyGraphTool(dependencyGraph),
+  new ChangeSetTool(changeSetManager),
 ]
 
 // Create MCP server
@@ -72,7 +99,7 @@ const server = new Server(
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: tools.map((tool) => {
-      const desc = tool.describe()
+      const desc = changeSetManager.describe(tool)
       return {
         name: desc.name,
         description: desc.description,
@@ -90,7 +117,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
     throw new Error(`Unknown tool: ${name}`)
   }
   
-  const result = await tool.execute(args as any)
+  const result = await changeSetManager.execute(tool, args as any)
   
   return {
     content: [
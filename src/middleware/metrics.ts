@@ -43,7 +43,7 @@ function sanitizeEndpoint(url: string): string {
   
   // Replace UUIDs and version tags with placeholders
   return path
-    .replace(/\/v\d+\.\d+\.\d+/g, '/:version')
+    .replace(/\/v\d+\.\d+\.\d+[^/]*/g, '/:version')
     .replace(/\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '/:id')
     .replace(/\/[a-z0-9-]{20,}/gi, '/:id')
 }
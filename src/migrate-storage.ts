@@ -0,0 +1,91 @@
+/**
+ * Storage Migration Command
+ *
+ * @description Copies all data from one storage provider to another and verifies checksums.
+ * Provider settings come from the environment (.env), same as for the server.
+ *
+ * @example
+ * ```bash
+ * npm run migrate:storage -- --from filesystem --to sqlite
+ * npm run migrate:storage -- --from filesystem --to s3 --dry-run
+ * npm run migrate:storage -- --from sqlite --from-location ./old.db --to filesystem --to-location ./data-new
+ * ```
+ *
+ * @module migrate-storage
+ */
+
+import { parseArgs } from 'util'
+import { createStorage } from './config/storage-factory.js'
+import type { BaseStorageProvider } from './storage/base-storage-provider.js'
+import { getStorageProviderNames } from './storage/storage-registry.js'
+import { migrateStorage } from './utils/migrate-storage.js'
+
+const USAGE = `Usage: npm run migrate:storage -- --from <provider> --to <provider> [options]
+
+Providers: ${getStorageProviderNames().join(', ')}
+
+Options:
+  --from-location <path>  Source directory / database file / bucket (default: from .env)
+  --to-location <path>    Target directory / database file / bucket (default: from .env)
+  --dry-run               Only report what would be copied
+  --overwrite             Replace target files whose content differs
+  --help                  Show this help`
+
+/**
+ * Closes providers holding handles (SQLite)
+ */
+function closeStorage(storage: BaseStorageProvider): void {
+  ;(storage as { close?: () => void }).close?.()
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'from-location': { type: 'string' },
+      'to-location': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      overwrite: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help || !values.from || !values.to) {
+    console.log(USAGE)
+    return values.help ? 0 : 1
+  }
+
+  const source = createStorage({ provider: values.from, location: values['from-location'] })
+  const target = createStorage({ provider: values.to, location: values['to-location'] })
+
+  try {
+    const results = await migrateStorage(source, target, {
+      dryRun: values['dry-run'],
+      overwrite: values.overwrite,
+    })
+
+    console.log(`${results.dry_run ? '🔍 Dry run: ' : ''}${values.from} → ${values.to}`)
+    console.log(`  files found:    ${results.files_found}`)
+    console.log(`  ${`${results.dry_run ? 'would copy' : 'copied'}:`.padEnd(16)}${results.files_copied} (${results.bytes_copied} bytes)`)
+    console.log(`  already there:  ${results.files_skipped}`)
+    if (!results.dry_run) {
+      console.log(`  verified:       ${results.files_verified}`)
+    }
+    results.checksum_mismatches.forEach((key) => console.log(`  ❌ checksum mismatch: ${key}`))
+    results.errors.forEach(({ key, error }) => console.log(`  ❌ ${key}: ${error}`))
+    console.log(results.success ? '✅ Migration complete' : '❌ Migration finished with errors')
+
+    return results.success ? 0 : 1
+  } finally {
+    closeStorage(source)
+    closeStorage(target)
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('❌ Migration failed:', (error as Error).message)
+    process.exit(1)
+  })
@@ -10,7 +10,9 @@
 
 import Fastify from 'fastify'
 import { config } from './config/index.js'
-import { FileSystemStorage } from './storage/file-system-storage.js'
+import { createStorage } from './config/storage-factory.js'
+import { GitStorageProvider } from './storage/git-storage-provider.js'
+import { hasMetadataIndex, type BaseStorageProvider } from './storage/base-storage-provider.js'
 import { SpecManager } from './services/spec-manager.js'
 import { VersionManager } from './services/version-manager.js'
 import { DiffCalculator } from './services/diff-calculator.js'
@@ -18,6 +20,7 @@ import { ValidationService } from './services/validation-service.js'
 import { AuditLogger } from './services/audit-logger.js'
 import { CacheService } from './services/cache-service.js'
 import { MetricsService } from './services/metrics-service.js'
+import { ChangeSetManager } from './services/change-set-manager.js'
 import {
   SpecReadTool,
   SpecValidateTool,
@@ -29,6 +32,16 @@ import {
   ResponsesConfigureTool,
   SecurityConfigureTool,
   ReferencesManageTool,
+  SpecImportTool,
+  SpecPatchTool,
+  TagsManageTool,
+  ServersConfigureTool,
+  RequestBodyConfigureTool,
+  WebhooksManageTool,
+  CallbacksManageTool,
+  ComponentsManageTool,
+  DependencyGraphTool,
+  ChangeSetTool,
 } from './tools/index.js'
 import { logger } from './utils/logger.js'
 import fastifyStatic from '@fastify/static'
@@ -36,10 +49,66 @@ import fastifyCompress from '@fastify/compress'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { FolderManager } from './services/folder-manager.js'
+import type { AuditFilters, VersionState } from './types/metadata.js'
+import type { ApiId, VersionTag } from './types/openapi.js'
+import { ChangelogGenerator, type ChangelogFormat, type ChangelogGrouping } from './services/changelog-generator.js'
+import { CrossSpecResolver } from './services/cross-spec-resolver.js'
+import { DependencyGraph } from './services/dependency-graph.js'
 import { migrateToFolders } from './utils/migrate-to-folders.js'
+import { parseVersionTag } from './utils/semver.js'
 import { createMetricsMiddleware } from './middleware/metrics.js'
 import { createTimeoutMiddleware } from './middleware/timeout.js'
 
+/**
+ * Audit log query string, as sent by the UI (`useAuditLog`)
+ */
+interface AuditQuery {
+  user?: string
+  event?: string
+  version?: string
+  fromDate?: string
+  toDate?: string
+  limit?: number | string
+}
+
+/**
+ * Maps audit query parameters onto AuditFilters
+ */
+function toAuditFilters(query: AuditQuery): AuditFilters {
+  const limit = Number(query.limit)
+  return {
+    user: query.user || undefined,
+    event: query.event || undefined,
+    version: (query.version || undefined) as AuditFilters['version'],
+    from_date: query.fromDate || undefined,
+    to_date: query.toDate || undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+  }
+}
+
+/**
+ * Guesses API ids from the top-level entries of the data directory
+ * @description The slow path for storage without a metadata index
+ */
+async function listTopLevelApiIds(storage: BaseStorageProvider): Promise<string[]> {
+  const apis = await storage.list('/')
+  // Extract top-level directory names and remove duplicates
+  // Normalize paths to use forward slashes (Windows returns backslashes)
+  const topLevelApiIds = [...new Set(apis.map(item => item.replace(/\\/g, '/').split('/')[0]))]
+
+  return topLevelApiIds.filter((item) => {
+    // Exclude hidden files/dirs
+    if (item.startsWith('.')) return false
+    // Exclude known non-API directories
+    if (['specs', 'backups'].includes(item)) return false
+    // Exclude common files that shouldn't be treated as APIs
+    if (item.includes('.json') || item.includes('.yaml') || item.includes('.yml')) return false
+    // Exclude version directories (format: v1.0.0, v1.0.0-beta.1)
+    if (parseVersionTag(item)) return false
+    return true
+  })
+}
+
 /**
  * Builds and configures the Fastify server
  * @returns Configured Fastify instance
@@ -76,10 +145,8 @@ export async function buildServer() {
     metricsService.recordException(error.name, request.url, error)
   })
 
-  // Initialize storage
-  const storage = new FileSystemStorage({
-    basePath: config.DATA_DIR,
-  })
+  // Initialize storage (STORAGE_PROVIDER)
+  const storage = createStorage()
 
   // Initialize services with cache
   const specManager = new SpecManager(storage, 'active', cacheService)
@@ -88,6 +155,9 @@ export async function buildServer() {
   const validationService = new ValidationService(specManager)
   const auditLogger = new AuditLogger(storage)
   const folderManager = new FolderManager(storage, cacheService)
+  const changelogGenerator = new ChangelogGenerator(specManager, versionManager, diffCalculator, auditLogger)
+  const crossSpecResolver = new CrossSpecResolver(specManager, versionManager, folderManager)
+  const dependencyGraph = new DependencyGraph(crossSpecResolver, specManager, diffCalculator)
 
   // Run migration on startup (idempotent - safe to run multiple times)
   // Run migration in the background to avoid blocking server startup
@@ -136,7 +206,18 @@ export async function buildServer() {
   const parametersConfigureTool = new ParametersConfigureTool(specManager, auditLogger)
   const responsesConfigureTool = new ResponsesConfigureTool(specManager, auditLogger)
   const securityConfigureTool = new SecurityConfigureTool(specManager, auditLogger)
-  const referencesManageTool = new ReferencesManageTool(specManager, auditLogger)
+  const referencesManageTool = new ReferencesManageTool(specManager, auditLogger, crossSpecResolver)
+  const specImportTool = new SpecImportTool(specManager, versionManager, folderManager, auditLogger)
+  const specPatchTool = new SpecPatchTool(specManager, validationService, auditLogger)
+  const tagsManageTool = new TagsManageTool(specManager, auditLogger)
+  const serversConfigureTool = new ServersConfigureTool(specManager, auditLogger)
+  const requestBodyConfigureTool = new RequestBodyConfigureTool(specManager, auditLogger)
+  const webhooksManageTool = new WebhooksManageTool(specManager, auditLogger)
+  const callbacksManageTool = new CallbacksManageTool(specManager, auditLogger)
+  const componentsManageTool = new ComponentsManageTool(specManager, auditLogger)
+  const dependencyGraphTool = new DependencyGraphTool(dependencyGraph)
+  const changeSetManager = new ChangeSetManager(specManager, auditLogger)
+  const changeSetTool = new ChangeSetTool(changeSetManager)
 
   // Health check endpoint (updated)
   fastify.get('/api/health', async () => {
@@ -144,7 +225,7 @@ export async function buildServer() {
       status: 'ok',
       version: '1.0.0',
       timestamp: new Date().toISOString(),
-      tools: 10,
+      tools: 20,
       cache: {
         size: cacheService.getStats().size,
         hitRate: cacheService.getStats().hitRate,
@@ -166,7 +247,7 @@ export async function buildServer() {
       status: 'ok',
       version: '1.0.0',
       timestamp: new Date().toISOString(),
-      tools: 10,
+      tools: 20,
     }
   })
 
@@ -201,11 +282,21 @@ export async function buildServer() {
       responsesConfigureTool,
       securityConfigureTool,
       referencesManageTool,
+      specImportTool,
+      specPatchTool,
+      tagsManageTool,
+      serversConfigureTool,
+      requestBodyConfigureTool,
+      webhooksManageTool,
+      callbacksManageTool,
+      componentsManageTool,
+      dependencyGraphTool,
+      changeSetTool,
     ]
 
     return {
       tools: tools.map((tool) => {
-        const desc = tool.describe()
+        const desc = changeSetManager.describe(tool)
         return {
           name: desc.name,
           description: desc.description,
@@ -227,34 +318,64 @@ export async function buildServer() {
 
       switch (toolName) {
         case 'spec_read':
-          result = await specReadTool.execute(args)
+          result = await changeSetManager.execute(specReadTool, args)
           break
         case 'spec_validate':
-          result = await specValidateTool.execute(args)
+          result = await changeSetManager.execute(specValidateTool, args)
           break
         case 'metadata_update':
-          result = await metadataUpdateTool.execute(args)
+          result = await changeSetManager.execute(metadataUpdateTool, args)
           break
         case 'schema_manage':
-          result = await schemaManageTool.execute(args)
+          result = await changeSetManager.execute(schemaManageTool, args)
           break
         case 'endpoint_manage':
-          result = await endpointManageTool.execute(args)
+          result = await changeSetManager.execute(endpointManageTool, args)
           break
         case 'version_control':
-          result = await versionControlTool.execute(args)
+          result = await changeSetManager.execute(versionControlTool, args)
           break
         case 'parameters_configure':
-          result = await parametersConfigureTool.execute(args)
+          result = await changeSetManager.execute(parametersConfigureTool, args)
           break
         case 'responses_configure':
-          result = await responsesConfigureTool.execute(args)
+          result = await changeSetManager.execute(responsesConfigureTool, args)
           break
         case 'security_configure':
-          result = await securityConfigureTool.execute(args)
+          result = await changeSetManager.execute(securityConfigureTool, args)
           break
         case 'references_manage':
-          result = await referencesManageTool.execute(args)
+          result = await changeSetManager.execute(referencesManageTool, args)
+          break
+        case 'spec_import':
+          result = await changeSetManager.execute(specImportTool, args)
+          break
+        case 'spec_patch':
+          result = await changeSetManager.execute(specPatchTool, args)
+          break
+        case 'tags_manage':
+          result = await changeSetManager.execute(tagsManageTool, args)
+          break
+        case 'servers_configure':
+          result = await changeSetManager.execute(serversConfigureTool, args)
+          break
+        case 'request_body_configure':
+          result = await changeSetManager.execute(requestBodyConfigureTool, args)
+          break
+        case 'webhooks_manage':
+          result = await changeSetManager.execute(webhooksManageTool, args)
+          break
+        case 'callbacks_manage':
+          result = await changeSetManager.execute(callbacksManageTool, args)
+          break
+        case 'components_manage':
+          result = await changeSetManager.execute(componentsManageTool, args)
+          break
+        case 'dependency_graph':
+          result = await changeSetManager.execute(dependencyGraphTool, args)
+          break
+        case 'change_set':
+          result = await changeSetManager.execute(changeSetTool, args)
           break
         default:
           reply.code(404)
@@ -341,6 +462,16 @@ export async function buildServer() {
           responsesConfigureTool,
           securityConfigureTool,
           referencesManageTool,
+          specImportTool,
+          specPatchTool,
+          tagsManageTool,
+          serversConfigureTool,
+          requestBodyConfigureTool,
+          webhooksManageTool,
+          callbacksManageTool,
+          componentsManageTool,
+          dependencyGraphTool,
+          changeSetTool,
         ]
         
         // Helper to flatten JSON Schema (resolve $ref to inline schema)
@@ -357,7 +488,7 @@ export async function buildServer() {
         }
         
         const toolsList = tools.map((tool) => {
-          const desc = tool.describe()
+          const desc = changeSetManager.describe(tool)
           return {
             name: desc.name,
             description: desc.description,
@@ -391,34 +522,64 @@ export async function buildServer() {
         
         switch (name) {
           case 'spec_read':
-            toolResult = await specReadTool.execute(args)
+            toolResult = await changeSetManager.execute(specReadTool, args)
             break
           case 'spec_validate':
-            toolResult = await specValidateTool.execute(args)
+            toolResult = await changeSetManager.execute(specValidateTool, args)
             break
           case 'metadata_update':
-            toolResult = await metadataUpdateTool.execute(args)
+            toolResult = await changeSetManager.execute(metadataUpdateTool, args)
             break
           case 'schema_manage':
-            toolResult = await schemaManageTool.execute(args)
+            toolResult = await changeSetManager.execute(schemaManageTool, args)
             break
           case 'endpoint_manage':
-            toolResult = await endpointManageTool.execute(args)
+            toolResult = await changeSetManager.execute(endpointManageTool, args)
             break
           case 'version_control':
-            toolResult = await versionControlTool.execute(args)
+            toolResult = await changeSetManager.execute(versionControlTool, args)
             break
           case 'parameters_configure':
-            toolResult = await parametersConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(parametersConfigureTool, args)
             break
           case 'responses_configure':
-            toolResult = await responsesConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(responsesConfigureTool, args)
             break
           case 'security_configure':
-            toolResult = await securityConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(securityConfigureTool, args)
             break
           case 'references_manage':
-            toolResult = await referencesManageTool.execute(args)
+            toolResult = await changeSetManager.execute(referencesManageTool, args)
+            break
+          case 'spec_import':
+            toolResult = await changeSetManager.execute(specImportTool, args)
+            break
+          case 'spec_patch':
+            toolResult = await changeSetManager.execute(specPatchTool, args)
+            break
+          case 'tags_manage':
+            toolResult = await changeSetManager.execute(tagsManageTool, args)
+            break
+          case 'servers_configure':
+            toolResult = await changeSetManager.execute(serversConfigureTool, args)
+            break
+          case 'request_body_configure':
+            toolResult = await changeSetManager.execute(requestBodyConfigureTool, args)
+            break
+          case 'webhooks_manage':
+            toolResult = await changeSetManager.execute(webhooksManageTool, args)
+            break
+          case 'callbacks_manage':
+            toolResult = await changeSetManager.execute(callbacksManageTool, args)
+            break
+          case 'components_manage':
+            toolResult = await changeSetManager.execute(componentsManageTool, args)
+            break
+          case 'dependency_graph':
+            toolResult = await changeSetManager.execute(dependencyGraphTool, args)
+            break
+          case 'change_set':
+            toolResult = await changeSetManager.execute(changeSetTool, args)
             break
           default:
             throw new Error(`Unknown tool: ${name}`)
@@ -482,11 +643,21 @@ export async function buildServer() {
           responsesConfigureTool,
           securityConfigureTool,
           referencesManageTool,
+          specImportTool,
+          specPatchTool,
+          tagsManageTool,
+          serversConfigureTool,
+          requestBodyConfigureTool,
+          webhooksManageTool,
+          callbacksManageTool,
+          componentsManageTool,
+          dependencyGraphTool,
+          changeSetTool,
         ]
 
         result = {
           tools: tools.map((tool) => {
-            const desc = tool.describe()
+            const desc = changeSetManager.describe(tool)
             return {
               name: desc.name,
               description: desc.description,
@@ -501,34 +672,64 @@ export async function buildServer() {
 
         switch (name) {
           case 'spec_read':
-            toolResult = await specReadTool.execute(args)
+            toolResult = await changeSetManager.execute(specReadTool, args)
             break
           case 'spec_validate':
-            toolResult = await specValidateTool.execute(args)
+            toolResult = await changeSetManager.execute(specValidateTool, args)
             break
           case 'metadata_update':
-            toolResult = await metadataUpdateTool.execute(args)
+            toolResult = await changeSetManager.execute(metadataUpdateTool, args)
             break
           case 'schema_manage':
-            toolResult = await schemaManageTool.execute(args)
+            toolResult = await changeSetManager.execute(schemaManageTool, args)
             break
           case 'endpoint_manage':
-            toolResult = await endpointManageTool.execute(args)
+            toolResult = await changeSetManager.execute(endpointManageTool, args)
             break
           case 'version_control':
-            toolResult = await versionControlTool.execute(args)
+            toolResult = await changeSetManager.execute(versionControlTool, args)
             break
           case 'parameters_configure':
-            toolResult = await parametersConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(parametersConfigureTool, args)
             break
           case 'responses_configure':
-            toolResult = await responsesConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(responsesConfigureTool, args)
             break
           case 'security_configure':
-            toolResult = await securityConfigureTool.execute(args)
+            toolResult = await changeSetManager.execute(securityConfigureTool, args)
             break
           case 'references_manage':
-            toolResult = await referencesManageTool.execute(args)
+            toolResult = await changeSetManager.execute(referencesManageTool, args)
+            break
+          case 'spec_import':
+            toolResult = await changeSetManager.execute(specImportTool, args)
+            break
+          case 'spec_patch':
+            toolResult = await changeSetManager.execute(specPatchTool, args)
+            break
+          case 'tags_manage':
+            toolResult = await changeSetManager.execute(tagsManageTool, args)
+            break
+          case 'servers_configure':
+            toolResult = await changeSetManager.execute(serversConfigureTool, args)
+            break
+          case 'request_body_configure':
+            toolResult = await changeSetManager.execute(requestBodyConfigureTool, args)
+            break
+          case 'webhooks_manage':
+            toolResult = await changeSetManager.execute(webhooksManageTool, args)
+            break
+          case 'callbacks_manage':
+            toolResult = await changeSetManager.execute(callbacksManageTool, args)
+            break
+          case 'components_manage':
+            toolResult = await changeSetManager.execute(componentsManageTool, args)
+            break
+          case 'dependency_graph':
+            toolResult = await changeSetManager.execute(dependencyGraphTool, args)
+            break
+          case 'change_set':
+            toolResult = await changeSetManager.execute(changeSetTool, args)
             break
           default:
             throw new Error(`Unknown tool: ${name}`)
@@ -739,6 +940,32 @@ export async function buildServer() {
     }
   })
 
+  // POST /api/specs/import - Import an existing OpenAPI/Swagger document as a new API
+  fastify.post<{
+    Body: {
+      apiId: string
+      version?: string
+      content?: string
+      folder?: string
+      name?: string
+      owner?: string
+      description?: string
+      format?: 'yaml' | 'json'
+    }
+  }>('/api/specs/import', async (request, reply) => {
+    // filePath reads from the server's own disk - fine for a local MCP client, not for anyone with HTTP access
+    if (request.body && 'filePath' in request.body) {
+      return reply.code(400).send({ error: 'filePath is not accepted over HTTP; send the spec as content' })
+    }
+    try {
+      const result = await specImportTool.execute(request.body)
+      return reply.code(201).send(result.data)
+    } catch (error) {
+      logger.error({ error, apiId: request.body?.apiId }, 'Failed to import spec')
+      return reply.code(400).send({ error: (error as Error).message })
+    }
+  })
+
   // GET /api/specs/:apiId - Get specific spec with current version
   fastify.get<{ Params: { apiId: string } }>('/api/specs/:apiId', async (request) => {
     const { apiId } = request.params
@@ -789,61 +1016,128 @@ export async function buildServer() {
     }
   )
 
+  // POST /api/specs/:apiId/versions/:version/state - Lifecycle transition (draft → beta → stable → deprecated → retired)
+  fastify.post<{
+    Params: { apiId: string; version: string }
+    Body: { state: string; sunsetDate?: string; reason?: string }
+  }>('/api/specs/:apiId/versions/:version/state', async (request, reply) => {
+    const { apiId, version } = request.params
+    const { state, sunsetDate, reason } = request.body || ({} as { state: string })
+    try {
+      const result = await versionControlTool.execute({
+        apiId,
+        version,
+        operation: 'set_state',
+        state: state as VersionState,
+        sunsetDate,
+        llmReason: reason,
+      })
+      return result.data
+    } catch (error) {
+      logger.error({ apiId, version, state, error }, 'Failed to change version state')
+      return reply.code(400).send({ error: (error as Error).message })
+    }
+  })
+
+  // POST /api/specs/:apiId/versions/:version/undo|redo - Step through the edit history of a draft
+  const historySteps = ['undo', 'redo'] as const
+  historySteps.forEach((operation) => {
+    fastify.post<{
+      Params: { apiId: string; version: string }
+      Body: { steps?: number; reason?: string }
+    }>(`/api/specs/:apiId/versions/:version/${operation}`, async (request, reply) => {
+      const { apiId, version } = request.params
+      const { steps, reason } = request.body || {}
+      try {
+        const result = await versionControlTool.execute({ apiId, version, operation, steps, llmReason: reason })
+        return result.data
+      } catch (error) {
+        logger.error({ apiId, version, operation, error }, 'Failed to step through edit history')
+        return reply.code(400).send({ error: (error as Error).message })
+      }
+    })
+  })
+
+  // GET /api/specs/:apiId/changelog - Changelog between two versions
+  fastify.get<{
+    Params: { apiId: string }
+    Querystring: { from?: string; to?: string; format?: ChangelogFormat; groupBy?: ChangelogGrouping }
+  }>('/api/specs/:apiId/changelog', async (request, reply) => {
+    const { apiId } = request.params
+    const { from, to, format = 'markdown', groupBy = 'tag' } = request.query
+
+    if (!from || !to) {
+      return reply.code(400).send({ error: 'Both from and to query parameters are required' })
+    }
+    if (!['markdown', 'html', 'json'].includes(format) || !['tag', 'endpoint'].includes(groupBy)) {
+      return reply.code(400).send({ error: 'format must be markdown|html|json and groupBy must be tag|endpoint' })
+    }
+
+    try {
+      const result = await changelogGenerator.generate(apiId as ApiId, from as VersionTag, to as VersionTag, format, groupBy)
+      if (format === 'json') {
+        return result.changelog
+      }
+      return reply
+        .type(format === 'html' ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8')
+        .send(result.content)
+    } catch (error) {
+      logger.error({ apiId, from, to, error }, 'Failed to generate changelog')
+      throw error
+    }
+  })
+
   // PUT /api/specs/:apiId - Update spec (simple editor support)
-  fastify.put<{ Params: { apiId: string }; Body: any }>('/api/specs/:apiId', async (request) => {
+  fastify.put<{ Params: { apiId: string }; Body: any }>('/api/specs/:apiId', async (request, reply) => {
     const { apiId } = request.params
     const body = request.body as { spec: any; version: string; description?: string }
     const { spec, version } = body
     try {
-      await specManager.saveSpec(apiId as any, version as any, spec)
+      const edit = await specManager.saveSpec(apiId as any, version as any, spec)
+      if (edit) {
+        await auditLogger.logEvent({
+          api_id: apiId as ApiId,
+          version: version as VersionTag,
+          event: 'spec_updated',
+          user: 'rest-api',
+          timestamp: new Date().toISOString(),
+          llm_reason: body.description,
+          details: { ...edit },
+        })
+      }
       logger.info({ apiId, version }, 'Spec updated via API')
       return { success: true, message: 'Spec updated successfully' }
     } catch (error) {
+      if ((error as { code?: string }).code === 'VERSION_IMMUTABLE') {
+        // Published versions are frozen - edit a new draft version instead
+        return reply.code(409).send({ error: (error as Error).message })
+      }
       logger.error({ apiId, error }, 'Failed to update spec')
       throw error
     }
   })
 
+  // POST /api/git/push - Push the spec repository to GIT_REMOTE (git integration only)
+  fastify.post('/api/git/push', async (_request, reply) => {
+    if (!(storage instanceof GitStorageProvider)) {
+      return reply.code(400).send({ error: 'Git integration is disabled (set STORAGE_PROVIDER=git)' })
+    }
+    try {
+      await storage.push()
+      return { success: true, remote: config.GIT_REMOTE, branch: config.GIT_BRANCH }
+    } catch (error) {
+      logger.error({ error }, 'Failed to push spec repository')
+      return reply.code(400).send({ error: (error as Error).message })
+    }
+  })
+
   // GET /api/audit - Get audit log (with optional filters)
-  fastify.get<{ Querystring: { apiId?: string; limit?: number } }>('/api/audit', async (request) => {
-    const { apiId, limit } = request.query
+  fastify.get<{ Querystring: AuditQuery & { apiId?: string } }>('/api/audit', async (request) => {
     try {
-      if (apiId) {
-        const log = await auditLogger.getAuditLog(apiId as any, limit)
-        return log
-      } else {
-        // Get audit logs for all APIs
-        const apis = await storage.list('/')
-        // Extract top-level directory names and remove duplicates
-        // Normalize paths to use forward slashes (Windows returns backslashes)
-        const topLevelApiIds = [...new Set(apis.map(item => item.replace(/\\/g, '/').split('/')[0]))]
-        
-        const validApis = topLevelApiIds.filter((item) => {
-          // Exclude hidden files/dirs
-          if (item.startsWith('.')) return false
-          // Exclude known non-API directories
-          if (['specs', 'backups'].includes(item)) return false
-          // Exclude common files that shouldn't be treated as APIs
-          if (item.includes('.json') || item.includes('.yaml') || item.includes('.yml')) return false
-          // Exclude version directories (format: v1.0.0)
-          if (/^v\d+\.\d+\.\d+$/.test(item)) return false
-          return true
-        })
-        
-        const allLogs = await Promise.all(
-          validApis.map(async (api) => {
-              try {
-                return await auditLogger.getAuditLog(api as any)
-              } catch (error) {
-                return []
-              }
-            })
-        )
-        const combined = allLogs.flat().sort((a, b) => {
-          return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        })
-        return limit ? combined.slice(0, limit) : combined
-      }
+      return await auditLogger.queryEvents({
+        ...toAuditFilters(request.query),
+        api_id: request.query.apiId as ApiId | undefined,
+      })
     } catch (error) {
       logger.error({ error }, 'Failed to get audit log')
       throw error
@@ -851,14 +1145,12 @@ export async function buildServer() {
   })
 
   // GET /api/audit/:apiId - Get audit log for specific API
-  fastify.get<{ Params: { apiId: string }; Querystring: { limit?: number } }>(
+  fastify.get<{ Params: { apiId: string }; Querystring: AuditQuery }>(
     '/api/audit/:apiId',
     async (request) => {
       const { apiId } = request.params
-      const { limit } = request.query
       try {
-        const log = await auditLogger.getAuditLog(apiId as any, limit)
-        return log
+        return await auditLogger.queryEvents({ ...toAuditFilters(request.query), api_id: apiId as ApiId })
       } catch (error) {
         logger.error({ apiId, error }, 'Failed to get audit log')
         throw error
@@ -866,26 +1158,19 @@ export async function buildServer() {
     }
   )
 
+  // GET /api/graph - Cross-spec dependency graph (optionally narrowed to one API)
+  fastify.get<{ Querystring: { apiId?: string } }>('/api/graph', async (request) => {
+    try {
+      return await dependencyGraph.build(request.query.apiId)
+    } catch (error) {
+      logger.error({ error }, 'Failed to build dependency graph')
+      throw error
+    }
+  })
+
   // GET /api/stats - Dashboard statistics
   fastify.get('/api/stats', async () => {
     try {
-      const apis = await storage.list('/')
-      // Extract top-level directory names and remove duplicates
-      // Normalize paths to use forward slashes (Windows returns backslashes)
-      const topLevelApiIds = [...new Set(apis.map(item => item.replace(/\\/g, '/').split('/')[0]))]
-      
-      const validApis = topLevelApiIds.filter((item) => {
-        // Exclude hidden files/dirs
-        if (item.startsWith('.')) return false
-        // Exclude known non-API directories
-        if (['specs', 'backups'].includes(item)) return false
-        // Exclude common files that shouldn't be treated as APIs
-        if (item.includes('.json') || item.includes('.yaml') || item.includes('.yml')) return false
-        // Exclude version directories (format: v1.0.0)
-        if (/^v\d+\.\d+\.\d+$/.test(item)) return false
-        return true
-      })
-
       let totalSpecs = 0
       let totalVersions = 0
       let totalEndpoints = 0
@@ -893,15 +1178,18 @@ export async function buildServer() {
       const specsByTag: Record<string, number> = {}
       let breakingChangesCount = 0
 
-      const allMetadata = await Promise.all(
-        validApis.map(async (apiId) => {
-          try {
-            return await versionManager.getApiMetadata(apiId as any)
-          } catch (error) {
-            return null
-          }
-        })
-      )
+      // Indexed storage knows every API already; everything else gets the directory walk
+      const allMetadata = hasMetadataIndex(storage)
+        ? await storage.listApiMetadata()
+        : await Promise.all(
+            (await listTopLevelApiIds(storage)).map(async (apiId) => {
+              try {
+                return await versionManager.getApiMetadata(apiId as any)
+              } catch (error) {
+                return null
+              }
+            })
+          )
 
       for (const metadata of allMetadata) {
         if (!metadata) continue
@@ -932,19 +1220,7 @@ export async function buildServer() {
       }
 
       // Get recent changes from audit log
-      const allLogs = await Promise.all(
-        validApis.map(async (api) => {
-          try {
-            return await auditLogger.getAuditLog(api as any, 10)
-          } catch (error) {
-            return []
-          }
-        })
-      )
-      const recentChanges = allLogs
-        .flat()
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 20)
+      const recentChanges = (await auditLogger.queryEvents({ limit: 20 }))
         .map((log) => ({
           timestamp: log.timestamp,
           api_id: log.api_id,
@@ -1046,14 +1322,6 @@ async function start() {
       },
       `🚀 OpenAPI Control Panel MCP Server started!`
     )
-
-    // Ensure data directories exist
-    const { FileSystemStorage } = await import('./storage/file-system-storage.js')
-    const storage = new FileSystemStorage({ basePath: config.DATA_DIR })
-    await storage.ensureDirectory('specs')
-    await storage.ensureDirectory('backups')
-
-    logger.info('Data directories initialized')
   } catch (error) {
     console.error('❌ ERROR starting server:', error)
     logger.error({ error }, 'Failed to start server')
@@ -8,10 +8,11 @@
  */
 
 import type { ApiId, VersionTag } from '../types/openapi.js'
-import type { AuditEvent } from '../types/metadata.js'
-import type { BaseStorageProvider } from '../storage/base-storage-provider.js'
+import type { AuditEvent, AuditFilters } from '../types/metadata.js'
+import { hasMetadataIndex, type BaseStorageProvider } from '../storage/base-storage-provider.js'
 import { logger } from '../utils/logger.js'
 import { createStorageError } from '../utils/errors.js'
+import { activeChangeSet } from './change-set-manager.js'
 
 /**
  * Audit Logger Service
@@ -35,26 +36,37 @@ export class AuditLogger {
    * @param event - Audit event to log
    * @returns Promise resolving when event is logged
    * @description Records an event in the audit trail. The paper trail that never lies.
+   * Inside a change set the event is held back and logged as part of the commit.
    */
   async logEvent(event: AuditEvent): Promise<void> {
+    const changeSet = activeChangeSet()
+    if (changeSet) {
+      changeSet.events.push(event)
+      return
+    }
+
     try {
       const auditPath = this.getAuditPath(event.api_id)
 
-      // Load existing audit log or create new one
-      let auditLog: AuditEvent[] = []
-      try {
-        const existingLog = await this.storage.read(auditPath)
-        auditLog = JSON.parse(existingLog)
-      } catch (error) {
-        // File doesn't exist yet, start fresh
-        logger.debug({ apiId: event.api_id }, 'Creating new audit log')
+      if (hasMetadataIndex(this.storage)) {
+        // Indexed storage appends a row instead of rewriting the whole log
+        await this.storage.appendAuditEvent(event)
+        logger.info(
+          { apiId: event.api_id, event: event.event, version: event.version },
+          'Audit event logged'
+        )
+        return
       }
 
-      // Add new event
-      auditLog.push(event)
-
-      // Save updated log
-      await this.storage.write(auditPath, JSON.stringify(auditLog, null, 2))
+      // Append in one read-modify-write, so concurrent writers retry instead of failing
+      await this.storage.update(auditPath, (existingLog) => {
+        if (existingLog === null) {
+          logger.debug({ apiId: event.api_id }, 'Creating new audit log')
+        }
+        const auditLog: AuditEvent[] = existingLog === null ? [] : JSON.parse(existingLog)
+        auditLog.push(event)
+        return JSON.stringify(auditLog, null, 2)
+      })
 
       logger.info(
         { apiId: event.api_id, event: event.event, version: event.version },
@@ -80,6 +92,10 @@ export class AuditLogger {
   async getAuditLog(apiId: ApiId, limit?: number): Promise<AuditEvent[]> {
     const auditPath = this.getAuditPath(apiId)
 
+    if (hasMetadataIndex(this.storage)) {
+      return this.storage.queryAuditEvents({ api_id: apiId, limit })
+    }
+
     try {
       const logData = await this.storage.read(auditPath)
       const auditLog: AuditEvent[] = JSON.parse(logData)
@@ -91,8 +107,9 @@ export class AuditLogger {
 
       return limit ? sortedLog.slice(0, limit) : sortedLog
     } catch (error) {
-      // If file doesn't exist, return empty array (not an error)
-      if ((error as any).code === 'ENOENT' || (error as Error).message.includes('not found')) {
+      // If file doesn't exist, return empty array (not an error) - storage wraps ENOENT as the cause
+      const { code, cause } = error as { code?: string; cause?: { code?: string } }
+      if ((code || cause?.code) === 'ENOENT' || (error as Error).message.includes('not found')) {
         logger.debug({ apiId }, 'No audit log found')
         return []
       }
@@ -170,6 +187,53 @@ export class AuditLogger {
     })
   }
 
+  /**
+   * Queries audit events across all APIs
+   * @param filters - API, version, user, event type, date range and limit
+   * @returns Promise resolving to matching events, most recent first
+   * @description "Everything Bob did last week, anywhere." An index lookup on indexed
+   * storage; everywhere else we read every audit log and filter by hand, skipping (with a
+   * warning) any log we can't read.
+   */
+  async queryEvents(filters: AuditFilters = {}): Promise<AuditEvent[]> {
+    if (hasMetadataIndex(this.storage)) {
+      return this.storage.queryAuditEvents(filters)
+    }
+
+    const apiIds = filters.api_id
+      ? [filters.api_id]
+      : (await this.storage.list('/'))
+          .map((key) => /^\/?([^/\\]+)[/\\]audit\.json$/.exec(key)?.[1])
+          .filter((apiId): apiId is string => !!apiId)
+
+    const from = filters.from_date ? new Date(filters.from_date) : undefined
+    const to = filters.to_date ? new Date(filters.to_date) : undefined
+    // One corrupt log shouldn't take everybody else's history down with it
+    const logs = await Promise.all(
+      apiIds.map((apiId) =>
+        this.getAuditLog(apiId as ApiId).catch((error: unknown) => {
+          logger.warn({ error, apiId }, 'Skipping unreadable audit log')
+          return []
+        })
+      )
+    )
+    const events = logs
+      .flat()
+      .filter((event) => {
+        const eventDate = new Date(event.timestamp)
+        return (
+          (!filters.version || event.version === filters.version) &&
+          (!filters.user || event.user === filters.user) &&
+          (!filters.event || event.event === filters.event) &&
+          (!from || eventDate >= from) &&
+          (!to || eventDate <= to)
+        )
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+
+    return filters.limit ? events.slice(0, filters.limit) : events
+  }
+
   /**
    * Gets the storage path for audit log
    * @param apiId - API identifier
@@ -0,0 +1,664 @@
+/**
+ * Change Classifier Service
+ *
+ * @description Rule-based breaking-change detection. Walks parameters, request bodies,
+ * response schemas, enums, required lists, types and security requirements of two specs
+ * and labels every difference as breaking, non-breaking or unclassified - each with a
+ * stable rule id so CI pipelines can allow-list the ones they're brave enough to ship. 🚦
+ *
+ * @module services/change-classifier
+ */
+
+import type { ChangeSeverity, ClassifiedChange } from '../types/metadata.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+import { callbackLabel, callbackPathItems, operationMethods, webhookPathItems } from '../utils/webhooks.js'
+import { resolveLocalRef } from '../utils/refs.js'
+import { HTTP_METHODS } from '../utils/http-methods.js'
+
+/**
+ * Breaking-change rules
+ * @description Rule ids are part of the public contract - add new ones, never rename.
+ */
+export const CHANGE_RULES = {
+  'endpoint-added': { severity: 'non-breaking', description: 'Operation added' },
+  'endpoint-removed': { severity: 'breaking', description: 'Operation removed' },
+  'endpoint-deprecated': { severity: 'non-breaking', description: 'Operation marked deprecated' },
+
+  'webhook-added': { severity: 'non-breaking', description: 'Webhook added' },
+  'webhook-removed': { severity: 'breaking', description: 'Webhook removed' },
+  'callback-added': { severity: 'non-breaking', description: 'Callback added' },
+  'callback-removed': { severity: 'breaking', description: 'Callback removed' },
+
+  'request-parameter-added-required': { severity: 'breaking', description: 'Required parameter added' },
+  'request-parameter-added-optional': { severity: 'non-breaking', description: 'Optional parameter added' },
+  'request-parameter-removed': { severity: 'unclassified', description: 'Parameter removed' },
+  'request-parameter-became-required': { severity: 'breaking', description: 'Parameter became required' },
+  'request-parameter-became-optional': { severity: 'non-breaking', description: 'Parameter became optional' },
+  'request-parameter-type-changed': { severity: 'breaking', description: 'Parameter type changed' },
+  'request-parameter-type-widened': { severity: 'non-breaking', description: 'Parameter accepts more types' },
+  'request-parameter-enum-value-removed': { severity: 'breaking', description: 'Parameter enum value removed' },
+  'request-parameter-enum-value-added': { severity: 'non-breaking', description: 'Parameter enum value added' },
+
+  'request-body-added-required': { severity: 'breaking', description: 'Required request body added' },
+  'request-body-added-optional': { severity: 'non-breaking', description: 'Optional request body added' },
+  'request-body-removed': { severity: 'breaking', description: 'Request body removed' },
+  'request-body-became-required': { severity: 'breaking', description: 'Request body became required' },
+  'request-body-became-optional': { severity: 'non-breaking', description: 'Request body became optional' },
+  'request-body-media-type-removed': { severity: 'breaking', description: 'Request media type removed' },
+  'request-body-media-type-added': { severity: 'non-breaking', description: 'Request media type added' },
+
+  'request-property-added-required': { severity: 'breaking', description: 'Required request property added' },
+  'request-property-added-optional': { severity: 'non-breaking', description: 'Optional request property added' },
+  'request-property-removed': { severity: 'unclassified', description: 'Request property removed' },
+  'request-property-became-required': { severity: 'breaking', description: 'Request property became required' },
+  'request-property-became-optional': { severity: 'non-breaking', description: 'Request property became optional' },
+  'request-property-type-changed': { severity: 'breaking', description: 'Request property type changed' },
+  'request-property-type-widened': { severity: 'non-breaking', description: 'Request property accepts more types' },
+  'request-property-enum-value-removed': { severity: 'breaking', description: 'Request enum value removed' },
+  'request-property-enum-value-added': { severity: 'non-breaking', description: 'Request enum value added' },
+
+  'response-success-status-removed': { severity: 'breaking', description: 'Success response removed' },
+  'response-status-removed': { severity: 'unclassified', description: 'Non-success response removed' },
+  'response-status-added': { severity: 'non-breaking', description: 'Response status added' },
+  'response-media-type-removed': { severity: 'breaking', description: 'Response media type removed' },
+  'response-media-type-added': { severity: 'non-breaking', description: 'Response media type added' },
+
+  'response-property-removed': { severity: 'breaking', description: 'Response property removed' },
+  'response-property-added': { severity: 'non-breaking', description: 'Response property added' },
+  'response-property-became-optional': { severity: 'breaking', description: 'Response property no longer guaranteed' },
+  'response-property-became-required': { severity: 'non-breaking', description: 'Response property now guaranteed' },
+  'response-property-type-changed': { severity: 'breaking', description: 'Response property type changed' },
+  'response-property-type-narrowed': { severity: 'non-breaking', description: 'Response property returns fewer types' },
+  'response-property-enum-value-added': { severity: 'breaking', description: 'Response enum value added' },
+  'response-property-enum-value-removed': { severity: 'non-breaking', description: 'Response enum value removed' },
+
+  'security-requirement-added': { severity: 'breaking', description: 'Authentication now required' },
+  'security-requirement-removed': { severity: 'non-breaking', description: 'Authentication no longer required' },
+  'security-alternative-added': { severity: 'non-breaking', description: 'Security alternative added' },
+  'security-alternative-removed': { severity: 'breaking', description: 'Security alternative removed' },
+
+  'schema-added': { severity: 'non-breaking', description: 'Component schema added' },
+  'schema-removed': { severity: 'breaking', description: 'Component schema removed' },
+  'schema-modified': { severity: 'unclassified', description: 'Component schema modified' },
+  'schema-composition-changed': { severity: 'unclassified', description: 'oneOf/anyOf composition changed' },
+} as const satisfies Record<string, { severity: ChangeSeverity; description: string }>
+
+/**
+ * Stable identifier of a breaking-change rule
+ */
+export type ChangeRuleId = keyof typeof CHANGE_RULES
+
+/**
+ * An empty security requirement (`{}`): the "or no auth at all" alternative
+ */
+const NO_SECURITY = '<none>'
+
+/**
+ * Where a schema sits - decides which rule family applies
+ */
+interface SchemaContext {
+  /** Request schemas are written by clients, response schemas are read by them */
+  direction: 'request' | 'response'
+  /** Operation label, e.g. 'GET /users' */
+  endpoint: string
+  /** Human-readable location prefix, e.g. "query parameter 'limit'" */
+  label: string
+  /** Dotted property path inside the schema ('' for the root) */
+  property: string
+  /** Root of a parameter schema (parameter rules instead of property rules) */
+  parameter: boolean
+  /** $ref pairs on the current branch (recursive schemas stop here) */
+  seen: Set<string>
+}
+
+/**
+ * Normalized request body (3.x requestBody or 2.0 body parameter)
+ */
+interface NormalizedBody {
+  required: boolean
+  content: SpecObject
+}
+
+/**
+ * The two sides of one operation being compared
+ */
+interface OperationPair {
+  oldSpec: SpecObject
+  newSpec: SpecObject
+  oldItem: SpecObject
+  newItem: SpecObject
+  oldOp: SpecObject
+  newOp: SpecObject
+  endpoint: string
+}
+
+/**
+ * Compositions too clever for simple rules - any change is reported as-is
+ */
+const COMPOSITION_KEYWORDS = ['oneOf', 'anyOf']
+
+/**
+ * The value if it's an array, an empty one otherwise
+ */
+function listOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+/**
+ * Media types from 2.0 consumes/produces lists, most specific first
+ */
+function mediaTypesOf(...lists: unknown[]): string[] {
+  const list = lists.find(Boolean)
+  return list ? listOf(list).map(String) : ['application/json']
+}
+
+/**
+ * Change Classifier Service
+ * @description Compares two specs rule by rule. The referee that actually read the rulebook.
+ */
+export class ChangeClassifier {
+  /**
+   * Classifies every change between two specs
+   * @param oldSpec - The earlier specification (raw document)
+   * @param newSpec - The later specification (raw document)
+   * @returns All detected changes, each labelled by a rule
+   */
+  classify(oldSpec: object, newSpec: object): ClassifiedChange[] {
+    const oldDoc = asSpecObject(oldSpec)
+    const newDoc = asSpecObject(newSpec)
+    const changes: ClassifiedChange[] = []
+    const push = (rule: ChangeRuleId, message: string, target: { endpoint?: string; schema?: string } = {}) => {
+      changes.push({ rule, severity: CHANGE_RULES[rule].severity, message, ...target })
+    }
+
+    const oldPaths = asSpecObject(oldDoc.paths)
+    const newPaths = asSpecObject(newDoc.paths)
+    const allPaths = new Set([...Object.keys(oldPaths), ...Object.keys(newPaths)])
+
+    allPaths.forEach((path) => {
+      const oldItem = asSpecObject(oldPaths[path])
+      const newItem = asSpecObject(newPaths[path])
+
+      HTTP_METHODS.forEach((method) => {
+        const endpoint = `${method.toUpperCase()} ${path}`
+        const oldOp = oldItem[method]
+        const newOp = newItem[method]
+
+        if (oldOp && !newOp) {
+          push('endpoint-removed', `${endpoint} removed`, { endpoint })
+        } else if (!oldOp && newOp) {
+          push('endpoint-added', `${endpoint} added`, { endpoint })
+        } else if (isSpecObject(oldOp) && isSpecObject(newOp)) {
+          if (!oldOp.deprecated && newOp.deprecated) {
+            push('endpoint-deprecated', `${endpoint} deprecated`, { endpoint })
+          }
+          const ops = { oldSpec: oldDoc, newSpec: newDoc, oldItem, newItem, oldOp, newOp, endpoint }
+          this.compareOperation(ops, (rule, message) => push(rule, message, { endpoint }))
+        }
+      })
+    })
+
+    this.classifyEventOperations(oldDoc, newDoc, push)
+
+    const oldSchemas = this.componentSchemas(oldDoc)
+    const newSchemas = this.componentSchemas(newDoc)
+    Object.keys(oldSchemas).forEach((name) => {
+      if (!(name in newSchemas)) {
+        push('schema-removed', `Schema ${name} removed`, { schema: name })
+      } else if (JSON.stringify(oldSchemas[name]) !== JSON.stringify(newSchemas[name])) {
+        push('schema-modified', `Schema ${name} modified`, { schema: name })
+      }
+    })
+    Object.keys(newSchemas).forEach((name) => {
+      if (!(name in oldSchemas)) {
+        push('schema-added', `Schema ${name} added`, { schema: name })
+      }
+    })
+
+    return changes
+  }
+
+  /**
+   * Labels added and removed webhook and callback operations
+   * @description Only presence is classified: the API sends these requests, so the
+   * request/response rules would point the wrong way.
+   */
+  private classifyEventOperations(
+    oldSpec: SpecObject,
+    newSpec: SpecObject,
+    push: (rule: ChangeRuleId, message: string, target?: { endpoint?: string }) => void
+  ): void {
+    const compare = (
+      kind: 'webhook' | 'callback',
+      oldItems: Map<string, SpecObject>,
+      newItems: Map<string, SpecObject>
+    ) => {
+      const title = kind === 'webhook' ? 'Webhook' : 'Callback'
+      new Set([...oldItems.keys(), ...newItems.keys()]).forEach((key) => {
+        const oldMethods = operationMethods(oldItems.get(key) || {})
+        const newMethods = operationMethods(newItems.get(key) || {})
+        oldMethods.filter((m) => !newMethods.includes(m)).forEach((method) => {
+          const endpoint = `${method.toUpperCase()} ${key}`
+          push(`${kind}-removed`, `${title} ${endpoint} removed`, { endpoint })
+        })
+        newMethods.filter((m) => !oldMethods.includes(m)).forEach((method) => {
+          const endpoint = `${method.toUpperCase()} ${key}`
+          push(`${kind}-added`, `${title} ${endpoint} added`, { endpoint })
+        })
+      })
+    }
+
+    compare('webhook', webhookPathItems(oldSpec), webhookPathItems(newSpec))
+    const callbackItems = (spec: SpecObject) =>
+      new Map(callbackPathItems(spec).map((entry) => [callbackLabel(entry), entry.pathItem]))
+    compare('callback', callbackItems(oldSpec), callbackItems(newSpec))
+  }
+
+  /**
+   * Compares parameters, request body, responses and security of one operation
+   */
+  private compareOperation(ops: OperationPair, push: (rule: ChangeRuleId, message: string) => void): void {
+    const { oldSpec, newSpec, oldOp, newOp, endpoint } = ops
+    const seen = new Set<string>()
+
+    // Parameters (keyed by location + name)
+    const oldParams = this.collectParameters(oldSpec, ops.oldItem, oldOp)
+    const newParams = this.collectParameters(newSpec, ops.newItem, newOp)
+
+    oldParams.forEach((oldParam, key) => {
+      const label = `${oldParam.in} parameter '${oldParam.name}'`
+      const newParam = newParams.get(key)
+      if (!newParam) {
+        push('request-parameter-removed', `${endpoint}: ${label} removed`)
+        return
+      }
+      if (!oldParam.required && newParam.required) {
+        push('request-parameter-became-required', `${endpoint}: ${label} became required`)
+      } else if (oldParam.required && !newParam.required) {
+        push('request-parameter-became-optional', `${endpoint}: ${label} became optional`)
+      }
+      this.compareSchema(
+        oldSpec,
+        newSpec,
+        this.parameterSchema(oldParam),
+        this.parameterSchema(newParam),
+        { direction: 'request', endpoint, label, property: '', parameter: true, seen },
+        push
+      )
+    })
+    newParams.forEach((newParam, key) => {
+      if (oldParams.has(key)) return
+      const label = `${newParam.in} parameter '${newParam.name}'`
+      if (newParam.required) {
+        push('request-parameter-added-required', `${endpoint}: required ${label} added`)
+      } else {
+        push('request-parameter-added-optional', `${endpoint}: optional ${label} added`)
+      }
+    })
+
+    // Request body
+    const oldBody = this.requestBody(oldSpec, oldOp)
+    const newBody = this.requestBody(newSpec, newOp)
+    if (!oldBody && newBody) {
+      if (newBody.required) {
+        push('request-body-added-required', `${endpoint}: required request body added`)
+      } else {
+        push('request-body-added-optional', `${endpoint}: optional request body added`)
+      }
+    } else if (oldBody && !newBody) {
+      push('request-body-removed', `${endpoint}: request body removed`)
+    } else if (oldBody && newBody) {
+      if (!oldBody.required && newBody.required) {
+        push('request-body-became-required', `${endpoint}: request body became required`)
+      } else if (oldBody.required && !newBody.required) {
+        push('request-body-became-optional', `${endpoint}: request body became optional`)
+      }
+      this.compareContent(oldSpec, newSpec, oldBody.content, newBody.content, 'request', endpoint, 'request body', seen, push)
+    }
+
+    // Responses
+    const oldResponses = asSpecObject(oldOp.responses)
+    const newResponses = asSpecObject(newOp.responses)
+    Object.keys(oldResponses).forEach((status) => {
+      if (!(status in newResponses)) {
+        if (status.startsWith('2')) {
+          push('response-success-status-removed', `${endpoint}: ${status} response removed`)
+        } else {
+          push('response-status-removed', `${endpoint}: ${status} response removed`)
+        }
+        return
+      }
+      this.compareContent(
+        oldSpec,
+        newSpec,
+        this.responseContent(oldSpec, oldOp, oldResponses[status]),
+        this.responseContent(newSpec, newOp, newResponses[status]),
+        'response',
+        endpoint,
+        `${status} response`,
+        seen,
+        push
+      )
+    })
+    Object.keys(newResponses).forEach((status) => {
+      if (!(status in oldResponses)) {
+        push('response-status-added', `${endpoint}: ${status} response added`)
+      }
+    })
+
+    // Security (operation-level overrides document-level)
+    const oldSecurity = this.securityAlternatives(oldOp.security ?? oldSpec.security)
+    const newSecurity = this.securityAlternatives(newOp.security ?? newSpec.security)
+    // No requirements at all, or an empty `{}` alternative, both mean a caller may skip auth
+    const oldOptional = oldSecurity.length === 0 || oldSecurity.includes(NO_SECURITY)
+    const newOptional = newSecurity.length === 0 || newSecurity.includes(NO_SECURITY)
+    if (oldOptional && !newOptional) {
+      push('security-requirement-added', `${endpoint}: authentication now required (${newSecurity.join(' or ')})`)
+    } else if (!oldOptional && newOptional) {
+      push('security-requirement-removed', `${endpoint}: authentication no longer required`)
+    } else {
+      // Both optional or both required here, so "<none>" itself never changed sides
+      const schemes = (alternatives: string[]) => alternatives.filter((a) => a !== NO_SECURITY)
+      schemes(oldSecurity)
+        .filter((a) => !newSecurity.includes(a))
+        .forEach((alternative) => {
+          push('security-alternative-removed', `${endpoint}: security requirement ${alternative} removed`)
+        })
+      schemes(newSecurity)
+        .filter((a) => !oldSecurity.includes(a))
+        .forEach((alternative) => {
+          push('security-alternative-added', `${endpoint}: security requirement ${alternative} added`)
+        })
+    }
+  }
+
+  /**
+   * Compares media types of a request body or response and their schemas
+   */
+  private compareContent(
+    oldSpec: SpecObject,
+    newSpec: SpecObject,
+    oldContent: SpecObject,
+    newContent: SpecObject,
+    direction: 'request' | 'response',
+    endpoint: string,
+    label: string,
+    seen: Set<string>,
+    push: (rule: ChangeRuleId, message: string) => void
+  ): void {
+    Object.keys(oldContent).forEach((mediaType) => {
+      if (!(mediaType in newContent)) {
+        push(`${direction === 'request' ? 'request-body' : 'response'}-media-type-removed`, `${endpoint}: ${label} media type ${mediaType} removed`)
+        return
+      }
+      this.compareSchema(
+        oldSpec,
+        newSpec,
+        asSpecObject(oldContent[mediaType]).schema,
+        asSpecObject(newContent[mediaType]).schema,
+        { direction, endpoint, label: `${label} (${mediaType})`, property: '', parameter: false, seen },
+        push
+      )
+    })
+    Object.keys(newContent).forEach((mediaType) => {
+      if (!(mediaType in oldContent)) {
+        push(`${direction === 'request' ? 'request-body' : 'response'}-media-type-added`, `${endpoint}: ${label} media type ${mediaType} added`)
+      }
+    })
+  }
+
+  /**
+   * Recursively compares two schemas: types, enums, required lists and properties
+   */
+  private compareSchema(
+    oldSpec: SpecObject,
+    newSpec: SpecObject,
+    oldRaw: unknown,
+    newRaw: unknown,
+    parentCtx: SchemaContext,
+    push: (rule: ChangeRuleId, message: string) => void
+  ): void {
+    if (!isSpecObject(oldRaw) || !isSpecObject(newRaw)) return
+
+    // Recursive schemas: stop when a $ref pair is already being compared further up
+    let ctx = parentCtx
+    if (oldRaw.$ref || newRaw.$ref) {
+      const pair = `${oldRaw.$ref || ''}->${newRaw.$ref || ''}`
+      if (ctx.seen.has(pair)) return
+      ctx = { ...ctx, seen: new Set([...ctx.seen, pair]) }
+    }
+
+    const oldSchema = this.flattenSchema(oldSpec, oldRaw)
+    const newSchema = this.flattenSchema(newSpec, newRaw)
+    const where = ctx.property ? `${ctx.label} property '${ctx.property}'` : ctx.label
+    let prefix = ctx.parameter && !ctx.property ? 'request-parameter' : 'request-property'
+    if (ctx.direction === 'response') prefix = 'response-property'
+
+    // Types
+    const oldTypes = this.typesOf(oldSchema)
+    const newTypes = this.typesOf(newSchema)
+    if (oldTypes && newTypes && oldTypes.join() !== newTypes.join()) {
+      const change = `${where} type changed (${oldTypes.join('|')} → ${newTypes.join('|')})`
+      if (ctx.direction === 'request') {
+        const widened = oldTypes.every((type) => this.coversType(newTypes, type))
+        push(widened ? `${prefix}-type-widened` as ChangeRuleId : `${prefix}-type-changed` as ChangeRuleId, `${ctx.endpoint}: ${change}`)
+      } else {
+        const narrowed = newTypes.every((type) => this.coversType(oldTypes, type))
+        push(narrowed ? 'response-property-type-narrowed' : 'response-property-type-changed', `${ctx.endpoint}: ${change}`)
+      }
+    }
+
+    // Enums
+    if (Array.isArray(oldSchema.enum) && Array.isArray(newSchema.enum)) {
+      const oldValues = oldSchema.enum.map((value) => JSON.stringify(value))
+      const newValues = newSchema.enum.map((value) => JSON.stringify(value))
+      oldValues
+        .filter((v) => !newValues.includes(v))
+        .forEach((value) => {
+          push(`${prefix}-enum-value-removed` as ChangeRuleId, `${ctx.endpoint}: ${where} enum value ${value} removed`)
+        })
+      newValues
+        .filter((v) => !oldValues.includes(v))
+        .forEach((value) => {
+          push(`${prefix}-enum-value-added` as ChangeRuleId, `${ctx.endpoint}: ${where} enum value ${value} added`)
+        })
+    }
+
+    // oneOf/anyOf are too clever for simple rules
+    COMPOSITION_KEYWORDS.forEach((key) => {
+      if ((oldSchema[key] || newSchema[key]) && JSON.stringify(oldSchema[key]) !== JSON.stringify(newSchema[key])) {
+        push('schema-composition-changed', `${ctx.endpoint}: ${where} ${key} changed`)
+      }
+    })
+
+    // Properties and required lists
+    const oldProps = asSpecObject(oldSchema.properties)
+    const newProps = asSpecObject(newSchema.properties)
+    const oldRequired = new Set(listOf(oldSchema.required))
+    const newRequired = new Set(listOf(newSchema.required))
+    const child = (name: string) => (ctx.property ? `${ctx.property}.${name}` : name)
+    const childWhere = (name: string) => `${ctx.label} property '${child(name)}'`
+
+    Object.keys(oldProps).forEach((name) => {
+      if (!(name in newProps)) {
+        push(
+          ctx.direction === 'request' ? 'request-property-removed' : 'response-property-removed',
+          `${ctx.endpoint}: ${childWhere(name)} removed`
+        )
+        return
+      }
+
+      if (!oldRequired.has(name) && newRequired.has(name)) {
+        push(
+          ctx.direction === 'request' ? 'request-property-became-required' : 'response-property-became-required',
+          `${ctx.endpoint}: ${childWhere(name)} became required`
+        )
+      } else if (oldRequired.has(name) && !newRequired.has(name)) {
+        push(
+          ctx.direction === 'request' ? 'request-property-became-optional' : 'response-property-became-optional',
+          `${ctx.endpoint}: ${childWhere(name)} became optional`
+        )
+      }
+
+      this.compareSchema(oldSpec, newSpec, oldProps[name], newProps[name], { ...ctx, property: child(name) }, push)
+    })
+    Object.keys(newProps).forEach((name) => {
+      if (name in oldProps) return
+      if (ctx.direction === 'response') {
+        push('response-property-added', `${ctx.endpoint}: ${childWhere(name)} added`)
+      } else if (newRequired.has(name)) {
+        push('request-property-added-required', `${ctx.endpoint}: required ${childWhere(name)} added`)
+      } else {
+        push('request-property-added-optional', `${ctx.endpoint}: optional ${childWhere(name)} added`)
+      }
+    })
+
+    // Array items
+    if (oldSchema.items && newSchema.items) {
+      this.compareSchema(oldSpec, newSpec, oldSchema.items, newSchema.items, { ...ctx, property: `${ctx.property}[]` }, push)
+    }
+  }
+
+  /**
+   * Resolves $refs and merges allOf members into a single schema
+   */
+  private flattenSchema(spec: SpecObject, schema: unknown, depth = 0): SpecObject {
+    const resolved = asSpecObject(this.resolve(spec, schema))
+    const { allOf, ...rest } = resolved
+    if (!Array.isArray(allOf) || depth > 10) {
+      return resolved
+    }
+
+    const merged: SpecObject = { ...rest }
+    allOf.forEach((member) => {
+      const flat = this.flattenSchema(spec, member, depth + 1)
+      if (flat.type && !merged.type) merged.type = flat.type
+      if (isSpecObject(flat.properties)) merged.properties = { ...flat.properties, ...asSpecObject(merged.properties) }
+      if (Array.isArray(flat.required)) merged.required = [...new Set([...listOf(merged.required), ...flat.required])]
+      if (flat.enum && !merged.enum) merged.enum = flat.enum
+    })
+    return merged
+  }
+
+  /**
+   * Normalized, sorted list of types a schema allows (undefined if it doesn't say)
+   */
+  private typesOf(schema: SpecObject): string[] | undefined {
+    let types: string[] | undefined
+    if (Array.isArray(schema.type)) {
+      types = schema.type.map(String)
+    } else if (typeof schema.type === 'string') {
+      types = [schema.type]
+    } else if (schema.properties) {
+      types = ['object']
+    }
+    if (types && schema.nullable === true && !types.includes('null')) {
+      types.push('null')
+    }
+    return types?.sort()
+  }
+
+  /**
+   * Whether a type list accepts a type (number accepts integer)
+   */
+  private coversType(types: string[], type: string): boolean {
+    return types.includes(type) || (type === 'integer' && types.includes('number'))
+  }
+
+  /**
+   * Path + operation parameters (operation wins), keyed by `in:name`; body params excluded
+   */
+  private collectParameters(spec: SpecObject, pathItem: SpecObject, operation: SpecObject): Map<string, SpecObject> {
+    const params = new Map<string, SpecObject>()
+    const declared = [...listOf(pathItem.parameters), ...listOf(operation.parameters)]
+    declared.forEach((raw) => {
+      const param = this.resolve(spec, raw)
+      if (!isSpecObject(param) || !param.name || param.in === 'body') return
+      params.set(`${param.in}:${param.name}`, { ...param, required: param.in === 'path' || !!param.required })
+    })
+    return params
+  }
+
+  /**
+   * Schema of a parameter (3.x schema/content or 2.0 inline keywords)
+   */
+  private parameterSchema(param: SpecObject): unknown {
+    if (param.schema) return param.schema
+    if (isSpecObject(param.content)) {
+      const [media] = Object.values(param.content)
+      return asSpecObject(media).schema
+    }
+    const { type, format, items, enum: values } = param
+    return type ? { type, format, items, enum: values } : undefined
+  }
+
+  /**
+   * Request body of an operation (3.x requestBody or 2.0 body parameter)
+   */
+  private requestBody(spec: SpecObject, operation: SpecObject): NormalizedBody | undefined {
+    if (operation.requestBody) {
+      const body = asSpecObject(this.resolve(spec, operation.requestBody))
+      return { required: !!body.required, content: asSpecObject(body.content) }
+    }
+
+    const bodyParam = listOf(operation.parameters)
+      .map((p) => this.resolve(spec, p))
+      .find((p): p is SpecObject => isSpecObject(p) && p.in === 'body')
+    if (!bodyParam) return undefined
+
+    const consumes = mediaTypesOf(operation.consumes, spec.consumes)
+    return {
+      required: !!bodyParam.required,
+      content: Object.fromEntries(consumes.map((mediaType) => [mediaType, { schema: bodyParam.schema }])),
+    }
+  }
+
+  /**
+   * Content map of a response (3.x content or 2.0 schema)
+   */
+  private responseContent(spec: SpecObject, operation: SpecObject, raw: unknown): SpecObject {
+    const response = asSpecObject(this.resolve(spec, raw))
+    if (response.content) return asSpecObject(response.content)
+    if (!response.schema) return {}
+
+    const produces = mediaTypesOf(operation.produces, spec.produces)
+    return Object.fromEntries(produces.map((mediaType) => [mediaType, { schema: response.schema }]))
+  }
+
+  /**
+   * Security requirement alternatives as comparable strings (`{}` becomes NO_SECURITY)
+   */
+  private securityAlternatives(security: unknown): string[] {
+    return listOf(security)
+      .filter(isSpecObject)
+      .map((requirement) =>
+        Object.keys(requirement).length === 0
+          ? NO_SECURITY
+          : Object.keys(requirement)
+              .sort()
+              .map((name) => {
+                const scopes = listOf(requirement[name]).map(String).sort()
+                return scopes.length > 0 ? `${name}[${scopes.join(',')}]` : name
+              })
+              .join('+')
+      )
+  }
+
+  /**
+   * Component schemas (3.x components.schemas or 2.0 definitions)
+   */
+  private componentSchemas(spec: SpecObject): SpecObject {
+    return asSpecObject(asSpecObject(spec.components).schemas || spec.definitions)
+  }
+
+  /**
+   * Resolves a local $ref (follows chains, gives up on external refs)
+   */
+  private resolve(spec: SpecObject, value: unknown, depth = 0): unknown {
+    if (!isSpecObject(value) || typeof value.$ref !== 'string') return value
+    if (!value.$ref.startsWith('#/') || depth > 10) return {}
+
+    return this.resolve(spec, resolveLocalRef(spec, value), depth + 1)
+  }
+}
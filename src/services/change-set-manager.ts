@@ -0,0 +1,398 @@
+/**
+ * Change Set Manager Service
+ *
+ * @description Groups several tool calls on one spec version into a transaction. `begin`
+ * hands out a transaction id; tool calls carrying that id edit an in-memory working copy;
+ * `commit` validates and saves it in one go with a single audit event; `rollback` throws it
+ * all away. Because a five-step refactor that dies at step four should leave nothing behind. 🧾
+ *
+ * @module services/change-set-manager
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+import SwaggerParser from '@apidevtools/swagger-parser'
+import type { OpenAPI } from 'openapi-types'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { AuditEvent } from '../types/metadata.js'
+import type { BaseTool, BaseToolParams, ToolDescription, ToolResult } from '../types/mcp-tool.js'
+import type { SpecManager } from './spec-manager.js'
+import type { AuditLogger } from './audit-logger.js'
+import { createToolError, createValidationError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * An open change set
+ * @description The working copy plus everything the tools said they did to it
+ */
+export interface ChangeSet {
+  /** Transaction id handed to the tools */
+  id: string
+  /** API being edited */
+  api_id: ApiId
+  /** Version being edited */
+  version: VersionTag
+  /** When the change set was opened */
+  created_at: string
+  /** When a tool last touched the change set */
+  updated_at: string
+  /** Why the change set was opened */
+  llm_reason?: string
+  /** Working copy of the spec */
+  spec: Record<string, unknown>
+  /** The stored spec as it was at `begin`, serialized (to detect concurrent edits) */
+  base: string
+  /** Audit events recorded by the tools, logged as one event on commit */
+  events: AuditEvent[]
+}
+
+/**
+ * What a change set looks like from the outside (no spec, no snapshot)
+ */
+export interface ChangeSetSummary {
+  transaction_id: string
+  api_id: ApiId
+  version: VersionTag
+  created_at: string
+  updated_at: string
+  llm_reason?: string
+  operation_count: number
+  operations: Array<{ event: string; timestamp: string; llm_reason?: string }>
+}
+
+/**
+ * Change set manager options
+ */
+export interface ChangeSetManagerOptions {
+  /** Discard change sets nobody touched for this long (default: 30 minutes) */
+  ttlMs?: number
+}
+
+/**
+ * Tools that may run inside a change set
+ * @description Tools that only read or edit the spec document. version_control and
+ * spec_import create versions and files of their own, which a working copy can't hold.
+ */
+export const CHANGE_SET_TOOLS = [
+  'spec_read',
+  'spec_validate',
+  'metadata_update',
+  'schema_manage',
+  'endpoint_manage',
+  'parameters_configure',
+  'responses_configure',
+  'security_configure',
+  'references_manage',
+  'spec_patch',
+  'tags_manage',
+  'servers_configure',
+  'request_body_configure',
+  'webhooks_manage',
+  'callbacks_manage',
+  'components_manage',
+]
+
+/**
+ * JSON schema of the transactionId parameter, added to the tools in CHANGE_SET_TOOLS
+ */
+export const TRANSACTION_ID_PROPERTY = {
+  type: 'string',
+  description: 'Change set id from change_set begin: edit the working copy instead of the stored spec',
+}
+
+const context = new AsyncLocalStorage<ChangeSet>()
+
+/**
+ * The change set the current tool call runs in, if any
+ * @description SpecManager and AuditLogger ask this to redirect loads, saves and audit events
+ */
+export function activeChangeSet(): ChangeSet | undefined {
+  return context.getStore()
+}
+
+/**
+ * Runs a function as if no change set were active
+ * @description For reading other specs (cross-spec refs) from inside a change set - SpecManager
+ * refuses anything but the change set's own spec there, which is right for edits only.
+ */
+export function outsideChangeSet<T>(fn: () => Promise<T>): Promise<T> {
+  return context.exit(fn)
+}
+
+/**
+ * Adds the transactionId property to a tool's JSON schema
+ * @description Handles plain objects, anyOf/oneOf unions and zod-to-json-schema `$ref` wrappers
+ */
+function addTransactionProperty(schema: SpecObject, root: SpecObject): void {
+  if (typeof schema.$ref === 'string') {
+    const name = schema.$ref.split('/').pop() as string
+    const target = asSpecObject(root.definitions)[name] || asSpecObject(root.$defs)[name]
+    if (isSpecObject(target) && target !== schema) addTransactionProperty(target, root)
+    return
+  }
+  const branches = [schema.anyOf, schema.oneOf].flatMap((list) => (Array.isArray(list) ? list : []))
+  branches.filter(isSpecObject).forEach((branch) => addTransactionProperty(branch, root))
+  const { properties } = schema
+  if (isSpecObject(properties)) {
+    properties.transactionId = TRANSACTION_ID_PROPERTY
+  }
+}
+
+/**
+ * Change Set Manager
+ * @description Keeps open change sets in memory. A server restart is an implicit rollback.
+ */
+export class ChangeSetManager {
+  private changeSets = new Map<string, ChangeSet>()
+  private queues = new Map<string, Promise<unknown>>()
+  private ttlMs: number
+
+  constructor(
+    private specManager: SpecManager,
+    private auditLogger: AuditLogger,
+    options: ChangeSetManagerOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000
+  }
+
+  /**
+   * Opens a change set on a spec version
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param llmReason - Why the changes are being made
+   * @returns The new change set
+   * @throws StorageError if the spec doesn't exist
+   * @throws ToolError if the version is no longer a draft (no point editing what can't be committed)
+   */
+  async begin(apiId: ApiId, version: VersionTag, llmReason?: string): Promise<ChangeSet> {
+    this.expire()
+    await this.specManager.assertVersionMutable(apiId, version)
+
+    const doc = await this.specManager.loadSpec(apiId, version)
+    const spec = structuredClone(asSpecObject(doc.spec))
+    const now = new Date().toISOString()
+    const changeSet: ChangeSet = {
+      id: randomUUID(),
+      api_id: apiId,
+      version,
+      created_at: now,
+      updated_at: now,
+      llm_reason: llmReason,
+      spec,
+      base: JSON.stringify(spec),
+      events: [],
+    }
+    this.changeSets.set(changeSet.id, changeSet)
+
+    logger.info({ transactionId: changeSet.id, apiId, version }, 'Change set opened')
+    return changeSet
+  }
+
+  /**
+   * Gets an open change set
+   * @throws ToolError if there is no such change set (never opened, committed, rolled back or expired)
+   */
+  get(id: string): ChangeSet {
+    this.expire()
+    const changeSet = this.changeSets.get(id)
+    if (!changeSet) {
+      throw createToolError(`Change set ${id} not found (committed, rolled back or expired?)`, 'change_set', {
+        transactionId: id,
+      })
+    }
+    return changeSet
+  }
+
+  /**
+   * Lists open change sets
+   */
+  list(): ChangeSet[] {
+    this.expire()
+    return [...this.changeSets.values()]
+  }
+
+  /**
+   * Summary of a change set for tool output
+   */
+  summarize(changeSet: ChangeSet): ChangeSetSummary {
+    return {
+      transaction_id: changeSet.id,
+      api_id: changeSet.api_id,
+      version: changeSet.version,
+      created_at: changeSet.created_at,
+      updated_at: changeSet.updated_at,
+      llm_reason: changeSet.llm_reason,
+      operation_count: changeSet.events.length,
+      operations: changeSet.events.map((event) => ({
+        event: event.event,
+        timestamp: event.timestamp,
+        llm_reason: event.llm_reason,
+      })),
+    }
+  }
+
+  /**
+   * Describes a tool, adding the transactionId parameter if it can run in a change set
+   */
+  describe(tool: BaseTool): ToolDescription {
+    const desc = tool.describe()
+    if (!CHANGE_SET_TOOLS.includes(desc.name)) {
+      return desc
+    }
+    const inputSchema = asSpecObject(structuredClone(desc.inputSchema))
+    addTransactionProperty(inputSchema, inputSchema)
+    return { ...desc, inputSchema }
+  }
+
+  /**
+   * Executes a tool, inside a change set if the params carry a transactionId
+   * @param tool - Tool to run
+   * @param params - Tool params (transactionId is removed before the tool sees them)
+   * @returns The tool's result
+   * @throws ToolError if the tool can't run in a change set or targets another spec
+   */
+  async execute(tool: BaseTool, params: BaseToolParams & Record<string, unknown>): Promise<ToolResult> {
+    const { name } = tool.describe()
+    if (!params?.transactionId || !CHANGE_SET_TOOLS.includes(name)) {
+      if (params?.transactionId && name !== 'change_set') {
+        throw createToolError(`Tool ${name} cannot run inside a change set`, name, params)
+      }
+      return tool.execute(params)
+    }
+
+    const { transactionId, ...toolParams } = params
+    const changeSet = this.get(String(transactionId))
+    if (toolParams.apiId !== changeSet.api_id || toolParams.version !== changeSet.version) {
+      throw createToolError(
+        `Change set ${changeSet.id} covers ${changeSet.api_id} ${changeSet.version}, not ${toolParams.apiId} ${toolParams.version}`,
+        name,
+        params
+      )
+    }
+
+    return this.run(changeSet, () =>
+      context.run(changeSet, async () => {
+        const result = await tool.execute(toolParams)
+        changeSet.updated_at = new Date().toISOString()
+        return result
+      })
+    )
+  }
+
+  /**
+   * Validates the working copy and saves it with one aggregated audit event
+   * @param id - Transaction id
+   * @param llmReason - Overrides the reason given at `begin`
+   * @returns Summary of what was committed
+   * @throws ToolError if the stored spec changed since `begin` (the change set stays open)
+   * @throws ValidationError if the working copy isn't a valid spec (the change set stays open)
+   */
+  async commit(id: string, llmReason?: string): Promise<ChangeSetSummary> {
+    const changeSet = this.get(id)
+
+    return this.run(changeSet, async () => {
+      const { api_id: apiId, version } = changeSet
+
+      // Step 1: Nobody else touched the stored spec meanwhile
+      const current = await this.specManager.loadSpec(apiId, version)
+      if (JSON.stringify(current.spec) !== changeSet.base) {
+        throw createToolError(
+          `Spec ${apiId} ${version} was changed outside change set ${id} - roll back and start over`,
+          'change_set',
+          { transactionId: id }
+        )
+      }
+
+      // Step 2: The end result must be a valid spec (intermediate steps needn't be)
+      try {
+        await SwaggerParser.validate(structuredClone(changeSet.spec) as OpenAPI.Document)
+      } catch (error) {
+        throw createValidationError(
+          `Change set ${id} produces an invalid spec: ${(error as Error).message}`,
+          'spec',
+          'valid OpenAPI document'
+        )
+      }
+
+      // Step 3: One save, one audit event
+      const summary = this.summarize(changeSet)
+      const edit = await this.specManager.saveSpec(apiId, version, changeSet.spec)
+      await this.auditLogger.logEvent({
+        api_id: apiId,
+        version,
+        event: 'change_set_committed',
+        user: 'mcp-tool',
+        timestamp: new Date().toISOString(),
+        llm_reason: llmReason || changeSet.llm_reason,
+        details: {
+          transaction_id: id,
+          operation_count: changeSet.events.length,
+          operations: changeSet.events.map((event) => ({
+            event: event.event,
+            llm_reason: event.llm_reason,
+            details: event.details,
+            timestamp: event.timestamp,
+          })),
+          ...edit,
+        },
+      })
+
+      this.discard(id)
+      logger.info({ transactionId: id, apiId, version, operations: summary.operation_count }, 'Change set committed')
+      return summary
+    })
+  }
+
+  /**
+   * Discards a change set and everything done in it
+   * @param id - Transaction id
+   * @returns Summary of what was thrown away
+   */
+  async rollback(id: string): Promise<ChangeSetSummary> {
+    const changeSet = this.get(id)
+
+    return this.run(changeSet, async () => {
+      this.discard(id)
+      logger.info({ transactionId: id, operations: changeSet.events.length }, 'Change set rolled back')
+      return this.summarize(changeSet)
+    })
+  }
+
+  /**
+   * Runs work on a change set after everything queued before it (one tool call at a time)
+   */
+  private run<T>(changeSet: ChangeSet, work: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(changeSet.id) || Promise.resolve()
+    const next = previous.then(() => {
+      if (!this.changeSets.has(changeSet.id)) {
+        throw createToolError(`Change set ${changeSet.id} is no longer open`, 'change_set', {
+          transactionId: changeSet.id,
+        })
+      }
+      return work()
+    })
+    this.queues.set(
+      changeSet.id,
+      next.catch(() => undefined)
+    )
+    return next
+  }
+
+  private discard(id: string): void {
+    this.changeSets.delete(id)
+    this.queues.delete(id)
+  }
+
+  /**
+   * Drops change sets that sat idle past the TTL
+   */
+  private expire(): void {
+    const cutoff = Date.now() - this.ttlMs
+    const expired = [...this.changeSets.values()].filter((changeSet) => new Date(changeSet.updated_at).getTime() < cutoff)
+    expired.forEach((changeSet) => {
+      this.discard(changeSet.id)
+      logger.warn({ transactionId: changeSet.id }, 'Change set expired')
+    })
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Changelog Generator Service
+ *
+ * @description Turns a diff between two versions plus the audit trail into release notes.
+ * Breaking changes first, grouped by tag or endpoint, annotated with the reasons recorded
+ * when the changes were made. Because nobody enjoys writing release notes by hand. 📝
+ *
+ * @module services/changelog-generator
+ */
+
+import { asSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { AuditEvent, ChangeSeverity, ClassifiedChange } from '../types/metadata.js'
+import type { SpecManager } from './spec-manager.js'
+import type { VersionManager } from './version-manager.js'
+import type { DiffCalculator } from './diff-calculator.js'
+import type { AuditLogger } from './audit-logger.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Output formats
+ */
+export type ChangelogFormat = 'markdown' | 'html' | 'json'
+
+/**
+ * How changes are grouped
+ */
+export type ChangelogGrouping = 'tag' | 'endpoint'
+
+/**
+ * A single changelog line
+ */
+export interface ChangelogEntry {
+  /** Breaking-change rule id */
+  rule: string
+  /** Severity assigned by the rule */
+  severity: ChangeSeverity
+  /** Human-readable description */
+  message: string
+  /** Affected operation, if any */
+  endpoint?: string
+  /** Affected component schema, if any */
+  schema?: string
+  /** llm_reason annotations from audit events touching the same endpoint/schema */
+  reasons: string[]
+}
+
+/**
+ * Entries sharing a tag or endpoint
+ */
+export interface ChangelogGroup {
+  /** Group heading (tag name, endpoint, or 'Schemas') */
+  title: string
+  entries: ChangelogEntry[]
+}
+
+/**
+ * Audit note that could not be tied to a specific change
+ */
+export interface ChangelogNote {
+  timestamp: string
+  event: string
+  version?: VersionTag
+  reason: string
+}
+
+/**
+ * Structured changelog (the JSON format)
+ */
+export interface Changelog {
+  apiId: ApiId
+  title: string
+  fromVersion: VersionTag
+  toVersion: VersionTag
+  generatedAt: string
+  groupBy: ChangelogGrouping
+  summary: {
+    breaking: number
+    nonBreaking: number
+    unclassified: number
+  }
+  /** Breaking changes, grouped */
+  breaking: ChangelogGroup[]
+  /** Non-breaking and unclassified changes, grouped */
+  changes: ChangelogGroup[]
+  /** Other reasons recorded for the versions in range */
+  notes: ChangelogNote[]
+}
+
+/**
+ * Generated changelog in the requested format
+ */
+export interface GeneratedChangelog {
+  format: ChangelogFormat
+  /** Rendered output (Markdown, HTML or pretty-printed JSON) */
+  content: string
+  changelog: Changelog
+}
+
+/**
+ * Group heading for component schema changes
+ */
+const SCHEMAS_GROUP = 'Schemas'
+
+/**
+ * Group heading for untagged operations
+ */
+const UNTAGGED_GROUP = 'Other'
+
+/**
+ * Changelog Generator Service
+ * @description The release-notes ghostwriter. Reads the diff, reads the audit log, writes prose.
+ */
+export class ChangelogGenerator {
+  private specManager: SpecManager
+  private versionManager: VersionManager
+  private diffCalculator: DiffCalculator
+  private auditLogger: AuditLogger
+
+  /**
+   * Creates a new changelog generator
+   * @param specManager - Loads the two specs
+   * @param versionManager - Resolves the version lineage for audit annotations
+   * @param diffCalculator - Produces the classified changes
+   * @param auditLogger - Source of llm_reason annotations
+   */
+  constructor(
+    specManager: SpecManager,
+    versionManager: VersionManager,
+    diffCalculator: DiffCalculator,
+    auditLogger: AuditLogger
+  ) {
+    this.specManager = specManager
+    this.versionManager = versionManager
+    this.diffCalculator = diffCalculator
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Generates a changelog between two versions
+   * @param apiId - API identifier
+   * @param fromVersion - Earlier version
+   * @param toVersion - Later version
+   * @param format - Output format (default: markdown)
+   * @param groupBy - Group by operation tag or endpoint (default: tag)
+   * @returns Rendered changelog plus its structured form
+   */
+  async generate(
+    apiId: ApiId,
+    fromVersion: VersionTag,
+    toVersion: VersionTag,
+    format: ChangelogFormat = 'markdown',
+    groupBy: ChangelogGrouping = 'tag'
+  ): Promise<GeneratedChangelog> {
+    const oldDoc = await this.specManager.loadSpec(apiId, fromVersion)
+    const newDoc = await this.specManager.loadSpec(apiId, toVersion)
+    const oldSpec = asSpecObject(oldDoc.spec)
+    const newSpec = asSpecObject(newDoc.spec)
+
+    const diff = this.diffCalculator.calculateDiff(oldDoc, newDoc)
+    const events = await this.collectEvents(apiId, fromVersion, toVersion)
+
+    const usedEvents = new Set<AuditEvent>()
+    const entries = diff.classified_changes.map((change) => this.toEntry(change, events, usedEvents))
+
+    const tagsOf = (endpoint: string) => this.operationTags(newSpec, endpoint) || this.operationTags(oldSpec, endpoint)
+    const group = (list: ChangelogEntry[]) => this.groupEntries(list, groupBy, tagsOf)
+
+    const changelog: Changelog = {
+      apiId,
+      title: String(asSpecObject(newSpec.info).title || asSpecObject(oldSpec.info).title || apiId),
+      fromVersion,
+      toVersion,
+      generatedAt: new Date().toISOString(),
+      groupBy,
+      summary: {
+        breaking: entries.filter((e) => e.severity === 'breaking').length,
+        nonBreaking: entries.filter((e) => e.severity === 'non-breaking').length,
+        unclassified: entries.filter((e) => e.severity === 'unclassified').length,
+      },
+      breaking: group(entries.filter((e) => e.severity === 'breaking')),
+      changes: group(entries.filter((e) => e.severity !== 'breaking')),
+      notes: events
+        .filter((event) => event.llm_reason && !usedEvents.has(event))
+        .map((event) => ({
+          timestamp: event.timestamp,
+          event: event.event,
+          version: event.version,
+          reason: event.llm_reason as string,
+        })),
+    }
+
+    logger.info({ apiId, fromVersion, toVersion, format, summary: changelog.summary }, 'Changelog generated')
+
+    return { format, content: this.render(changelog, format), changelog }
+  }
+
+  /**
+   * Renders a structured changelog
+   * @param changelog - Structured changelog
+   * @param format - Output format
+   * @returns Markdown, HTML or JSON text
+   */
+  render(changelog: Changelog, format: ChangelogFormat): string {
+    switch (format) {
+      case 'html':
+        return this.renderHtml(changelog)
+      case 'json':
+        return JSON.stringify(changelog, null, 2)
+      case 'markdown':
+      default:
+        return this.renderMarkdown(changelog)
+    }
+  }
+
+  /**
+   * Audit events for the versions between fromVersion (exclusive) and toVersion (inclusive)
+   * @description Follows parent_version links back from toVersion. If fromVersion isn't an
+   * ancestor we only have toVersion's own events to go on.
+   */
+  private async collectEvents(apiId: ApiId, fromVersion: VersionTag, toVersion: VersionTag): Promise<AuditEvent[]> {
+    const versions = (await this.lineage(apiId, toVersion, fromVersion)) ?? [toVersion]
+    try {
+      const log = await this.auditLogger.getAuditLog(apiId)
+      return log.filter((event) => event.version && versions.includes(event.version))
+    } catch (error) {
+      logger.warn({ apiId, error }, 'Audit log unavailable for changelog')
+      return []
+    }
+  }
+
+  /**
+   * A version and its ancestors, up to (not including) fromVersion
+   * @returns undefined if fromVersion isn't an ancestor
+   */
+  private async lineage(
+    apiId: ApiId,
+    version: VersionTag | null,
+    fromVersion: VersionTag,
+    seen: VersionTag[] = []
+  ): Promise<VersionTag[] | undefined> {
+    if (version === fromVersion) return seen
+    if (!version || seen.includes(version)) return undefined
+    const parent = await this.versionManager.getVersionMetadata(apiId, version).then(
+      (metadata) => metadata.parent_version,
+      () => null
+    )
+    return this.lineage(apiId, parent, fromVersion, [...seen, version])
+  }
+
+  /**
+   * Builds an entry and attaches reasons from matching audit events
+   */
+  private toEntry(change: ClassifiedChange, events: AuditEvent[], usedEvents: Set<AuditEvent>): ChangelogEntry {
+    const matching = events.filter((event) => event.llm_reason && this.eventMatches(event, change))
+    matching.forEach((event) => usedEvents.add(event))
+
+    return {
+      ...change,
+      reasons: [...new Set(matching.map((event) => event.llm_reason as string))],
+    }
+  }
+
+  /**
+   * Whether an audit event touched the endpoint or schema of a change
+   */
+  private eventMatches(event: AuditEvent, change: ClassifiedChange): boolean {
+    const details = event.details || {}
+    if (change.endpoint && typeof details.path === 'string' && typeof details.method === 'string') {
+      return change.endpoint === `${details.method.toUpperCase()} ${details.path}`
+    }
+    if (change.schema && typeof details.schemaName === 'string') {
+      return change.schema === details.schemaName
+    }
+    return false
+  }
+
+  /**
+   * Tags of an operation, looked up by 'METHOD /path'
+   */
+  private operationTags(spec: SpecObject, endpoint: string): string[] | undefined {
+    const [method, ...pathParts] = endpoint.split(' ')
+    const { tags } = asSpecObject(asSpecObject(asSpecObject(spec.paths)[pathParts.join(' ')])[method.toLowerCase()])
+    return Array.isArray(tags) && tags.length > 0 ? tags : undefined
+  }
+
+  /**
+   * Groups entries by tag (first tag wins) or endpoint, schemas last
+   */
+  private groupEntries(
+    entries: ChangelogEntry[],
+    groupBy: ChangelogGrouping,
+    tagsOf: (endpoint: string) => string[] | undefined
+  ): ChangelogGroup[] {
+    const groups = new Map<string, ChangelogEntry[]>()
+
+    entries.forEach((entry) => {
+      let title = SCHEMAS_GROUP
+      if (entry.endpoint) {
+        title = groupBy === 'endpoint' ? entry.endpoint : tagsOf(entry.endpoint)?.[0] || UNTAGGED_GROUP
+      }
+      groups.set(title, [...(groups.get(title) || []), entry])
+    })
+
+    const rank = (title: string) => {
+      if (title === SCHEMAS_GROUP) return 2
+      if (title === UNTAGGED_GROUP) return 1
+      return 0
+    }
+
+    return [...groups.entries()]
+      .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+      .map(([title, list]) => ({ title, entries: list }))
+  }
+
+  /**
+   * Markdown rendering
+   */
+  private renderMarkdown(changelog: Changelog): string {
+    const { summary } = changelog
+    const lines: string[] = [
+      `# ${changelog.title}: ${changelog.fromVersion} → ${changelog.toVersion}`,
+      '',
+      `_Generated ${changelog.generatedAt}_`,
+      '',
+      `**${summary.breaking} breaking** · ${summary.nonBreaking} non-breaking · ${summary.unclassified} unclassified`,
+      '',
+    ]
+
+    const section = (heading: string, groups: ChangelogGroup[]) => {
+      if (groups.length === 0) return
+      lines.push(`## ${heading}`, '')
+      groups.forEach((group) => {
+        lines.push(`### ${group.title}`, '')
+        group.entries.forEach((entry) => {
+          const label = entry.severity === 'unclassified' ? ' _(needs review)_' : ''
+          lines.push(`- ${entry.message}${label} \`${entry.rule}\``)
+          entry.reasons.forEach((reason) => lines.push(`  - 💬 ${reason}`))
+        })
+        lines.push('')
+      })
+    }
+
+    section('⚠️ Breaking Changes', changelog.breaking)
+    section('Changes', changelog.changes)
+
+    if (changelog.breaking.length === 0 && changelog.changes.length === 0) {
+      lines.push('No changes.', '')
+    }
+
+    if (changelog.notes.length > 0) {
+      lines.push('## Notes', '')
+      changelog.notes.forEach((note) => {
+        lines.push(`- ${note.timestamp.slice(0, 10)} \`${note.event}\`${note.version ? ` (${note.version})` : ''}: ${note.reason}`)
+      })
+      lines.push('')
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * HTML rendering (a self-contained fragment, no styles)
+   */
+  private renderHtml(changelog: Changelog): string {
+    const esc = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    const { summary } = changelog
+    const parts: string[] = [
+      '<article class="changelog">',
+      `  <h1>${esc(changelog.title)}: ${esc(changelog.fromVersion)} → ${esc(changelog.toVersion)}</h1>`,
+      `  <p class="changelog-generated">Generated ${esc(changelog.generatedAt)}</p>`,
+      `  <p class="changelog-summary"><strong>${summary.breaking} breaking</strong> · ${summary.nonBreaking} non-breaking · ${summary.unclassified} unclassified</p>`,
+    ]
+
+    const section = (heading: string, className: string, groups: ChangelogGroup[]) => {
+      if (groups.length === 0) return
+      parts.push(`  <section class="${className}">`, `    <h2>${esc(heading)}</h2>`)
+      groups.forEach((group) => {
+        parts.push(`    <h3>${esc(group.title)}</h3>`, '    <ul>')
+        group.entries.forEach((entry) => {
+          const reasons = entry.reasons.length
+            ? `<ul class="changelog-reasons">${entry.reasons.map((r) => `<li>${esc(r)}</li>`).join('')}</ul>`
+            : ''
+          parts.push(
+            `      <li class="change-${entry.severity}">${esc(entry.message)} <code>${esc(entry.rule)}</code>${reasons}</li>`
+          )
+        })
+        parts.push('    </ul>')
+      })
+      parts.push('  </section>')
+    }
+
+    section('Breaking Changes', 'changelog-breaking', changelog.breaking)
+    section('Changes', 'changelog-changes', changelog.changes)
+
+    if (changelog.notes.length > 0) {
+      parts.push('  <section class="changelog-notes">', '    <h2>Notes</h2>', '    <ul>')
+      changelog.notes.forEach((note) => {
+        parts.push(`      <li><time>${esc(note.timestamp)}</time> <code>${esc(note.event)}</code>: ${esc(note.reason)}</li>`)
+      })
+      parts.push('    </ul>', '  </section>')
+    }
+
+    parts.push('</article>')
+    return parts.join('\n')
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Cross-Spec Resolver Service
+ *
+ * @description Resolves refs into other specs stored in the control plane
+ * (`shared-api@v1.0.0#/components/schemas/Error`), bundles them into one self-contained
+ * document, and answers the question every owner of a shared schema eventually asks:
+ * "if I change this, who breaks?" 🔗
+ *
+ * @module services/cross-spec-resolver
+ */
+
+import { asSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from './spec-manager.js'
+import type { VersionManager } from './version-manager.js'
+import type { FolderManager } from './folder-manager.js'
+import { activeChangeSet, outsideChangeSet } from './change-set-manager.js'
+import { getByPointer } from '../utils/json-patch.js'
+import { parseCrossSpecRef, refersTo, walkRefs, type CrossSpecRef } from '../utils/refs.js'
+import { bundleCrossSpecRefs, type BundleResult } from '../utils/cross-spec-bundle.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * A stored spec version
+ */
+export interface CatalogEntry {
+  apiId: ApiId
+  version: VersionTag
+  folder: string
+}
+
+/**
+ * A spec version referencing another spec
+ */
+export interface CrossSpecDependent {
+  apiId: ApiId
+  version: VersionTag
+  /** JSON Pointer of the object holding the ref */
+  pointer: string
+  ref: string
+}
+
+/**
+ * Specs loaded during one operation, by `<apiId>@<version>`
+ */
+type SpecCache = Map<string, Promise<SpecObject | undefined>>
+
+/**
+ * Cross-Spec Resolver Service
+ * @description Follows refs across API boundaries. Reads only - the specs it visits are never touched.
+ */
+export class CrossSpecResolver {
+  private specManager: SpecManager
+  private versionManager: VersionManager
+  private folderManager: FolderManager
+
+  /**
+   * Creates a new cross-spec resolver
+   * @param specManager - Loads the referenced specs
+   * @param versionManager - Lists the versions of each API
+   * @param folderManager - Lists the APIs (for the reverse index)
+   */
+  constructor(specManager: SpecManager, versionManager: VersionManager, folderManager: FolderManager) {
+    this.specManager = specManager
+    this.versionManager = versionManager
+    this.folderManager = folderManager
+  }
+
+  /**
+   * Why cross-spec refs can't be resolved
+   * @param refs - Cross-spec refs to check
+   * @returns Reason per unresolvable ref; refs that resolve are not in the map
+   */
+  async unresolvable(refs: Iterable<string>): Promise<Map<string, string>> {
+    const docs: SpecCache = new Map()
+    const checked = await Promise.all(
+      [...new Set(refs)].map(async (ref): Promise<[string, string | undefined]> => [ref, await this.problemWith(ref, docs)])
+    )
+    return new Map(checked.filter((entry): entry is [string, string] => entry[1] !== undefined))
+  }
+
+  /**
+   * Replaces every cross-spec ref with local content (see bundleCrossSpecRefs)
+   * @param spec - OpenAPI 3.x document (not modified)
+   * @param overrides - Specs to use instead of the stored ones, by `<apiId>@<version>` - "what if" bundles
+   * @throws ReferenceError if a cross-spec ref can't be resolved
+   */
+  async bundle(spec: object, overrides: Record<string, object> = {}): Promise<BundleResult> {
+    const docs: SpecCache = new Map(
+      Object.entries(overrides).map(([key, override]) => [key, Promise.resolve(asSpecObject(override))])
+    )
+    const result = await bundleCrossSpecRefs(spec, (target) => this.load(target, docs))
+    logger.debug({ imported: result.imported.length, inlined: result.inlined.length }, 'Bundled cross-spec refs')
+    return result
+  }
+
+  /**
+   * Reverse index: every stored spec version referencing another spec
+   * @param target - The referenced API, optionally narrowed to a version and a pointer (and what's inside it)
+   * @returns Referencing locations, across all APIs and versions
+   */
+  async dependents(target: { apiId: string; version?: string; pointer?: string }): Promise<CrossSpecDependent[]> {
+    return (await this.references()).filter((dependent) => {
+      const cross = parseCrossSpecRef(dependent.ref) as CrossSpecRef
+      if (cross.apiId !== target.apiId) return false
+      if (target.version && cross.version !== target.version) return false
+      return !target.pointer || refersTo(`#${cross.pointer}`, `#${target.pointer}`)
+    })
+  }
+
+  /**
+   * Every cross-spec ref in the stored specs
+   * @param entries - Spec versions to scan (default: the whole catalog)
+   */
+  async references(entries?: CatalogEntry[]): Promise<CrossSpecDependent[]> {
+    const docs: SpecCache = new Map()
+    const scanned = await Promise.all(
+      (entries ?? (await this.catalog())).map(async (entry) => {
+        const spec = await this.load({ apiId: entry.apiId, version: entry.version, pointer: '' }, docs, entry.folder)
+        const found: CrossSpecDependent[] = []
+        walkRefs(spec, ({ pointer, ref }) => {
+          if (parseCrossSpecRef(ref)) found.push({ apiId: entry.apiId, version: entry.version, pointer, ref })
+        })
+        return found
+      })
+    )
+    return scanned.flat()
+  }
+
+  /**
+   * Every stored spec version, across all folders
+   */
+  async catalog(): Promise<CatalogEntry[]> {
+    const folders = await this.folderManager.listFolders(false)
+    const perFolder = await Promise.all(
+      folders.map(async (folder) => {
+        const apiIds = await this.folderManager.listSpecsInFolder(folder.name)
+        const perApi = await Promise.all(apiIds.map((apiId) => this.versionsOf(apiId, folder.name)))
+        return perApi.flat()
+      })
+    )
+    return perFolder.flat()
+  }
+
+  /**
+   * Why one cross-spec ref can't be resolved (undefined when it can)
+   */
+  private async problemWith(ref: string, docs: SpecCache): Promise<string | undefined> {
+    const target = parseCrossSpecRef(ref)
+    if (!target) return 'Not a cross-spec ref (expected <apiId>@<version>#<pointer>)'
+    const source = await this.load(target, docs)
+    if (!source) return `${target.apiId} ${target.version} not found`
+    if (getByPointer(source, target.pointer) === undefined) {
+      return `${target.pointer || '/'} not found in ${target.apiId} ${target.version}`
+    }
+    return undefined
+  }
+
+  /**
+   * Catalog entries of one API (none when its metadata can't be read)
+   */
+  private async versionsOf(apiId: ApiId, folder: string): Promise<CatalogEntry[]> {
+    try {
+      const metadata = await this.versionManager.getApiMetadata(apiId, folder)
+      return metadata.versions.map((version) => ({ apiId, version, folder }))
+    } catch (error) {
+      logger.warn({ apiId, folder, error }, 'Skipping API without readable metadata')
+      return []
+    }
+  }
+
+  /**
+   * Loads a referenced spec once per operation
+   * @description Inside a change set, the change set's own spec is its working copy; any
+   * other spec is read from storage.
+   */
+  private load(
+    { apiId, version }: CrossSpecRef,
+    docs: SpecCache,
+    folder?: string
+  ): Promise<SpecObject | undefined> {
+    const key = `${apiId}@${version}`
+    let doc = docs.get(key)
+    if (!doc) {
+      const changeSet = activeChangeSet()
+      const read = () => this.specManager.loadSpec(apiId as ApiId, version as VersionTag, folder)
+      const loading = changeSet?.api_id === apiId && changeSet.version === version ? read() : outsideChangeSet(read)
+      doc = loading.then(
+        (loaded) => asSpecObject(loaded.spec),
+        (error) => {
+          logger.debug({ apiId, version, error }, 'Referenced spec not found')
+          return undefined
+        }
+      )
+      docs.set(key, doc)
+    }
+    return doc
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Dependency Graph Service
+ *
+ * @description Maps which APIs lean on which: spec version → spec version edges for every
+ * cross-spec ref, and shared component → consumer edges for the components they point at.
+ * Then, before anyone edits a shared schema, it works out the blast radius by diffing every
+ * consumer against the proposed change. Measure twice, cut once. 🕸️
+ *
+ * @module services/dependency-graph
+ */
+
+import { asSpecObject } from '../types/openapi.js'
+import type { ApiId, OpenAPIDocument, SpecObject, VersionTag } from '../types/openapi.js'
+import type { ClassifiedChange } from '../types/metadata.js'
+import type { SpecManager } from './spec-manager.js'
+import type { DiffCalculator } from './diff-calculator.js'
+import type { CrossSpecDependent, CrossSpecResolver } from './cross-spec-resolver.js'
+import { createValidationError } from '../utils/errors.js'
+import { componentRef, parseComponentRef, parseCrossSpecRef } from '../utils/refs.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * A stored spec version
+ */
+export interface ApiNode {
+  /** `<apiId>@<version>` */
+  id: string
+  apiId: ApiId
+  version: VersionTag
+  folder: string
+}
+
+/**
+ * A component other specs reference
+ */
+export interface ComponentNode {
+  /** The cross-spec ref of the component, e.g. 'shared-api@v1.0.0#/components/schemas/Error' */
+  id: string
+  /** Spec version it belongs to (an ApiNode id) */
+  api: string
+  componentType: string
+  componentName: string
+}
+
+/**
+ * An edge of the graph
+ * @description `api` edges run from the consumer to the spec it references; `component` edges
+ * run from a shared component to a consumer.
+ */
+export interface GraphEdge {
+  type: 'api' | 'component'
+  from: string
+  to: string
+  /** Number of refs behind the edge */
+  refs: number
+}
+
+/**
+ * The dependency graph
+ */
+export interface DependencyGraphData {
+  generatedAt: string
+  apis: ApiNode[]
+  components: ComponentNode[]
+  edges: GraphEdge[]
+}
+
+/**
+ * What a proposed component change does to one consumer
+ */
+export interface ConsumerImpact {
+  /** Consumer spec version (an ApiNode id) */
+  id: string
+  apiId: ApiId
+  version: VersionTag
+  breaking: boolean
+  /** Breaking changes the consumer's own endpoints would show */
+  breakingChanges: ClassifiedChange[]
+  /** All classified changes, breaking or not */
+  changes: number
+  /** Why the consumer couldn't be analyzed (e.g. it has other unresolvable refs) */
+  error?: string
+}
+
+/**
+ * Blast radius of a proposed component change
+ */
+export interface ImpactReport {
+  /** The changed component, as a cross-spec ref */
+  component: string
+  /** Consumers that would see any change */
+  affected: ConsumerImpact[]
+  /** Spec versions referencing the API that the change doesn't reach */
+  unaffected: string[]
+  breakingConsumers: number
+}
+
+/**
+ * A proposed change to a shared component
+ */
+export interface ComponentChange {
+  apiId: string
+  version: string
+  componentType: string
+  componentName: string
+  /** The new definition; null deletes the component */
+  definition: Record<string, unknown> | null
+}
+
+/**
+ * Dependency Graph Service
+ * @description The map of who depends on whom, and the "are you sure?" before a shared edit.
+ */
+export class DependencyGraph {
+  private crossSpecResolver: CrossSpecResolver
+  private specManager: SpecManager
+  private diffCalculator: DiffCalculator
+
+  /**
+   * Creates a new dependency graph service
+   * @param crossSpecResolver - Lists the stored specs and their cross-spec refs, and bundles them
+   * @param specManager - Loads the specs being analyzed
+   * @param diffCalculator - Classifies what a change does to each consumer
+   */
+  constructor(crossSpecResolver: CrossSpecResolver, specManager: SpecManager, diffCalculator: DiffCalculator) {
+    this.crossSpecResolver = crossSpecResolver
+    this.specManager = specManager
+    this.diffCalculator = diffCalculator
+  }
+
+  /**
+   * Builds the graph across all folders
+   * @param apiId - Only keep edges touching this API (and the nodes they connect)
+   */
+  async build(apiId?: string): Promise<DependencyGraphData> {
+    const catalog = await this.crossSpecResolver.catalog()
+    const references = await this.crossSpecResolver.references(catalog)
+
+    const edges = new Map<string, GraphEdge>()
+    const components = new Map<string, ComponentNode>()
+    const addEdge = (type: GraphEdge['type'], from: string, to: string) => {
+      const key = `${type} ${from} ${to}`
+      const edge = edges.get(key) || { type, from, to, refs: 0 }
+      edge.refs += 1
+      edges.set(key, edge)
+    }
+
+    references.forEach((reference) => {
+      const target = parseCrossSpecRef(reference.ref)
+      if (!target) return
+      const consumer = `${reference.apiId}@${reference.version}`
+      const provider = `${target.apiId}@${target.version}`
+      if (apiId && reference.apiId !== apiId && target.apiId !== apiId) return
+
+      addEdge('api', consumer, provider)
+      const component = parseComponentRef(`#${target.pointer}`)
+      if (component) {
+        const id = `${provider}#${componentRef(component.type, component.name).slice(1)}`
+        components.set(id, { id, api: provider, componentType: component.type, componentName: component.name })
+        addEdge('component', id, consumer)
+      }
+    })
+
+    const connected = new Set([...edges.values()].flatMap((edge) => [edge.from, edge.to]))
+    const apis = catalog
+      .map((entry) => ({ id: `${entry.apiId}@${entry.version}`, ...entry }))
+      .filter((node) => !apiId || connected.has(node.id))
+
+    return {
+      generatedAt: new Date().toISOString(),
+      apis,
+      components: [...components.values()],
+      edges: [...edges.values()],
+    }
+  }
+
+  /**
+   * Works out which consumers a proposed component change would break
+   * @param change - The component and its proposed definition
+   * @returns Per consumer, the changes its endpoints would show
+   * @description Every spec version referencing the component's API version is bundled twice -
+   * once against the stored spec, once against the spec with the change applied - and the two
+   * bundles are diffed. Consumers reach shared components through other shared components too,
+   * which is why all of them are checked, not just the ones naming the component directly.
+   */
+  async impact(change: ComponentChange): Promise<ImpactReport> {
+    const { apiId, version, componentType, componentName, definition } = change
+    const provider = `${apiId}@${version}`
+    const component = `${provider}#${componentRef(componentType, componentName).slice(1)}`
+
+    const stored = asSpecObject((await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)).spec)
+    if (definition !== null && !asSpecObject(asSpecObject(stored.components)[componentType])[componentName]) {
+      throw createValidationError(`${component} not found`, 'componentName')
+    }
+    const proposed = structuredClone(stored)
+    const proposedComponents = asSpecObject(asSpecObject(proposed.components)[componentType])
+    if (definition === null) {
+      delete proposedComponents[componentName]
+    } else {
+      proposedComponents[componentName] = definition
+    }
+
+    const dependents = await this.crossSpecResolver.dependents({ apiId, version })
+    const consumers = [...new Map(dependents.map((d) => [`${d.apiId}@${d.version}`, d])).values()]
+
+    const impacts = await Promise.all(consumers.map((consumer) => this.consumerImpact(consumer, provider, proposed)))
+    const affected = impacts.filter((impact): impact is ConsumerImpact => impact !== undefined)
+    const unaffected = consumers
+      .filter((_consumer, index) => impacts[index] === undefined)
+      .map((consumer) => `${consumer.apiId}@${consumer.version}`)
+
+    const breakingConsumers = affected.filter((consumer) => consumer.breaking).length
+    logger.info({ component, consumers: consumers.length, breakingConsumers }, 'Impact analysis completed')
+    return { component, affected, unaffected, breakingConsumers }
+  }
+
+  /**
+   * What the proposed provider spec does to one consumer (undefined when nothing changes for it)
+   */
+  private async consumerImpact(
+    consumer: CrossSpecDependent,
+    provider: string,
+    proposed: SpecObject
+  ): Promise<ConsumerImpact | undefined> {
+    const id = `${consumer.apiId}@${consumer.version}`
+    try {
+      const doc = await this.specManager.loadSpec(consumer.apiId, consumer.version)
+      const before = await this.crossSpecResolver.bundle(doc.spec)
+      const after = await this.crossSpecResolver.bundle(doc.spec, { [provider]: proposed })
+      const diff = this.diffCalculator.calculateDiff(
+        { ...doc, spec: before.spec } as OpenAPIDocument,
+        { ...doc, spec: after.spec } as OpenAPIDocument
+      )
+      if (diff.classified_changes.length === 0) return undefined
+      return {
+        id,
+        apiId: consumer.apiId,
+        version: consumer.version,
+        breaking: diff.breaking_changes.length > 0,
+        breakingChanges: diff.breaking_changes,
+        changes: diff.classified_changes.length,
+      }
+    } catch (error) {
+      return {
+        id,
+        apiId: consumer.apiId,
+        version: consumer.version,
+        breaking: true,
+        breakingChanges: [],
+        changes: 0,
+        error: (error as Error).message,
+      }
+    }
+  }
+}
@@ -7,9 +7,23 @@
  * @module services/diff-calculator
  */
 
-import type { OpenAPIDocument } from '../types/openapi.js'
-import type { ChangesSummary } from '../types/metadata.js'
+import { asSpecObject } from '../types/openapi.js'
+import type { OpenAPIDocument, SpecObject } from '../types/openapi.js'
+import type { ChangesSummary, ClassifiedChange } from '../types/metadata.js'
 import { logger } from '../utils/logger.js'
+import { isHttpMethod } from '../utils/http-methods.js'
+import { ChangeClassifier } from './change-classifier.js'
+import { callbackLabel, callbackPathItems, webhookPathItems } from '../utils/webhooks.js'
+
+/**
+ * Added, removed and modified operations of webhooks or callbacks
+ * @description `path` is the webhook name, or the callback label from `callbackLabel()`.
+ */
+export interface EventOperationsDiff {
+  added: Array<{ path: string; methods: string[] }>
+  removed: Array<{ path: string; methods: string[] }>
+  modified: Array<{ path: string; method: string; changes: string[] }>
+}
 
 /**
  * Detailed difference between two specs
@@ -28,12 +42,17 @@ export interface SpecDiff {
     method: string
     changes: string[]
   }>
+  /** Webhook (OpenAPI 3.1) and callback operations, compared like endpoints */
+  webhooks_detail: EventOperationsDiff
+  callbacks_detail: EventOperationsDiff
   /** Schemas that were added with details */
   schemas_added_detail: Array<{ name: string; type: string }>
   /** Schemas that were removed */
   schemas_removed_detail: Array<{ name: string }>
-  /** Potentially breaking changes detected */
-  breaking_changes: string[]
+  /** Changes labelled as breaking */
+  breaking_changes: ClassifiedChange[]
+  /** Every classified change (breaking, non-breaking and unclassified) */
+  classified_changes: ClassifiedChange[]
 }
 
 /**
@@ -42,39 +61,60 @@ export interface SpecDiff {
  * The spec archaeologist. Uncovers what changed between versions. 🏛️
  */
 export class DiffCalculator {
+  private classifier: ChangeClassifier
+
+  /**
+   * Creates a new diff calculator
+   * @param classifier - Breaking-change classifier (defaults to the built-in rules)
+   */
+  constructor(classifier: ChangeClassifier = new ChangeClassifier()) {
+    this.classifier = classifier
+  }
+
   /**
    * Calculates the diff between two OpenAPI specifications
-   * @param oldSpec - The earlier/previous specification
-   * @param newSpec - The later/current specification
+   * @param oldSpec - The earlier/previous specification, loaded or raw
+   * @param newSpec - The later/current specification, loaded or raw
    * @returns Detailed diff information
    * @description Compares specs and reports all differences. The full autopsy.
    */
-  calculateDiff(oldSpec: OpenAPIDocument, newSpec: OpenAPIDocument): SpecDiff {
+  calculateDiff(oldSpec: OpenAPIDocument | SpecObject, newSpec: OpenAPIDocument | SpecObject): SpecDiff {
     logger.info('Calculating spec diff')
 
-    const oldPaths = this.extractPaths(oldSpec)
-    const newPaths = this.extractPaths(newSpec)
+    const oldDocument = asSpecObject('spec' in oldSpec ? oldSpec.spec : oldSpec)
+    const newDocument = asSpecObject('spec' in newSpec ? newSpec.spec : newSpec)
+
+    const oldPaths = this.extractPaths(oldDocument)
+    const newPaths = this.extractPaths(newDocument)
 
-    const oldSchemas = this.extractSchemas(oldSpec)
-    const newSchemas = this.extractSchemas(newSpec)
+    const oldSchemas = this.extractSchemas(oldDocument)
+    const newSchemas = this.extractSchemas(newDocument)
 
     // Calculate endpoint changes
     const addedEndpoints = this.getAddedEndpoints(oldPaths, newPaths)
     const removedEndpoints = this.getRemovedEndpoints(oldPaths, newPaths)
-    const modifiedEndpoints = this.getModifiedEndpoints(oldPaths, newPaths)
+    // Classify every change with the breaking-change rules
+    const classifiedChanges = this.classifier.classify(oldDocument, newDocument)
+    const modifiedEndpoints = this.getModifiedEndpoints(oldPaths, newPaths, classifiedChanges)
 
     // Calculate schema changes
     const addedSchemas = this.getAddedSchemas(oldSchemas, newSchemas)
     const removedSchemas = this.getRemovedSchemas(oldSchemas, newSchemas)
     const modifiedSchemas = this.getModifiedSchemas(oldSchemas, newSchemas)
 
-    // Detect breaking changes
-    const breakingChanges = this.detectBreakingChanges(
-      removedEndpoints,
-      modifiedEndpoints,
-      removedSchemas,
-      modifiedSchemas
+    // Webhooks and callbacks go through the same endpoint comparison
+    const webhooks = this.diffEventOperations(
+      webhookPathItems(oldDocument),
+      webhookPathItems(newDocument),
+      classifiedChanges
     )
+    const callbacks = this.diffEventOperations(
+      this.extractCallbacks(oldDocument),
+      this.extractCallbacks(newDocument),
+      classifiedChanges
+    )
+
+    const breakingChanges = classifiedChanges.filter((change) => change.severity === 'breaking')
 
     const summary: ChangesSummary = {
       endpoints_added: addedEndpoints.map((e) => `${e.methods.join(',')} ${e.path}`),
@@ -83,6 +123,12 @@ export class DiffCalculator {
       schemas_added: addedSchemas.map((s) => s.name),
       schemas_modified: modifiedSchemas,
       schemas_deleted: removedSchemas.map((s) => s.name),
+      webhooks_added: webhooks.added.map((e) => `${e.methods.join(',')} ${e.path}`),
+      webhooks_modified: webhooks.modified.map((e) => `${e.method} ${e.path}`),
+      webhooks_deleted: webhooks.removed.map((e) => `${e.methods.join(',')} ${e.path}`),
+      callbacks_added: callbacks.added.map((e) => `${e.methods.join(',')} ${e.path}`),
+      callbacks_modified: callbacks.modified.map((e) => `${e.method} ${e.path}`),
+      callbacks_deleted: callbacks.removed.map((e) => `${e.methods.join(',')} ${e.path}`),
       breaking_changes: breakingChanges,
     }
 
@@ -93,9 +139,12 @@ export class DiffCalculator {
       endpoints_added_detail: addedEndpoints,
       endpoints_removed_detail: removedEndpoints,
       endpoints_modified_detail: modifiedEndpoints,
+      webhooks_detail: webhooks,
+      callbacks_detail: callbacks,
       schemas_added_detail: addedSchemas,
       schemas_removed_detail: removedSchemas,
       breaking_changes: breakingChanges,
+      classified_changes: classifiedChanges,
     }
   }
 
@@ -105,17 +154,10 @@ export class DiffCalculator {
    * @returns Map of paths to their operations
    * @description Gets all the endpoints. The API's address book.
    */
-  private extractPaths(spec: OpenAPIDocument): Map<string, Record<string, any>> {
+  private extractPaths(spec: SpecObject): Map<string, Record<string, any>> {
     const paths = new Map<string, Record<string, any>>()
 
-    // Get the actual spec object
-    const actualSpec = 'spec' in spec ? spec.spec : spec
-
-    if (!('paths' in actualSpec) || !actualSpec.paths) {
-      return paths
-    }
-
-    Object.entries(actualSpec.paths).forEach(([path, pathItem]) => {
+    Object.entries(asSpecObject(spec.paths)).forEach(([path, pathItem]) => {
       if (pathItem && typeof pathItem === 'object') {
         paths.set(path, pathItem as Record<string, any>)
       }
@@ -124,34 +166,53 @@ export class DiffCalculator {
     return paths
   }
 
+  /**
+   * Extracts callback path items keyed by their label
+   * @param spec - Raw specification object
+   * @returns Map of callback labels to path items
+   * @description The API's "don't call us, we'll call you" list. 📞
+   */
+  private extractCallbacks(spec: SpecObject): Map<string, SpecObject> {
+    return new Map(callbackPathItems(spec).map((entry) => [callbackLabel(entry), entry.pathItem]))
+  }
+
+  /**
+   * Compares webhook or callback path items
+   * @param oldItems - Path items from old spec, keyed by name or label
+   * @param newItems - Path items from new spec
+   * @param classifiedChanges - Rule-based changes
+   * @returns Added, removed and modified operations
+   */
+  private diffEventOperations(
+    oldItems: Map<string, SpecObject>,
+    newItems: Map<string, SpecObject>,
+    classifiedChanges: ClassifiedChange[]
+  ): EventOperationsDiff {
+    return {
+      added: this.getAddedEndpoints(oldItems, newItems),
+      removed: this.getRemovedEndpoints(oldItems, newItems),
+      modified: this.getModifiedEndpoints(oldItems, newItems, classifiedChanges),
+    }
+  }
+
   /**
    * Extracts all schemas from a spec
    * @param spec - OpenAPI specification
    * @returns Map of schema names to their definitions
    * @description Gets all the data models. The API's dictionary.
    */
-  private extractSchemas(spec: OpenAPIDocument): Map<string, any> {
+  private extractSchemas(spec: SpecObject): Map<string, any> {
     const schemas = new Map<string, any>()
 
-    // Get the actual spec object
-    const actualSpec = 'spec' in spec ? spec.spec : spec
-
     // OpenAPI 3.x
-    if ('components' in actualSpec && actualSpec.components) {
-      const components = actualSpec.components as any
-      if (components.schemas) {
-        Object.entries(components.schemas).forEach(([name, schema]) => {
-          schemas.set(name, schema)
-        })
-      }
-    }
+    Object.entries(asSpecObject(asSpecObject(spec.components).schemas)).forEach(([name, schema]) => {
+      schemas.set(name, schema)
+    })
 
     // Swagger 2.0
-    if ('definitions' in actualSpec && actualSpec.definitions) {
-      Object.entries(actualSpec.definitions).forEach(([name, schema]) => {
-        schemas.set(name, schema)
-      })
-    }
+    Object.entries(asSpecObject(spec.definitions)).forEach(([name, schema]) => {
+      schemas.set(name, schema)
+    })
 
     return schemas
   }
@@ -224,12 +285,14 @@ export class DiffCalculator {
    * Gets endpoints that were modified
    * @param oldPaths - Paths from old spec
    * @param newPaths - Paths from new spec
+   * @param classifiedChanges - Rule-based changes (their messages are merged in per endpoint)
    * @returns Array of modified endpoints
    * @description Finds what changed. The edited versions.
    */
   private getModifiedEndpoints(
     oldPaths: Map<string, Record<string, any>>,
-    newPaths: Map<string, Record<string, any>>
+    newPaths: Map<string, Record<string, any>>,
+    classifiedChanges: ClassifiedChange[]
   ): Array<{ path: string; method: string; changes: string[] }> {
     const modified: Array<{ path: string; method: string; changes: string[] }> = []
 
@@ -241,7 +304,13 @@ export class DiffCalculator {
 
       methods.forEach((method) => {
         if (oldPathItem[method]) {
-          const changes = this.detectEndpointChanges(oldPathItem[method], newPathItem[method])
+          const endpoint = `${method.toUpperCase()} ${path}`
+          const changes = [
+            ...this.detectEndpointChanges(oldPathItem[method], newPathItem[method]),
+            ...classifiedChanges
+              .filter((change) => change.endpoint === endpoint)
+              .map((change) => change.message),
+          ]
           if (changes.length > 0) {
             modified.push({ path, method: method.toUpperCase(), changes })
           }
@@ -361,54 +430,6 @@ export class DiffCalculator {
     return modified
   }
 
-  /**
-   * Detects potentially breaking changes
-   * @param removedEndpoints - Endpoints that were removed
-   * @param modifiedEndpoints - Endpoints that were modified
-   * @param removedSchemas - Schemas that were removed
-   * @param modifiedSchemas - Schemas that were modified
-   * @returns Array of breaking change descriptions
-   * @description Finds changes that might break existing clients. The danger zone. ⚠️
-   */
-  private detectBreakingChanges(
-    removedEndpoints: Array<{ path: string; methods: string[] }>,
-    modifiedEndpoints: Array<{ path: string; method: string; changes: string[] }>,
-    removedSchemas: Array<{ name: string }>,
-    modifiedSchemas: string[]
-  ): string[] {
-    const breaking: string[] = []
-
-    // Removed endpoints are breaking
-    removedEndpoints.forEach((endpoint) => {
-      breaking.push(`Removed endpoint: ${endpoint.methods.join(',')} ${endpoint.path}`)
-    })
-
-    // Some endpoint modifications are breaking
-    modifiedEndpoints.forEach((endpoint) => {
-      if (endpoint.changes.includes('request body removed')) {
-        breaking.push(`Breaking: ${endpoint.method} ${endpoint.path} - request body removed`)
-      }
-      if (endpoint.changes.includes('parameters changed')) {
-        // Could be breaking if required params were added or removed
-        breaking.push(
-          `Potentially breaking: ${endpoint.method} ${endpoint.path} - parameters changed`
-        )
-      }
-    })
-
-    // Removed schemas are breaking if they're referenced
-    removedSchemas.forEach((schema) => {
-      breaking.push(`Removed schema: ${schema.name}`)
-    })
-
-    // Modified schemas might be breaking
-    if (modifiedSchemas.length > 0) {
-      breaking.push(`Modified schemas: ${modifiedSchemas.join(', ')} (review required)`)
-    }
-
-    return breaking
-  }
-
   /**
    * Gets HTTP methods from a path item
    * @param pathItem - Path item object
@@ -416,8 +437,7 @@ export class DiffCalculator {
    * @description Extracts the verbs: GET, POST, PUT, etc.
    */
   private getHttpMethods(pathItem: Record<string, any>): string[] {
-    const httpMethods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace']
-    return Object.keys(pathItem).filter((key) => httpMethods.includes(key.toLowerCase()))
+    return Object.keys(pathItem).filter((key) => isHttpMethod(key.toLowerCase()))
   }
 }
 
@@ -0,0 +1,245 @@
+/**
+ * Edit History Service
+ *
+ * @description Undo and redo for spec edits. Every mutating tool records its edit as a forward
+ * and an inverse JSON Patch in the audit event; undo applies the inverse patches newest first,
+ * redo re-applies the forward ones. The stacks are rebuilt from the audit log each time, so
+ * there is no extra state to lose. For when the LLM was confident, but wrong. ↩️
+ *
+ * @module services/edit-history
+ */
+
+import type { ApiId, VersionTag } from '../types/openapi.js'
+import type { AuditEvent, SpecEdit } from '../types/metadata.js'
+import type { SpecManager } from './spec-manager.js'
+import type { AuditLogger } from './audit-logger.js'
+import { applyJsonPatch, createTestOperations, type JsonPatchOperation } from '../utils/json-patch.js'
+import { createValidationError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Audit event names for undo and redo
+ */
+export const EDIT_UNDONE_EVENT = 'edit_undone'
+export const EDIT_REDONE_EVENT = 'edit_redone'
+
+/**
+ * An edit on the undo or redo stack
+ */
+export interface EditSummary {
+  edit_id: string
+  /** Audit event that recorded the edit (schema_add, endpoint_updated, ...) */
+  event: string
+  timestamp: string
+  user: string
+  llm_reason?: string
+  /** Number of JSON Patch operations in the edit */
+  operation_count: number
+}
+
+/**
+ * What can be undone and redone
+ */
+export interface EditHistoryState {
+  /** Edits that can be undone, next undo first */
+  undo: EditSummary[]
+  /** Edits that can be redone, next redo first */
+  redo: EditSummary[]
+}
+
+/**
+ * Undo/redo options
+ */
+export interface UndoRedoOptions {
+  /** How many edits to undo or redo (default: 1) */
+  steps?: number
+  /** Who is doing it */
+  user: string
+  /** Why */
+  llmReason?: string
+}
+
+/**
+ * Undo/redo result
+ */
+export interface UndoRedoResult {
+  /** Edits undone or redone, in the order they were applied */
+  applied: EditSummary[]
+  /** The stacks afterwards */
+  state: EditHistoryState
+}
+
+type RecordedEdit = AuditEvent & { details: SpecEdit & Record<string, unknown> }
+
+/**
+ * Whether an audit event recorded an undoable edit
+ */
+function isRecordedEdit(event: AuditEvent): event is RecordedEdit {
+  const details = event.details as Partial<SpecEdit> | undefined
+  return (
+    event.event !== EDIT_UNDONE_EVENT &&
+    event.event !== EDIT_REDONE_EVENT &&
+    typeof details?.edit_id === 'string' &&
+    Array.isArray(details.patch) &&
+    Array.isArray(details.inverse_patch)
+  )
+}
+
+function summarize(edit: RecordedEdit): EditSummary {
+  return {
+    edit_id: edit.details.edit_id,
+    event: edit.event,
+    timestamp: edit.timestamp,
+    user: edit.user,
+    llm_reason: edit.llm_reason,
+    operation_count: edit.details.patch.length,
+  }
+}
+
+/**
+ * Edit History
+ * @description Linear history per spec version: a new edit after an undo drops the redo stack.
+ */
+export class EditHistory {
+  private specManager: SpecManager
+  private auditLogger: AuditLogger
+
+  /**
+   * Creates an edit history
+   * @param specManager - Loads and saves the spec being stepped through
+   * @param auditLogger - Where the edits are recorded (and undo/redo gets recorded)
+   */
+  constructor(specManager: SpecManager, auditLogger: AuditLogger) {
+    this.specManager = specManager
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Lists what can be undone and redone
+   * @param apiId - API identifier
+   * @param version - Version tag
+   */
+  async history(apiId: ApiId, version: VersionTag): Promise<EditHistoryState> {
+    const { undo, redo } = await this.stacks(apiId, version)
+    return { undo: undo.map(summarize), redo: redo.map(summarize) }
+  }
+
+  /**
+   * Undoes the latest edits
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param options - Steps, user and reason
+   * @returns The edits undone and the stacks afterwards
+   * @throws ValidationError if there is nothing to undo or the spec changed where the edit applied
+   * @throws ToolError (code VERSION_IMMUTABLE) if the version is no longer a draft
+   */
+  async undo(apiId: ApiId, version: VersionTag, options: UndoRedoOptions): Promise<UndoRedoResult> {
+    return this.step(apiId, version, 'undo', options)
+  }
+
+  /**
+   * Redoes the most recently undone edits
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param options - Steps, user and reason
+   * @returns The edits redone and the stacks afterwards
+   * @throws ValidationError if there is nothing to redo or the spec changed where the edit applied
+   * @throws ToolError (code VERSION_IMMUTABLE) if the version is no longer a draft
+   */
+  async redo(apiId: ApiId, version: VersionTag, options: UndoRedoOptions): Promise<UndoRedoResult> {
+    return this.step(apiId, version, 'redo', options)
+  }
+
+  /**
+   * Undoes or redoes up to `steps` edits as one edit
+   * @description Every step patches the same working copy, so the spec is saved and audited
+   * once - and if one step no longer applies, none of them is saved.
+   */
+  private async step(
+    apiId: ApiId,
+    version: VersionTag,
+    direction: 'undo' | 'redo',
+    options: UndoRedoOptions
+  ): Promise<UndoRedoResult> {
+    const edits = (await this.stacks(apiId, version))[direction].slice(0, options.steps ?? 1)
+    if (edits.length === 0) {
+      throw createValidationError(`Nothing to ${direction} for ${apiId} ${version}`, 'version')
+    }
+
+    let spec = (await this.specManager.loadSpec(apiId, version)).spec as object
+    const patch: JsonPatchOperation[] = []
+    const reverted: JsonPatchOperation[] = []
+    edits.forEach((edit) => {
+      const forward = direction === 'undo' ? edit.details.inverse_patch : edit.details.patch
+      const backward = direction === 'undo' ? edit.details.patch : edit.details.inverse_patch
+      try {
+        // The values the edit left behind must still be there - later edits aren't ours to undo
+        spec = applyJsonPatch(spec, [...createTestOperations(backward), ...forward])
+      } catch (error) {
+        throw createValidationError(
+          `Cannot ${direction} ${edit.event} (${edit.details.edit_id}) - the spec changed since: ${(error as Error).message}`,
+          'version'
+        )
+      }
+      patch.push(...forward)
+      reverted.unshift(...backward)
+    })
+
+    const editIds = edits.map((edit) => edit.details.edit_id)
+    await this.specManager.saveSpec(apiId, version, spec)
+    await this.auditLogger.logEvent({
+      api_id: apiId,
+      version,
+      event: direction === 'undo' ? EDIT_UNDONE_EVENT : EDIT_REDONE_EVENT,
+      user: options.user,
+      timestamp: new Date().toISOString(),
+      llm_reason: options.llmReason,
+      details: {
+        [direction === 'undo' ? 'undo_of' : 'redo_of']: editIds,
+        edit_events: edits.map((edit) => edit.event),
+        patch,
+        inverse_patch: reverted,
+      },
+    })
+    logger.info({ apiId, version, editIds, direction }, direction === 'undo' ? 'Spec edits undone' : 'Spec edits redone')
+
+    return { applied: edits.map(summarize), state: await this.history(apiId, version) }
+  }
+
+  /**
+   * Rebuilds the undo and redo stacks from the audit log
+   * @description An edit is undone while it has more undo than redo events. Undoable: edits
+   * not undone, newest first. Redoable: undone edits newer than every edit still applied,
+   * oldest first - so any new edit after an undo cuts the redo stack off.
+   */
+  private async stacks(apiId: ApiId, version: VersionTag): Promise<{ undo: RecordedEdit[]; redo: RecordedEdit[] }> {
+    const events = (await this.auditLogger.getVersionAuditLog(apiId, version)).sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    )
+
+    const undone = new Map<string, number>()
+    const count = (editIds: unknown, by: number) => {
+      // A list of edit ids - a bare id counts as a list of one
+      const ids = Array.isArray(editIds) ? editIds : [editIds]
+      ids.forEach((editId) => {
+        if (typeof editId === 'string') undone.set(editId, (undone.get(editId) || 0) + by)
+      })
+    }
+    events.forEach((event) => {
+      if (event.event === EDIT_UNDONE_EVENT) count(event.details?.undo_of, 1)
+      else if (event.event === EDIT_REDONE_EVENT) count(event.details?.redo_of, -1)
+    })
+
+    const edits = events.filter(isRecordedEdit)
+    const isUndone = (edit: RecordedEdit) => (undone.get(edit.details.edit_id) || 0) > 0
+    let lastApplied = -1
+    edits.forEach((edit, index) => {
+      if (!isUndone(edit)) lastApplied = index
+    })
+
+    return {
+      undo: edits.filter((edit) => !isUndone(edit)).reverse(),
+      redo: edits.slice(lastApplied + 1).filter(isUndone),
+    }
+  }
+}
@@ -0,0 +1,1016 @@
+/**
+ * Spec Converter Service
+ *
+ * @description Upgrades Swagger 2.0 documents to OpenAPI 3.0/3.1 and moves
+ * 3.x documents between 3.0 and 3.1 in either direction. definitions become
+ * components, body params become request bodies, nullable becomes a type
+ * array (and back again). Like moving house - same furniture, different rooms. 🚚
+ *
+ * @module services/spec-converter
+ */
+
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject, SwaggerV2Document } from '../types/openapi.js'
+import { createValidationError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+import { HTTP_METHODS, isHttpMethod } from '../utils/http-methods.js'
+
+/**
+ * Target OpenAPI versions a document can be converted to
+ */
+export type OpenAPITargetVersion = '3.0' | '3.1'
+
+/**
+ * Result of a conversion
+ * @description The converted spec plus everything we had to improvise along the way
+ */
+export interface ConversionResult {
+  /** Converted specification */
+  spec: Record<string, any>
+  /** Source specification version */
+  from: '2.0' | OpenAPITargetVersion
+  /** Target specification version */
+  to: OpenAPITargetVersion
+  /** Rewrites that were applied, with the location they were applied at */
+  applied: string[]
+  /** Things that could not be converted faithfully */
+  warnings: string[]
+}
+
+/**
+ * Callback applied to every schema object in a document
+ * @description Receives a copy of the schema and its JSON pointer, returns the replacement
+ */
+type SchemaVisitor = (schema: SpecObject, pointer: string) => SpecObject
+
+/**
+ * Per-conversion state shared by the helpers
+ */
+interface ConversionContext {
+  consumes: string[]
+  produces: string[]
+  globalParameters: SpecObject
+  applied: string[]
+  warnings: string[]
+}
+
+/**
+ * Swagger 2.0 parameter keywords that move into the 3.x `schema` object
+ */
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'enum',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'multipleOf',
+  'x-nullable',
+]
+
+/**
+ * JSON Schema keywords that only exist in OpenAPI 3.1 and are dropped on downgrade
+ */
+const JSON_SCHEMA_ONLY_KEYWORDS = [
+  '$defs',
+  'prefixItems',
+  'patternProperties',
+  'dependentSchemas',
+  'dependentRequired',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'contentEncoding',
+  'contentMediaType',
+]
+
+/**
+ * Exclusive bound flags and the bound they modify
+ */
+const EXCLUSIVE_BOUNDS = [
+  ['exclusiveMinimum', 'minimum'],
+  ['exclusiveMaximum', 'maximum'],
+] as const
+
+/**
+ * Keywords holding one subschema in Swagger 2.0
+ */
+const SWAGGER_SUBSCHEMA_KEYWORDS = ['items', 'not', 'additionalProperties']
+
+/**
+ * Keywords holding a list of subschemas in Swagger 2.0
+ */
+const SWAGGER_COMPOSITION_KEYWORDS = ['allOf', 'anyOf', 'oneOf']
+
+/**
+ * Keywords holding a map of named subschemas in OpenAPI 3.x
+ */
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs']
+
+/**
+ * Keywords holding one subschema in OpenAPI 3.x
+ */
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains']
+
+/**
+ * Keywords holding a list of subschemas in OpenAPI 3.x
+ */
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems']
+
+/**
+ * Unions that 3.1 uses to spell nullable
+ */
+const NULLABLE_UNION_KEYWORDS = ['anyOf', 'oneOf']
+
+/**
+ * Swagger 2.0 collectionFormat to OpenAPI 3 style/explode
+ */
+const COLLECTION_FORMATS: Record<string, { style: string; explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true },
+}
+
+/**
+ * Swagger 2.0 oauth2 flow names to their 3.x names
+ */
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+}
+
+/**
+ * The strings in a list like consumes/produces/schemes, or the fallback if there are none
+ */
+function stringsOr(value: unknown, fallback: string[]): string[] {
+  const strings = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+  return strings.length > 0 ? strings : fallback
+}
+
+/**
+ * Spec Converter Service
+ * @description Converts specs between OpenAPI dialects. The translator that
+ * doesn't charge per word.
+ */
+export class SpecConverter {
+  /**
+   * Converts a Swagger 2.0 document to OpenAPI 3.x
+   * @param source - Swagger 2.0 document (not modified)
+   * @param target - Target version ('3.0' or '3.1')
+   * @returns Converted spec with conversion warnings
+   * @throws ValidationError if the source is not a Swagger 2.0 document
+   */
+  convertSwagger2(source: SwaggerV2Document, target: OpenAPITargetVersion = '3.0'): ConversionResult {
+    if (!source || source.swagger !== '2.0') {
+      throw createValidationError('Only Swagger 2.0 documents can be converted', 'swagger', '2.0')
+    }
+
+    const doc: SpecObject = structuredClone(source)
+    const ctx: ConversionContext = {
+      consumes: stringsOr(doc.consumes, ['application/json']),
+      produces: stringsOr(doc.produces, ['application/json']),
+      globalParameters: asSpecObject(doc.parameters),
+      applied: [],
+      warnings: [],
+    }
+
+    const result: SpecObject = {
+      openapi: '3.0.3',
+      info: doc.info,
+    }
+
+    const servers = this.convertServers(doc)
+    if (servers.length > 0) {
+      result.servers = servers
+      ctx.applied.push('host/basePath/schemes → servers')
+    }
+
+    // Carry over top-level fields that mean the same thing in 3.x
+    Object.entries(doc).forEach(([key, value]) => {
+      if (['security', 'tags', 'externalDocs'].includes(key) || key.startsWith('x-')) {
+        result[key] = value
+      }
+    })
+
+    result.paths = this.convertPaths(asSpecObject(doc.paths), ctx)
+
+    const components = this.convertComponents(doc, ctx)
+    if (Object.keys(components).length > 0) result.components = components
+
+    // 3.1 output is the 3.0 output run through the regular 3.0 -> 3.1 upgrade
+    if (target === '3.1') {
+      const upgraded = this.upgradeTo31(result as unknown as OpenAPIV3.Document)
+      ctx.applied.push(...upgraded.applied)
+      ctx.warnings.push(...upgraded.warnings)
+      Object.assign(result, upgraded.spec)
+    }
+
+    logger.info({ target, warnings: ctx.warnings.length }, 'Converted Swagger 2.0 document')
+
+    return { spec: result, from: '2.0', to: target, applied: ctx.applied, warnings: ctx.warnings }
+  }
+
+  /**
+   * Upgrades an OpenAPI 3.0 document to 3.1
+   * @param source - OpenAPI 3.0 document (not modified)
+   * @returns Converted spec with the rewrites applied
+   * @throws ValidationError if the source is not an OpenAPI 3.0 document
+   * @description nullable becomes a type array, boolean exclusive bounds become numbers,
+   * schema examples become arrays and Redoc-style x-webhooks become real webhooks.
+   */
+  upgradeTo31(source: OpenAPIV3.Document): ConversionResult {
+    if (!source || typeof source.openapi !== 'string' || !source.openapi.startsWith('3.0')) {
+      throw createValidationError('Only OpenAPI 3.0 documents can be upgraded to 3.1', 'openapi', '3.0.x')
+    }
+
+    const doc: SpecObject = { ...structuredClone(source) }
+    const applied: string[] = []
+    const warnings: string[] = []
+
+    doc.openapi = '3.1.0'
+
+    if (doc['x-webhooks'] && !doc.webhooks) {
+      doc.webhooks = doc['x-webhooks']
+      delete doc['x-webhooks']
+      applied.push('x-webhooks → webhooks')
+    }
+
+    this.transformDocumentSchemas(doc, (schema, pointer) => this.upgradeSchema(schema, pointer, applied))
+
+    logger.info({ applied: applied.length }, 'Upgraded OpenAPI 3.0 document to 3.1')
+
+    return { spec: doc, from: '3.0', to: '3.1', applied, warnings }
+  }
+
+  /**
+   * Downgrades an OpenAPI 3.1 document to 3.0
+   * @param source - OpenAPI 3.1 document (not modified)
+   * @returns Converted spec with the rewrites applied and anything 3.0 can't express
+   * @throws ValidationError if the source is not an OpenAPI 3.1 document
+   * @description For consumers whose tooling still thinks JSON Schema peaked in 2017.
+   */
+  downgradeTo30(source: OpenAPIV3_1.Document): ConversionResult {
+    if (!source || typeof source.openapi !== 'string' || !source.openapi.startsWith('3.1')) {
+      throw createValidationError('Only OpenAPI 3.1 documents can be downgraded to 3.0', 'openapi', '3.1.x')
+    }
+
+    const doc: SpecObject = { ...structuredClone(source) }
+    const applied: string[] = []
+    const warnings: string[] = []
+
+    doc.openapi = '3.0.3'
+
+    this.transformDocumentSchemas(doc, (schema, pointer) =>
+      this.downgradeSchema(schema, pointer, applied, warnings)
+    )
+
+    if (doc.webhooks) {
+      doc['x-webhooks'] = doc.webhooks
+      delete doc.webhooks
+      applied.push('webhooks → x-webhooks')
+      warnings.push('webhooks are not part of OpenAPI 3.0 and were kept as the x-webhooks extension')
+    }
+    if (doc.jsonSchemaDialect) {
+      delete doc.jsonSchemaDialect
+      warnings.push('jsonSchemaDialect removed')
+    }
+    const info = asSpecObject(doc.info)
+    if (info.summary) {
+      delete info.summary
+      warnings.push('info.summary removed')
+    }
+    const license = asSpecObject(info.license)
+    if (license.identifier) {
+      delete license.identifier
+      warnings.push('info.license.identifier removed')
+    }
+    const components = asSpecObject(doc.components)
+    if (components.pathItems) {
+      delete components.pathItems
+      warnings.push('components.pathItems removed')
+    }
+    // paths is optional in 3.1 but required in 3.0
+    if (!doc.paths) {
+      doc.paths = {}
+    }
+
+    logger.info({ applied: applied.length, warnings: warnings.length }, 'Downgraded OpenAPI 3.1 document to 3.0')
+
+    return { spec: doc, from: '3.1', to: '3.0', applied, warnings }
+  }
+
+  /**
+   * Builds the servers list from host, basePath and schemes
+   */
+  private convertServers(doc: SpecObject): Array<{ url: string }> {
+    const basePath = typeof doc.basePath === 'string' ? doc.basePath : ''
+    if (!doc.host) {
+      return basePath ? [{ url: basePath }] : []
+    }
+    const schemes = stringsOr(doc.schemes, ['https'])
+    return schemes.map((scheme) => ({ url: `${scheme}://${doc.host}${basePath}` }))
+  }
+
+  /**
+   * Converts definitions, parameters, responses and securityDefinitions into components
+   */
+  private convertComponents(doc: SpecObject, ctx: ConversionContext): SpecObject {
+    const components: SpecObject = {}
+
+    if (isSpecObject(doc.definitions)) {
+      components.schemas = this.mapValues(doc.definitions, (schema) => this.convertSchema(schema, ctx))
+      ctx.applied.push('definitions → components/schemas')
+    }
+
+    const parameters: SpecObject = {}
+    const requestBodies: SpecObject = {}
+    Object.entries(ctx.globalParameters).forEach(([name, value]) => {
+      const param = asSpecObject(value)
+      if (param.in === 'body') {
+        requestBodies[name] = this.buildBodyRequest(param, ctx.consumes, ctx)
+      } else if (param.in === 'formData') {
+        requestBodies[name] = this.buildFormRequest([param], ctx.consumes, ctx)
+        ctx.warnings.push(`Global formData parameter '${name}' converted to a standalone request body`)
+      } else {
+        parameters[name] = this.convertParameter(param, ctx)
+      }
+    })
+    if (Object.keys(parameters).length > 0) components.parameters = parameters
+    if (Object.keys(requestBodies).length > 0) components.requestBodies = requestBodies
+
+    if (doc.parameters) {
+      ctx.applied.push('parameters → components/parameters and components/requestBodies')
+    }
+
+    if (isSpecObject(doc.responses)) {
+      components.responses = this.mapValues(doc.responses, (response) =>
+        this.convertResponse(response, ctx.produces, ctx)
+      )
+      ctx.applied.push('responses → components/responses')
+    }
+
+    if (isSpecObject(doc.securityDefinitions)) {
+      components.securitySchemes = this.mapValues(doc.securityDefinitions, (scheme) =>
+        this.convertSecurityScheme(scheme)
+      )
+      ctx.applied.push('securityDefinitions → components/securitySchemes')
+    }
+
+    return components
+  }
+
+  /**
+   * Converts all path items and their operations
+   */
+  private convertPaths(paths: SpecObject, ctx: ConversionContext): SpecObject {
+    const converted: SpecObject = {}
+
+    Object.entries(paths).forEach(([path, pathItem]) => {
+      if (!isSpecObject(pathItem)) return
+
+      const { parameters, ...rest } = pathItem
+      const pathParams = Array.isArray(parameters) ? parameters : []
+      const item: SpecObject = {}
+
+      // Body/formData params declared on the path apply to every operation
+      const sharedPayload = pathParams.filter((p) => this.isPayloadParameter(p, ctx))
+      const sharedParams = pathParams.filter((p) => !this.isPayloadParameter(p, ctx))
+      if (sharedParams.length > 0) {
+        item.parameters = sharedParams.map((p) => this.convertParameter(asSpecObject(p), ctx))
+      }
+
+      Object.entries(rest).forEach(([key, value]) => {
+        if (isHttpMethod(key)) {
+          item[key] = this.convertOperation(asSpecObject(value), sharedPayload, `${key.toUpperCase()} ${path}`, ctx)
+        } else if (key === '$ref') {
+          item.$ref = value
+          ctx.warnings.push(`Path item $ref at ${path} left unchanged`)
+        } else {
+          item[key] = value
+        }
+      })
+
+      converted[path] = item
+    })
+
+    return converted
+  }
+
+  /**
+   * Converts a single operation
+   */
+  private convertOperation(
+    operation: SpecObject,
+    sharedPayload: unknown[],
+    location: string,
+    ctx: ConversionContext
+  ): SpecObject {
+    const { parameters, responses, consumes, produces, schemes, ...rest } = operation
+    const result: SpecObject = { ...rest }
+    const opConsumes = stringsOr(consumes, ctx.consumes)
+    const opProduces = stringsOr(produces, ctx.produces)
+    const opParams = Array.isArray(parameters) ? parameters : []
+
+    if (schemes) {
+      ctx.warnings.push(`Operation-level schemes dropped for ${operation.operationId || 'an operation'}`)
+    }
+
+    const payload = [...sharedPayload, ...opParams.filter((p) => this.isPayloadParameter(p, ctx))]
+    const params = opParams.filter((p) => !this.isPayloadParameter(p, ctx))
+
+    if (params.length > 0) {
+      result.parameters = params.map((p) => this.convertParameter(asSpecObject(p), ctx))
+    }
+
+    const requestBody = this.convertPayload(payload, opConsumes, ctx)
+    if (requestBody) {
+      result.requestBody = requestBody
+      ctx.applied.push(`body/formData parameters → requestBody at ${location}`)
+    }
+
+    result.responses = this.mapValues(asSpecObject(responses), (response) =>
+      this.convertResponse(response, opProduces, ctx)
+    )
+
+    return result
+  }
+
+  /**
+   * Whether a parameter (or a $ref to a global one) is a body/formData parameter
+   */
+  private isPayloadParameter(param: unknown, ctx: ConversionContext): boolean {
+    const resolved = this.resolveGlobalParameter(param, ctx)
+    return resolved?.in === 'body' || resolved?.in === 'formData'
+  }
+
+  /**
+   * Resolves a `#/parameters/...` reference against the global parameters
+   */
+  private resolveGlobalParameter(param: unknown, ctx: ConversionContext): SpecObject | undefined {
+    if (!isSpecObject(param)) return undefined
+    if (typeof param.$ref === 'string' && param.$ref.startsWith('#/parameters/')) {
+      const global = ctx.globalParameters[param.$ref.slice('#/parameters/'.length)]
+      return isSpecObject(global) ? global : undefined
+    }
+    return param
+  }
+
+  /**
+   * Turns body/formData parameters into a requestBody
+   */
+  private convertPayload(payload: unknown[], consumes: string[], ctx: ConversionContext): SpecObject | undefined {
+    if (payload.length === 0) return undefined
+
+    // Operation-level params override path-level params with the same name/location
+    const body = [...payload].reverse().find((p) => this.resolveGlobalParameter(p, ctx)?.in === 'body')
+    if (isSpecObject(body)) {
+      if (typeof body.$ref === 'string') {
+        return { $ref: this.rewriteRef(body.$ref, ctx) }
+      }
+      return this.buildBodyRequest(body, consumes, ctx)
+    }
+
+    const formParams = payload.map((p) => {
+      if (isSpecObject(p) && p.$ref) {
+        ctx.warnings.push(`formData parameter ${p.$ref} inlined into the request body`)
+      }
+      return asSpecObject(this.resolveGlobalParameter(p, ctx))
+    })
+    return this.buildFormRequest(formParams, consumes, ctx)
+  }
+
+  /**
+   * Builds a requestBody from a body parameter
+   */
+  private buildBodyRequest(param: SpecObject, consumes: string[], ctx: ConversionContext): SpecObject {
+    const schema = this.convertSchema(param.schema || {}, ctx)
+    const content: Record<string, SpecObject> = Object.fromEntries(
+      consumes.map((mediaType) => [mediaType, { schema }])
+    )
+    const requestBody: SpecObject = { content }
+    if (param.description) requestBody.description = param.description
+    if (param.required) requestBody.required = true
+    Object.assign(requestBody, this.extensionsOf(param))
+    if (isSpecObject(param['x-examples'])) {
+      Object.entries(param['x-examples']).forEach(([mediaType, example]) => {
+        if (content[mediaType]) content[mediaType].example = example
+      })
+      delete requestBody['x-examples']
+    }
+    return requestBody
+  }
+
+  /**
+   * Builds a form requestBody from formData parameters
+   */
+  private buildFormRequest(params: SpecObject[], consumes: string[], ctx: ConversionContext): SpecObject {
+    const hasFile = params.some((p) => p.type === 'file')
+    const formTypes = consumes.filter(
+      (mediaType) => mediaType === 'multipart/form-data' || mediaType === 'application/x-www-form-urlencoded'
+    )
+    const mediaTypes = formTypes.length > 0
+      ? formTypes
+      : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+
+    const properties: SpecObject = {}
+    const schema: SpecObject = { type: 'object', properties }
+    const required: string[] = []
+
+    params.forEach((param) => {
+      const name = String(param.name)
+      const property = this.convertSchemaObject(this.pickSchema(param), ctx)
+      if (param.description) property.description = param.description
+      properties[name] = property
+      if (param.required) required.push(name)
+    })
+    if (required.length > 0) schema.required = required
+
+    return {
+      content: Object.fromEntries(mediaTypes.map((mediaType) => [mediaType, { schema }])),
+      ...(required.length > 0 ? { required: true } : {}),
+    }
+  }
+
+  /**
+   * Converts a non-body parameter
+   */
+  private convertParameter(param: SpecObject, ctx: ConversionContext): SpecObject {
+    if (typeof param.$ref === 'string') {
+      return { $ref: this.rewriteRef(param.$ref, ctx) }
+    }
+
+    const result: SpecObject = Object.fromEntries(
+      Object.entries(param).filter(([key]) => !SCHEMA_KEYWORDS.includes(key) && key !== 'collectionFormat')
+    )
+    result.schema = this.convertSchemaObject(this.pickSchema(param), ctx)
+
+    const { collectionFormat } = param
+    if (collectionFormat) {
+      const mapped = typeof collectionFormat === 'string' ? COLLECTION_FORMATS[collectionFormat] : undefined
+      if (mapped) {
+        // Path and header params only support the simple style
+        const style = (param.in === 'path' || param.in === 'header') && collectionFormat === 'csv'
+          ? 'simple'
+          : mapped.style
+        result.style = style
+        result.explode = mapped.explode
+      } else {
+        ctx.warnings.push(`collectionFormat '${collectionFormat}' on parameter '${param.name}' has no 3.x equivalent`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Converts a response object
+   */
+  private convertResponse(response: unknown, produces: string[], ctx: ConversionContext): SpecObject {
+    if (isSpecObject(response) && typeof response.$ref === 'string') {
+      return { $ref: this.rewriteRef(response.$ref, ctx) }
+    }
+
+    const { schema, examples, headers, ...rest } = asSpecObject(response)
+    const result: SpecObject = { description: '', ...rest }
+
+    if (schema) {
+      const converted = this.convertSchema(schema, ctx)
+      const mediaTypes = isSpecObject(schema) && schema.type === 'file' ? ['application/octet-stream'] : produces
+      const mediaExamples = asSpecObject(examples)
+      result.content = Object.fromEntries(
+        mediaTypes.map((mediaType) => {
+          const media: SpecObject = { schema: converted }
+          if (mediaExamples[mediaType] !== undefined) media.example = mediaExamples[mediaType]
+          return [mediaType, media]
+        })
+      )
+    }
+
+    if (isSpecObject(headers)) {
+      result.headers = this.mapValues(headers, (header) => {
+        const { description, ...schemaPart } = asSpecObject(header)
+        return {
+          ...(description ? { description } : {}),
+          schema: this.convertSchemaObject(this.pickSchema(schemaPart), ctx),
+        }
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Converts a security definition into a 3.x security scheme
+   */
+  private convertSecurityScheme(scheme: unknown): SpecObject {
+    const { type, flow, authorizationUrl, tokenUrl, scopes, ...rest } = asSpecObject(scheme)
+
+    if (type === 'basic') {
+      return { ...rest, type: 'http', scheme: 'basic' }
+    }
+
+    if (type === 'oauth2') {
+      const flowName = String(flow)
+      const flowObject: SpecObject = { scopes: scopes || {} }
+      if (authorizationUrl) flowObject.authorizationUrl = authorizationUrl
+      if (tokenUrl) flowObject.tokenUrl = tokenUrl
+      return { ...rest, type: 'oauth2', flows: { [OAUTH2_FLOWS[flowName] || flowName]: flowObject } }
+    }
+
+    return { ...rest, type }
+  }
+
+  /**
+   * Recursively converts a schema (or an array of them - items can be either in 2.0)
+   */
+  private convertSchema(schema: unknown, ctx: ConversionContext): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.convertSchema(item, ctx))
+    }
+    if (!isSpecObject(schema)) {
+      return schema
+    }
+    return this.convertSchemaObject(schema, ctx)
+  }
+
+  /**
+   * Converts a single schema object and everything below it
+   */
+  private convertSchemaObject(schema: SpecObject, ctx: ConversionContext): SpecObject {
+    const result: SpecObject = { ...schema }
+
+    if (typeof result.$ref === 'string') {
+      result.$ref = this.rewriteRef(result.$ref, ctx)
+    }
+
+    if (result.type === 'file') {
+      result.type = 'string'
+      result.format = 'binary'
+    }
+
+    if (typeof result.discriminator === 'string') {
+      result.discriminator = { propertyName: result.discriminator }
+    }
+
+    if (result['x-nullable'] !== undefined) {
+      if (result['x-nullable'] === true) result.nullable = true
+      delete result['x-nullable']
+    }
+
+    if (isSpecObject(result.properties)) {
+      result.properties = this.mapValues(result.properties, (prop) => this.convertSchema(prop, ctx))
+    }
+    SWAGGER_SUBSCHEMA_KEYWORDS.forEach((key) => {
+      if (result[key] && typeof result[key] === 'object') {
+        result[key] = this.convertSchema(result[key], ctx)
+      }
+    })
+    SWAGGER_COMPOSITION_KEYWORDS.forEach((key) => {
+      const members = result[key]
+      if (Array.isArray(members)) {
+        result[key] = members.map((item) => this.convertSchema(item, ctx))
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Applies 3.0 -> 3.1 rewrites to a single schema object
+   */
+  private upgradeSchema(schema: SpecObject, pointer: string, applied: string[]): SpecObject {
+    let result: SpecObject = { ...schema }
+
+    EXCLUSIVE_BOUNDS.forEach(([flag, bound]) => {
+      if (result[flag] === true && typeof result[bound] === 'number') {
+        result[flag] = result[bound]
+        delete result[bound]
+        applied.push(`${flag}: true → numeric ${flag} at ${pointer}`)
+      } else if (typeof result[flag] === 'boolean') {
+        delete result[flag]
+      }
+    })
+
+    if (result.example !== undefined) {
+      result.examples = [result.example]
+      delete result.example
+      applied.push(`example → examples at ${pointer}`)
+    }
+
+    if (result.nullable !== undefined) {
+      const { nullable, ...rest } = result
+      result = rest
+      if (nullable === true) {
+        if (typeof rest.type === 'string') {
+          result.type = [rest.type, 'null']
+          if (Array.isArray(rest.enum) && !rest.enum.includes(null)) {
+            result.enum = [...rest.enum, null]
+          }
+        } else {
+          // $ref and composed schemas have no type to extend
+          result = { anyOf: [rest, { type: 'null' }] }
+        }
+        applied.push(`nullable → type null at ${pointer}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Applies 3.1 -> 3.0 rewrites to a single schema object
+   */
+  private downgradeSchema(
+    schema: SpecObject,
+    pointer: string,
+    applied: string[],
+    warnings: string[]
+  ): SpecObject {
+    let result: SpecObject = { ...schema }
+
+    const { type } = result
+    if (Array.isArray(type)) {
+      const types = type.filter((name) => name !== 'null')
+      const nullable = types.length < type.length
+      delete result.type
+      if (types.length === 1) {
+        [result.type] = types
+      } else if (types.length > 1) {
+        result.oneOf = types.map((name) => ({ type: name }))
+      }
+      if (nullable) result.nullable = true
+      applied.push(`type array → ${nullable ? 'nullable' : 'oneOf'} at ${pointer}`)
+    } else if (type === 'null') {
+      delete result.type
+      result.nullable = true
+      warnings.push(`Standalone type null at ${pointer} has no 3.0 equivalent`)
+    }
+
+    // anyOf/oneOf: [X, { type: 'null' }] is the 3.1 spelling of a nullable X
+    NULLABLE_UNION_KEYWORDS.forEach((key) => {
+      const members = result[key]
+      if (!Array.isArray(members) || !members.some((m) => this.isNullSchema(m))) return
+
+      const others = members.filter((m) => !this.isNullSchema(m))
+      delete result[key]
+      if (others.length === 1 && isSpecObject(others[0]) && others[0].$ref) {
+        result.allOf = others
+      } else if (others.length === 1) {
+        result = { ...asSpecObject(others[0]), ...result }
+      } else {
+        result[key] = others
+      }
+      result.nullable = true
+      applied.push(`${key} with type null → nullable at ${pointer}`)
+    })
+
+    EXCLUSIVE_BOUNDS.forEach(([flag, bound]) => {
+      if (typeof result[flag] === 'number') {
+        result[bound] = result[flag]
+        result[flag] = true
+        applied.push(`numeric ${flag} → ${bound} + ${flag}: true at ${pointer}`)
+      }
+    })
+
+    const { examples } = result
+    if (Array.isArray(examples)) {
+      if (examples.length > 0) [result.example] = examples
+      if (examples.length > 1) {
+        warnings.push(`Only the first of ${examples.length} examples kept at ${pointer}`)
+      }
+      delete result.examples
+      applied.push(`examples → example at ${pointer}`)
+    }
+
+    if (result.const !== undefined) {
+      result.enum = [result.const]
+      delete result.const
+      applied.push(`const → enum at ${pointer}`)
+    }
+
+    JSON_SCHEMA_ONLY_KEYWORDS.forEach((keyword) => {
+      if (result[keyword] !== undefined) {
+        delete result[keyword]
+        warnings.push(`${keyword} at ${pointer} is not supported in 3.0 and was removed`)
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Whether a schema is exactly `{ type: 'null' }`
+   */
+  private isNullSchema(schema: unknown): boolean {
+    return isSpecObject(schema) && schema.type === 'null' && Object.keys(schema).length === 1
+  }
+
+  /**
+   * Runs a visitor over every schema in a 3.x document (in place)
+   * @description Covers components, paths, webhooks and callbacks - anywhere a schema can hide
+   */
+  private transformDocumentSchemas(doc: SpecObject, visit: SchemaVisitor): void {
+    const components = asSpecObject(doc.components)
+    const schemas = asSpecObject(components.schemas)
+    const componentPointer = (type: string, name: string) => `#/components/${type}/${this.escapePointer(name)}`
+
+    Object.entries(schemas).forEach(([name, schema]) => {
+      schemas[name] = this.transformSchema(schema, componentPointer('schemas', name), visit)
+    })
+    Object.entries(asSpecObject(components.parameters)).forEach(([name, param]) => {
+      this.transformParameter(param, componentPointer('parameters', name), visit)
+    })
+    Object.entries(asSpecObject(components.headers)).forEach(([name, header]) => {
+      this.transformParameter(header, componentPointer('headers', name), visit)
+    })
+    Object.entries(asSpecObject(components.responses)).forEach(([name, response]) => {
+      this.transformResponse(response, componentPointer('responses', name), visit)
+    })
+    Object.entries(asSpecObject(components.requestBodies)).forEach(([name, body]) => {
+      this.transformContent(asSpecObject(body).content, `${componentPointer('requestBodies', name)}/content`, visit)
+    })
+    Object.entries(asSpecObject(components.callbacks)).forEach(([name, callback]) => {
+      this.transformPathItems(callback, componentPointer('callbacks', name), visit)
+    })
+    this.transformPathItems(components.pathItems, '#/components/pathItems', visit)
+    this.transformPathItems(doc.paths, '#/paths', visit)
+    this.transformPathItems(doc.webhooks, '#/webhooks', visit)
+  }
+
+  /**
+   * Visits every path item in a paths/webhooks/callback map
+   */
+  private transformPathItems(items: unknown, pointer: string, visit: SchemaVisitor): void {
+    Object.entries(asSpecObject(items)).forEach(([key, item]) => {
+      if (!isSpecObject(item)) return
+      const itemPointer = `${pointer}/${this.escapePointer(key)}`
+
+      if (Array.isArray(item.parameters)) {
+        item.parameters.forEach((param, index) => {
+          this.transformParameter(param, `${itemPointer}/parameters/${index}`, visit)
+        })
+      }
+
+      HTTP_METHODS.forEach((method) => {
+        const operation = item[method]
+        if (!isSpecObject(operation)) return
+        const opPointer = `${itemPointer}/${method}`
+
+        if (Array.isArray(operation.parameters)) {
+          operation.parameters.forEach((param, index) => {
+            this.transformParameter(param, `${opPointer}/parameters/${index}`, visit)
+          })
+        }
+        this.transformContent(asSpecObject(operation.requestBody).content, `${opPointer}/requestBody/content`, visit)
+        Object.entries(asSpecObject(operation.responses)).forEach(([status, response]) => {
+          this.transformResponse(response, `${opPointer}/responses/${status}`, visit)
+        })
+        Object.entries(asSpecObject(operation.callbacks)).forEach(([name, callback]) => {
+          this.transformPathItems(callback, `${opPointer}/callbacks/${this.escapePointer(name)}`, visit)
+        })
+      })
+    })
+  }
+
+  /**
+   * Visits the schemas of a response (content and headers)
+   */
+  private transformResponse(response: unknown, pointer: string, visit: SchemaVisitor): void {
+    if (!isSpecObject(response) || response.$ref) return
+    this.transformContent(response.content, `${pointer}/content`, visit)
+    Object.entries(asSpecObject(response.headers)).forEach(([name, header]) => {
+      this.transformParameter(header, `${pointer}/headers/${this.escapePointer(name)}`, visit)
+    })
+  }
+
+  /**
+   * Visits the schema (or content) of a parameter or header
+   */
+  private transformParameter(param: unknown, pointer: string, visit: SchemaVisitor): void {
+    if (!isSpecObject(param) || param.$ref) return
+    const { schema, content } = param
+    if (schema) {
+      Object.assign(param, { schema: this.transformSchema(schema, `${pointer}/schema`, visit) })
+    }
+    this.transformContent(content, `${pointer}/content`, visit)
+  }
+
+  /**
+   * Visits the schema of every media type in a content map
+   */
+  private transformContent(content: unknown, pointer: string, visit: SchemaVisitor): void {
+    const mediaTypes = asSpecObject(content)
+    Object.keys(mediaTypes).forEach((mediaType) => {
+      const media = mediaTypes[mediaType]
+      if (isSpecObject(media) && media.schema) {
+        media.schema = this.transformSchema(media.schema, `${pointer}/${this.escapePointer(mediaType)}/schema`, visit)
+      }
+    })
+  }
+
+  /**
+   * Recursively transforms a schema, parent first
+   * @description Parents go first so patterns like `anyOf: [X, { type: 'null' }]` are seen intact
+   */
+  private transformSchema(schema: unknown, pointer: string, visit: SchemaVisitor): unknown {
+    if (!isSpecObject(schema)) {
+      return schema
+    }
+
+    const result = visit({ ...schema }, pointer)
+
+    SCHEMA_MAP_KEYWORDS.forEach((key) => {
+      const children = result[key]
+      if (isSpecObject(children)) {
+        result[key] = Object.fromEntries(
+          Object.entries(children).map(([name, child]) => [
+            name,
+            this.transformSchema(child, `${pointer}/${key}/${this.escapePointer(name)}`, visit),
+          ])
+        )
+      }
+    })
+    SUBSCHEMA_KEYWORDS.forEach((key) => {
+      if (isSpecObject(result[key])) {
+        result[key] = this.transformSchema(result[key], `${pointer}/${key}`, visit)
+      }
+    })
+    SCHEMA_LIST_KEYWORDS.forEach((key) => {
+      const members = result[key]
+      if (Array.isArray(members)) {
+        result[key] = members.map((child, index) =>
+          this.transformSchema(child, `${pointer}/${key}/${index}`, visit)
+        )
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Escapes a JSON pointer segment (RFC 6901)
+   */
+  private escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+  }
+
+  /**
+   * Rewrites Swagger 2.0 local references to their 3.x component locations
+   */
+  private rewriteRef(ref: string, ctx: ConversionContext): string {
+    const [file, pointer] = ref.includes('#') ? ref.split('#') : ['', ref]
+    if (!pointer) return ref
+
+    let rewritten = pointer
+    if (pointer.startsWith('/definitions/')) {
+      rewritten = pointer.replace('/definitions/', '/components/schemas/')
+    } else if (pointer.startsWith('/responses/')) {
+      rewritten = pointer.replace('/responses/', '/components/responses/')
+    } else if (pointer.startsWith('/parameters/')) {
+      const name = pointer.slice('/parameters/'.length)
+      const param = asSpecObject(ctx.globalParameters[name])
+      rewritten = param.in === 'body' || param.in === 'formData'
+        ? `/components/requestBodies/${name}`
+        : `/components/parameters/${name}`
+    }
+
+    return `${file}#${rewritten}`
+  }
+
+  /**
+   * Picks the schema keywords out of a 2.0 parameter/header
+   */
+  private pickSchema(param: SpecObject): SpecObject {
+    return Object.fromEntries(SCHEMA_KEYWORDS.filter((key) => param[key] !== undefined).map((key) => [key, param[key]]))
+  }
+
+  /**
+   * The x- extensions of an object
+   */
+  private extensionsOf(from: SpecObject): SpecObject {
+    return Object.fromEntries(Object.entries(from).filter(([key]) => key.startsWith('x-')))
+  }
+
+  /**
+   * Maps over the values of a record
+   */
+  private mapValues(record: SpecObject, fn: (value: unknown) => unknown): SpecObject {
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]))
+  }
+}
@@ -9,6 +9,7 @@
  * @module services/spec-manager
  */
 
+import { randomUUID } from 'crypto'
 import SwaggerParser from '@apidevtools/swagger-parser'
 import * as yaml from 'js-yaml'
 import { type BaseStorageProvider } from '../storage/base-storage-provider.js'
@@ -18,9 +19,32 @@ import {
   detectOpenAPIVersion,
   type OpenAPIDocument,
 } from '../types/openapi.js'
+import {
+  isVersionMutable,
+  versionStateOf,
+  type SpecEdit,
+  type VersionMetadata,
+} from '../types/metadata.js'
 import { createStorageError, StorageError, ToolError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import { createJsonPatch } from '../utils/json-patch.js'
 import { type CacheService } from './cache-service.js'
+import { activeChangeSet, type ChangeSet } from './change-set-manager.js'
+
+/**
+ * Whether a change set holds the working copy of this spec
+ * @throws ToolError if a change set is active but covers a different spec
+ */
+function changeSetFor(apiId: ApiId, version: VersionTag): ChangeSet | undefined {
+  const changeSet = activeChangeSet()
+  if (!changeSet) return undefined
+  if (changeSet.api_id !== apiId || changeSet.version !== version) {
+    throw new ToolError(
+      `Change set ${changeSet.id} covers ${changeSet.api_id} ${changeSet.version}, not ${apiId} ${version}`
+    )
+  }
+  return changeSet
+}
 
 /**
  * Spec Manager Service
@@ -45,8 +69,15 @@ export class SpecManager {
    * @throws ToolError if spec is invalid
    * @description Reads the versioned spec file and parses it.
    * Like opening a specific edition of a book from your library.
+   * Inside a change set this is a copy of the working copy instead.
    */
   async loadSpec(apiId: ApiId, version: VersionTag, folder?: string): Promise<OpenAPIDocument> {
+    const changeSet = changeSetFor(apiId, version)
+    if (changeSet) {
+      const spec = structuredClone(changeSet.spec)
+      return { version: detectOpenAPIVersion(spec), spec } as OpenAPIDocument
+    }
+
     const cacheKey = `specs:${apiId}:${version}`
     
     // Use cache if available
@@ -115,6 +146,10 @@ export class SpecManager {
    * @param format - Output format (yaml or json)
    * @param folder - Specific folder (optional, will search all if not provided)
    * @description Saves spec using atomic writes to prevent corruption.
+   * Inside a change set only the working copy is updated; `commit` does the real save.
+   * @returns The edit as forward and inverse JSON Patch, for the audit event (undefined for a
+   * new spec, an unchanged one, or inside a change set)
+   * @throws ToolError (code VERSION_IMMUTABLE) if the version has left the draft state
    */
   async saveSpec(
     apiId: ApiId,
@@ -122,9 +157,80 @@ export class SpecManager {
     spec: object,
     format: 'yaml' | 'json' = 'yaml',
     folder?: string
-  ): Promise<void> {
+  ): Promise<SpecEdit | undefined> {
+    const changeSet = changeSetFor(apiId, version)
+    if (changeSet) {
+      changeSet.spec = structuredClone(spec) as Record<string, unknown>
+      logger.debug({ apiId, version, transactionId: changeSet.id }, 'Spec saved to change set')
+      return undefined
+    }
+
     // If folder not specified, find where the API lives
     const targetFolder = folder || await this.findApiFolder(apiId) || this.defaultFolder
+
+    await this.assertVersionMutable(apiId, version, targetFolder)
+    const previous = await this.readStoredSpec(apiId, version, targetFolder)
+    await this.writeSpec(apiId, version, spec, format, targetFolder)
+
+    if (previous === undefined) return undefined
+    const saved = JSON.parse(JSON.stringify(spec))
+    const patch = createJsonPatch(previous, saved)
+    if (patch.length === 0) return undefined
+    return { edit_id: randomUUID(), patch, inverse_patch: createJsonPatch(saved, previous) }
+  }
+
+  /**
+   * Reads the stored spec as plain data (no cache, no parser - the cache may hand out
+   * the very object a tool is busy mutating)
+   * @returns The stored spec, or undefined if there is none (or it can't be parsed)
+   */
+  private async readStoredSpec(apiId: ApiId, version: VersionTag, targetFolder: string): Promise<unknown> {
+    for (const format of ['yaml', 'json'] as const) {
+      const specPath = `${targetFolder}/${apiId}/${version}/spec.${format}`
+      try {
+        if (await this.storage.exists(specPath)) {
+          const content = await this.storage.read(specPath)
+          return format === 'yaml' ? yaml.load(content) : JSON.parse(content)
+        }
+      } catch (error) {
+        logger.debug({ apiId, version, error }, 'Stored spec unreadable - edit not recorded as a patch')
+        return undefined
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Saves the spec of a frozen version
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param spec - OpenAPI specification to save
+   * @param format - Output format (yaml or json)
+   * @param folder - Specific folder (optional, will search all if not provided)
+   * @description For lifecycle bookkeeping only (deprecation notices written when a version
+   * is deprecated) - skips the immutability check that saveSpec enforces. Not for edits!
+   */
+  async saveFrozenSpec(
+    apiId: ApiId,
+    version: VersionTag,
+    spec: object,
+    format: 'yaml' | 'json' = 'yaml',
+    folder?: string
+  ): Promise<void> {
+    const targetFolder = folder || await this.findApiFolder(apiId) || this.defaultFolder
+    await this.writeSpec(apiId, version, spec, format, targetFolder)
+  }
+
+  /**
+   * Writes a spec file and invalidates the cache
+   */
+  private async writeSpec(
+    apiId: ApiId,
+    version: VersionTag,
+    spec: object,
+    format: 'yaml' | 'json',
+    targetFolder: string
+  ): Promise<void> {
     const specPath = `${targetFolder}/${apiId}/${version}/spec.${format}`
 
     try {
@@ -155,6 +261,38 @@ export class SpecManager {
     }
   }
 
+  /**
+   * Refuses to let anyone edit a frozen version
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param folder - Specific folder (optional, will search all if not provided)
+   * @throws ToolError (code VERSION_IMMUTABLE) if the version has left the draft state
+   * @description Published versions are what consumers rely on. Changes go into a new
+   * draft version instead, so v1.2.0 means the same thing tomorrow as it did yesterday. 🧊
+   */
+  async assertVersionMutable(apiId: ApiId, version: VersionTag, folder?: string): Promise<void> {
+    const targetFolder = folder || await this.findApiFolder(apiId) || this.defaultFolder
+    const metadataPath = `${targetFolder}/${apiId}/${version}/metadata.json`
+    if (!(await this.storage.exists(metadataPath))) return
+
+    let stored: VersionMetadata
+    try {
+      stored = JSON.parse(await this.storage.read(metadataPath)) as VersionMetadata
+    } catch (error) {
+      logger.warn({ apiId, version, error }, 'Unreadable version metadata, treating version as draft')
+      return
+    }
+    // An unknown state is a broken record, not a draft - refuse the edit
+    const state = versionStateOf(stored.state)
+
+    if (!isVersionMutable(state)) {
+      throw new ToolError(
+        `Version ${version} of ${apiId} is ${state} and cannot be modified - create a new draft version instead`,
+        { code: 'VERSION_IMMUTABLE', params: { apiId, version, state } }
+      )
+    }
+  }
+
   /**
    * Checks if a specific version of a spec exists
    * @param apiId - API identifier
@@ -172,8 +310,14 @@ export class SpecManager {
    * @param apiId - API identifier
    * @param version - Version tag
    * @throws StorageError if deletion fails
+   * @throws ToolError inside a change set (a working copy can't be deleted)
    */
   async deleteSpec(apiId: ApiId, version: VersionTag): Promise<void> {
+    const changeSet = activeChangeSet()
+    if (changeSet) {
+      throw new ToolError(`Cannot delete ${apiId} ${version} inside change set ${changeSet.id}`)
+    }
+
     const yamlPath = `${apiId}/${version}/spec.yaml`
     const jsonPath = `${apiId}/${version}/spec.json`
 
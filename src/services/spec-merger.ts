@@ -0,0 +1,271 @@
+/**
+ * Spec Merger Service
+ *
+ * @description Three-way merge for OpenAPI documents. Two people branched from the same
+ * version, both did some work, and now someone has to put it back together. That someone
+ * is this service. 🤝
+ *
+ * Objects are merged key by key, so edits to different paths, operations, schemas (or
+ * different fields of the same operation) combine cleanly. Parameter lists are matched by
+ * `in` + `name`, tag lists by `name`, and arrays of primitives (`required`, `enum`,
+ * operation `tags`) are merged as sets. Everything else is atomic: if both sides changed
+ * it differently, that's a conflict.
+ *
+ * @module services/spec-merger
+ */
+
+import { isDeepStrictEqual } from 'node:util'
+import { logger } from '../utils/logger.js'
+import { isHttpMethod } from '../utils/http-methods.js'
+import { isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+
+/**
+ * Kind of conflict
+ */
+export type MergeConflictKind =
+  | 'both-modified' // both sides changed the node, differently
+  | 'both-added' // both sides added the node, differently
+  | 'modified-deleted' // ours changed it, theirs deleted it
+  | 'deleted-modified' // ours deleted it, theirs changed it
+
+/**
+ * A node both sides touched
+ */
+export interface MergeConflict {
+  /** JSON pointer of the conflicting node (matched list items use their key, e.g. `.../parameters/query:limit`) */
+  pointer: string
+  /** Enclosing path/operation/schema, e.g. 'GET /pets' or 'schema Pet' */
+  location: string
+  kind: MergeConflictKind
+  /** Value in the common ancestor (undefined if absent) */
+  base: unknown
+  /** Value on our side (undefined if deleted) */
+  ours: unknown
+  /** Value on their side (undefined if deleted) */
+  theirs: unknown
+}
+
+/**
+ * How to settle conflicts automatically
+ */
+export type MergeResolution = 'ours' | 'theirs'
+
+/**
+ * Outcome of a merge
+ */
+export interface MergeResult {
+  /** Merged document. Conflicting nodes hold the resolved side, or ours when unresolved */
+  merged: SpecObject
+  /** Every node both sides touched differently */
+  conflicts: MergeConflict[]
+  /** Locations that took changes from their side */
+  fromTheirs: string[]
+  /** Whether the merged document is safe to use (no conflicts, or all were resolved) */
+  clean: boolean
+}
+
+/**
+ * Mutable bookkeeping threaded through a merge
+ */
+interface MergeState {
+  conflicts: MergeConflict[]
+  fromTheirs: Set<string>
+  resolution?: MergeResolution
+}
+
+/**
+ * Identity function for arrays of objects we know how to match, if any
+ * @description Parameters are identified by in + name (a `$ref` by its target), tags by name.
+ */
+function arrayKey(items: unknown[]): ((item: SpecObject) => string) | undefined {
+  const objects = items.filter(isSpecObject)
+  if (objects.length !== items.length) return undefined
+
+  if (objects.every((item) => typeof item.$ref === 'string' || (typeof item.name === 'string' && typeof item.in === 'string'))) {
+    return (item) => (typeof item.$ref === 'string' ? item.$ref : `${item.in}:${item.name}`)
+  }
+  if (objects.every((item) => typeof item.name === 'string' && item.in === undefined)) {
+    return (item) => String(item.name)
+  }
+  return undefined
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Spec Merger Service
+ * @description Git's merge, if git understood OpenAPI.
+ */
+export class SpecMerger {
+  /**
+   * Three-way merges two documents descending from a common ancestor
+   * @param base - Common ancestor
+   * @param ours - Our side (wins layout and key order)
+   * @param theirs - Their side
+   * @param resolution - Optional side that wins every conflict
+   * @returns Merged document plus conflicts
+   */
+  merge(
+    base: object,
+    ours: object,
+    theirs: object,
+    resolution?: MergeResolution
+  ): MergeResult {
+    const conflicts: MergeConflict[] = []
+    const fromTheirs = new Set<string>()
+
+    const merged = this.mergeValue(base, ours, theirs, '', { conflicts, fromTheirs, resolution })
+
+    logger.info(
+      { conflicts: conflicts.length, fromTheirs: fromTheirs.size, resolution },
+      'Three-way merge complete'
+    )
+
+    return {
+      merged: isSpecObject(merged) ? merged : {},
+      conflicts,
+      fromTheirs: [...fromTheirs],
+      clean: conflicts.length === 0 || resolution !== undefined,
+    }
+  }
+
+  /**
+   * Merges one node
+   */
+  private mergeValue(base: unknown, ours: unknown, theirs: unknown, pointer: string, state: MergeState): unknown {
+    if (isDeepStrictEqual(ours, theirs)) return structuredClone(ours)
+    if (isDeepStrictEqual(base, ours)) {
+      // Only their side changed; descend into objects anyway so fromTheirs names the actual node
+      if (isSpecObject(ours) && isSpecObject(theirs)) {
+        return this.mergeObjects(isSpecObject(base) ? base : undefined, ours, theirs, pointer, state)
+      }
+      state.fromTheirs.add(this.locate(pointer))
+      return structuredClone(theirs)
+    }
+    if (isDeepStrictEqual(base, theirs)) return structuredClone(ours)
+
+    // Both sides changed the node differently - try to go one level deeper
+    if (ours !== undefined && theirs !== undefined) {
+      if (isSpecObject(ours) && isSpecObject(theirs) && (base === undefined || isSpecObject(base))) {
+        return this.mergeObjects(base, ours, theirs, pointer, state)
+      }
+      if (Array.isArray(ours) && Array.isArray(theirs) && (base === undefined || Array.isArray(base))) {
+        const mergedArray = this.mergeArrays((base as unknown[]) || [], ours, theirs, pointer, state)
+        if (mergedArray) return mergedArray
+      }
+    }
+
+    return this.conflict(base, ours, theirs, pointer, state)
+  }
+
+  /**
+   * Key-by-key merge; our key order first, then keys only they added
+   */
+  private mergeObjects(
+    base: SpecObject | undefined,
+    ours: SpecObject,
+    theirs: SpecObject,
+    pointer: string,
+    state: MergeState
+  ): SpecObject {
+    const result: SpecObject = {}
+    const keys = [...new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base || {})])]
+
+    keys.forEach((key) => {
+      const value = this.mergeValue(base?.[key], ours[key], theirs[key], `${pointer}/${escapePointer(key)}`, state)
+      if (value !== undefined) result[key] = value
+    })
+
+    return result
+  }
+
+  /**
+   * Merges arrays whose items can be matched up. Returns undefined for atomic arrays
+   */
+  private mergeArrays(base: unknown[], ours: unknown[], theirs: unknown[], pointer: string, state: MergeState): unknown[] | undefined {
+    const all = [...base, ...ours, ...theirs]
+
+    if (all.every((item) => item === null || typeof item !== 'object')) {
+      // Set semantics: keep what nobody removed, add what anybody added
+      const removed = base.filter((item) => !ours.includes(item) || !theirs.includes(item))
+      const result = [...ours, ...theirs].filter((item) => !removed.includes(item))
+      if (theirs.some((item) => !base.includes(item) && !ours.includes(item))) {
+        state.fromTheirs.add(this.locate(pointer))
+      }
+      return [...new Set(result)]
+    }
+
+    const keyOf = arrayKey(all)
+    if (!keyOf) return undefined
+
+    const index = (items: unknown[]) => new Map(items.filter(isSpecObject).map((item) => [keyOf(item), item]))
+    const baseItems = index(base)
+    const ourItems = index(ours)
+    const theirItems = index(theirs)
+    if (ourItems.size !== ours.length || theirItems.size !== theirs.length || baseItems.size !== base.length) {
+      return undefined // duplicate keys - can't match reliably
+    }
+
+    const keys = [...new Set([...ourItems.keys(), ...theirItems.keys(), ...baseItems.keys()])]
+    return keys
+      .map((key) =>
+        this.mergeValue(baseItems.get(key), ourItems.get(key), theirItems.get(key), `${pointer}/${escapePointer(key)}`, state)
+      )
+      .filter((value) => value !== undefined)
+  }
+
+  /**
+   * Records a conflict and returns the side that should stand in for now
+   */
+  private conflict(base: unknown, ours: unknown, theirs: unknown, pointer: string, state: MergeState): unknown {
+    let kind: MergeConflictKind = 'both-modified'
+    if (base === undefined) kind = 'both-added'
+    else if (theirs === undefined) kind = 'modified-deleted'
+    else if (ours === undefined) kind = 'deleted-modified'
+
+    state.conflicts.push({
+      pointer: pointer || '/',
+      location: this.locate(pointer),
+      kind,
+      base: structuredClone(base),
+      ours: structuredClone(ours),
+      theirs: structuredClone(theirs),
+    })
+
+    if (state.resolution === 'theirs') {
+      state.fromTheirs.add(this.locate(pointer))
+      return structuredClone(theirs)
+    }
+    return structuredClone(ours)
+  }
+
+  /**
+   * Human-readable path/operation/schema a pointer belongs to
+   */
+  private locate(pointer: string): string {
+    const [section, ...rest] = pointer.split('/').slice(1).map(unescapePointer)
+
+    if (section === 'paths' && rest[0]) {
+      const method = rest[1]?.toLowerCase()
+      return method && isHttpMethod(method) ? `${method.toUpperCase()} ${rest[0]}` : rest[0]
+    }
+    if (section === 'components' && rest[0] && rest[1]) {
+      const kind = rest[0] === 'schemas' ? 'schema' : rest[0]
+      return `${kind} ${rest[1]}`
+    }
+    if (section === 'definitions' && rest[0]) {
+      return `schema ${rest[0]}`
+    }
+    if (section === 'webhooks' && rest[0]) {
+      return `webhook ${rest[0]}`
+    }
+    return section || '(document)'
+  }
+}
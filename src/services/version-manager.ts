@@ -9,10 +9,32 @@
  */
 
 import type { ApiId, VersionTag } from '../types/openapi.js'
-import type { ApiMetadata, VersionMetadata } from '../types/metadata.js'
+import {
+  VERSION_TRANSITIONS,
+  versionStateOf,
+  type ApiMetadata,
+  type VersionMetadata,
+  type VersionState,
+  type VersionStats,
+} from '../types/metadata.js'
 import type { BaseStorageProvider } from '../storage/base-storage-provider.js'
 import { logger } from '../utils/logger.js'
 import { createStorageError, createValidationError } from '../utils/errors.js'
+import { compareVersionTags, sortVersionTags } from '../utils/semver.js'
+
+/**
+ * Options for a lifecycle transition
+ */
+export interface VersionTransitionOptions {
+  /** Who is making the change */
+  user: string
+  /** Why (recorded in the lifecycle history) */
+  reason?: string
+  /** When a deprecated version stops working (ISO 8601) */
+  sunsetDate?: string
+  /** Fresh stats, recorded when a version leaves the draft state */
+  stats?: VersionStats
+}
 
 /**
  * Version Manager Service
@@ -67,7 +89,6 @@ export class VersionManager {
         created_at: new Date().toISOString(),
         current_version: initialVersion,
         versions: [initialVersion],
-        latest_stable: initialVersion,
         owner,
         folder: targetFolder,
       }
@@ -136,14 +157,9 @@ export class VersionManager {
     folder?: string
   ): Promise<ApiMetadata> {
     try {
-      const metadata = await this.getApiMetadata(apiId, folder)
-      const updated = { ...metadata, ...updates }
-
-      const actualFolder = metadata.folder || this.defaultFolder
-      const metadataPath = this.getMetadataPath(apiId, actualFolder)
-      await this.storage.write(metadataPath, JSON.stringify(updated, null, 2))
+      const updated = await this.modifyApiMetadata(apiId, (metadata) => ({ ...metadata, ...updates }), folder)
 
-      logger.info({ apiId, updates, folder: actualFolder }, 'API metadata updated')
+      logger.info({ apiId, updates, folder: updated.folder }, 'API metadata updated')
 
       return updated
     } catch (error) {
@@ -166,23 +182,19 @@ export class VersionManager {
     setCurrent = true
   ): Promise<ApiMetadata> {
     try {
-      const metadata = await this.getApiMetadata(apiId)
-
-      // Check if version already exists
-      if (metadata.versions.includes(version)) {
-        throw createValidationError('Version already exists', 'version')
-      }
-
-      // Add version to list (newest first)
-      metadata.versions = [version, ...metadata.versions]
-
-      // Update current version if requested
-      if (setCurrent) {
-        metadata.current_version = version
-      }
+      const metadata = await this.modifyApiMetadata(apiId, (current) => {
+        // Check if version already exists
+        if (current.versions.includes(version)) {
+          throw createValidationError('Version already exists', 'version')
+        }
 
-      const metadataPath = this.getMetadataPath(apiId)
-      await this.storage.write(metadataPath, JSON.stringify(metadata, null, 2))
+        return {
+          ...current,
+          // Newest first, by semver precedence
+          versions: sortVersionTags([version, ...current.versions]),
+          current_version: setCurrent ? version : current.current_version,
+        }
+      })
 
       logger.info({ apiId, version, setCurrent }, 'Version added to API')
 
@@ -197,12 +209,12 @@ export class VersionManager {
    * Lists all versions for an API
    * @param apiId - API identifier
    * @returns Promise resolving to array of version tags
-   * @description Gets all the versions. The full timeline.
+   * @description Gets all the versions, newest first by semver. The full timeline.
    */
   async listVersions(apiId: ApiId): Promise<VersionTag[]> {
     try {
       const metadata = await this.getApiMetadata(apiId)
-      return metadata.versions
+      return sortVersionTags(metadata.versions)
     } catch (error) {
       logger.error({ error, apiId }, 'Failed to list versions')
       throw error
@@ -218,17 +230,14 @@ export class VersionManager {
    */
   async setCurrentVersion(apiId: ApiId, version: VersionTag): Promise<ApiMetadata> {
     try {
-      const metadata = await this.getApiMetadata(apiId)
-
-      // Validate version exists
-      if (!metadata.versions.includes(version)) {
-        throw createValidationError('Version does not exist', 'version')
-      }
-
-      metadata.current_version = version
+      const metadata = await this.modifyApiMetadata(apiId, (current) => {
+        // Validate version exists
+        if (!current.versions.includes(version)) {
+          throw createValidationError('Version does not exist', 'version')
+        }
 
-      const metadataPath = this.getMetadataPath(apiId)
-      await this.storage.write(metadataPath, JSON.stringify(metadata, null, 2))
+        return { ...current, current_version: version }
+      })
 
       logger.info({ apiId, version }, 'Current version updated')
 
@@ -248,17 +257,14 @@ export class VersionManager {
    */
   async setLatestStable(apiId: ApiId, version: VersionTag): Promise<ApiMetadata> {
     try {
-      const metadata = await this.getApiMetadata(apiId)
-
-      // Validate version exists
-      if (!metadata.versions.includes(version)) {
-        throw createValidationError('Version does not exist', 'version')
-      }
-
-      metadata.latest_stable = version
+      const metadata = await this.modifyApiMetadata(apiId, (current) => {
+        // Validate version exists
+        if (!current.versions.includes(version)) {
+          throw createValidationError('Version does not exist', 'version')
+        }
 
-      const metadataPath = this.getMetadataPath(apiId)
-      await this.storage.write(metadataPath, JSON.stringify(metadata, null, 2))
+        return { ...current, latest_stable: version }
+      })
 
       logger.info({ apiId, version }, 'Latest stable version updated')
 
@@ -326,6 +332,144 @@ export class VersionManager {
     }
   }
 
+  /**
+   * Updates version-specific metadata
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param updates - Partial metadata updates
+   * @returns Promise resolving to updated metadata
+   */
+  async updateVersionMetadata(
+    apiId: ApiId,
+    version: VersionTag,
+    updates: Partial<Omit<VersionMetadata, 'version' | 'created_at'>>
+  ): Promise<VersionMetadata> {
+    const folder = (await this.findApiFolder(apiId)) || this.defaultFolder
+    const versionPath = this.getVersionMetadataPath(apiId, version, folder)
+    try {
+      const written = await this.storage.update(versionPath, (current) => {
+        if (current === null) {
+          throw createStorageError(`${versionPath} not found`, versionPath, 'read')
+        }
+        return JSON.stringify({ ...(JSON.parse(current) as VersionMetadata), ...updates }, null, 2)
+      })
+      return JSON.parse(written) as VersionMetadata
+    } catch (error) {
+      logger.error({ error, apiId, version }, 'Failed to update version metadata')
+      throw error
+    }
+  }
+
+  /**
+   * Moves a version to another lifecycle state
+   * @param apiId - API identifier
+   * @param version - Version tag
+   * @param to - Target state
+   * @param options - Who is doing it and why, a sunset date (deprecated only), fresh stats
+   * @returns Promise resolving to updated metadata
+   * @throws ValidationError if VERSION_TRANSITIONS doesn't allow the move or the sunset date is bad
+   * @description Also keeps ApiMetadata.latest_stable honest: a version becoming stable takes
+   * the title unless a newer one holds it, a stable version leaving hands it to the next stable one. 🚦
+   */
+  async transitionVersion(
+    apiId: ApiId,
+    version: VersionTag,
+    to: VersionState,
+    options: VersionTransitionOptions
+  ): Promise<VersionMetadata> {
+    const metadata = await this.getVersionMetadata(apiId, version)
+    const from = versionStateOf(metadata.state)
+
+    if (!VERSION_TRANSITIONS[from].includes(to)) {
+      const allowed = VERSION_TRANSITIONS[from]
+      const hint = allowed.length > 0 ? `allowed: ${allowed.join(', ')}` : `${from} is final`
+      throw createValidationError(
+        `Cannot move ${version} of ${apiId} from ${from} to ${to} (${hint})`,
+        'state',
+        allowed.join(' | ') || 'none',
+        to
+      )
+    }
+
+    if (options.sunsetDate !== undefined) {
+      if (to !== 'deprecated') {
+        throw createValidationError('A sunset date can only be set when deprecating', 'sunsetDate')
+      }
+      const sunset = Date.parse(options.sunsetDate)
+      if (Number.isNaN(sunset) || sunset <= Date.now()) {
+        throw createValidationError(
+          'Sunset date must be a valid date in the future',
+          'sunsetDate',
+          'ISO 8601 date after today',
+          options.sunsetDate
+        )
+      }
+    }
+
+    const now = new Date().toISOString()
+    const updates: Partial<VersionMetadata> = {
+      state: to,
+      lifecycle: [
+        ...(metadata.lifecycle || []),
+        { from, to, at: now, by: options.user, ...(options.reason ? { reason: options.reason } : {}) },
+      ],
+    }
+    if (from === 'draft') {
+      updates.published_at = now
+      updates.published_by = options.user
+      if (options.stats) updates.stats = options.stats
+    }
+    if (to === 'deprecated') {
+      updates.deprecated_at = now
+      if (options.sunsetDate) updates.sunset_date = new Date(options.sunsetDate).toISOString()
+    }
+    if (to === 'retired') {
+      updates.retired_at = now
+    }
+
+    const updated = await this.updateVersionMetadata(apiId, version, updates)
+    await this.updateLatestStable(apiId, version, from, to)
+
+    logger.info({ apiId, version, from, to, user: options.user }, 'Version lifecycle state changed')
+    return updated
+  }
+
+  /**
+   * Follows a lifecycle transition with ApiMetadata.latest_stable
+   */
+  private async updateLatestStable(
+    apiId: ApiId,
+    version: VersionTag,
+    from: VersionState,
+    to: VersionState
+  ): Promise<void> {
+    const apiMetadata = await this.getApiMetadata(apiId)
+
+    if (to === 'stable') {
+      // Stabilising a backport doesn't make it the latest
+      const holder = apiMetadata.latest_stable
+      if (!holder || compareVersionTags(version, holder) > 0) {
+        await this.updateApiMetadata(apiId, { latest_stable: version })
+      }
+      return
+    }
+    if (from !== 'stable' || apiMetadata.latest_stable !== version) return
+
+    // The latest stable version left - hand over to the newest remaining stable one
+    let successor: VersionTag | undefined
+    for (const candidate of sortVersionTags(apiMetadata.versions).filter((tag) => tag !== version)) {
+      try {
+        if (versionStateOf((await this.getVersionMetadata(apiId, candidate)).state) === 'stable') {
+          successor = candidate
+          break
+        }
+      } catch {
+        // No metadata, no stable claim
+      }
+    }
+    await this.updateApiMetadata(apiId, { latest_stable: successor })
+  }
+
   /**
    * Moves an API to a different folder
    * @param apiId - API identifier
@@ -394,6 +538,33 @@ export class VersionManager {
     }
   }
 
+  /**
+   * Read-modify-write of an API's metadata.json
+   * @param apiId - API identifier
+   * @param change - Returns the new metadata from the freshly read one; runs again if another writer got there first
+   * @param folder - Specific folder (optional, will search all if not provided)
+   * @returns The metadata as written
+   */
+  private async modifyApiMetadata(
+    apiId: ApiId,
+    change: (metadata: ApiMetadata) => ApiMetadata,
+    folder?: string
+  ): Promise<ApiMetadata> {
+    const actualFolder = folder || (await this.findApiFolder(apiId))
+    if (!actualFolder) {
+      throw createStorageError(`API '${apiId}' not found in any folder`, `*/${apiId}/metadata.json`, 'read')
+    }
+
+    const metadataPath = this.getMetadataPath(apiId, actualFolder)
+    const written = await this.storage.update(metadataPath, (current) => {
+      if (current === null) {
+        throw createStorageError(`API '${apiId}' not found in ${actualFolder}`, metadataPath, 'read')
+      }
+      return JSON.stringify(change(JSON.parse(current) as ApiMetadata), null, 2)
+    })
+    return JSON.parse(written) as ApiMetadata
+  }
+
   /**
    * Gets metadata path for an API
    * @param apiId - API identifier
@@ -428,21 +599,18 @@ export class VersionManager {
    */
   async deleteVersion(apiId: ApiId, version: VersionTag): Promise<ApiMetadata> {
     try {
-      const metadata = await this.getApiMetadata(apiId)
-
-      // Prevent deletion of current or stable versions
-      if (metadata.current_version === version) {
-        throw createValidationError('Cannot delete current version', 'version')
-      }
-      if (metadata.latest_stable === version) {
-        throw createValidationError('Cannot delete latest stable version', 'version')
-      }
-
-      // Remove from versions list
-      metadata.versions = metadata.versions.filter((v) => v !== version)
+      const metadata = await this.modifyApiMetadata(apiId, (current) => {
+        // Prevent deletion of current or stable versions
+        if (current.current_version === version) {
+          throw createValidationError('Cannot delete current version', 'version')
+        }
+        if (current.latest_stable === version) {
+          throw createValidationError('Cannot delete latest stable version', 'version')
+        }
 
-      const metadataPath = this.getMetadataPath(apiId)
-      await this.storage.write(metadataPath, JSON.stringify(metadata, null, 2))
+        // Remove from versions list
+        return { ...current, versions: current.versions.filter((v) => v !== version) }
+      })
 
       logger.warn({ apiId, version }, 'Version deleted from API')
 
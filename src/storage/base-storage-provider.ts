@@ -8,6 +8,9 @@
  * @module storage/base-storage-provider
  */
 
+import type { ApiId } from '../types/openapi.js'
+import type { ApiMetadata, AuditEvent, AuditFilters, VersionMetadata } from '../types/metadata.js'
+
 /**
  * Configuration for storage providers
  * @description Common config that all storage providers might need
@@ -96,6 +99,22 @@ export abstract class BaseStorageProvider {
    */
   abstract ensureDirectory(path: string): Promise<void>
 
+  /**
+   * Read-modify-write of one key
+   * @param key - Key to update
+   * @param transform - Receives the current content (null if the key doesn't exist), returns the new content
+   * @returns The content that was written
+   * @description Plain read-then-write here, so the last writer wins. Providers with conditional
+   * writes override it to retry on a lost race instead - which is why `transform` must be safe
+   * to call more than once.
+   */
+  async update(key: string, transform: (current: string | null) => string | Promise<string>): Promise<string> {
+    const current = (await this.exists(key)) ? await this.read(key) : null
+    const next = await transform(current)
+    await this.write(key, next)
+    return next
+  }
+
   /**
    * Gets the full path for a key
    * @param key - Relative key
@@ -137,3 +156,34 @@ export abstract class BaseStorageProvider {
   }
 }
 
+/**
+ * Queryable metadata index offered by some storage providers
+ * @description Providers backed by a database can answer "which APIs exist" and "what
+ * happened" without walking every file. Services check for it with `hasMetadataIndex()`
+ * and fall back to plain reads when it's not there.
+ */
+export interface MetadataIndex {
+  /** Appends one audit event without rewriting the API's whole log */
+  appendAuditEvent(event: AuditEvent): Promise<void>
+  /** Audit events matching the filters, most recent first, across all APIs */
+  queryAuditEvents(filters: AuditFilters): Promise<AuditEvent[]>
+  /** Metadata of every API */
+  listApiMetadata(): Promise<ApiMetadata[]>
+  /** Metadata of every version, optionally of one API only */
+  listVersionMetadata(apiId?: ApiId): Promise<VersionMetadata[]>
+}
+
+/**
+ * Whether a storage provider maintains a MetadataIndex
+ */
+export function hasMetadataIndex(
+  storage: BaseStorageProvider
+): storage is BaseStorageProvider & MetadataIndex {
+  const candidate = storage as Partial<MetadataIndex>
+  return (
+    typeof candidate.appendAuditEvent === 'function' &&
+    typeof candidate.queryAuditEvents === 'function' &&
+    typeof candidate.listApiMetadata === 'function' &&
+    typeof candidate.listVersionMetadata === 'function'
+  )
+}
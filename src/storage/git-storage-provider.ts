@@ -0,0 +1,358 @@
+/**
+ * Git Storage Provider
+ *
+ * @description File system storage with a git repository underneath. Every change ends
+ * up as a commit authored by whoever the audit log says made it, with their reason as the
+ * commit message. Version tags become git tags, and the whole thing can be pushed to a
+ * bare repo so spec history lives next to your code. `git blame` for API designs. 🌿
+ *
+ * How commits are formed: writes and deletes are staged as they happen. When the audit log
+ * of an API is written (which every tool does right after its changes), everything staged is
+ * committed with the new audit event's `user` as author and its `llm_reason` as message, and
+ * the `{apiId}/{version}` tag is moved to that commit. Changes made outside an audited
+ * operation stay staged until the next audited commit or an explicit `commit()`.
+ *
+ * @module storage/git-storage-provider
+ */
+
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import type { StorageConfig } from './base-storage-provider.js'
+import { FileSystemStorage } from './file-system-storage.js'
+import type { AuditEvent } from '../types/metadata.js'
+import { createStorageError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Provider-specific options (passed as `StorageConfig.options`)
+ */
+export interface GitStorageOptions {
+  /** Bare repository to push to (local path or git URL). Local paths are created on first push */
+  remote?: string
+  /** Branch to commit on and push to (default: main) */
+  branch?: string
+  /** Push after every commit (default: false) */
+  autoPush?: boolean
+}
+
+/**
+ * Identity used as committer (the author is taken from the audit event)
+ */
+const COMMITTER = { name: 'OpenAPI Control Panel', email: 'openapi-control@localhost' }
+
+/**
+ * File name the AuditLogger writes per API
+ */
+const AUDIT_LOG_FILE = 'audit.json'
+
+/**
+ * Tags this provider creates (`{apiId}/{version}`) - the only ones it will ever force-push
+ */
+const VERSION_TAG = /^[a-z0-9-]+\/v\d[0-9A-Za-z.+-]*$/
+
+/**
+ * Git-backed storage provider
+ * @description A FileSystemStorage that keeps receipts.
+ */
+export class GitStorageProvider extends FileSystemStorage {
+  private gitOptions: Required<Omit<GitStorageOptions, 'remote'>> & Pick<GitStorageOptions, 'remote'>
+  private ready?: Promise<void>
+  /** Serializes git invocations - git and concurrent index writes don't mix */
+  private queue: Promise<unknown> = Promise.resolve()
+  /** Tags deleted locally that still need deleting on the remote */
+  private pendingTagDeletions = new Set<string>()
+
+  /**
+   * Creates a git storage provider
+   * @param config - Storage config; `options` may hold GitStorageOptions
+   */
+  constructor(config: StorageConfig) {
+    super(config)
+    const options = (config.options || {}) as GitStorageOptions
+    this.gitOptions = {
+      remote: options.remote,
+      branch: options.branch || 'main',
+      autoPush: options.autoPush ?? false,
+    }
+  }
+
+  /**
+   * Initializes the repository (idempotent, also done lazily on first write)
+   */
+  async init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.initRepository().catch((error) => {
+        this.ready = undefined
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  /**
+   * Writes a file and stages it. Audit log writes trigger a commit
+   */
+  async write(key: string, data: string): Promise<void> {
+    await super.write(key, data)
+    await this.init()
+    await this.enqueue(async () => {
+      await this.stage(key)
+      if (this.isAuditLog(key)) {
+        await this.commitAudited(key, data)
+      }
+    })
+  }
+
+  /**
+   * Deletes a file and stages the deletion
+   */
+  async delete(key: string): Promise<void> {
+    await super.delete(key)
+    await this.init()
+    await this.enqueue(() => this.stage(key))
+  }
+
+  /**
+   * Lists files, leaving out the repository internals
+   */
+  async list(prefix: string): Promise<string[]> {
+    const keys = await super.list(prefix)
+    return keys.filter((key) => !key.split(/[/\\]/).includes('.git'))
+  }
+
+  /**
+   * Commits whatever is staged
+   * @param message - Commit message
+   * @param author - Author (user name or email); defaults to the committer
+   * @returns Commit hash, or null if there was nothing to commit
+   */
+  async commit(message: string, author?: string): Promise<string | null> {
+    await this.init()
+    return this.enqueue(() => this.commitStaged(message, author))
+  }
+
+  /**
+   * Pushes the branch and version tags to the configured remote
+   * @description Local remote paths that don't exist yet are initialized as bare repos.
+   * The branch is never forced: if the remote's branch has commits we don't, the push fails
+   * rather than rewriting someone else's history. Version tags are forced because they move
+   * along with their version; other tags on the remote are left alone.
+   */
+  async push(): Promise<void> {
+    if (!this.gitOptions.remote) {
+      throw createStorageError('No git remote configured for push', this.config.basePath, 'write')
+    }
+
+    await this.init()
+    await this.enqueue(() => this.pushNow())
+  }
+
+  /**
+   * Git tag name for a version
+   */
+  static versionTag(apiId: string, version: string): string {
+    return `${apiId}/${version}`
+  }
+
+  /**
+   * Pushes without queueing (callers hold the queue)
+   */
+  private async pushNow(): Promise<void> {
+    const { remote, branch } = this.gitOptions
+    const target = await this.prepareRemote(remote as string)
+
+    if (await this.hasCommits()) {
+      try {
+        await this.git(['push', '--quiet', target, `HEAD:refs/heads/${branch}`])
+      } catch (error) {
+        throw createStorageError(
+          `Refusing to overwrite branch ${branch} on ${remote}: ${(error as Error).message}`,
+          this.config.basePath,
+          'write',
+          error as Error
+        )
+      }
+
+      const { stdout } = await this.git(['tag', '--list'])
+      const tags = stdout.split('\n').filter((tag) => VERSION_TAG.test(tag))
+      if (tags.length > 0) {
+        await this.git(['push', '--quiet', target, ...tags.map((tag) => `+refs/tags/${tag}:refs/tags/${tag}`)])
+      }
+    }
+
+    for (const tag of [...this.pendingTagDeletions]) {
+      try {
+        await this.git(['push', '--quiet', target, '--delete', `refs/tags/${tag}`])
+      } catch {
+        // Never made it to the remote in the first place
+      }
+      this.pendingTagDeletions.delete(tag)
+    }
+
+    logger.info({ remote, branch }, 'Pushed spec repository')
+  }
+
+  /**
+   * Creates the repository if needed
+   */
+  private async initRepository(): Promise<void> {
+    await this.ensureDirectory(this.config.basePath)
+    try {
+      await fs.access(path.join(this.config.basePath, '.git'))
+    } catch {
+      await this.git(['init', '--quiet', '--initial-branch', this.gitOptions.branch])
+      await this.git(['config', 'commit.gpgsign', 'false'])
+      logger.info({ basePath: this.config.basePath }, 'Initialized git repository for specs')
+    }
+  }
+
+  /**
+   * Stages a path (additions, modifications and deletions alike)
+   */
+  private async stage(key: string): Promise<void> {
+    await this.git(['add', '--all', '--', this.relativeKey(key)])
+  }
+
+  /**
+   * Commits staged changes on behalf of the newest event in an audit log
+   */
+  private async commitAudited(key: string, data: string): Promise<void> {
+    let event: AuditEvent | undefined
+    try {
+      const events = JSON.parse(data) as AuditEvent[]
+      event = events[events.length - 1]
+    } catch {
+      event = undefined
+    }
+    if (!event) {
+      await this.commitStaged(`Update ${this.relativeKey(key)}`)
+      return
+    }
+
+    const subject = event.llm_reason?.trim() || `${event.event} ${event.api_id}${event.version ? ` ${event.version}` : ''}`
+    const trailers = [`Event: ${event.event}`, `API: ${event.api_id}`, ...(event.version ? [`Version: ${event.version}`] : [])]
+    const hash = await this.commitStaged(`${subject}\n\n${trailers.join('\n')}`, event.user)
+
+    if (hash && event.version) {
+      const tag = GitStorageProvider.versionTag(event.api_id, event.version)
+      if (event.event === 'version_deleted') {
+        await this.git(['tag', '--delete', tag]).catch(() => undefined)
+        this.pendingTagDeletions.add(tag)
+      } else {
+        await this.git(['tag', '--force', tag, hash])
+        this.pendingTagDeletions.delete(tag)
+      }
+    }
+
+    if (hash && this.gitOptions.autoPush && this.gitOptions.remote) {
+      // Queued behind the current operation; a failed push must not fail the write
+      this.enqueue(() => this.pushNow()).catch((error) => {
+        logger.error({ error }, 'Automatic push of spec repository failed')
+      })
+    }
+  }
+
+  /**
+   * Commits the index if anything is staged. Returns the new commit hash
+   */
+  private async commitStaged(message: string, author?: string): Promise<string | null> {
+    try {
+      await this.git(['diff', '--cached', '--quiet'])
+      return null // nothing staged
+    } catch {
+      // Non-zero exit: there are staged changes
+    }
+
+    const args = ['commit', '--quiet', '--no-verify', '--file', '-']
+    if (author) args.push('--author', this.formatAuthor(author))
+    await this.git(args, message)
+
+    const { stdout } = await this.git(['rev-parse', 'HEAD'])
+    const hash = stdout.trim()
+    logger.debug({ hash, author }, 'Committed spec change')
+    return hash
+  }
+
+  /**
+   * Resolves the push target, creating local bare repositories on the way
+   */
+  private async prepareRemote(remote: string): Promise<string> {
+    const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(remote) || /^[^/]+@[^/]+:/.test(remote)
+    if (isUrl) return remote
+
+    const target = path.resolve(remote)
+    try {
+      await fs.access(target)
+    } catch {
+      await fs.mkdir(target, { recursive: true })
+      await this.git(['init', '--quiet', '--bare', target])
+      logger.info({ remote: target }, 'Initialized bare repository for specs')
+    }
+    return target
+  }
+
+  /**
+   * Whether HEAD points at a commit yet
+   */
+  private async hasCommits(): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', 'HEAD'])
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * "Jane <jane@x.io>" stays as is, "jane@x.io" and "mcp-tool" get a usable identity
+   */
+  private formatAuthor(user: string): string {
+    if (/<[^>]+>/.test(user)) return user
+    if (user.includes('@')) return `${user} <${user}>`
+    return `${user} <${user.replace(/[^\w.-]/g, '-')}@openapi-control.local>`
+  }
+
+  private isAuditLog(key: string): boolean {
+    const relative = this.relativeKey(key)
+    return relative === AUDIT_LOG_FILE || relative.endsWith(`/${AUDIT_LOG_FILE}`)
+  }
+
+  private relativeKey(key: string): string {
+    return key.startsWith('/') ? key.slice(1) : key
+  }
+
+  /**
+   * Runs an operation after every git operation queued before it
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * Runs git inside the data directory
+   */
+  private async git(args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+    const fullArgs = ['-c', `user.name=${COMMITTER.name}`, '-c', `user.email=${COMMITTER.email}`, ...args]
+    try {
+      const child = execFileAsync('git', fullArgs, { cwd: this.config.basePath })
+      if (input !== undefined) {
+        child.child.stdin?.end(input)
+      }
+      return await child
+    } catch (error) {
+      const operation = args[0] === 'push' || args[0] === 'commit' ? 'write' : 'read'
+      throw createStorageError(
+        `git ${args[0]} failed: ${((error as { stderr?: string }).stderr || (error as Error).message).trim()}`,
+        this.config.basePath,
+        operation,
+        error as Error
+      )
+    }
+  }
+}
@@ -13,6 +13,18 @@ export * from './base-storage-provider.js'
 // File system storage
 export * from './file-system-storage.js'
 
+// Git-backed file system storage
+export * from './git-storage-provider.js'
+
+// SQLite storage with indexed metadata and audit tables
+export * from './sqlite-storage-provider.js'
+
+// S3-compatible object storage
+export * from './s3-storage-provider.js'
+
+// Provider registry (STORAGE_PROVIDER names)
+export * from './storage-registry.js'
+
 // Lock manager
 export * from './lock-manager.js'
 
@@ -0,0 +1,332 @@
+/**
+ * S3 Storage Provider
+ *
+ * @description Keeps specs in an S3-compatible bucket (AWS S3, MinIO, R2, ...), so the data
+ * outlives the container it was written from. ☁️
+ *
+ * Concurrency works without lock files: every object's ETag is remembered when it is read,
+ * written or checked, and writes are conditional on it (`If-Match`, or `If-None-Match: *` for
+ * keys known not to exist). If another instance got there first, the write fails with a
+ * conflict instead of silently overwriting its change. `update()` wraps the usual
+ * read-modify-write in a retry loop; the audit log and API metadata go through it, so two
+ * instances appending at once both land instead of one failing.
+ *
+ * @module storage/s3-storage-provider
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { BaseStorageProvider, type StorageConfig } from './base-storage-provider.js'
+import { StorageError, createStorageError } from '../utils/errors.js'
+import { logStorageOperation, logger } from '../utils/logger.js'
+
+/**
+ * Provider-specific options (passed as `StorageConfig.options`; `basePath` is the bucket)
+ */
+export interface S3StorageOptions {
+  /** Endpoint of S3-compatible services, e.g. http://minio:9000 (default: AWS) */
+  endpoint?: string
+  /** Region (default: us-east-1) */
+  region?: string
+  /** Key prefix inside the bucket, e.g. "openapi/" */
+  prefix?: string
+  /** Path-style URLs (bucket in the path) - needed by MinIO and most self-hosted services */
+  forcePathStyle?: boolean
+  /** Static credentials (default: the AWS SDK credential chain) */
+  credentials?: { accessKeyId: string; secretAccessKey: string }
+  /** Ready-made client, e.g. one with custom middleware */
+  client?: S3Client
+}
+
+/**
+ * Attempts `update()` makes before giving up on a contended key
+ */
+const DEFAULT_UPDATE_ATTEMPTS = 5
+
+/**
+ * Whether an S3 error means the object does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } }
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404
+}
+
+/**
+ * Whether an S3 error means a conditional write lost the race
+ */
+function isPreconditionFailed(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } }
+  return (
+    name === 'PreconditionFailed' ||
+    name === 'ConditionalRequestConflict' ||
+    $metadata?.httpStatusCode === 412 ||
+    $metadata?.httpStatusCode === 409
+  )
+}
+
+/**
+ * Content type for a key, so objects look right in bucket browsers
+ */
+function contentTypeFor(key: string): string {
+  if (key.endsWith('.json')) return 'application/json'
+  if (key.endsWith('.yaml') || key.endsWith('.yml')) return 'application/yaml'
+  return 'text/plain; charset=utf-8'
+}
+
+/**
+ * Whether an error is a write conflict raised by S3StorageProvider
+ */
+export function isWriteConflict(error: unknown): boolean {
+  return error instanceof StorageError && error.code === 'ECONFLICT'
+}
+
+/**
+ * S3-compatible storage provider
+ * @description Your specs, in a bucket, with optimistic locking. No lock files were harmed.
+ */
+export class S3StorageProvider extends BaseStorageProvider {
+  private client: S3Client
+  private bucket: string
+  private prefix: string
+  /** Last known ETag per key; null means "known not to exist" */
+  private etags = new Map<string, string | null>()
+
+  /**
+   * Creates an S3 storage provider
+   * @param config - Storage config; `basePath` is the bucket, `options` may hold S3StorageOptions
+   */
+  constructor(config: StorageConfig) {
+    super(config)
+    const options = (config.options || {}) as S3StorageOptions
+    this.bucket = config.basePath
+    this.prefix = options.prefix ? `${options.prefix.replace(/^\/+|\/+$/g, '')}/` : ''
+    this.client =
+      options.client ||
+      new S3Client({
+        endpoint: options.endpoint,
+        region: options.region || 'us-east-1',
+        forcePathStyle: options.forcePathStyle ?? !!options.endpoint,
+        credentials: options.credentials,
+      })
+  }
+
+  /**
+   * Reads an object
+   */
+  async read(key: string): Promise<string> {
+    this.validateKey(key)
+    const normalized = this.normalizeKey(key)
+
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(normalized) })
+      )
+      const data = (await response.Body?.transformToString('utf-8')) ?? ''
+      this.rememberEtag(normalized, response.ETag)
+      logStorageOperation('read', normalized, true)
+      return data
+    } catch (error) {
+      logStorageOperation('read', normalized, false, error as Error)
+      if (isNotFound(error)) {
+        this.etags.set(normalized, null)
+        throw new StorageError(`Failed to read file: ${normalized} not found`, {
+          path: normalized,
+          operation: 'read',
+          code: 'ENOENT',
+          cause: error as Error,
+        })
+      }
+      throw createStorageError(`Failed to read file: ${normalized}`, normalized, 'read', error as Error)
+    }
+  }
+
+  /**
+   * Writes an object, conditional on the last ETag seen for it
+   * @throws StorageError with code `ECONFLICT` if someone else changed the object meanwhile
+   */
+  async write(key: string, data: string): Promise<void> {
+    this.validateKey(key)
+    const normalized = this.normalizeKey(key)
+    const knownEtag = this.etags.get(normalized)
+
+    try {
+      const response = await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(normalized),
+          Body: data,
+          ContentType: contentTypeFor(normalized),
+          ...(knownEtag ? { IfMatch: knownEtag } : {}),
+          ...(knownEtag === null ? { IfNoneMatch: '*' } : {}),
+        })
+      )
+      this.rememberEtag(normalized, response.ETag)
+      logStorageOperation('write', normalized, true)
+    } catch (error) {
+      logStorageOperation('write', normalized, false, error as Error)
+      if (isPreconditionFailed(error)) {
+        // Whatever we knew is stale now - the next read picks up the current version
+        this.etags.delete(normalized)
+        throw new StorageError(`Write conflict: ${normalized} was changed by another writer`, {
+          path: normalized,
+          operation: 'write',
+          code: 'ECONFLICT',
+          cause: error as Error,
+        })
+      }
+      throw createStorageError(`Failed to write file: ${normalized}`, normalized, 'write', error as Error)
+    }
+  }
+
+  /**
+   * Checks whether an object exists
+   */
+  async exists(key: string): Promise<boolean> {
+    this.validateKey(key)
+    const normalized = this.normalizeKey(key)
+
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(normalized) })
+      )
+      this.rememberEtag(normalized, response.ETag)
+      return true
+    } catch (error) {
+      if (isNotFound(error)) {
+        this.etags.set(normalized, null)
+        return false
+      }
+      throw createStorageError(`Failed to check file: ${normalized}`, normalized, 'exists', error as Error)
+    }
+  }
+
+  /**
+   * Deletes an object
+   * @description S3 happily "deletes" missing objects; we don't, to match the other providers.
+   */
+  async delete(key: string): Promise<void> {
+    this.validateKey(key)
+    const normalized = this.normalizeKey(key)
+
+    if (!(await this.exists(normalized))) {
+      logStorageOperation('delete', normalized, false)
+      throw createStorageError(`Failed to delete file: ${normalized} does not exist`, normalized, 'delete')
+    }
+
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(normalized) }))
+      this.etags.set(normalized, null)
+      logStorageOperation('delete', normalized, true)
+    } catch (error) {
+      logStorageOperation('delete', normalized, false, error as Error)
+      throw createStorageError(`Failed to delete file: ${normalized}`, normalized, 'delete', error as Error)
+    }
+  }
+
+  /**
+   * Lists keys under a directory-like prefix
+   */
+  async list(prefix: string): Promise<string[]> {
+    const normalized = this.normalizeKey(prefix)
+    const dirPrefix = normalized && !normalized.endsWith('/') ? `${normalized}/` : normalized
+    const keys: string[] = []
+    let continuationToken: string | undefined
+
+    try {
+      do {
+        const response = await this.client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: this.objectKey(dirPrefix),
+            ContinuationToken: continuationToken,
+          })
+        )
+        for (const object of response.Contents || []) {
+          if (object.Key) keys.push(object.Key.slice(this.prefix.length))
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined
+      } while (continuationToken)
+    } catch (error) {
+      logStorageOperation('list', dirPrefix, false, error as Error)
+      throw createStorageError(`Failed to list files in: ${dirPrefix}`, dirPrefix, 'list', error as Error)
+    }
+
+    return keys
+  }
+
+  /**
+   * Buckets have no directories - nothing to create
+   */
+  async ensureDirectory(_path: string): Promise<void> {
+    // Intentionally empty
+  }
+
+  /**
+   * Read-modify-write with optimistic concurrency
+   * @param key - Key to update
+   * @param transform - Receives the current content (null if missing), returns the new content
+   * @param maxAttempts - Attempts before giving up on a contended key
+   * @returns The content that was written
+   * @description Re-reads and re-applies `transform` whenever another writer won the race,
+   * so `transform` must be safe to call more than once.
+   *
+   * @example
+   * ```typescript
+   * await storage.update('my-api/audit.json', (current) =>
+   *   JSON.stringify([...JSON.parse(current ?? '[]'), event], null, 2)
+   * )
+   * ```
+   */
+  async update(
+    key: string,
+    transform: (current: string | null) => string | Promise<string>,
+    maxAttempts = DEFAULT_UPDATE_ATTEMPTS
+  ): Promise<string> {
+    for (let attempt = 1; ; attempt += 1) {
+      let current: string | null
+      try {
+        current = await this.read(key)
+      } catch (error) {
+        if ((error as StorageError).code !== 'ENOENT') throw error
+        current = null
+      }
+
+      const next = await transform(current)
+      try {
+        await this.write(key, next)
+        return next
+      } catch (error) {
+        if (!isWriteConflict(error) || attempt >= maxAttempts) throw error
+        logger.debug({ key, attempt }, 'Write conflict, retrying update')
+      }
+    }
+  }
+
+  /**
+   * Remembers the ETag of an existing object (forgets it if S3 didn't send one)
+   */
+  private rememberEtag(key: string, etag: string | undefined): void {
+    if (etag) {
+      this.etags.set(key, etag)
+    } else {
+      this.etags.delete(key)
+    }
+  }
+
+  /**
+   * Full object key including the configured prefix
+   */
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  private normalizeKey(key: string): string {
+    return key.replace(/\\/g, '/').replace(/^\/+/, '')
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * SQLite Storage Provider
+ *
+ * @description Stores everything in one SQLite database instead of a folder tree. Specs and
+ * other documents live in a key/value table; API metadata, version metadata and audit events
+ * are additionally kept in indexed tables, so "everything user X did last week" is an index
+ * lookup instead of a walk through every audit.json on disk. 🗄️
+ *
+ * The key layout is the same one the file system provider uses, so services don't notice the
+ * difference:
+ * - `{folder}/{apiId}/metadata.json` and `{folder}/{apiId}/{version}/metadata.json` are stored
+ *   as documents and mirrored into `api_metadata` / `version_metadata` on every write
+ * - `{apiId}/audit.json` is virtual: reads render the API's rows from `audit_events`, writes
+ *   replace them. AuditLogger skips that round trip via `appendAuditEvent()`
+ *
+ * @module storage/sqlite-storage-provider
+ */
+
+import { mkdirSync } from 'fs'
+import * as path from 'path'
+import Database from 'better-sqlite3'
+import { BaseStorageProvider, type MetadataIndex, type StorageConfig } from './base-storage-provider.js'
+import type { ApiId } from '../types/openapi.js'
+import type { ApiMetadata, AuditEvent, AuditFilters, VersionMetadata } from '../types/metadata.js'
+import { createStorageError } from '../utils/errors.js'
+import { logStorageOperation } from '../utils/logger.js'
+
+/**
+ * Provider-specific options (passed as `StorageConfig.options`)
+ */
+export interface SqliteStorageOptions {
+  /** Database file (default: `{basePath}/openapi-control.db`; `:memory:` for throwaway databases) */
+  filename?: string
+}
+
+/**
+ * Default database file name inside basePath
+ */
+const DEFAULT_DATABASE_FILE = 'openapi-control.db'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_metadata (
+    key TEXT PRIMARY KEY,
+    api_id TEXT NOT NULL,
+    folder TEXT,
+    name TEXT,
+    owner TEXT,
+    current_version TEXT,
+    created_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_api_metadata_api_id ON api_metadata (api_id);
+  CREATE INDEX IF NOT EXISTS idx_api_metadata_owner ON api_metadata (owner);
+  CREATE INDEX IF NOT EXISTS idx_api_metadata_folder ON api_metadata (folder);
+
+  CREATE TABLE IF NOT EXISTS version_metadata (
+    key TEXT PRIMARY KEY,
+    api_id TEXT NOT NULL,
+    version TEXT NOT NULL,
+    folder TEXT,
+    parent_version TEXT,
+    created_by TEXT,
+    created_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_version_metadata_api ON version_metadata (api_id, version);
+  CREATE INDEX IF NOT EXISTS idx_version_metadata_created_at ON version_metadata (created_at);
+
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    api_id TEXT NOT NULL,
+    version TEXT,
+    event TEXT NOT NULL,
+    user TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    llm_reason TEXT,
+    details TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_events_api ON audit_events (api_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_events_user ON audit_events (user, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_events_event ON audit_events (event, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_events_timestamp ON audit_events (timestamp);
+`
+
+/**
+ * Row shape of audit_events
+ */
+interface AuditEventRow {
+  api_id: string
+  version: string | null
+  event: string
+  user: string
+  timestamp: string
+  llm_reason: string | null
+  details: string | null
+}
+
+function normalizeKey(key: string): string {
+  return key.replace(/\\/g, '/').replace(/^\/+/, '')
+}
+
+/**
+ * API id for `{apiId}/audit.json` keys, undefined for anything else
+ */
+function auditLogApiId(key: string): string | undefined {
+  const match = /^([^/]+)\/audit\.json$/.exec(key)
+  return match?.[1]
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * SQLite storage provider
+ * @description One file, many tables, zero directory walks.
+ */
+export class SqliteStorageProvider extends BaseStorageProvider implements MetadataIndex {
+  private db: Database.Database
+
+  /**
+   * Opens (and if needed creates) the database
+   * @param config - Storage config; `options.filename` overrides the database location
+   */
+  constructor(config: StorageConfig) {
+    super(config)
+    const options = (config.options || {}) as SqliteStorageOptions
+    const filename = options.filename || path.join(config.basePath, DEFAULT_DATABASE_FILE)
+
+    try {
+      if (filename !== ':memory:') {
+        mkdirSync(path.dirname(filename), { recursive: true })
+      }
+      this.db = new Database(filename)
+      if (filename !== ':memory:') {
+        this.db.pragma('journal_mode = WAL')
+      }
+      this.db.exec(SCHEMA)
+    } catch (error) {
+      throw createStorageError(`Failed to open SQLite database: ${filename}`, filename, 'read', error as Error)
+    }
+  }
+
+  /**
+   * Reads a document (or renders an audit log)
+   */
+  async read(key: string): Promise<string> {
+    this.validateKey(key)
+    const normalized = normalizeKey(key)
+
+    const auditApiId = auditLogApiId(normalized)
+    if (auditApiId) {
+      const events = this.selectAuditEvents('WHERE api_id = ?', [auditApiId], 'ORDER BY id ASC')
+      if (events.length === 0) {
+        throw this.notFound(normalized)
+      }
+      return JSON.stringify(events, null, 2)
+    }
+
+    const row = this.db.prepare('SELECT data FROM documents WHERE key = ?').get(normalized) as { data: string } | undefined
+    if (!row) {
+      throw this.notFound(normalized)
+    }
+    logStorageOperation('read', normalized, true)
+    return row.data
+  }
+
+  /**
+   * Writes a document and refreshes the metadata index
+   */
+  async write(key: string, data: string): Promise<void> {
+    this.validateKey(key)
+    const normalized = normalizeKey(key)
+
+    try {
+      const auditApiId = auditLogApiId(normalized)
+      if (auditApiId) {
+        this.replaceAuditLog(auditApiId, JSON.parse(data) as AuditEvent[])
+      } else {
+        this.db.transaction(() => {
+          this.db
+            .prepare(
+              `INSERT INTO documents (key, data, updated_at) VALUES (?, ?, ?)
+               ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+            )
+            .run(normalized, data, new Date().toISOString())
+          this.indexDocument(normalized, data)
+        })()
+      }
+      logStorageOperation('write', normalized, true)
+    } catch (error) {
+      logStorageOperation('write', normalized, false, error as Error)
+      throw createStorageError(`Failed to write: ${normalized}`, normalized, 'write', error as Error)
+    }
+  }
+
+  /**
+   * Checks whether a document (or a non-empty audit log) exists
+   */
+  async exists(key: string): Promise<boolean> {
+    this.validateKey(key)
+    const normalized = normalizeKey(key)
+
+    const auditApiId = auditLogApiId(normalized)
+    if (auditApiId) {
+      return !!this.db.prepare('SELECT 1 FROM audit_events WHERE api_id = ? LIMIT 1').get(auditApiId)
+    }
+    return !!this.db.prepare('SELECT 1 FROM documents WHERE key = ?').get(normalized)
+  }
+
+  /**
+   * Deletes a document (and its index rows) or an API's audit log
+   */
+  async delete(key: string): Promise<void> {
+    this.validateKey(key)
+    const normalized = normalizeKey(key)
+
+    const auditApiId = auditLogApiId(normalized)
+    const changes = auditApiId
+      ? this.db.prepare('DELETE FROM audit_events WHERE api_id = ?').run(auditApiId).changes
+      : this.db.transaction(() => {
+          this.db.prepare('DELETE FROM api_metadata WHERE key = ?').run(normalized)
+          this.db.prepare('DELETE FROM version_metadata WHERE key = ?').run(normalized)
+          return this.db.prepare('DELETE FROM documents WHERE key = ?').run(normalized).changes
+        })()
+
+    if (changes === 0) {
+      logStorageOperation('delete', normalized, false)
+      throw createStorageError(`Failed to delete: ${normalized} does not exist`, normalized, 'delete')
+    }
+    logStorageOperation('delete', normalized, true)
+  }
+
+  /**
+   * Lists keys under a directory-like prefix (audit logs included)
+   */
+  async list(prefix: string): Promise<string[]> {
+    const normalized = normalizeKey(prefix)
+    const dirPrefix = normalized && !normalized.endsWith('/') ? `${normalized}/` : normalized
+    const pattern = `${escapeLike(dirPrefix)}%`
+
+    const documents = this.db
+      .prepare("SELECT key FROM documents WHERE key LIKE ? ESCAPE '\\' ORDER BY key")
+      .all(pattern) as Array<{ key: string }>
+    const auditLogs = (
+      this.db.prepare('SELECT DISTINCT api_id FROM audit_events ORDER BY api_id').all() as Array<{ api_id: string }>
+    )
+      .map((row) => `${row.api_id}/audit.json`)
+      .filter((key) => key.startsWith(dirPrefix))
+
+    return [...documents.map((row) => row.key), ...auditLogs]
+  }
+
+  /**
+   * Directories are implied by keys - nothing to create
+   */
+  async ensureDirectory(_path: string): Promise<void> {
+    // Intentionally empty
+  }
+
+  /**
+   * Appends one audit event
+   */
+  async appendAuditEvent(event: AuditEvent): Promise<void> {
+    this.insertAuditEvent(event)
+  }
+
+  /**
+   * Audit events matching the filters, most recent first
+   */
+  async queryAuditEvents(filters: AuditFilters): Promise<AuditEvent[]> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+    const add = (condition: string, value: unknown) => {
+      conditions.push(condition)
+      params.push(value)
+    }
+
+    if (filters.api_id) add('api_id = ?', filters.api_id)
+    if (filters.version) add('version = ?', filters.version)
+    if (filters.user) add('user = ?', filters.user)
+    if (filters.event) add('event = ?', filters.event)
+    if (filters.from_date) add('timestamp >= ?', new Date(filters.from_date).toISOString())
+    if (filters.to_date) add('timestamp <= ?', new Date(filters.to_date).toISOString())
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    let order = 'ORDER BY timestamp DESC, id DESC'
+    if (filters.limit) {
+      order += ' LIMIT ?'
+      params.push(filters.limit)
+    }
+    return this.selectAuditEvents(where, params, order)
+  }
+
+  /**
+   * Metadata of every API
+   */
+  async listApiMetadata(): Promise<ApiMetadata[]> {
+    const rows = this.db.prepare('SELECT data FROM api_metadata ORDER BY api_id').all() as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data) as ApiMetadata)
+  }
+
+  /**
+   * Metadata of every version, optionally of one API only
+   */
+  async listVersionMetadata(apiId?: ApiId): Promise<VersionMetadata[]> {
+    const rows = (
+      apiId
+        ? this.db.prepare('SELECT data FROM version_metadata WHERE api_id = ? ORDER BY created_at').all(apiId)
+        : this.db.prepare('SELECT data FROM version_metadata ORDER BY api_id, created_at').all()
+    ) as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data) as VersionMetadata)
+  }
+
+  /**
+   * Closes the database
+   */
+  close(): void {
+    this.db.close()
+  }
+
+  /**
+   * Mirrors API/version metadata documents into their indexed tables
+   * @description Detected by key (`.../metadata.json`) and shape, so unrelated documents
+   * that happen to be called metadata.json are simply not indexed.
+   */
+  private indexDocument(key: string, data: string): void {
+    this.db.prepare('DELETE FROM api_metadata WHERE key = ?').run(key)
+    this.db.prepare('DELETE FROM version_metadata WHERE key = ?').run(key)
+
+    const parts = key.split('/')
+    if (parts[parts.length - 1] !== 'metadata.json' || parts.length < 2) return
+
+    let document: Record<string, unknown>
+    try {
+      document = JSON.parse(data)
+    } catch {
+      return
+    }
+
+    if (typeof document.api_id === 'string' && Array.isArray(document.versions)) {
+      const folder = parts.length > 2 ? parts.slice(0, -2).join('/') : null
+      this.db
+        .prepare(
+          `INSERT INTO api_metadata (key, api_id, folder, name, owner, current_version, created_at, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          key,
+          document.api_id,
+          document.folder ?? folder,
+          document.name ?? null,
+          document.owner ?? null,
+          document.current_version ?? null,
+          document.created_at ?? null,
+          data
+        )
+      return
+    }
+
+    if (typeof document.version === 'string' && 'parent_version' in document && parts.length >= 3) {
+      const apiId = parts[parts.length - 3]
+      const folder = parts.length > 3 ? parts.slice(0, -3).join('/') : null
+      this.db
+        .prepare(
+          `INSERT INTO version_metadata (key, api_id, version, folder, parent_version, created_by, created_at, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          key,
+          apiId,
+          document.version,
+          folder,
+          document.parent_version ?? null,
+          document.created_by ?? null,
+          document.created_at ?? null,
+          data
+        )
+    }
+  }
+
+  /**
+   * Replaces an API's audit events (the legacy whole-file write path)
+   */
+  private replaceAuditLog(apiId: string, events: AuditEvent[]): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM audit_events WHERE api_id = ?').run(apiId)
+      events.forEach((event) => this.insertAuditEvent({ ...event, api_id: (event.api_id || apiId) as ApiId }))
+    })()
+  }
+
+  private insertAuditEvent(event: AuditEvent): void {
+    this.db
+      .prepare(
+        `INSERT INTO audit_events (api_id, version, event, user, timestamp, llm_reason, details)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.api_id,
+        event.version ?? null,
+        event.event,
+        event.user,
+        event.timestamp,
+        event.llm_reason ?? null,
+        event.details === undefined ? null : JSON.stringify(event.details)
+      )
+  }
+
+  private selectAuditEvents(where: string, params: unknown[], order: string): AuditEvent[] {
+    const rows = this.db
+      .prepare(`SELECT api_id, version, event, user, timestamp, llm_reason, details FROM audit_events ${where} ${order}`)
+      .all(...params) as AuditEventRow[]
+
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      event: row.event,
+      api_id: row.api_id as ApiId,
+      ...(row.version !== null ? { version: row.version as AuditEvent['version'] } : {}),
+      user: row.user,
+      ...(row.llm_reason !== null ? { llm_reason: row.llm_reason } : {}),
+      ...(row.details !== null ? { details: JSON.parse(row.details) } : {}),
+    }))
+  }
+
+  /**
+   * Same shape of error the file system provider produces for missing files
+   */
+  private notFound(key: string): Error {
+    const cause = Object.assign(new Error(`ENOENT: no such key, '${key}'`), { code: 'ENOENT' })
+    logStorageOperation('read', key, false, cause)
+    return createStorageError(`Failed to read file: ${key} not found`, key, 'read', cause)
+  }
+}
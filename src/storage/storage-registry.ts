@@ -0,0 +1,73 @@
+/**
+ * Storage Provider Registry
+ *
+ * @description Maps provider names ("filesystem", "sqlite", ...) to factories, so the
+ * backend is a config value instead of a `new` buried in two entry points. Bring your own
+ * backend with `registerStorageProvider()`. 🗂️
+ *
+ * @module storage/storage-registry
+ */
+
+import type { BaseStorageProvider, StorageConfig } from './base-storage-provider.js'
+import { FileSystemStorage } from './file-system-storage.js'
+import { GitStorageProvider } from './git-storage-provider.js'
+import { S3StorageProvider } from './s3-storage-provider.js'
+import { SqliteStorageProvider } from './sqlite-storage-provider.js'
+import { createValidationError } from '../utils/errors.js'
+
+/**
+ * Creates a storage provider from its config
+ */
+export type StorageProviderFactory = (config: StorageConfig) => BaseStorageProvider
+
+/**
+ * Built-in providers
+ */
+export const BUILT_IN_STORAGE_PROVIDERS = ['filesystem', 'git', 'sqlite', 's3'] as const
+
+/**
+ * Name of a built-in provider
+ */
+export type BuiltInStorageProvider = (typeof BUILT_IN_STORAGE_PROVIDERS)[number]
+
+const factories = new Map<string, StorageProviderFactory>([
+  ['filesystem', (config) => new FileSystemStorage(config)],
+  ['git', (config) => new GitStorageProvider(config)],
+  ['sqlite', (config) => new SqliteStorageProvider(config)],
+  ['s3', (config) => new S3StorageProvider(config)],
+])
+
+/**
+ * Registers (or replaces) a storage provider
+ * @param name - Name used in STORAGE_PROVIDER and by the migration command
+ * @param factory - Creates the provider from a StorageConfig
+ */
+export function registerStorageProvider(name: string, factory: StorageProviderFactory): void {
+  factories.set(name, factory)
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getStorageProviderNames(): string[] {
+  return [...factories.keys()]
+}
+
+/**
+ * Creates a registered storage provider
+ * @param name - Provider name
+ * @param config - Storage config handed to the factory
+ * @throws ValidationError if no provider is registered under that name
+ */
+export function createStorageProvider(name: string, config: StorageConfig): BaseStorageProvider {
+  const factory = factories.get(name)
+  if (!factory) {
+    throw createValidationError(
+      `Unknown storage provider: ${name}`,
+      'STORAGE_PROVIDER',
+      getStorageProviderNames().join(' | '),
+      name
+    )
+  }
+  return factory(config)
+}
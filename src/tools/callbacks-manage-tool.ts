@@ -0,0 +1,278 @@
+/**
+ * Callbacks Manage Tool
+ *
+ * @description Manages operation `callbacks` (OpenAPI 3.0+): the requests your API sends
+ * back to a URL the client handed over. "Don't call us, we'll call you." 📞
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, createValidationError, toolErrorContext } from '../utils/errors.js'
+import { resolveLocalRef } from '../utils/refs.js'
+import { operationMethods, validateCallbackExpression } from '../utils/webhooks.js'
+import { callbacksManageSchema, type CallbacksManageParams } from './schemas/callbacks-manage-schema.js'
+
+const CALLBACKS_PREFIX = '#/components/callbacks/'
+
+export class CallbacksManageTool extends BaseTool {
+  constructor(
+    private specManager: SpecManager,
+    private auditLogger: AuditLogger
+  ) {
+    super()
+  }
+
+  async execute(params: CallbacksManageParams): Promise<ToolResult> {
+    this.validate(params, callbacksManageSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'delete':
+          return await this.handleDelete(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Callbacks manage failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  private async handleList(params: CallbacksManageParams): Promise<ToolResult> {
+    const { path, method } = params
+    const { spec, operation } = await this.loadOperation(params)
+
+    const callbacks = Object.keys(asSpecObject(operation.callbacks)).map((callbackName) => {
+      const { callback, component } = this.resolveCallback(spec, operation, callbackName)
+      return {
+        name: callbackName,
+        component,
+        expressions: Object.entries(callback).map(([expression, pathItem]) => ({
+          expression,
+          methods: operationMethods(asSpecObject(resolveLocalRef(spec, pathItem))).map((m) => m.toUpperCase()),
+          problems: validateCallbackExpression(expression),
+        })),
+      }
+    })
+
+    return this.success(`Found ${callbacks.length} callbacks`, { path, method, count: callbacks.length, callbacks })
+  }
+
+  private async handleAdd(params: CallbacksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, callbackName, expression, callbackMethod, operationObject } = params
+    const problems = validateCallbackExpression(expression)
+    if (problems.length > 0) {
+      throw createValidationError(`Invalid callback expression: ${problems.join('; ')}`, 'expression')
+    }
+
+    const { spec, operation } = await this.loadOperation(params)
+    const callbacks = asSpecObject(operation.callbacks)
+    operation.callbacks = callbacks
+    callbacks[callbackName] = callbacks[callbackName] || {}
+
+    const { callback, component } = this.resolveCallback(spec, operation, callbackName)
+    callback[expression] = callback[expression] || {}
+    const pathItem = resolveLocalRef(spec, callback[expression])
+    if (!isSpecObject(pathItem)) {
+      throw createToolError(`Cannot resolve callback ${callbackName} ${expression}`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const key = callbackMethod.toLowerCase()
+    if (pathItem[key]) {
+      throw createToolError(
+        `Callback ${callbackName} already has ${callbackMethod} ${expression}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    pathItem[key] = operationObject
+
+    await this.save(params, spec, 'callback_added', { path, method, callbackName, expression, callbackMethod, component })
+    return this.success(`Added callback ${callbackName} (${callbackMethod} ${expression}) to ${method} ${path}`, {
+      path,
+      method,
+      callbackName,
+      expression,
+      callbackMethod,
+      component,
+    })
+  }
+
+  private async handleUpdate(params: CallbacksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, callbackName, expression, callbackMethod, updates } = params
+    const { spec, operation } = await this.loadOperation(params)
+    const { callback, component } = this.resolveCallback(spec, operation, callbackName)
+    const callbackOperation = asSpecObject(resolveLocalRef(spec, callback[expression]))[callbackMethod.toLowerCase()]
+    if (!isSpecObject(callbackOperation)) {
+      throw createToolError(
+        `Callback ${callbackName} has no ${callbackMethod} ${expression}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    Object.assign(callbackOperation, updates)
+
+    await this.save(params, spec, 'callback_updated', { path, method, callbackName, expression, callbackMethod, updates, component })
+    return this.success(`Updated callback ${callbackName} (${callbackMethod} ${expression})`, {
+      path,
+      method,
+      callbackName,
+      component,
+      operation: callbackOperation,
+    })
+  }
+
+  /**
+   * Deletes a callback operation, a callback expression, or the whole callback -
+   * depending on how much you pass. Emptied containers are cleaned up on the way out.
+   */
+  private async handleDelete(params: CallbacksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'delete') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, callbackName, expression, callbackMethod } = params
+    if (callbackMethod && !expression) {
+      throw createToolError('callbackMethod needs the expression it belongs to', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { spec, operation } = await this.loadOperation(params)
+    const { callback, component } = this.resolveCallback(spec, operation, callbackName)
+
+    if (expression) {
+      if (!callback[expression]) {
+        throw createToolError(`Callback ${callbackName} has no expression ${expression}`, 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+      const pathItem = asSpecObject(resolveLocalRef(spec, callback[expression]))
+      if (callbackMethod) {
+        if (!pathItem[callbackMethod.toLowerCase()]) {
+          throw createToolError(
+            `Callback ${callbackName} has no ${callbackMethod} ${expression}`,
+            'VALIDATION_ERROR',
+            toolErrorContext(params)
+          )
+        }
+        delete pathItem[callbackMethod.toLowerCase()]
+      }
+      if (!callbackMethod || operationMethods(pathItem).length === 0) delete callback[expression]
+    }
+    // The operation's reference goes when the callback is emptied or deleted outright -
+    // a shared component stays in components for its other users
+    const callbacks = asSpecObject(operation.callbacks)
+    if (!expression || Object.keys(callback).length === 0) delete callbacks[callbackName]
+    if (Object.keys(callbacks).length === 0) delete operation.callbacks
+
+    await this.save(params, spec, 'callback_deleted', { path, method, callbackName, expression, callbackMethod, component })
+    return this.success(`Deleted callback ${[callbackName, callbackMethod, expression].filter(Boolean).join(' ')}`, {
+      path,
+      method,
+      callbackName,
+      expression,
+      callbackMethod,
+    })
+  }
+
+  private async loadOperation(params: CallbacksManageParams): Promise<{ spec: SpecObject; operation: SpecObject }> {
+    const { apiId, version, path, method } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+
+    if (typeof spec.swagger === 'string') {
+      throw createToolError(
+        'Swagger 2.0 has no callbacks - convert the version to OpenAPI 3.x first',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    const pathItem = asSpecObject(spec.paths)[path]
+    if (!isSpecObject(pathItem)) {
+      throw createToolError(`Path ${path} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const operation = pathItem[method.toLowerCase()]
+    if (!isSpecObject(operation)) {
+      throw createToolError(`Method ${method} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    return { spec, operation }
+  }
+
+  /**
+   * The callback object to edit - for a `$ref` that's the shared components/callbacks entry
+   */
+  private resolveCallback(
+    spec: SpecObject,
+    operation: SpecObject,
+    callbackName: string
+  ): { callback: SpecObject; component?: string } {
+    const value = asSpecObject(operation.callbacks)[callbackName]
+    if (!isSpecObject(value)) {
+      throw createToolError(`Callback ${callbackName} not found`, 'VALIDATION_ERROR', { callbackName })
+    }
+    if (typeof value.$ref !== 'string') return { callback: value }
+
+    const callback = value.$ref.startsWith(CALLBACKS_PREFIX) ? resolveLocalRef(spec, value) : undefined
+    if (!isSpecObject(callback)) {
+      throw createToolError(`Cannot resolve callback reference ${value.$ref}`, 'VALIDATION_ERROR', { callbackName })
+    }
+    return { callback, component: value.$ref.slice(CALLBACKS_PREFIX.length) }
+  }
+
+  private async save(params: CallbacksManageParams, spec: SpecObject, event: string, details: Record<string, unknown>): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  describe() {
+    return {
+      name: 'callbacks_manage',
+      description:
+        'Manage operation callbacks (OpenAPI 3.0+): list, add, update and delete callback operations keyed by a runtime expression such as {$request.body#/callbackUrl}. Delete removes a callback operation (expression + callbackMethod), an expression, or the whole callback (name only). Referenced callbacks are edited through their #/components/callbacks entry.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: { type: 'string', enum: ['list', 'add', 'update', 'delete'] },
+          path: { type: 'string', description: 'Path of the operation registering the callback' },
+          method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'] },
+          callbackName: { type: 'string', description: 'Callback name, e.g. onPaymentCompleted' },
+          expression: { type: 'string', description: 'Runtime expression, e.g. {$request.body#/callbackUrl}' },
+          callbackMethod: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'] },
+          operationObject: { type: 'object', description: 'Callback operation object (add)' },
+          updates: { type: 'object', description: 'Callback operation fields to change (update)' },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation', 'path', 'method'],
+      },
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Change Set Tool
+ *
+ * @description Opens, commits and rolls back change sets: several tool calls on one spec
+ * version that land together or not at all. Measure twice, commit once. 🪚
+ *
+ * @module tools/change-set-tool
+ */
+
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import type { ApiId, VersionTag } from '../types/openapi.js'
+import { CHANGE_SET_TOOLS, type ChangeSetManager } from '../services/change-set-manager.js'
+import { ToolError, createToolError, toolErrorContext } from '../utils/errors.js'
+import { changeSetSchema, type ChangeSetParams } from './schemas/change-set-schema.js'
+
+/**
+ * Change Set Tool
+ * @description The MCP face of ChangeSetManager. The editing itself happens in the other tools,
+ * which pick up the `transactionId` this one hands out.
+ */
+export class ChangeSetTool extends BaseTool {
+  constructor(private changeSetManager: ChangeSetManager) {
+    super()
+  }
+
+  /**
+   * Runs a change set operation
+   * @param params - begin (apiId + version), commit/rollback (transactionId) or status
+   * @returns Tool result with the transactionId (begin) or the change set summary
+   * @description `commit` validates the working copy and saves it once; if validation fails the
+   * change set stays open, so the caller can fix it up or roll it back.
+   */
+  async execute(params: ChangeSetParams): Promise<ToolResult> {
+    this.validate(params, changeSetSchema)
+
+    try {
+      switch (params.operation) {
+        case 'begin':
+          return await this.handleBegin(params)
+        case 'commit':
+          return await this.handleCommit(params)
+        case 'rollback':
+          return await this.handleRollback(params)
+        case 'status':
+          return await this.handleStatus(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      // "Change set abc not found" already says what went wrong - wrapping it again only buries it
+      if (error instanceof ToolError) throw error
+      throw createToolError(
+        `Change set failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        toolErrorContext(params),
+        error as Error
+      )
+    }
+  }
+
+  private async handleBegin(params: ChangeSetParams): Promise<ToolResult> {
+    if (params.operation !== 'begin') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, llmReason } = params
+    const changeSet = await this.changeSetManager.begin(apiId as ApiId, version as VersionTag, llmReason)
+
+    return this.success(`Opened change set ${changeSet.id} on ${apiId} ${version}`, {
+      transactionId: changeSet.id,
+      apiId,
+      version,
+      tools: CHANGE_SET_TOOLS,
+    })
+  }
+
+  private async handleCommit(params: ChangeSetParams): Promise<ToolResult> {
+    if (params.operation !== 'commit') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const summary = await this.changeSetManager.commit(params.transactionId, params.llmReason)
+
+    return this.success(
+      `Committed change set ${summary.transaction_id} (${summary.operation_count} operations)`,
+      summary
+    )
+  }
+
+  private async handleRollback(params: ChangeSetParams): Promise<ToolResult> {
+    if (params.operation !== 'rollback') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const summary = await this.changeSetManager.rollback(params.transactionId)
+
+    return this.success(
+      `Rolled back change set ${summary.transaction_id} (${summary.operation_count} operations discarded)`,
+      summary
+    )
+  }
+
+  private async handleStatus(params: ChangeSetParams): Promise<ToolResult> {
+    if (params.operation !== 'status') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    if (params.transactionId) {
+      const summary = this.changeSetManager.summarize(this.changeSetManager.get(params.transactionId))
+      return this.success(`Change set ${summary.transaction_id} has ${summary.operation_count} operations`, summary)
+    }
+
+    const changeSets = this.changeSetManager.list().map((changeSet) => this.changeSetManager.summarize(changeSet))
+    return this.success(`Found ${changeSets.length} open change sets`, {
+      count: changeSets.length,
+      changeSets,
+    })
+  }
+
+  /**
+   * Returns tool description for MCP registration
+   */
+  describe() {
+    return {
+      name: 'change_set',
+      description:
+        'Group edits into a transaction: begin returns a transactionId; pass it to spec editing tools to work on a draft copy; commit validates and saves everything at once, rollback discards it.',
+      inputSchema: zodToJsonSchema(changeSetSchema, 'changeSetSchema'),
+    }
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Components Manage Tool
+ *
+ * @description Manages every kind of reusable component under `components` - schemas,
+ * responses, parameters, examples, request bodies, headers, security schemes, links,
+ * callbacks and path items. Renames follow every reference, so nothing is left pointing
+ * at a name that no longer exists. 🧩
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, toolErrorContext } from '../utils/errors.js'
+import {
+  COMPONENT_TYPES,
+  componentRef,
+  findRefs,
+  findSecurityRequirements,
+  renameSecurityRequirements,
+  rewriteRefs,
+} from '../utils/refs.js'
+import { componentsManageSchema, type ComponentsManageParams } from './schemas/components-manage-schema.js'
+
+export class ComponentsManageTool extends BaseTool {
+  constructor(private specManager: SpecManager, private auditLogger: AuditLogger) {
+    super()
+  }
+
+  async execute(params: ComponentsManageParams): Promise<ToolResult> {
+    this.validate(params, componentsManageSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'delete':
+          return await this.handleDelete(params)
+        case 'rename':
+          return await this.handleRename(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Components manage failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  /**
+   * Components of one kind, or of every kind present, with how often each is used
+   */
+  private async handleList(params: ComponentsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'list') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const spec = await this.load(params)
+    const types = params.componentType ? [params.componentType] : COMPONENT_TYPES
+    const components: Record<string, Array<{ name: string; usageCount: number }>> = {}
+    const counts: Record<string, number> = {}
+
+    const declared = asSpecObject(spec.components)
+    types.forEach((type) => {
+      const names = Object.keys(asSpecObject(declared[type]))
+      if (names.length === 0 && !params.componentType) return
+      components[type] = names.map((name) => ({ name, usageCount: this.usages(spec, type, name).length }))
+      counts[type] = names.length
+    })
+
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0)
+    return this.success(`Found ${total} components`, { total, counts, components })
+  }
+
+  private async handleAdd(params: ComponentsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { componentType, componentName, definition } = params
+    const spec = await this.load(params)
+    if (componentType === 'pathItems' && !String(spec.openapi).startsWith('3.1')) {
+      throw createToolError('components.pathItems needs OpenAPI 3.1', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const components = asSpecObject(spec.components)
+    const ofType = asSpecObject(components[componentType])
+    if (ofType[componentName]) {
+      throw createToolError(
+        `${componentRef(componentType, componentName)} already exists. Use 'update' to change it.`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    ofType[componentName] = definition
+    components[componentType] = ofType
+    spec.components = components
+
+    await this.save(params, spec, 'component_added', { componentType, componentName })
+    return this.success(`Added ${componentRef(componentType, componentName)}`, {
+      componentType,
+      componentName,
+      ref: componentRef(componentType, componentName),
+      definition,
+    })
+  }
+
+  /**
+   * Merges `definition` into an existing component (same semantics as schema_manage update)
+   */
+  private async handleUpdate(params: ComponentsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { componentType, componentName, definition } = params
+    const spec = await this.load(params)
+    const components = this.assertExists(spec, componentType, componentName)
+
+    const original = structuredClone(components[componentName])
+    components[componentName] = { ...asSpecObject(components[componentName]), ...definition }
+
+    await this.save(params, spec, 'component_updated', { componentType, componentName, original })
+    return this.success(`Updated ${componentRef(componentType, componentName)}`, {
+      componentType,
+      componentName,
+      original,
+      updated: components[componentName],
+    })
+  }
+
+  /**
+   * Deletes a component - unless something still uses it and `force` isn't set
+   */
+  private async handleDelete(params: ComponentsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'delete') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { componentType, componentName, force } = params
+    const spec = await this.load(params)
+    const components = this.assertExists(spec, componentType, componentName)
+
+    const usages = this.usages(spec, componentType, componentName)
+    if (usages.length > 0 && !force) {
+      throw createToolError(
+        `${componentRef(componentType, componentName)} is still used at ${usages.join(', ')} - update those first or pass force: true`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    const deleted = components[componentName]
+    delete components[componentName]
+    if (Object.keys(components).length === 0) delete asSpecObject(spec.components)[componentType]
+
+    await this.save(params, spec, 'component_deleted', { componentType, componentName, deleted, danglingRefs: usages })
+    return this.success(`Deleted ${componentRef(componentType, componentName)}`, {
+      componentType,
+      componentName,
+      deleted,
+      danglingRefs: usages,
+    })
+  }
+
+  /**
+   * Renames a component and rewrites every `$ref` (and, for security schemes, every requirement) using it
+   */
+  private async handleRename(params: ComponentsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'rename') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { componentType, componentName, newName } = params
+    const spec = await this.load(params)
+    const components = this.assertExists(spec, componentType, componentName)
+    if (components[newName]) {
+      throw createToolError(
+        `${componentRef(componentType, newName)} already exists`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    // Rebuild the map so the component keeps its position
+    asSpecObject(spec.components)[componentType] = Object.fromEntries(
+      Object.entries(components).map(([name, value]) => [name === componentName ? newName : name, value])
+    )
+
+    const oldRef = componentRef(componentType, componentName)
+    const newRef = componentRef(componentType, newName)
+    const updatedRefs = rewriteRefs(spec, oldRef, newRef)
+    const updatedRequirements =
+      componentType === 'securitySchemes' ? renameSecurityRequirements(spec, componentName, newName) : 0
+
+    await this.save(params, spec, 'component_renamed', {
+      componentType,
+      componentName,
+      newName,
+      updatedRefs,
+      updatedRequirements,
+    })
+    return this.success(`Renamed ${oldRef} to ${newRef}`, {
+      componentType,
+      componentName,
+      newName,
+      oldRef,
+      newRef,
+      updatedRefs,
+      updatedRequirements,
+    })
+  }
+
+  private async load(params: ComponentsManageParams): Promise<SpecObject> {
+    const doc = await this.specManager.loadSpec(params.apiId as ApiId, params.version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+    if (typeof spec.swagger === 'string') {
+      throw createToolError(
+        'Swagger 2.0 has no components (use schema_manage for definitions, or convert the version to OpenAPI 3.x)',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    return spec
+  }
+
+  private assertExists(spec: SpecObject, componentType: string, componentName: string): SpecObject {
+    const components = asSpecObject(asSpecObject(spec.components)[componentType])
+    if (!components[componentName]) {
+      throw createToolError(`${componentRef(componentType, componentName)} not found`, 'VALIDATION_ERROR', {
+        componentType,
+        componentName,
+      })
+    }
+    return components
+  }
+
+  /**
+   * Where a component is used (JSON Pointers), ignoring the component's references to itself
+   */
+  private usages(spec: SpecObject, componentType: string, componentName: string): string[] {
+    const ref = componentRef(componentType, componentName)
+    const own = ref.slice(1)
+    const pointers = findRefs(spec, ref)
+      .map((location) => location.pointer)
+      .filter((pointer) => pointer !== own && !pointer.startsWith(`${own}/`))
+    if (componentType === 'securitySchemes') {
+      pointers.push(...findSecurityRequirements(spec, componentName))
+    }
+    return pointers
+  }
+
+  private async save(params: ComponentsManageParams, spec: SpecObject, event: string, details: Record<string, unknown>): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  describe() {
+    return {
+      name: 'components_manage',
+      description:
+        'Manage reusable components of every kind (schemas, responses, parameters, examples, requestBodies, headers, securitySchemes, links, callbacks, pathItems): list with usage counts, add, update (merge), delete (refused while still referenced unless force) and rename - rename rewrites every $ref, discriminator mapping and, for security schemes, every security requirement.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: { type: 'string', enum: ['list', 'add', 'update', 'delete', 'rename'] },
+          componentType: { type: 'string', enum: [...COMPONENT_TYPES] },
+          componentName: { type: 'string' },
+          newName: { type: 'string', description: 'New component name (rename)' },
+          definition: { type: 'object', description: 'Component object (add), or fields to merge in (update)' },
+          force: { type: 'boolean', description: 'Delete even if still referenced (delete)' },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation'],
+      },
+    }
+  }
+}
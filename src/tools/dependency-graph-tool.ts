@@ -0,0 +1,88 @@
+/**
+ * Dependency Graph Tool
+ *
+ * @description Shows which APIs depend on which, and which of them a shared component change
+ * would break - before anyone saves it. Read-only; it only ever asks "what if". 🕸️
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { COMPONENT_TYPES } from '../utils/refs.js'
+import type { DependencyGraph } from '../services/dependency-graph.js'
+import { createToolError, toolErrorContext } from '../utils/errors.js'
+import { dependencyGraphSchema, type DependencyGraphParams } from './schemas/dependency-graph-schema.js'
+
+export class DependencyGraphTool extends BaseTool {
+  constructor(private dependencyGraph: DependencyGraph) {
+    super()
+  }
+
+  async execute(params: DependencyGraphParams): Promise<ToolResult> {
+    this.validate(params, dependencyGraphSchema)
+
+    try {
+      switch (params.operation) {
+        case 'graph':
+          return await this.handleGraph(params)
+        case 'impact':
+          return await this.handleImpact(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Dependency graph failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { operation: params.operation }
+      )
+    }
+  }
+
+  private async handleGraph(params: DependencyGraphParams): Promise<ToolResult> {
+    if (params.operation !== 'graph') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const graph = await this.dependencyGraph.build(params.apiId)
+
+    return this.success(
+      `Found ${graph.edges.filter((edge) => edge.type === 'api').length} API dependencies between ${graph.apis.length} spec versions`,
+      graph
+    )
+  }
+
+  private async handleImpact(params: DependencyGraphParams): Promise<ToolResult> {
+    if (params.operation !== 'impact') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, componentType, componentName, definition } = params
+    const report = await this.dependencyGraph.impact({ apiId, version, componentType, componentName, definition })
+
+    return this.success(
+      `${report.breakingConsumers} of ${report.affected.length + report.unaffected.length} consumers would see a breaking change to ${report.component}`,
+      report
+    )
+  }
+
+  describe() {
+    return {
+      name: 'dependency_graph',
+      description:
+        'Cross-spec dependencies: graph lists API -> API and shared component -> consumer edges across all folders; impact diffs every consumer of a shared component against a proposed definition (null = delete) and reports which would break. Nothing is saved.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operation: { type: 'string', enum: ['graph', 'impact'] },
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          componentType: { type: 'string', enum: [...COMPONENT_TYPES] },
+          componentName: { type: 'string' },
+          definition: { type: ['object', 'null'] },
+          llmReason: { type: 'string' },
+        },
+        required: ['operation'],
+      },
+    }
+  }
+}
@@ -17,13 +17,9 @@ import type { ApiId, VersionTag } from '../types/openapi.js'
 import type { SpecManager } from '../services/spec-manager.js'
 import type { AuditLogger } from '../services/audit-logger.js'
 import { createToolError } from '../utils/errors.js'
+import { HTTP_METHODS, isHttpMethod } from '../utils/http-methods.js'
 import { endpointManageSchema, type EndpointManageParams } from './schemas/endpoint-manage-schema.js'
 
-/**
- * HTTP methods supported by OpenAPI
- */
-const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace'] as const
-
 /**
  * Endpoint Management Tool Implementation
  *
@@ -90,7 +86,7 @@ export class EndpointManageTool extends BaseTool {
     const paths = (spec as any).paths || {}
     const endpoints = Object.entries(paths).map(([path, pathItem]: [string, any]) => ({
       path,
-      methods: Object.keys(pathItem).filter((key) => HTTP_METHODS.includes(key as any)),
+      methods: Object.keys(pathItem).filter((key) => isHttpMethod(key)),
       summary: this.getPathSummary(pathItem),
       operations: this.getOperationSummaries(pathItem),
     }))
@@ -144,7 +140,7 @@ export class EndpointManageTool extends BaseTool {
     paths[path as string][normalizedMethod] = operationObject
 
     // Save the spec
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -158,6 +154,7 @@ export class EndpointManageTool extends BaseTool {
         path,
         method: normalizedMethod,
         summary: operationObject.summary || 'No summary',
+        ...edit,
       },
     })
 
@@ -205,7 +202,7 @@ export class EndpointManageTool extends BaseTool {
     }
 
     // Save the spec
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -219,6 +216,7 @@ export class EndpointManageTool extends BaseTool {
         path,
         method: normalizedMethod,
         updated_fields: Object.keys(updates as Record<string, any>),
+        ...edit,
       },
     })
 
@@ -267,14 +265,14 @@ export class EndpointManageTool extends BaseTool {
 
     // If path has no more methods, delete the path
     const remainingMethods = Object.keys(paths[path as string]).filter((key) =>
-      HTTP_METHODS.includes(key as any)
+      isHttpMethod(key)
     )
     if (remainingMethods.length === 0) {
       delete paths[path as string]
     }
 
     // Save the spec
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec as any)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -288,6 +286,7 @@ export class EndpointManageTool extends BaseTool {
         path,
         method: normalizedMethod,
         summary: deletedOperation.summary || 'No summary',
+        ...edit,
       },
     })
 
@@ -307,7 +306,7 @@ export class EndpointManageTool extends BaseTool {
    */
   private getPathSummary(pathItem: any): string {
     const operations = Object.entries(pathItem)
-      .filter(([key]) => HTTP_METHODS.includes(key as any))
+      .filter(([key]) => isHttpMethod(key))
       .map(([, op]: [string, any]) => op.summary)
       .filter(Boolean)
 
@@ -15,4 +15,14 @@ export { ParametersConfigureTool } from './parameters-configure-tool.js'
 export { ResponsesConfigureTool } from './responses-configure-tool.js'
 export { SecurityConfigureTool } from './security-configure-tool.js'
 export { ReferencesManageTool } from './references-manage-tool.js'
+export { SpecPatchTool } from './spec-patch-tool.js'
+export { TagsManageTool } from './tags-manage-tool.js'
+export { ServersConfigureTool } from './servers-configure-tool.js'
+export { RequestBodyConfigureTool } from './request-body-configure-tool.js'
+export { WebhooksManageTool } from './webhooks-manage-tool.js'
+export { CallbacksManageTool } from './callbacks-manage-tool.js'
+export { ComponentsManageTool } from './components-manage-tool.js'
+export { DependencyGraphTool } from './dependency-graph-tool.js'
+export { ChangeSetTool } from './change-set-tool.js'
 
+export { SpecImportTool } from './spec-import-tool.js'
@@ -117,7 +117,7 @@ export class MetadataUpdateTool extends BaseTool {
       spec.info = updatedInfo
 
       // Save updated spec
-      await this.specManager.saveSpec(apiId, version, spec)
+      const edit = await this.specManager.saveSpec(apiId, version, spec)
 
       // Log audit event
       await this.auditLogger.logEvent({
@@ -131,6 +131,7 @@ export class MetadataUpdateTool extends BaseTool {
           updates: params.updates,
           original: originalInfo,
           updated: updatedInfo,
+          ...edit,
         },
         llm_reason: params.llmReason,
       })
@@ -188,7 +188,7 @@ export class ParametersConfigureTool extends BaseTool {
       pathItem.parameters.push(parameter)
     }
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
 
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
@@ -202,6 +202,7 @@ export class ParametersConfigureTool extends BaseTool {
         method: method || 'path-level',
         parameterName: parameter.name,
         parameterIn: parameter.in,
+        ...edit,
       },
     })
 
@@ -277,7 +278,7 @@ export class ParametersConfigureTool extends BaseTool {
       )
     }
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
 
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
@@ -292,6 +293,7 @@ export class ParametersConfigureTool extends BaseTool {
         parameterName,
         parameterIn,
         updates,
+        ...edit,
       },
     })
 
@@ -367,7 +369,7 @@ export class ParametersConfigureTool extends BaseTool {
       )
     }
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
 
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
@@ -381,6 +383,7 @@ export class ParametersConfigureTool extends BaseTool {
         method: method || 'path-level',
         parameterName,
         parameterIn,
+        ...edit,
       },
     })
 
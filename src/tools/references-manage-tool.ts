@@ -2,19 +2,44 @@
  * References Manage Tool
  *
  * @description Manages $ref references in OpenAPI specs. Finding references is like
- * detective work - follow the clues, find the connections, solve the mystery.
+ * detective work - follow the clues, find the connections, solve the mystery. Also home
+ * to the extract/inline refactorings, which are the same detective work with a crowbar.
+ * Cross-spec refs (`shared-api@v1.0.0#/components/schemas/Error`) are followed with a
+ * CrossSpecResolver when the tool has one.
  */
 
 import { BaseTool } from '../types/mcp-tool.js'
 import type { ToolResult } from '../types/mcp-tool.js'
-import type { ApiId, VersionTag } from '../types/openapi.js'
+import { asSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
 import type { SpecManager } from '../services/spec-manager.js'
 import type { AuditLogger } from '../services/audit-logger.js'
-import { createToolError } from '../utils/errors.js'
+import type { CrossSpecResolver } from '../services/cross-spec-resolver.js'
+import { createToolError, toolErrorContext } from '../utils/errors.js'
+import { applyJsonPatch, getByPointer, type JsonPatchOperation } from '../utils/json-patch.js'
+import {
+  COMPONENT_TYPES,
+  componentRef,
+  findRefs,
+  isFileRef,
+  parseCrossSpecRef,
+  reachableComponents,
+} from '../utils/refs.js'
+import {
+  canonicalJson,
+  collectInlineCandidates,
+  isSubstantialSchema,
+  suggestComponentName,
+  type ExtractableType,
+} from '../utils/inline-components.js'
 import { referencesManageSchema, type ReferencesManageParams } from './schemas/references-manage-schema.js'
 
 export class ReferencesManageTool extends BaseTool {
-  constructor(private specManager: SpecManager, private auditLogger: AuditLogger) {
+  constructor(
+    private specManager: SpecManager,
+    private auditLogger: AuditLogger,
+    private crossSpecResolver?: CrossSpecResolver
+  ) {
     super()
   }
 
@@ -29,8 +54,20 @@ export class ReferencesManageTool extends BaseTool {
           return await this.handleValidate(params)
         case 'update':
           return await this.handleUpdate(params)
+        case 'find_duplicates':
+          return await this.handleFindDuplicates(params)
+        case 'extract':
+          return await this.handleExtract(params)
+        case 'inline':
+          return await this.handleInline(params)
+        case 'prune':
+          return await this.handlePrune(params)
+        case 'bundle':
+          return await this.handleBundle(params)
+        case 'dependents':
+          return await this.handleDependents(params)
         default:
-          throw createToolError('Unknown operation', 'VALIDATION_ERROR', params as any)
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
       }
     } catch (error) {
       throw createToolError(
@@ -43,7 +80,7 @@ export class ReferencesManageTool extends BaseTool {
 
   private async handleFind(params: ReferencesManageParams): Promise<ToolResult> {
     if (params.operation !== 'find') {
-      throw createToolError('Invalid operation', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
     const { apiId, version, componentName, componentType } = params
@@ -84,6 +121,7 @@ export class ReferencesManageTool extends BaseTool {
 
     const brokenRefs: any[] = []
     const validRefs: any[] = []
+    const crossSpecRefs: { path: string; ref: string }[] = []
 
     // Find all $ref and check if they exist
     const checkRef = (obj: any, path: string) => {
@@ -103,6 +141,15 @@ export class ReferencesManageTool extends BaseTool {
           } else {
             brokenRefs.push({ path, ref: obj.$ref })
           }
+        } else if (parseCrossSpecRef(obj.$ref)) {
+          crossSpecRefs.push({ path, ref: obj.$ref })
+        } else if (isFileRef(obj.$ref)) {
+          // A stored spec has no directory to resolve it against
+          brokenRefs.push({
+            path,
+            ref: obj.$ref,
+            reason: 'File refs do not resolve in stored specs - import the spec with spec_import filePath to bundle them',
+          })
         }
       }
 
@@ -113,17 +160,31 @@ export class ReferencesManageTool extends BaseTool {
 
     checkRef(spec, 'spec')
 
+    // Cross-spec refs can only be checked with a resolver; without one they're skipped like other external refs
+    if (this.crossSpecResolver && crossSpecRefs.length > 0) {
+      const problems = await this.crossSpecResolver.unresolvable(crossSpecRefs.map((usage) => usage.ref))
+      crossSpecRefs.forEach((usage) => {
+        const reason = problems.get(usage.ref)
+        if (reason) {
+          brokenRefs.push({ ...usage, reason })
+        } else {
+          validRefs.push(usage)
+        }
+      })
+    }
+
     return this.success(`Validated ${validRefs.length + brokenRefs.length} references`, {
       totalRefs: validRefs.length + brokenRefs.length,
       validRefs: validRefs.length,
       brokenRefs: brokenRefs.length,
+      crossSpecRefs: crossSpecRefs.length,
       broken: brokenRefs,
     })
   }
 
   private async handleUpdate(params: ReferencesManageParams): Promise<ToolResult> {
     if (params.operation !== 'update') {
-      throw createToolError('Invalid operation', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
     const { apiId, version, oldRef, newRef, llmReason } = params
@@ -148,10 +209,10 @@ export class ReferencesManageTool extends BaseTool {
     updateRefs(spec)
 
     if (updateCount === 0) {
-      throw createToolError(`Reference ${oldRef} not found`, 'VALIDATION_ERROR', params as any)
+      throw createToolError(`Reference ${oldRef} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -159,26 +220,377 @@ export class ReferencesManageTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { oldRef, newRef, updateCount },
+      details: { oldRef, newRef, updateCount, ...edit },
     })
 
     return this.success(`Updated ${updateCount} references`, { oldRef, newRef, updateCount })
   }
 
+  /**
+   * Groups structurally identical inline schemas, parameters and responses
+   * @description Trivial schemas (no properties, composition or enum) are skipped - nobody
+   * needs a component for `{ type: 'string' }`. Groups identical to an existing component
+   * are reported even when they occur once.
+   */
+  private async handleFindDuplicates(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'find_duplicates') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, componentType, minOccurrences = 2 } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+
+    const groups = new Map<string, { kind: ExtractableType; pointers: string[]; value: SpecObject }>()
+    collectInlineCandidates(spec)
+      .filter((candidate) => !componentType || candidate.kind === componentType)
+      .filter((candidate) => candidate.kind !== 'schemas' || isSubstantialSchema(candidate.value))
+      .forEach((candidate) => {
+        const key = `${candidate.kind}:${candidate.fingerprint}`
+        const group = groups.get(key) || { kind: candidate.kind, pointers: [], value: candidate.value }
+        group.pointers.push(candidate.pointer)
+        groups.set(key, group)
+      })
+
+    const duplicates = [...groups.values()]
+      .map((group) => {
+        const components = asSpecObject(asSpecObject(spec.components)[group.kind])
+        const fingerprint = canonicalJson(group.value)
+        const matchesComponent = Object.keys(components).find((name) => canonicalJson(components[name]) === fingerprint)
+        return {
+          componentType: group.kind,
+          occurrences: group.pointers.length,
+          pointers: group.pointers,
+          matchesComponent,
+          suggestedName:
+            matchesComponent ??
+            suggestComponentName(
+              spec,
+              { kind: group.kind, pointer: group.pointers[0], value: group.value },
+              Object.keys(components)
+            ),
+        }
+      })
+      .filter((group) => group.occurrences >= minOccurrences || group.matchesComponent)
+      .sort((a, b) => b.occurrences - a.occurrences)
+
+    return this.success(`Found ${duplicates.length} groups of duplicated inline definitions`, {
+      count: duplicates.length,
+      duplicates,
+    })
+  }
+
+  /**
+   * Moves an inline schema, parameter or response into components and references it -
+   * from the given location and, by default, from every structurally identical copy
+   */
+  private async handleExtract(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'extract') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, pointer, componentName, replaceDuplicates = true, llmReason } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+
+    const candidates = collectInlineCandidates(spec)
+    const target = candidates.find((candidate) => candidate.pointer === pointer)
+    if (!target) {
+      throw createToolError(
+        `No inline schema, parameter or response at ${pointer} (refs and component roots can't be extracted)`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    const components = asSpecObject(asSpecObject(spec.components)[target.kind])
+    const identical = Object.keys(components).find((name) => canonicalJson(components[name]) === target.fingerprint)
+    const name = componentName ?? identical ?? suggestComponentName(spec, target, Object.keys(components))
+    if (components[name] && canonicalJson(components[name]) !== target.fingerprint) {
+      throw createToolError(
+        `${componentRef(target.kind, name)} already exists with a different definition`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    const reused = Boolean(components[name])
+
+    const pointers = replaceDuplicates
+      ? candidates
+          .filter((candidate) => candidate.kind === target.kind && candidate.fingerprint === target.fingerprint)
+          .map((candidate) => candidate.pointer)
+      : [pointer]
+
+    const ref = componentRef(target.kind, name)
+    if (!reused) {
+      spec.components = { ...asSpecObject(spec.components), [target.kind]: { ...components, [name]: structuredClone(target.value) } }
+    }
+    const patch: JsonPatchOperation[] = pointers.map((path) => ({ op: 'replace', path, value: { $ref: ref } }))
+    const updated = applyJsonPatch(spec, patch)
+
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, updated)
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: version as VersionTag,
+      event: 'component_extracted',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: { componentType: target.kind, componentName: name, reused, replaced: pointers, ...edit },
+    })
+
+    return this.success(`Extracted ${pointers.length} inline ${target.kind} into ${ref}`, {
+      componentType: target.kind,
+      componentName: name,
+      ref,
+      reused,
+      replacedCount: pointers.length,
+      replaced: pointers,
+    })
+  }
+
+  /**
+   * Replaces every $ref to a component with a copy of it, then drops the component
+   */
+  private async handleInline(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'inline') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, componentType, componentName, keepComponent = false, llmReason } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+
+    const component = asSpecObject(asSpecObject(spec.components)[componentType])[componentName]
+    const ref = componentRef(componentType, componentName)
+    if (!component) {
+      throw createToolError(`${ref} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const own = ref.slice(1)
+    const usages = findRefs(spec, ref)
+    const blockers = usages.filter(
+      (usage) =>
+        usage.ref !== ref ||
+        usage.pointer === own ||
+        usage.pointer.startsWith(`${own}/`) ||
+        usage.pointer.includes('/discriminator/mapping/')
+    )
+    if (blockers.length > 0) {
+      throw createToolError(
+        `${ref} can't be inlined - it is referenced by itself, into, or from a discriminator mapping at ${blockers.map((usage) => usage.pointer).join(', ')}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    if (usages.length === 0) {
+      throw createToolError(`${ref} is not referenced anywhere - delete it with components_manage instead`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    // Siblings of $ref (3.1 summary/description overrides) win over the component's own fields
+    const patch: JsonPatchOperation[] = usages.map((usage) => {
+      const siblings = { ...asSpecObject(getByPointer(spec, usage.pointer)) }
+      delete siblings.$ref
+      return { op: 'replace', path: usage.pointer, value: { ...asSpecObject(structuredClone(component)), ...siblings } }
+    })
+    const updated = applyJsonPatch(spec, patch)
+    if (!keepComponent) {
+      const components = asSpecObject(updated.components)
+      const ofType = asSpecObject(components[componentType])
+      delete ofType[componentName]
+      if (Object.keys(ofType).length === 0) delete components[componentType]
+    }
+
+    const inlined = usages.map((usage) => usage.pointer)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, updated)
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: version as VersionTag,
+      event: 'component_inlined',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: { componentType, componentName, inlined, keepComponent, ...edit },
+    })
+
+    return this.success(`Inlined ${ref} at ${inlined.length} locations`, {
+      componentType,
+      componentName,
+      inlinedCount: inlined.length,
+      inlined,
+      removed: !keepComponent,
+    })
+  }
+
+  /**
+   * Removes every component nothing reachable from paths, webhooks or security requirements
+   * uses - transitively, so a schema only used by an unused schema goes too. With dryRun it
+   * just lists them. Marie Kondo for specs: if no operation needs it, thank it and let it go. 🧹
+   */
+  private async handlePrune(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'prune') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, componentType, dryRun = false, llmReason } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+    if (typeof spec.swagger === 'string') {
+      throw createToolError('Swagger 2.0 has no components - convert the version to OpenAPI 3.x first', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    // Components other specs reference through cross-spec refs are in use, too
+    const referencedElsewhere = this.crossSpecResolver
+      ? (await this.crossSpecResolver.dependents({ apiId, version })).map(
+          (dependent) => `#${parseCrossSpecRef(dependent.ref)?.pointer}`
+        )
+      : []
+    const reachable = reachableComponents(spec, referencedElsewhere)
+    const components = asSpecObject(spec.components)
+    const types = componentType ? [componentType] : COMPONENT_TYPES
+    const unreachable: Record<string, string[]> = {}
+    types.forEach((type) => {
+      const names = Object.keys(asSpecObject(components[type])).filter((name) => !reachable.has(componentRef(type, name)))
+      if (names.length > 0) unreachable[type] = names
+    })
+    const count = Object.values(unreachable).reduce((sum, names) => sum + names.length, 0)
+
+    if (dryRun || count === 0) {
+      return this.success(
+        `${dryRun ? 'Dry run: ' : ''}${count} unreachable component${count === 1 ? '' : 's'}${count > 0 ? ' would be removed' : ''}`,
+        { dryRun, count, unreachable, removed: false }
+      )
+    }
+
+    const removed: Record<string, Record<string, unknown>> = {}
+    Object.entries(unreachable).forEach(([type, names]) => {
+      const ofType = asSpecObject(components[type])
+      removed[type] = Object.fromEntries(names.map((name) => [name, ofType[name]]))
+      names.forEach((name) => delete ofType[name])
+      if (Object.keys(ofType).length === 0) delete components[type]
+    })
+
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: version as VersionTag,
+      event: 'components_pruned',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: { count, unreachable, removed, ...edit },
+    })
+
+    return this.success(`Pruned ${count} unreachable component${count === 1 ? '' : 's'}`, {
+      dryRun: false,
+      count,
+      unreachable,
+      removed: true,
+    })
+  }
+
+  /**
+   * Replaces every cross-spec ref with local content: referenced components are copied into
+   * components, anything else is inlined. Returns the bundled document, or saves it with save.
+   */
+  private async handleBundle(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'bundle') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, save = false, llmReason } = params
+    const resolver = this.requireResolver(params)
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+    if (typeof spec.swagger === 'string') {
+      throw createToolError('Swagger 2.0 has no components to bundle into - convert the version to OpenAPI 3.x first', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { spec: bundled, imported, inlined } = await resolver.bundle(spec)
+    const summary = `${imported.length} component${imported.length === 1 ? '' : 's'} imported, ${inlined.length} inlined`
+
+    if (!save) {
+      return this.success(`Bundled ${apiId} ${version}: ${summary}`, { saved: false, imported, inlined, spec: bundled })
+    }
+
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, bundled)
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: version as VersionTag,
+      event: 'spec_bundled',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: { imported, inlined, ...edit },
+    })
+
+    return this.success(`Bundled and saved ${apiId} ${version}: ${summary}`, { saved: true, imported, inlined })
+  }
+
+  /**
+   * Reverse index: which stored specs reference this one (or one of its components)
+   */
+  private async handleDependents(params: ReferencesManageParams): Promise<ToolResult> {
+    if (params.operation !== 'dependents') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, componentType, componentName, allVersions = false } = params
+    if (Boolean(componentType) !== Boolean(componentName)) {
+      throw createToolError('componentType and componentName go together', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const resolver = this.requireResolver(params)
+    const pointer = componentType && componentName ? componentRef(componentType, componentName).slice(1) : undefined
+    const dependents = await resolver.dependents({ apiId, version: allVersions ? undefined : version, pointer })
+    const specs = [...new Set(dependents.map((dependent) => `${dependent.apiId}@${dependent.version}`))]
+
+    const subject = pointer ? `${apiId}@${allVersions ? '*' : version}#${pointer}` : `${apiId}${allVersions ? '' : `@${version}`}`
+    return this.success(`${specs.length} spec version${specs.length === 1 ? '' : 's'} reference ${subject}`, {
+      target: subject,
+      specCount: specs.length,
+      refCount: dependents.length,
+      specs,
+      dependents,
+    })
+  }
+
+  private requireResolver(params: ReferencesManageParams): CrossSpecResolver {
+    if (!this.crossSpecResolver) {
+      throw createToolError(`${params.operation} needs cross-spec ref support, which this server wasn't set up with`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    return this.crossSpecResolver
+  }
+
   describe() {
     return {
       name: 'references_manage',
-      description: 'Manage $ref references: find usages of components, validate all references, and update reference paths across the spec.',
+      description:
+        'Manage $ref references: find usages of components, validate all references, update reference paths across the spec, find structurally identical inline schemas/parameters/responses (find_duplicates), extract an inline definition and its copies into components (extract, by JSON Pointer), inline a component back into every place that references it (inline), remove components nothing reachable from paths, webhooks, security requirements or other specs uses, transitively (prune, with dryRun to only list them), replace cross-spec refs such as shared-api@v1.0.0#/components/schemas/Error with local copies (bundle; validate checks them too), and list the stored specs referencing this one or one of its components (dependents).',
       inputSchema: {
         type: 'object',
         properties: {
           apiId: { type: 'string' },
           version: { type: 'string' },
-          operation: { type: 'string', enum: ['find', 'validate', 'update'] },
-          componentName: { type: 'string' },
-          componentType: { type: 'string', enum: ['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers'] },
+          operation: {
+            type: 'string',
+            enum: ['find', 'validate', 'update', 'find_duplicates', 'extract', 'inline', 'prune', 'bundle', 'dependents'],
+          },
+          componentName: { type: 'string', description: 'Component to find/inline/list dependents of, or the name for extract (generated if omitted)' },
+          componentType: {
+            type: 'string',
+            enum: [...COMPONENT_TYPES],
+            description: 'Component type; optional filter for find_duplicates, prune and dependents',
+          },
           oldRef: { type: 'string' },
           newRef: { type: 'string' },
+          pointer: { type: 'string', description: 'JSON Pointer of the inline definition to extract, e.g. /paths/~1pets/post/requestBody/content/application~1json/schema' },
+          replaceDuplicates: { type: 'boolean', description: 'extract: also replace identical copies (default true)' },
+          minOccurrences: { type: 'number', description: 'find_duplicates: minimum copies to report (default 2)' },
+          keepComponent: { type: 'boolean', description: 'inline: keep the component afterwards (default false)' },
+          dryRun: { type: 'boolean', description: 'prune: list unreachable components without removing them' },
+          save: { type: 'boolean', description: 'bundle: save the bundled spec instead of only returning it' },
+          allVersions: { type: 'boolean', description: 'dependents: references to any version of this API' },
           llmReason: { type: 'string' },
         },
         required: ['apiId', 'version', 'operation'],
@@ -0,0 +1,359 @@
+/**
+ * Request Body Configure Tool
+ *
+ * @description Manages operation request bodies, one media type at a time. Because
+ * "just send me some JSON" is not a contract. 📦
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, createValidationError, toolErrorContext } from '../utils/errors.js'
+import { resolveLocalRef } from '../utils/refs.js'
+import {
+  requestBodyConfigureSchema,
+  type RequestBodyConfigureParams,
+} from './schemas/request-body-configure-schema.js'
+
+const REQUEST_BODIES_PREFIX = '#/components/requestBodies/'
+
+/**
+ * Checks a media type object for mistakes OpenAPI tools stumble over
+ * @returns Problems found (empty if it's fine)
+ * @description `encoding` only applies to form media types and its keys must be schema
+ * properties; `example` and `examples` are mutually exclusive.
+ */
+export function validateMediaTypeObject(spec: unknown, mediaType: string, media: SpecObject): string[] {
+  const problems: string[] = []
+
+  if (media.example !== undefined && media.examples !== undefined) {
+    problems.push(`${mediaType}: example and examples are mutually exclusive`)
+  }
+
+  if (media.encoding) {
+    const isForm = mediaType.startsWith('multipart/') || mediaType === 'application/x-www-form-urlencoded'
+    if (!isForm) {
+      problems.push(`${mediaType}: encoding only applies to multipart and application/x-www-form-urlencoded bodies`)
+    }
+
+    const { properties } = asSpecObject(resolveLocalRef(spec, media.schema))
+    if (isSpecObject(properties)) {
+      Object.keys(asSpecObject(media.encoding))
+        .filter((property) => !properties[property])
+        .forEach((property) => {
+          problems.push(`${mediaType}: encoding for ${property} does not match a schema property`)
+        })
+    }
+  }
+
+  return problems
+}
+
+export class RequestBodyConfigureTool extends BaseTool {
+  constructor(
+    private specManager: SpecManager,
+    private auditLogger: AuditLogger
+  ) {
+    super()
+  }
+
+  async execute(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    this.validate(params, requestBodyConfigureSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'delete':
+          return await this.handleDelete(params)
+        case 'extract':
+          return await this.handleExtract(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Request body configure failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  private async handleList(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'list') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method } = params
+    const { spec, operation } = await this.loadOperation(params)
+
+    if (!operation.requestBody) {
+      return this.success(`${method} ${path} has no request body`, { path, method, count: 0, mediaTypes: [] })
+    }
+
+    const { body, component } = this.resolveBody(spec, operation)
+    const mediaTypes = Object.entries(asSpecObject(body.content)).map(([mediaType, media]) => ({
+      mediaType,
+      ...asSpecObject(media),
+      problems: validateMediaTypeObject(spec, mediaType, asSpecObject(media)),
+    }))
+
+    return this.success(`Found ${mediaTypes.length} request body media types`, {
+      path,
+      method,
+      component,
+      description: body.description,
+      required: body.required ?? false,
+      count: mediaTypes.length,
+      mediaTypes,
+    })
+  }
+
+  private async handleAdd(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, mediaType, content, description, required } = params
+    const { spec, operation } = await this.loadOperation(params)
+
+    if (!operation.requestBody) {
+      operation.requestBody = { content: {} }
+    }
+    const { body, component } = this.resolveBody(spec, operation)
+    const bodyContent = asSpecObject(body.content)
+    body.content = bodyContent
+
+    if (bodyContent[mediaType]) {
+      throw createToolError(`Media type ${mediaType} already exists`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    this.assertValidMediaType(spec, mediaType, content)
+
+    bodyContent[mediaType] = content
+    if (description !== undefined) body.description = description
+    if (required !== undefined) body.required = required
+
+    await this.save(params, spec, 'request_body_added', { path, method, mediaType, component })
+    return this.success(`Added ${mediaType} request body`, { path, method, mediaType, component, requestBody: body })
+  }
+
+  /**
+   * Updates one media type (`mediaType` + `updates`) and/or the body's description and required flag
+   */
+  private async handleUpdate(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, mediaType, updates, description, required } = params
+    if (updates && !mediaType) {
+      throw createToolError('updates need the mediaType they apply to', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    if (!updates && description === undefined && required === undefined) {
+      throw createToolError('Nothing to update - pass updates, description or required', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { spec, operation } = await this.loadOperation(params)
+    if (!operation.requestBody) {
+      throw createToolError(`${method} ${path} has no request body`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const { body, component } = this.resolveBody(spec, operation)
+
+    if (mediaType && updates) {
+      const bodyContent = asSpecObject(body.content)
+      const current = bodyContent[mediaType]
+      if (!isSpecObject(current)) {
+        throw createToolError(`Media type ${mediaType} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+      const updated = { ...current, ...updates }
+      this.assertValidMediaType(spec, mediaType, updated)
+      bodyContent[mediaType] = updated
+    }
+    if (description !== undefined) body.description = description
+    if (required !== undefined) body.required = required
+
+    await this.save(params, spec, 'request_body_updated', { path, method, mediaType, component, updates })
+    return this.success(`Updated request body of ${method} ${path}`, { path, method, component, requestBody: body })
+  }
+
+  /**
+   * Deletes one media type, or the whole request body when no mediaType is given
+   */
+  private async handleDelete(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'delete') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, mediaType } = params
+    const { spec, operation } = await this.loadOperation(params)
+    if (!operation.requestBody) {
+      throw createToolError(`${method} ${path} has no request body`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    if (!mediaType) {
+      // Only the operation's reference goes - the component may be used elsewhere
+      delete operation.requestBody
+      await this.save(params, spec, 'request_body_deleted', { path, method })
+      return this.success(`Deleted request body of ${method} ${path}`, { path, method })
+    }
+
+    const { body, component } = this.resolveBody(spec, operation)
+    const bodyContent = asSpecObject(body.content)
+    if (!bodyContent[mediaType]) {
+      throw createToolError(`Media type ${mediaType} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    delete bodyContent[mediaType]
+    // A request body without content is invalid, so the last media type takes the body with it
+    const removedBody = Object.keys(bodyContent).length === 0 && !component
+    if (removedBody) delete operation.requestBody
+
+    await this.save(params, spec, 'request_body_deleted', { path, method, mediaType, component, removedBody })
+    return this.success(`Deleted ${mediaType} request body`, { path, method, mediaType, component, removedBody })
+  }
+
+  /**
+   * Moves an inline request body to #/components/requestBodies and references it
+   */
+  private async handleExtract(params: RequestBodyConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'extract') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { path, method, componentName } = params
+    const { spec, operation } = await this.loadOperation(params)
+
+    if (!operation.requestBody) {
+      throw createToolError(`${method} ${path} has no request body`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const { $ref } = asSpecObject(operation.requestBody)
+    if ($ref) {
+      throw createToolError(
+        `Request body of ${method} ${path} already references ${$ref}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    const components = asSpecObject(spec.components)
+    const requestBodies = asSpecObject(components.requestBodies)
+    if (requestBodies[componentName]) {
+      throw createToolError(`Request body component ${componentName} already exists`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    spec.components = components
+    components.requestBodies = requestBodies
+    requestBodies[componentName] = operation.requestBody
+    const ref = `${REQUEST_BODIES_PREFIX}${componentName}`
+    operation.requestBody = { $ref: ref }
+
+    await this.save(params, spec, 'request_body_extracted', { path, method, componentName, ref })
+    return this.success(`Extracted request body of ${method} ${path} to ${ref}`, { path, method, componentName, ref })
+  }
+
+  private async loadOperation(params: RequestBodyConfigureParams): Promise<{ spec: SpecObject; operation: SpecObject }> {
+    const { apiId, version, path, method } = params
+    const doc = await this.specManager.loadSpec(apiId as ApiId, version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+
+    if (typeof spec.swagger === 'string') {
+      throw createToolError(
+        'Swagger 2.0 describes bodies as "in: body" parameters - use parameters_configure or convert the version to OpenAPI 3.x',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    const pathItem = asSpecObject(spec.paths)[path]
+    if (!isSpecObject(pathItem)) {
+      throw createToolError(`Path ${path} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const operation = pathItem[method.toLowerCase()]
+    if (!isSpecObject(operation)) {
+      throw createToolError(`Method ${method} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    return { spec, operation }
+  }
+
+  /**
+   * The request body object to edit - for a referenced body that's the shared component
+   */
+  private resolveBody(spec: SpecObject, operation: SpecObject): { body: SpecObject; component?: string } {
+    const requestBody = asSpecObject(operation.requestBody)
+    const ref = requestBody.$ref
+    if (typeof ref !== 'string') return { body: requestBody }
+
+    const body = ref.startsWith(REQUEST_BODIES_PREFIX) ? resolveLocalRef(spec, requestBody) : undefined
+    if (!isSpecObject(body)) {
+      throw createToolError(`Cannot resolve request body reference ${ref}`, 'VALIDATION_ERROR', { ref })
+    }
+    return { body, component: ref.slice(REQUEST_BODIES_PREFIX.length) }
+  }
+
+  private async save(
+    params: RequestBodyConfigureParams,
+    spec: SpecObject,
+    event: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  private assertValidMediaType(spec: SpecObject, mediaType: string, media: SpecObject): void {
+    const problems = validateMediaTypeObject(spec, mediaType, media)
+    if (problems.length > 0) {
+      throw createValidationError(`Invalid media type: ${problems.join('; ')}`, 'content')
+    }
+  }
+
+  describe() {
+    return {
+      name: 'request_body_configure',
+      description:
+        'Configure operation request bodies per media type: list, add, update and delete media types (schema, example/examples, multipart/form-data encoding), set description and required, or extract an inline body into #/components/requestBodies and reference it. Edits to a referenced body change the shared component. Delete without mediaType removes the whole body.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: { type: 'string', enum: ['list', 'add', 'update', 'delete', 'extract'] },
+          path: { type: 'string' },
+          method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'] },
+          mediaType: { type: 'string', description: 'e.g. application/json, multipart/form-data' },
+          content: {
+            type: 'object',
+            description: 'Media type object (add): schema, example or examples, encoding',
+            properties: {
+              schema: { type: 'object' },
+              example: {},
+              examples: { type: 'object' },
+              encoding: { type: 'object', description: 'Per-property encoding (multipart and form bodies only)' },
+            },
+          },
+          updates: { type: 'object', description: 'Media type fields to change (update, needs mediaType)' },
+          description: { type: 'string' },
+          required: { type: 'boolean' },
+          componentName: { type: 'string', description: 'Name under #/components/requestBodies (extract)' },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation', 'path', 'method'],
+      },
+    }
+  }
+}
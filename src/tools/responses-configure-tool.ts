@@ -113,7 +113,7 @@ export class ResponsesConfigureTool extends BaseTool {
 
     operation.responses[statusCode as string] = response
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -121,7 +121,7 @@ export class ResponsesConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { path, method, statusCode },
+      details: { path, method, statusCode, ...edit },
     })
 
     return this.success(`Added response ${statusCode}`, { path, method, statusCode, response })
@@ -149,7 +149,7 @@ export class ResponsesConfigureTool extends BaseTool {
 
     Object.assign(operation.responses[statusCode as string], updates)
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -157,7 +157,7 @@ export class ResponsesConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { path, method, statusCode, updates },
+      details: { path, method, statusCode, updates, ...edit },
     })
 
     return this.success(`Updated response ${statusCode}`, { path, method, statusCode, updates })
@@ -185,7 +185,7 @@ export class ResponsesConfigureTool extends BaseTool {
 
     delete operation.responses[statusCode as string]
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -193,7 +193,7 @@ export class ResponsesConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { path, method, statusCode },
+      details: { path, method, statusCode, ...edit },
     })
 
     return this.success(`Deleted response ${statusCode}`, { path, method, statusCode })
@@ -168,7 +168,7 @@ export class SchemaManageTool extends BaseTool {
     (spec as any).components.schemas[params.schemaName] = params.schema
 
     // Save spec
-    await this.specManager.saveSpec(apiId, version, spec)
+    const edit = await this.specManager.saveSpec(apiId, version, spec)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -180,6 +180,7 @@ export class SchemaManageTool extends BaseTool {
       details: {
         schemaName: params.schemaName,
         schema: params.schema,
+        ...edit,
       },
       llm_reason: params.llmReason,
     })
@@ -225,7 +226,7 @@ export class SchemaManageTool extends BaseTool {
     }
 
     // Save spec
-    await this.specManager.saveSpec(apiId, version, spec)
+    const edit = await this.specManager.saveSpec(apiId, version, spec)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -238,6 +239,7 @@ export class SchemaManageTool extends BaseTool {
         schemaName: params.schemaName,
         original: originalSchema,
         updated: schemas[params.schemaName],
+        ...edit,
       },
       llm_reason: params.llmReason,
     })
@@ -278,7 +280,7 @@ export class SchemaManageTool extends BaseTool {
     delete schemas[params.schemaName]
 
     // Save spec
-    await this.specManager.saveSpec(apiId, version, spec)
+    const edit = await this.specManager.saveSpec(apiId, version, spec)
 
     // Log audit event
     await this.auditLogger.logEvent({
@@ -290,6 +292,7 @@ export class SchemaManageTool extends BaseTool {
       details: {
         schemaName: params.schemaName,
         deletedSchema,
+        ...edit,
       },
       llm_reason: params.llmReason,
     })
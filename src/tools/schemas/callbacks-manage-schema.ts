@@ -0,0 +1,48 @@
+/**
+ * Callbacks Manage Tool Schema
+ *
+ * @description Zod schemas for operation callback management.
+ */
+
+import { z } from 'zod'
+
+const method = z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'])
+
+/**
+ * The operation owning the callbacks
+ */
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  path: z.string().startsWith('/'),
+  method,
+  llmReason: z.string().optional(),
+})
+
+export const callbacksManageSchema = z.discriminatedUnion('operation', [
+  baseParams.extend({
+    operation: z.literal('list'),
+  }),
+  baseParams.extend({
+    operation: z.literal('add'),
+    callbackName: z.string().min(1),
+    expression: z.string().min(1),
+    callbackMethod: method,
+    operationObject: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('update'),
+    callbackName: z.string().min(1),
+    expression: z.string().min(1),
+    callbackMethod: method,
+    updates: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('delete'),
+    callbackName: z.string().min(1),
+    expression: z.string().min(1).optional(),
+    callbackMethod: method.optional(),
+  }),
+])
+
+export type CallbacksManageParams = z.infer<typeof callbacksManageSchema>
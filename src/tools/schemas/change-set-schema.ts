@@ -0,0 +1,31 @@
+/**
+ * Change Set Tool Schema
+ */
+
+import { z } from 'zod'
+
+export const changeSetSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('begin'),
+    apiId: z.string().min(1),
+    version: z.string().regex(/^v\d+/),
+    llmReason: z.string().optional(),
+  }),
+  z.object({
+    operation: z.literal('commit'),
+    transactionId: z.string().min(1),
+    llmReason: z.string().optional(),
+  }),
+  z.object({
+    operation: z.literal('rollback'),
+    transactionId: z.string().min(1),
+    llmReason: z.string().optional(),
+  }),
+  z.object({
+    operation: z.literal('status'),
+    transactionId: z.string().min(1).optional(),
+    llmReason: z.string().optional(),
+  }),
+])
+
+export type ChangeSetParams = z.infer<typeof changeSetSchema>
@@ -0,0 +1,54 @@
+/**
+ * Components Manage Tool Schema
+ */
+
+import { z } from 'zod'
+import { COMPONENT_TYPES } from '../../utils/refs.js'
+
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  llmReason: z.string().optional(),
+})
+
+const componentType = z.enum(COMPONENT_TYPES)
+
+/**
+ * Component keys must match ^[a-zA-Z0-9.\-_]+$ (OpenAPI 3.x)
+ */
+const componentName = z
+  .string()
+  .regex(/^[a-zA-Z0-9._-]+$/, 'Component names may only use letters, digits, ".", "_" and "-"')
+
+export const componentsManageSchema = z.discriminatedUnion('operation', [
+  baseParams.extend({
+    operation: z.literal('list'),
+    componentType: componentType.optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('add'),
+    componentType,
+    componentName,
+    definition: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('update'),
+    componentType,
+    componentName,
+    definition: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('delete'),
+    componentType,
+    componentName,
+    force: z.boolean().optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('rename'),
+    componentType,
+    componentName,
+    newName: componentName,
+  }),
+])
+
+export type ComponentsManageParams = z.infer<typeof componentsManageSchema>
@@ -0,0 +1,25 @@
+/**
+ * Dependency Graph Tool Schema
+ */
+
+import { z } from 'zod'
+import { COMPONENT_TYPES } from '../../utils/refs.js'
+
+export const dependencyGraphSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('graph'),
+    apiId: z.string().min(1).optional(),
+    llmReason: z.string().optional(),
+  }),
+  z.object({
+    operation: z.literal('impact'),
+    apiId: z.string().min(1),
+    version: z.string().regex(/^v\d+/),
+    componentType: z.enum(COMPONENT_TYPES),
+    componentName: z.string().min(1),
+    definition: z.record(z.any()).nullable(),
+    llmReason: z.string().optional(),
+  }),
+])
+
+export type DependencyGraphParams = z.infer<typeof dependencyGraphSchema>
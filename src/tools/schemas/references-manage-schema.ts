@@ -3,6 +3,8 @@
  */
 
 import { z } from 'zod'
+import { EXTRACTABLE_TYPES } from '../../utils/inline-components.js'
+import { COMPONENT_TYPES } from '../../utils/refs.js'
 
 const baseParams = z.object({
   apiId: z.string().min(1),
@@ -24,6 +26,41 @@ export const referencesManageSchema = z.discriminatedUnion('operation', [
     oldRef: z.string().min(1),
     newRef: z.string().min(1),
   }),
+  baseParams.extend({
+    operation: z.literal('find_duplicates'),
+    componentType: z.enum(EXTRACTABLE_TYPES).optional(),
+    minOccurrences: z.number().int().min(2).optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('extract'),
+    pointer: z.string().startsWith('/'),
+    componentName: z
+      .string()
+      .regex(/^[a-zA-Z0-9._-]+$/, 'Component names may only use letters, digits, ".", "_" and "-"')
+      .optional(),
+    replaceDuplicates: z.boolean().optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('inline'),
+    componentType: z.enum(['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'links', 'callbacks', 'pathItems']),
+    componentName: z.string().min(1),
+    keepComponent: z.boolean().optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('prune'),
+    componentType: z.enum(COMPONENT_TYPES).optional(),
+    dryRun: z.boolean().optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('bundle'),
+    save: z.boolean().optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('dependents'),
+    componentType: z.enum(COMPONENT_TYPES).optional(),
+    componentName: z.string().min(1).optional(),
+    allVersions: z.boolean().optional(),
+  }),
 ])
 
 export type ReferencesManageParams = z.infer<typeof referencesManageSchema>
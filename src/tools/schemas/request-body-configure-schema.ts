@@ -0,0 +1,72 @@
+/**
+ * Request Body Configure Tool Schema
+ *
+ * @description Zod schemas for request body management operations.
+ */
+
+import { z } from 'zod'
+
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  path: z.string().startsWith('/'),
+  method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']),
+  llmReason: z.string().optional(),
+})
+
+const mediaTypeName = z.string().regex(/^[^/\s]+\/[^/\s]+$/, 'Media type must look like type/subtype')
+
+const encodingSchema = z.object({
+  contentType: z.string().optional(),
+  headers: z.record(z.any()).optional(),
+  style: z.string().optional(),
+  explode: z.boolean().optional(),
+  allowReserved: z.boolean().optional(),
+})
+
+const mediaTypeSchema = z.object({
+  schema: z.record(z.any()).optional(),
+  example: z.any().optional(),
+  examples: z.record(z.any()).optional(),
+  encoding: z.record(encodingSchema).optional(),
+})
+
+const listRequestBodySchema = baseParams.extend({
+  operation: z.literal('list'),
+})
+
+const addRequestBodySchema = baseParams.extend({
+  operation: z.literal('add'),
+  mediaType: mediaTypeName,
+  content: mediaTypeSchema,
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+})
+
+const updateRequestBodySchema = baseParams.extend({
+  operation: z.literal('update'),
+  mediaType: mediaTypeName.optional(),
+  updates: mediaTypeSchema.optional(),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+})
+
+const deleteRequestBodySchema = baseParams.extend({
+  operation: z.literal('delete'),
+  mediaType: mediaTypeName.optional(),
+})
+
+const extractRequestBodySchema = baseParams.extend({
+  operation: z.literal('extract'),
+  componentName: z.string().regex(/^[a-zA-Z0-9._-]+$/, 'Component names may only use letters, digits, ".", "_" and "-"'),
+})
+
+export const requestBodyConfigureSchema = z.discriminatedUnion('operation', [
+  listRequestBodySchema,
+  addRequestBodySchema,
+  updateRequestBodySchema,
+  deleteRequestBodySchema,
+  extractRequestBodySchema,
+])
+
+export type RequestBodyConfigureParams = z.infer<typeof requestBodyConfigureSchema>
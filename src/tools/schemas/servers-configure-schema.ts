@@ -0,0 +1,66 @@
+/**
+ * Servers Configure Tool Schema
+ */
+
+import { z } from 'zod'
+import { HTTP_METHODS } from '../../utils/http-methods.js'
+
+const serverVariableSchema = z.object({
+  default: z.string(),
+  enum: z.array(z.string()).min(1).optional(),
+  description: z.string().optional(),
+})
+
+const serverSchema = z.object({
+  url: z.string().min(1),
+  description: z.string().optional(),
+  variables: z.record(serverVariableSchema).optional(),
+})
+
+/**
+ * Where the servers live: the document (no path), a path item (path) or an operation (path + method)
+ */
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  path: z.string().startsWith('/').optional(),
+  method: z.enum(HTTP_METHODS).optional(),
+  llmReason: z.string().optional(),
+})
+
+export const serversConfigureSchema = z.discriminatedUnion('operation', [
+  baseParams.extend({
+    operation: z.literal('list'),
+  }),
+  baseParams.extend({
+    operation: z.literal('add'),
+    server: serverSchema,
+    position: z.number().int().min(0).optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('update'),
+    serverUrl: z.string().min(1),
+    server: serverSchema.partial(),
+  }),
+  baseParams.extend({
+    operation: z.literal('remove'),
+    serverUrl: z.string().min(1),
+  }),
+  baseParams.extend({
+    operation: z.literal('reorder'),
+    urls: z.array(z.string().min(1)).min(1),
+  }),
+  baseParams.extend({
+    operation: z.literal('set_variable'),
+    serverUrl: z.string().min(1),
+    variableName: z.string().min(1),
+    variable: serverVariableSchema,
+  }),
+  baseParams.extend({
+    operation: z.literal('remove_variable'),
+    serverUrl: z.string().min(1),
+    variableName: z.string().min(1),
+  }),
+])
+
+export type ServersConfigureParams = z.infer<typeof serversConfigureSchema>
@@ -0,0 +1,42 @@
+/**
+ * Spec Import Tool Schema
+ *
+ * @description Zod schema for importing existing OpenAPI/Swagger documents.
+ * Bring your own spec - we'll find it a nice folder to live in.
+ */
+
+import { z } from 'zod'
+
+/**
+ * Import parameters
+ */
+export const specImportSchema = z
+  .object({
+    apiId: z.string().min(1, 'API ID is required').describe('API identifier for the imported spec (kebab-case)'),
+    version: z
+      .string()
+      .regex(/^v\d+/, 'Version must start with v (e.g., v1.0.0)')
+      .optional()
+      .describe('Version tag for the imported spec (default: v1.0.0)'),
+    content: z.string().min(1).optional().describe('Raw YAML or JSON spec content'),
+    filePath: z.string().min(1).optional().describe('Local file path to read the spec from'),
+    folder: z.string().min(1).optional().describe('Target folder (default: active)'),
+    name: z.string().optional().describe('Human-readable API name (defaults to info.title)'),
+    owner: z.string().optional().describe('Owner/team responsible for the API'),
+    description: z.string().optional().describe('Description for the imported version'),
+    format: z.enum(['yaml', 'json']).optional().describe('Storage format (default: yaml)'),
+    convertTo: z
+      .enum(['3.0', '3.1'])
+      .optional()
+      .describe('Convert Swagger 2.0 input to this OpenAPI version before storing (ignored for 3.x input)'),
+    llmReason: z.string().optional().describe('Optional reason from LLM for this import'),
+  })
+  .refine((params) => Boolean(params.content) !== Boolean(params.filePath), {
+    message: 'Provide exactly one of content or filePath',
+    path: ['content'],
+  })
+
+/**
+ * TypeScript type for spec import parameters
+ */
+export type SpecImportParams = z.infer<typeof specImportSchema>
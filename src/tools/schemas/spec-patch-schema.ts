@@ -0,0 +1,62 @@
+/**
+ * Spec Patch Tool Schema
+ *
+ * @description Zod schema for patching any part of a spec with RFC 6902 JSON Patch or
+ * RFC 7386 JSON Merge Patch. For the corners of a spec the specialised tools don't reach.
+ */
+
+import { z } from 'zod'
+
+/**
+ * Operation value (any JSON, but it has to be there - RFC 6902 §4)
+ */
+const valueSchema = z.unknown().refine((value) => value !== undefined, 'value is required')
+
+/**
+ * One RFC 6902 operation
+ */
+const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: valueSchema }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: valueSchema }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: valueSchema }),
+])
+
+/**
+ * Base parameters for both patch formats
+ */
+const baseParams = z.object({
+  apiId: z.string().min(1, 'API ID is required').describe('API identifier'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v').describe('Version tag (e.g., v1.0.0)'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Apply and validate without saving; returns the resulting changes and validation issues'),
+  llmReason: z.string().optional().describe('Optional reason from LLM for this patch'),
+})
+
+/**
+ * Spec patch parameters (discriminated by patch format)
+ */
+export const specPatchSchema = z.discriminatedUnion('format', [
+  baseParams.extend({
+    format: z.literal('json-patch').describe('RFC 6902: a list of operations applied in order, all or nothing'),
+    patch: z
+      .array(jsonPatchOperationSchema)
+      .min(1, 'Patch needs at least one operation')
+      .describe('Operations, e.g. [{ "op": "add", "path": "/tags/-", "value": { "name": "pets" } }]'),
+  }),
+  baseParams.extend({
+    format: z.literal('merge-patch').describe('RFC 7386: an object overlaid on the spec, null deletes a key'),
+    patch: z
+      .record(z.unknown())
+      .describe('Merge patch, e.g. { "externalDocs": { "url": "https://docs.example.com" }, "x-internal": null }'),
+  }),
+])
+
+/**
+ * TypeScript type for spec patch parameters
+ */
+export type SpecPatchParams = z.infer<typeof specPatchSchema>
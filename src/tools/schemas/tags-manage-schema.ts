@@ -0,0 +1,61 @@
+/**
+ * Tags Manage Tool Schema
+ */
+
+import { z } from 'zod'
+
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  llmReason: z.string().optional(),
+})
+
+const externalDocsSchema = z.object({
+  url: z.string().min(1),
+  description: z.string().optional(),
+})
+
+const tagGroupSchema = z.object({
+  name: z.string().min(1),
+  tags: z.array(z.string().min(1)),
+})
+
+export const tagsManageSchema = z.discriminatedUnion('operation', [
+  baseParams.extend({
+    operation: z.literal('list'),
+  }),
+  baseParams.extend({
+    operation: z.literal('add'),
+    tagName: z.string().min(1),
+    description: z.string().optional(),
+    externalDocs: externalDocsSchema.optional(),
+    group: z.string().min(1).optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('update'),
+    tagName: z.string().min(1),
+    description: z.string().optional(),
+    externalDocs: externalDocsSchema.optional(),
+    group: z.string().min(1).optional(),
+  }),
+  baseParams.extend({
+    operation: z.literal('delete'),
+    tagName: z.string().min(1),
+  }),
+  baseParams.extend({
+    operation: z.literal('rename'),
+    tagName: z.string().min(1),
+    newName: z.string().min(1),
+  }),
+  baseParams.extend({
+    operation: z.literal('merge'),
+    sourceTags: z.array(z.string().min(1)).min(1),
+    tagName: z.string().min(1),
+  }),
+  baseParams.extend({
+    operation: z.literal('set_groups'),
+    groups: z.array(tagGroupSchema),
+  }),
+])
+
+export type TagsManageParams = z.infer<typeof tagsManageSchema>
@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod'
+import { VERSION_STATES } from '../../types/metadata.js'
 
 /**
  * Base parameters for all version operations
@@ -27,7 +28,8 @@ const listVersionsSchema = baseParams.extend({
  */
 const createVersionSchema = baseParams.extend({
   operation: z.literal('create'),
-  version: z.string().regex(/^v\d+/, 'Version must start with v (e.g., v1.0.0)'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v (e.g., v1.0.0)').optional(),
+  bump: z.enum(['major', 'minor', 'patch']).optional(),
   sourceVersion: z.string().regex(/^v\d+/, 'Source version must start with v').optional(),
   description: z.string().optional(),
 })
@@ -65,6 +67,107 @@ const deleteVersionSchema = baseParams.extend({
   version: z.string().regex(/^v\d+/, 'Version must start with v'),
 })
 
+/**
+ * Convert version operation (Swagger 2.0 -> OpenAPI 3.x)
+ */
+const convertVersionSchema = baseParams.extend({
+  operation: z.literal('convert'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  targetVersion: z.string().regex(/^v\d+/, 'Target version must start with v'),
+  openapiVersion: z.enum(['3.0', '3.1']).optional(),
+  description: z.string().optional(),
+})
+
+/**
+ * Upgrade/downgrade between OpenAPI 3.0 and 3.1 operation
+ */
+const upgradeOpenApiSchema = baseParams.extend({
+  operation: z.literal('upgrade_openapi'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  targetVersion: z.string().regex(/^v\d+/, 'Target version must start with v'),
+  openapiVersion: z.enum(['3.0', '3.1']),
+  description: z.string().optional(),
+})
+
+/**
+ * Changelog between two versions operation
+ */
+const changelogSchema = baseParams.extend({
+  operation: z.literal('changelog'),
+  fromVersion: z.string().regex(/^v\d+/, 'From version must start with v'),
+  toVersion: z.string().regex(/^v\d+/, 'To version must start with v'),
+  format: z.enum(['markdown', 'html', 'json']).optional(),
+  groupBy: z.enum(['tag', 'endpoint']).optional(),
+})
+
+/**
+ * Three-way merge operation
+ */
+const mergeVersionsSchema = baseParams.extend({
+  operation: z.literal('merge'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  theirsVersion: z.string().regex(/^v\d+/, 'Theirs version must start with v'),
+  baseVersion: z.string().regex(/^v\d+/, 'Base version must start with v').optional(),
+  targetVersion: z.string().regex(/^v\d+/, 'Target version must start with v'),
+  resolution: z.enum(['ours', 'theirs']).optional(),
+  description: z.string().optional(),
+})
+
+/**
+ * Publish (freeze) a draft version operation
+ */
+const publishVersionSchema = baseParams.extend({
+  operation: z.literal('publish'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  state: z.enum(['beta', 'stable']).optional(),
+})
+
+/**
+ * Deprecate a version operation
+ */
+const deprecateVersionSchema = baseParams.extend({
+  operation: z.literal('deprecate'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  sunsetDate: z.string().optional(),
+})
+
+/**
+ * Lifecycle transition operation
+ */
+const setStateSchema = baseParams.extend({
+  operation: z.literal('set_state'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  state: z.enum(VERSION_STATES),
+  sunsetDate: z.string().optional(),
+})
+
+/**
+ * Suggest a semver bump from the diff to a base version operation
+ */
+const suggestBumpSchema = baseParams.extend({
+  operation: z.literal('suggest_bump'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  baseVersion: z.string().regex(/^v\d+/, 'Base version must start with v').optional(),
+})
+
+/**
+ * Undo the latest edits to a version operation
+ */
+const undoSchema = baseParams.extend({
+  operation: z.literal('undo'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  steps: z.number().int().min(1).max(100).optional(),
+})
+
+/**
+ * Redo the most recently undone edits operation
+ */
+const redoSchema = baseParams.extend({
+  operation: z.literal('redo'),
+  version: z.string().regex(/^v\d+/, 'Version must start with v'),
+  steps: z.number().int().min(1).max(100).optional(),
+})
+
 /**
  * Complete version control schema (discriminated union)
  */
@@ -75,6 +178,16 @@ export const versionControlSchema = z.discriminatedUnion('operation', [
   compareVersionsSchema,
   setCurrentSchema,
   deleteVersionSchema,
+  convertVersionSchema,
+  upgradeOpenApiSchema,
+  changelogSchema,
+  mergeVersionsSchema,
+  publishVersionSchema,
+  deprecateVersionSchema,
+  setStateSchema,
+  suggestBumpSchema,
+  undoSchema,
+  redoSchema,
 ])
 
 /**
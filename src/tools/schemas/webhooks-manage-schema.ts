@@ -0,0 +1,40 @@
+/**
+ * Webhooks Manage Tool Schema
+ *
+ * @description Zod schemas for webhook (OpenAPI 3.1) management operations.
+ */
+
+import { z } from 'zod'
+
+const baseParams = z.object({
+  apiId: z.string().min(1),
+  version: z.string().regex(/^v\d+/),
+  llmReason: z.string().optional(),
+})
+
+const method = z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'])
+
+export const webhooksManageSchema = z.discriminatedUnion('operation', [
+  baseParams.extend({
+    operation: z.literal('list'),
+  }),
+  baseParams.extend({
+    operation: z.literal('add'),
+    webhookName: z.string().min(1),
+    method,
+    operationObject: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('update'),
+    webhookName: z.string().min(1),
+    method,
+    updates: z.record(z.any()),
+  }),
+  baseParams.extend({
+    operation: z.literal('delete'),
+    webhookName: z.string().min(1),
+    method: method.optional(),
+  }),
+])
+
+export type WebhooksManageParams = z.infer<typeof webhooksManageSchema>
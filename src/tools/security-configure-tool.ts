@@ -76,7 +76,7 @@ export class SecurityConfigureTool extends BaseTool {
 
     spec.components.securitySchemes[schemeName] = scheme
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -84,7 +84,7 @@ export class SecurityConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { schemeName },
+      details: { schemeName, ...edit },
     })
 
     return this.success(`Added security scheme ${schemeName}`, { schemeName, scheme })
@@ -105,7 +105,7 @@ export class SecurityConfigureTool extends BaseTool {
 
     delete spec.components.securitySchemes[schemeName]
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -113,7 +113,7 @@ export class SecurityConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { schemeName },
+      details: { schemeName, ...edit },
     })
 
     return this.success(`Deleted security scheme ${schemeName}`, { schemeName })
@@ -130,7 +130,7 @@ export class SecurityConfigureTool extends BaseTool {
 
     spec.security = security
 
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    const edit = await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
       version: version as VersionTag,
@@ -138,7 +138,7 @@ export class SecurityConfigureTool extends BaseTool {
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
       llm_reason: llmReason as string | undefined,
-      details: { security },
+      details: { security, ...edit },
     })
 
     return this.success('Updated global security', { security })
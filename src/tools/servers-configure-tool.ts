@@ -0,0 +1,405 @@
+/**
+ * Servers Configure Tool
+ *
+ * @description Manages `servers` at document, path and operation level, including server
+ * variables with their enums and defaults. Because "which URL is staging again?" should be
+ * answered by the spec, not by a Slack thread from 2019. 🌐
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, createValidationError, toolErrorContext } from '../utils/errors.js'
+import { HTTP_METHODS } from '../utils/http-methods.js'
+import { serversConfigureSchema, type ServersConfigureParams } from './schemas/servers-configure-schema.js'
+
+interface ServerVariable {
+  default: string
+  enum?: string[]
+  description?: string
+}
+
+interface ServerObject {
+  url: string
+  description?: string
+  variables?: Record<string, ServerVariable>
+}
+
+/**
+ * What's wrong with a server's URL template
+ */
+export interface ServerTemplateReport {
+  /** Problems that make the server invalid */
+  errors: string[]
+  /** Things OpenAPI allows but that are probably a typo or a leftover */
+  warnings: string[]
+}
+
+/**
+ * The `servers` of a document, path item or operation (empty when there are none)
+ */
+function serversOf(holder: SpecObject): ServerObject[] {
+  return Array.isArray(holder.servers) ? holder.servers : []
+}
+
+/**
+ * Checks a server's URL template against its variables
+ * @returns Errors and warnings found (both empty if the server is fine)
+ * @description Every `{name}` in the URL needs a variable with a default; defaults must be in
+ * the enum when there is one. Variables the URL doesn't use are only warnings: OpenAPI allows
+ * them, and `set_variable` has to add a variable before the URL can use it.
+ */
+export function validateServerTemplate(server: ServerObject): ServerTemplateReport {
+  const problems: string[] = []
+  const warnings: string[] = []
+  const { url, variables = {} } = server
+
+  // Braces must pair up without nesting: {a}{b} fine, {a{b}} and {a not
+  const stripped = url.replace(/\{[^{}]+\}/g, '')
+  if (/[{}]/.test(stripped)) {
+    problems.push(`URL template ${url} has unbalanced or empty braces`)
+  }
+
+  const used = [...url.matchAll(/\{([^{}]+)\}/g)].map((match) => match[1])
+  used.forEach((name) => {
+    if (!variables[name]) problems.push(`Variable {${name}} in ${url} is not defined`)
+  })
+  Object.entries(variables).forEach(([name, variable]) => {
+    if (!used.includes(name)) warnings.push(`Variable ${name} is not used in ${url}`)
+    if (typeof variable.default !== 'string') problems.push(`Variable ${name} needs a string default`)
+    if (variable.enum && !variable.enum.includes(variable.default)) {
+      problems.push(`Default "${variable.default}" of variable ${name} is not in its enum (${variable.enum.join(', ')})`)
+    }
+  })
+
+  return { errors: problems, warnings }
+}
+
+export class ServersConfigureTool extends BaseTool {
+  constructor(private specManager: SpecManager, private auditLogger: AuditLogger) {
+    super()
+  }
+
+  async execute(params: ServersConfigureParams): Promise<ToolResult> {
+    this.validate(params, serversConfigureSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'remove':
+          return await this.handleRemove(params)
+        case 'reorder':
+          return await this.handleReorder(params)
+        case 'set_variable':
+          return await this.handleSetVariable(params)
+        case 'remove_variable':
+          return await this.handleRemoveVariable(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Servers configure failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  /**
+   * Servers at one level, or at every level when no path is given
+   */
+  private async handleList(params: ServersConfigureParams): Promise<ToolResult> {
+    const spec = await this.load(params)
+
+    if (params.path) {
+      const { holder, scope } = this.resolveScope(spec, params)
+      const servers = serversOf(holder)
+      return this.success(`Found ${servers.length} servers on ${scope}`, { scope, servers })
+    }
+
+    const paths: Array<{ path: string; servers: ServerObject[] }> = []
+    const operations: Array<{ path: string; method: string; servers: ServerObject[] }> = []
+    Object.entries(asSpecObject(spec.paths)).forEach(([path, value]) => {
+      const pathItem = asSpecObject(value)
+      if (Array.isArray(pathItem.servers)) paths.push({ path, servers: pathItem.servers })
+      HTTP_METHODS.forEach((method) => {
+        const operation = asSpecObject(pathItem[method])
+        if (Array.isArray(operation.servers)) operations.push({ path, method, servers: operation.servers })
+      })
+    })
+    const servers = serversOf(spec)
+    const reports = [
+      ...servers,
+      ...paths.flatMap((entry) => entry.servers),
+      ...operations.flatMap((entry) => entry.servers),
+    ].map(validateServerTemplate)
+
+    return this.success(`Found ${servers.length} document servers (+${paths.length} path and ${operations.length} operation overrides)`, {
+      servers,
+      paths,
+      operations,
+      problems: reports.flatMap((report) => report.errors),
+      warnings: reports.flatMap((report) => report.warnings),
+    })
+  }
+
+  private async handleAdd(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { server, position } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const servers = serversOf(holder)
+
+    if (servers.some((existing) => existing.url === server.url)) {
+      throw createToolError(`Server ${server.url} already exists on ${scope}`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const warnings = this.assertValidServer(server)
+
+    servers.splice(position ?? servers.length, 0, server)
+    holder.servers = servers
+
+    await this.save(params, spec, 'server_added', { scope, url: server.url })
+    return this.success(`Added server ${server.url} to ${scope}`, { scope, servers, warnings })
+  }
+
+  private async handleUpdate(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { serverUrl, server } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const index = this.findServer(holder, serverUrl, scope)
+    const servers = serversOf(holder)
+
+    const updated: ServerObject = { ...servers[index], ...server }
+    if (updated.url !== serverUrl && servers.some((existing) => existing.url === updated.url)) {
+      throw createToolError(`Server ${updated.url} already exists on ${scope}`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    const warnings = this.assertValidServer(updated)
+    servers[index] = updated
+
+    await this.save(params, spec, 'server_updated', { scope, url: serverUrl, newUrl: updated.url })
+    return this.success(`Updated server ${serverUrl} on ${scope}`, { scope, server: updated, warnings })
+  }
+
+  private async handleRemove(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'remove') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { serverUrl } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const servers = serversOf(holder)
+    servers.splice(this.findServer(holder, serverUrl, scope), 1)
+    // An empty override at path/operation level would hide the document servers
+    if (servers.length === 0 && holder !== spec) delete holder.servers
+
+    await this.save(params, spec, 'server_removed', { scope, url: serverUrl })
+    return this.success(`Removed server ${serverUrl} from ${scope}`, { scope, servers: serversOf(holder) })
+  }
+
+  /**
+   * Puts servers in a new order (the first one is the default for most clients)
+   */
+  private async handleReorder(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'reorder') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { urls } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const servers = serversOf(holder)
+    const current = servers.map((server) => server.url)
+
+    if (urls.length !== current.length || new Set(urls).size !== urls.length || !urls.every((url) => current.includes(url))) {
+      throw createToolError(
+        `urls must list each server on ${scope} exactly once: ${current.join(', ')}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    holder.servers = urls.map((url) => servers.find((server) => server.url === url))
+
+    await this.save(params, spec, 'servers_reordered', { scope, urls })
+    return this.success(`Reordered servers on ${scope}`, { scope, servers: holder.servers })
+  }
+
+  private async handleSetVariable(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'set_variable') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { serverUrl, variableName, variable } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const server = serversOf(holder)[this.findServer(holder, serverUrl, scope)]
+
+    const updated = { ...server, variables: { ...(server.variables || {}), [variableName]: variable } }
+    const warnings = this.assertValidServer(updated)
+    server.variables = updated.variables
+
+    await this.save(params, spec, 'server_variable_set', { scope, url: serverUrl, variableName })
+    return this.success(`Set variable ${variableName} on ${serverUrl}`, { scope, server, warnings })
+  }
+
+  private async handleRemoveVariable(params: ServersConfigureParams): Promise<ToolResult> {
+    if (params.operation !== 'remove_variable') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { serverUrl, variableName } = params
+    const spec = await this.load(params)
+    const { holder, scope } = this.resolveScope(spec, params)
+    const server = serversOf(holder)[this.findServer(holder, serverUrl, scope)]
+
+    if (!server.variables?.[variableName]) {
+      throw createToolError(`Variable ${variableName} not found on ${serverUrl}`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    if (server.url.includes(`{${variableName}}`)) {
+      throw createToolError(
+        `Variable ${variableName} is still used in ${serverUrl} - update the URL first`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    delete server.variables[variableName]
+    if (Object.keys(server.variables).length === 0) delete server.variables
+
+    await this.save(params, spec, 'server_variable_removed', { scope, url: serverUrl, variableName })
+    return this.success(`Removed variable ${variableName} from ${serverUrl}`, { scope, server })
+  }
+
+  private async load(params: ServersConfigureParams): Promise<SpecObject> {
+    const doc = await this.specManager.loadSpec(params.apiId as ApiId, params.version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+    if (typeof spec.swagger === 'string') {
+      throw createToolError(
+        'Swagger 2.0 has no servers (it uses host, basePath and schemes) - convert the version to OpenAPI 3.x first',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    return spec
+  }
+
+  private async save(params: ServersConfigureParams, spec: SpecObject, event: string, details: Record<string, unknown>): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  /**
+   * The object whose `servers` the call is about: the document, a path item or an operation
+   */
+  private resolveScope(spec: SpecObject, params: ServersConfigureParams): { holder: SpecObject; scope: string } {
+    const { path, method } = params
+    if (!path) {
+      if (method) {
+        throw createToolError('method needs a path', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+      return { holder: spec, scope: 'document' }
+    }
+
+    const pathItem = asSpecObject(spec.paths)[path]
+    if (!isSpecObject(pathItem)) {
+      throw createToolError(`Path ${path} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    if (!method) return { holder: pathItem, scope: `path ${path}` }
+
+    const operation = pathItem[method]
+    if (!isSpecObject(operation)) {
+      throw createToolError(`Operation ${method.toUpperCase()} ${path} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    return { holder: operation, scope: `${method.toUpperCase()} ${path}` }
+  }
+
+  private findServer(holder: SpecObject, serverUrl: string, scope: string): number {
+    const index = serversOf(holder).findIndex((server) => server.url === serverUrl)
+    if (index === -1) {
+      throw createToolError(`Server ${serverUrl} not found on ${scope}`, 'VALIDATION_ERROR', { serverUrl, scope })
+    }
+    return index
+  }
+
+  /**
+   * Refuses a server with template errors
+   * @returns The template's warnings, for the caller to pass on
+   */
+  private assertValidServer(server: ServerObject): string[] {
+    const { errors, warnings } = validateServerTemplate(server)
+    if (errors.length > 0) {
+      throw createValidationError(`Invalid server: ${errors.join('; ')}`, 'server')
+    }
+    return warnings
+  }
+
+  describe() {
+    return {
+      name: 'servers_configure',
+      description:
+        'Configure servers at document, path (path) or operation (path + method) level: list, add (optionally at a position), update, remove and reorder servers, and set or remove server variables (default, enum, description). URL templates are validated: every {variable} must be defined, defaults must be in their enum; unused variables are reported as warnings.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: {
+            type: 'string',
+            enum: ['list', 'add', 'update', 'remove', 'reorder', 'set_variable', 'remove_variable'],
+          },
+          path: { type: 'string', description: 'Path for path-level servers (omit for document level)' },
+          method: { type: 'string', enum: HTTP_METHODS, description: 'With path: operation-level servers' },
+          server: {
+            type: 'object',
+            description: 'Server object (add), or the fields to change (update)',
+            properties: {
+              url: { type: 'string' },
+              description: { type: 'string' },
+              variables: { type: 'object' },
+            },
+          },
+          serverUrl: { type: 'string', description: 'URL of the server to update/remove or change variables on' },
+          position: { type: 'number', description: 'Index to insert at (add, default: end)' },
+          urls: { type: 'array', items: { type: 'string' }, description: 'All server URLs in the new order (reorder)' },
+          variableName: { type: 'string' },
+          variable: {
+            type: 'object',
+            properties: {
+              default: { type: 'string' },
+              enum: { type: 'array', items: { type: 'string' } },
+              description: { type: 'string' },
+            },
+            required: ['default'],
+          },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation'],
+      },
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Spec Import Tool
+ *
+ * @description Brings existing OpenAPI/Swagger documents into the control plane.
+ * Your specs have been living in random repos and wiki pages long enough -
+ * time to give them a proper home with metadata, stats, and an audit trail. 🏠
+ *
+ * @module tools/spec-import-tool
+ */
+
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+import $RefParser from '@apidevtools/json-schema-ref-parser'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { BaseTool, type ToolResult, type ToolDescription } from '../types/mcp-tool.js'
+import { detectOpenAPIVersion, type SwaggerV2Document } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { VersionManager } from '../services/version-manager.js'
+import type { FolderManager } from '../services/folder-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { SpecConverter } from '../services/spec-converter.js'
+import { validateApiId, validateVersionTag } from '../utils/validation.js'
+import { calculateVersionStats } from '../utils/spec-stats.js'
+import { createToolError } from '../utils/errors.js'
+import { isFileRef } from '../utils/refs.js'
+import { logger } from '../utils/logger.js'
+import { specImportSchema, type SpecImportParams } from './schemas/spec-import-schema.js'
+
+/** Where a cross-spec or URL `$ref` waits while the ref parser bundles the file refs */
+const PARKED_REF = 'x-import-parked-ref'
+
+/**
+ * Every `$ref` value below a node
+ */
+function findRefValues(node: unknown): string[] {
+  if (!node || typeof node !== 'object') return []
+  const own = (node as { $ref?: unknown }).$ref
+  return [
+    ...(typeof own === 'string' ? [own] : []),
+    ...Object.values(node).flatMap(findRefValues),
+  ]
+}
+
+/**
+ * Moves matching refs from one key to another, in place and keeping key order
+ */
+function renameRefKey(node: unknown, from: string, to: string, matches: (ref: string) => boolean): void {
+  if (!node || typeof node !== 'object') return
+  const object = node as Record<string, unknown>
+  const ref = object[from]
+  if (typeof ref === 'string' && matches(ref)) {
+    const entries = Object.entries(object).map(([key, value]) => [key === from ? to : key, value])
+    Object.keys(object).forEach((key) => Reflect.deleteProperty(object, key))
+    Object.assign(object, Object.fromEntries(entries))
+  }
+  Object.values(object).forEach((value) => renameRefKey(value, from, to, matches))
+}
+
+/**
+ * Spec Import Tool
+ * @description Parses, validates and registers an existing spec as a brand new API.
+ * Like an immigration office for API specs, but with shorter queues.
+ */
+export class SpecImportTool extends BaseTool<SpecImportParams> {
+  constructor(
+    private specManager: SpecManager,
+    private versionManager: VersionManager,
+    private folderManager: FolderManager,
+    private auditLogger: AuditLogger,
+    private specConverter: SpecConverter = new SpecConverter()
+  ) {
+    super()
+  }
+
+  /**
+   * Imports a spec from raw content or a local file
+   * @param params - Import parameters
+   * @returns Tool result with the created API and version metadata
+   */
+  async execute(params: SpecImportParams): Promise<ToolResult> {
+    const validated = this.validate(params, specImportSchema)
+
+    try {
+      const apiId = validateApiId(validated.apiId)
+      const version = validateVersionTag(validated.version || 'v1.0.0')
+      const folder = validated.folder || 'active'
+      const format = validated.format || 'yaml'
+
+      logger.info({ apiId, version, folder, source: validated.filePath || 'content' }, 'Executing spec_import tool')
+
+      // Target folder must exist - we don't create folders implicitly
+      await this.folderManager.getFolderMetadata(folder)
+
+      const existingFolder = await this.versionManager.findApiFolder(apiId)
+      if (existingFolder) {
+        throw createToolError(
+          `API ${apiId} already exists in folder ${existingFolder}. Use version_control to add versions.`,
+          'spec_import',
+          { apiId, folder: existingFolder }
+        )
+      }
+
+      const content = validated.content ?? (await this.readSource(validated.filePath as string))
+      let spec = await this.specManager.parseSpec(content)
+      if (validated.filePath) spec = await this.bundleFileRefs(spec, validated.filePath)
+      const sourceVersion = detectOpenAPIVersion(spec)
+      let conversionWarnings: string[] = []
+
+      if (validated.convertTo && sourceVersion === '2.0') {
+        const converted = this.specConverter.convertSwagger2(spec as SwaggerV2Document, validated.convertTo)
+        spec = converted.spec as typeof spec
+        conversionWarnings = converted.warnings
+      }
+
+      // SwaggerParser dereferences in place, so validate a copy and keep the $refs intact
+      await this.specManager.validateSpec(structuredClone(spec))
+      const openapiVersion = detectOpenAPIVersion(spec)
+
+      const { info = {} } = spec as { info?: { title?: string; version?: string } }
+      const serialized = format === 'yaml' ? yaml.dump(spec) : JSON.stringify(spec, null, 2)
+      const stats = calculateVersionStats(spec, serialized)
+      const createdBy = validated.owner || 'mcp-tool'
+
+      // Claim the API before writing its spec - if the claim is refused, nothing is left behind
+      const apiMetadata = await this.versionManager.createApiMetadata(
+        apiId,
+        validated.name || info.title || `${apiId} API`,
+        createdBy,
+        version,
+        folder
+      )
+      await this.specManager.saveSpec(apiId, version, spec, format, folder)
+
+      const versionMetadata = {
+        version,
+        created_at: new Date().toISOString(),
+        created_by: createdBy,
+        parent_version: null,
+        state: 'draft' as const,
+        description: validated.description || `Imported ${info.title || apiId} ${info.version || ''}`.trim(),
+        changes: {
+          endpoints_added: [],
+          endpoints_modified: [],
+          endpoints_deleted: [],
+          schemas_added: [],
+          schemas_modified: [],
+          schemas_deleted: [],
+          breaking_changes: [],
+        },
+        validation: {
+          spectral_errors: 0,
+          spectral_warnings: 0,
+          openapi_valid: true,
+        },
+        stats,
+      }
+      await this.versionManager.createVersionMetadata(apiId, version, versionMetadata, folder)
+
+      await this.auditLogger.logEvent({
+        api_id: apiId,
+        version,
+        event: 'spec_imported',
+        user: createdBy,
+        timestamp: new Date().toISOString(),
+        llm_reason: validated.llmReason,
+        details: {
+          source: validated.filePath || 'content',
+          folder,
+          openapiVersion,
+          ...(openapiVersion !== sourceVersion ? { convertedFrom: sourceVersion, conversionWarnings } : {}),
+          stats,
+        },
+      })
+
+      return this.success(`Imported ${apiId} ${version} into folder ${folder}`, {
+        apiId,
+        version,
+        folder,
+        openapiVersion,
+        ...(openapiVersion !== sourceVersion ? { convertedFrom: sourceVersion, conversionWarnings } : {}),
+        api: apiMetadata,
+        metadata: versionMetadata,
+      })
+    } catch (error) {
+      logger.error({ error, apiId: validated.apiId }, 'spec_import tool failed')
+      throw createToolError(
+        `Spec import failed: ${(error as Error).message}`,
+        'spec_import',
+        { apiId: validated.apiId, folder: validated.folder || 'active' },
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Pulls the files a spec `$ref`s (`./common.yaml#/Error`) into the spec itself
+   * @param spec - Spec parsed from the file
+   * @param filePath - The file it came from; relative refs resolve against it
+   * @returns The spec with only local, cross-spec and URL refs left
+   * @description A stored spec has no directory to resolve `./common.yaml` against, so file
+   * refs get bundled now, while the files are still around. Cross-spec and URL refs are parked
+   * under another key meanwhile: the ref parser would take the former for file names and
+   * go fetching the latter.
+   */
+  private async bundleFileRefs<T extends object>(spec: T, filePath: string): Promise<T> {
+    const fileRefs = findRefValues(spec).filter(isFileRef)
+    if (fileRefs.length === 0) return spec
+
+    renameRefKey(spec, '$ref', PARKED_REF, (ref) => !ref.startsWith('#') && !isFileRef(ref))
+    let bundled: T
+    try {
+      bundled = (await $RefParser.bundle(path.resolve(filePath), spec, { resolve: { http: false } })) as T
+    } catch (error) {
+      throw createToolError(
+        `Cannot bundle the file refs of ${filePath}: ${(error as Error).message}`,
+        'spec_import',
+        { filePath },
+        error as Error
+      )
+    }
+    renameRefKey(bundled, PARKED_REF, '$ref', () => true)
+
+    logger.info({ filePath, fileRefs: fileRefs.length }, 'Bundled file refs into imported spec')
+    return bundled
+  }
+
+  /**
+   * Reads spec content from a local file
+   * @param filePath - Absolute or relative file path
+   * @returns File contents
+   */
+  private async readSource(filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath)
+    try {
+      return await fs.readFile(resolved, 'utf-8')
+    } catch (error) {
+      throw createToolError(`Cannot read spec file ${resolved}`, 'spec_import', { filePath }, error as Error)
+    }
+  }
+
+  /**
+   * Returns tool description for MCP registration
+   */
+  describe(): ToolDescription {
+    return {
+      name: 'spec_import',
+      description:
+        'Import an existing OpenAPI 3.x or Swagger 2.0 document (raw YAML/JSON content or a local file path) as a new API. Validates the spec, records API and version metadata with real stats, and places it in the chosen folder. Set convertTo to upgrade Swagger 2.0 input to OpenAPI 3.0/3.1 on the way in.',
+      inputSchema: zodToJsonSchema(specImportSchema, 'specImportSchema'),
+    }
+  }
+}
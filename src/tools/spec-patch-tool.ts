@@ -0,0 +1,144 @@
+/**
+ * Spec Patch Tool
+ *
+ * @description Applies RFC 6902 JSON Patch or RFC 7386 JSON Merge Patch documents to a spec
+ * version: tags, servers, externalDocs, webhooks, `x-` extensions - anything at any depth.
+ * The result goes through Spectral before it's saved, so "anything" still means "anything valid". 🩹
+ *
+ * @module tools/spec-patch-tool
+ */
+
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { BaseTool, type ToolResult, type ToolDescription } from '../types/mcp-tool.js'
+import type { ApiId, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { ValidationSeverity, type ValidationService, type ValidationIssue } from '../services/validation-service.js'
+import { applyJsonPatch, applyMergePatch, createJsonPatch, type JsonPatchOperation } from '../utils/json-patch.js'
+import { createToolError, createValidationError } from '../utils/errors.js'
+import { logger } from '../utils/logger.js'
+import { specPatchSchema, type SpecPatchParams } from './schemas/spec-patch-schema.js'
+
+/**
+ * Identifies an issue independent of line numbers (which move when the spec changes)
+ */
+const issueKey = (issue: ValidationIssue) => `${issue.code}|${issue.path.join('.')}|${issue.message}`
+
+/**
+ * Spec Patch Tool
+ * @description The escape hatch for edits the specialised tools don't cover. With guard rails.
+ */
+export class SpecPatchTool extends BaseTool<SpecPatchParams> {
+  constructor(
+    private specManager: SpecManager,
+    private validationService: ValidationService,
+    private auditLogger: AuditLogger
+  ) {
+    super()
+  }
+
+  /**
+   * Applies a patch to a spec version
+   * @param params - Patch parameters
+   * @returns Tool result with the resulting changes (as JSON Patch) and validation summary
+   * @description Errors the spec already had don't block a patch (it may be fixing them one at
+   * a time); new ones do. With dryRun nothing is saved and new errors are reported, not thrown.
+   */
+  async execute(params: SpecPatchParams): Promise<ToolResult> {
+    const validated = this.validate(params, specPatchSchema)
+    const apiId = validated.apiId as ApiId
+    const version = validated.version as VersionTag
+
+    try {
+      logger.info({ apiId, version, format: validated.format, dryRun: validated.dryRun }, 'Executing spec_patch tool')
+
+      const { spec } = await this.specManager.loadSpec(apiId, version)
+      const patched =
+        validated.format === 'json-patch'
+          ? applyJsonPatch(spec, validated.patch as JsonPatchOperation[])
+          : applyMergePatch(spec, validated.patch)
+
+      const changes = createJsonPatch(spec, patched)
+      if (changes.length === 0) {
+        return this.success(`Patch leaves ${apiId} ${version} unchanged`, {
+          apiId,
+          version,
+          dryRun: Boolean(validated.dryRun),
+          changes,
+        })
+      }
+
+      const [before, after] = await Promise.all([
+        this.validationService.validateSpecObject(structuredClone(spec), `${apiId}/${version}`),
+        this.validationService.validateSpecObject(structuredClone(patched), `${apiId}/${version} (patched)`),
+      ])
+      const existing = new Set(before.issues.map(issueKey))
+      const newErrors = after.issues.filter(
+        (issue) => issue.severity === ValidationSeverity.ERROR && !existing.has(issueKey(issue))
+      )
+      const validation = { valid: after.valid, summary: after.summary, newErrors }
+
+      if (validated.dryRun) {
+        const errorNote = newErrors.length > 0 ? ` and introduce ${newErrors.length} validation error(s)` : ''
+        return this.success(
+          `Dry run: patch would make ${changes.length} change${changes.length === 1 ? '' : 's'} to ${apiId} ${version}${errorNote}`,
+          { apiId, version, dryRun: true, changes, validation }
+        )
+      }
+
+      if (newErrors.length > 0) {
+        throw createValidationError(
+          `Patched spec has ${newErrors.length} new validation error(s): ${newErrors
+            .slice(0, 5)
+            .map((issue) => `${issue.message} at ${issue.path.join('.') || '/'}`)
+            .join('; ')}`,
+          'patch'
+        )
+      }
+
+      const edit = await this.specManager.saveSpec(apiId, version, patched)
+
+      await this.auditLogger.logEvent({
+        api_id: apiId,
+        version,
+        event: 'spec_patched',
+        user: 'mcp-tool',
+        timestamp: new Date().toISOString(),
+        llm_reason: validated.llmReason,
+        details: {
+          format: validated.format,
+          submitted_patch: validated.patch,
+          ...edit,
+        },
+      })
+
+      return this.success(`Patched ${apiId} ${version}: ${changes.length} change${changes.length === 1 ? '' : 's'}`, {
+        apiId,
+        version,
+        dryRun: false,
+        changes,
+        validation,
+      })
+    } catch (error) {
+      logger.error({ error, apiId, version }, 'spec_patch tool failed')
+      throw createToolError(
+        `Spec patch failed: ${(error as Error).message}`,
+        'spec_patch',
+        { apiId, version, format: validated.format },
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Returns tool description for MCP registration
+   */
+  describe(): ToolDescription {
+    return {
+      name: 'spec_patch',
+      description:
+        'Patch any part of a spec version - tags, servers, externalDocs, webhooks, x- extensions, at any depth. format "json-patch" takes RFC 6902 operations (add/remove/replace/move/copy/test, applied all or nothing); format "merge-patch" takes an RFC 7386 object overlaid on the spec (null deletes a key, arrays are replaced). The result is validated with Spectral before saving and refused if it adds validation errors; dryRun returns the resulting changes and issues without saving.',
+      inputSchema: zodToJsonSchema(specPatchSchema, 'specPatchSchema'),
+    }
+  }
+}
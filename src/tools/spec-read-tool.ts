@@ -17,6 +17,8 @@ import { validateApiId, validateVersionTag } from '../utils/validation.js'
 import { createApiId, createVersionTag } from '../types/openapi.js'
 import { createToolError } from '../utils/errors.js'
 import { logger } from '../utils/logger.js'
+import { isHttpMethod } from '../utils/http-methods.js'
+import { callbackPathItems, operationMethods, webhookPathItems } from '../utils/webhooks.js'
 
 /**
  * Parameters for spec_read tool
@@ -24,11 +26,21 @@ import { logger } from '../utils/logger.js'
 interface SpecReadParams extends BaseToolParams {
   apiId: string
   version: string
-  queryType: 'full_spec' | 'endpoints_list' | 'endpoint_detail' | 'schema_detail' | 'info' | 'servers'
+  queryType:
+    | 'full_spec'
+    | 'endpoints_list'
+    | 'endpoint_detail'
+    | 'schema_detail'
+    | 'info'
+    | 'servers'
+    | 'webhooks_list'
+    | 'webhook_detail'
+    | 'callbacks_list'
   format?: 'json' | 'yaml'
   path?: string
   method?: string
   schemaName?: string
+  webhookName?: string
   filters?: {
     tags?: string[]
     deprecated?: boolean
@@ -41,11 +53,12 @@ interface SpecReadParams extends BaseToolParams {
 const specReadSchema = z.object({
   apiId: z.string().describe('API identifier'),
   version: z.string().describe('Version tag (e.g., v1.0.0)'),
-  queryType: z.enum(['full_spec', 'endpoints_list', 'endpoint_detail', 'schema_detail', 'info', 'servers']).describe('Type of information to retrieve'),
+  queryType: z.enum(['full_spec', 'endpoints_list', 'endpoint_detail', 'schema_detail', 'info', 'servers', 'webhooks_list', 'webhook_detail', 'callbacks_list']).describe('Type of information to retrieve'),
   format: z.enum(['json', 'yaml']).optional().describe('Output format for full_spec (default: json)'),
-  path: z.string().optional().describe('Specific endpoint path (required for endpoint_detail)'),
+  path: z.string().optional().describe('Specific endpoint path (required for endpoint_detail, filters callbacks_list)'),
   method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']).optional().describe('HTTP method'),
   schemaName: z.string().optional().describe('Schema name (required for schema_detail)'),
+  webhookName: z.string().optional().describe('Webhook name (required for webhook_detail)'),
   filters: z.object({
     tags: z.array(z.string()).optional(),
     deprecated: z.boolean().optional(),
@@ -98,6 +111,12 @@ export class SpecReadTool extends BaseTool<SpecReadParams> {
           return this.handleInfo(spec)
         case 'servers':
           return this.handleServers(spec)
+        case 'webhooks_list':
+          return this.handleWebhooksList(spec)
+        case 'webhook_detail':
+          return this.handleWebhookDetail(spec, validated.webhookName!, validated.method)
+        case 'callbacks_list':
+          return this.handleCallbacksList(spec, validated.path, validated.method)
         default:
           return this.error(`Unknown query type: ${validated.queryType}`)
       }
@@ -145,9 +164,7 @@ export class SpecReadTool extends BaseTool<SpecReadParams> {
     let endpoints: Array<{ path: string; methods: string[] }> = []
 
     Object.keys(paths).forEach(path => {
-      let methods = Object.keys(paths[path]).filter(m => 
-        ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'].includes(m.toLowerCase())
-      )
+      let methods = Object.keys(paths[path]).filter(m => isHttpMethod(m.toLowerCase()))
       
       // Filter by method if provided
       if (method) {
@@ -244,13 +261,66 @@ export class SpecReadTool extends BaseTool<SpecReadParams> {
     return this.success(`Found ${servers.length} servers`, { servers })
   }
 
+  /**
+   * Returns the webhooks (OpenAPI 3.1) with their methods
+   */
+  private handleWebhooksList(spec: unknown): ToolResult {
+    const webhooks = [...webhookPathItems(spec)].map(([name, pathItem]) => ({
+      name,
+      methods: operationMethods(pathItem).map(m => m.toUpperCase()),
+    }))
+    return this.success(`Found ${webhooks.length} webhooks`, { webhooks })
+  }
+
+  /**
+   * Returns details for a specific webhook
+   */
+  private handleWebhookDetail(spec: unknown, webhookName: string, method?: string): ToolResult {
+    if (!webhookName) {
+      throw createToolError('webhookName parameter is required for webhook_detail', 'spec_read', { queryType: 'webhook_detail' })
+    }
+
+    const pathItem = webhookPathItems(spec).get(webhookName)
+    if (!pathItem) {
+      throw createToolError(`Webhook not found: ${webhookName}`, 'spec_read', { webhookName })
+    }
+
+    if (method) {
+      const operation = pathItem[method.toLowerCase()]
+      if (!operation) {
+        throw createToolError(`Method ${method} not found for webhook: ${webhookName}`, 'spec_read', { webhookName, method })
+      }
+      return this.success(`Webhook detail: ${method} ${webhookName}`, { webhookName, method, operation })
+    }
+
+    return this.success(`All methods for webhook: ${webhookName}`, { webhookName, methods: pathItem })
+  }
+
+  /**
+   * Returns the callbacks registered by operations, optionally for one path/method
+   */
+  private handleCallbacksList(spec: unknown, path?: string, method?: string): ToolResult {
+    const callbacks = callbackPathItems(spec)
+      .filter(entry => {
+        const [entryMethod, entryPath] = entry.endpoint.split(' ')
+        return (!path || entryPath === path) && (!method || entryMethod === method.toUpperCase())
+      })
+      .map(entry => ({
+        endpoint: entry.endpoint,
+        callback: entry.callback,
+        expression: entry.expression,
+        methods: operationMethods(entry.pathItem).map(m => m.toUpperCase()),
+      }))
+    return this.success(`Found ${callbacks.length} callbacks`, { callbacks })
+  }
+
   /**
    * Returns tool description for MCP registration
    */
   describe(): ToolDescription {
     return {
       name: 'spec_read',
-      description: 'Read and query OpenAPI specifications. Supports various query types including full spec, endpoints list, endpoint details, schema details, info, and servers.',
+      description: 'Read and query OpenAPI specifications. Supports various query types including full spec, endpoints list, endpoint details, schema details, info, servers, webhooks (list and detail) and callbacks.',
       inputSchema: zodToJsonSchema(specReadSchema, 'specReadSchema'),
     }
   }
@@ -0,0 +1,418 @@
+/**
+ * Tags Manage Tool
+ *
+ * @description Manages the top-level `tags` array, the tags on every operation and the
+ * `x-tagGroups` that doc viewers like Redoc use for navigation. Renaming a tag in one place
+ * and forgetting the other forty is a rite of passage - this tool skips it. 🏷️
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, toolErrorContext } from '../utils/errors.js'
+import { HTTP_METHODS } from '../utils/http-methods.js'
+import { tagsManageSchema, type TagsManageParams } from './schemas/tags-manage-schema.js'
+
+interface TagObject {
+  name: string
+  description?: string
+  externalDocs?: { url: string; description?: string }
+  [key: string]: unknown
+}
+
+interface TagGroup {
+  name: string
+  tags: string[]
+}
+
+const OPERATION_SECTIONS = [
+  ['paths', ''],
+  ['webhooks', 'webhook '],
+] as const
+
+/**
+ * Every operation in `paths` (and OpenAPI 3.1 `webhooks`), labelled like `GET /pets`
+ */
+function operationsOf(spec: SpecObject): { operation: SpecObject; label: string }[] {
+  return OPERATION_SECTIONS.flatMap(([section, prefix]) =>
+    Object.entries(asSpecObject(spec[section])).flatMap(([name, pathItem]) =>
+      HTTP_METHODS.map((method) => ({ operation: asSpecObject(pathItem)[method], label: `${prefix}${method.toUpperCase()} ${name}` }))
+        .filter((entry): entry is { operation: SpecObject; label: string } => isSpecObject(entry.operation))
+    )
+  )
+}
+
+function tagsOf(operation: SpecObject): string[] | undefined {
+  return Array.isArray(operation.tags) ? operation.tags : undefined
+}
+
+function declaredTags(spec: SpecObject): TagObject[] {
+  return Array.isArray(spec.tags) ? spec.tags : []
+}
+
+function tagGroups(spec: SpecObject): TagGroup[] {
+  return Array.isArray(spec['x-tagGroups']) ? spec['x-tagGroups'] : []
+}
+
+/**
+ * Operations per tag, in spec order
+ */
+function tagUsage(spec: SpecObject): Map<string, string[]> {
+  const usage = new Map<string, string[]>()
+  operationsOf(spec).forEach(({ operation, label }) => {
+    tagsOf(operation)?.forEach((tag) => usage.set(tag, [...(usage.get(tag) || []), label]))
+  })
+  return usage
+}
+
+/**
+ * Rewrites every operation's tags (`rename` returns the new name, or null to drop the tag)
+ * @returns Labels of the operations that changed
+ */
+function retagOperations(spec: SpecObject, rename: (tag: string) => string | null): string[] {
+  const affected: string[] = []
+  operationsOf(spec).forEach((entry) => {
+    const { operation, label } = entry
+    const current = tagsOf(operation)
+    if (!current) return
+    const tags = [...new Set(current.map(rename).filter((tag): tag is string => tag !== null))]
+    if (tags.length === current.length && tags.every((tag, i) => tag === current[i])) return
+    if (tags.length > 0) operation.tags = tags
+    else delete operation.tags
+    affected.push(label)
+  })
+  return affected
+}
+
+/**
+ * Same as retagOperations, for `x-tagGroups` (groups left empty are dropped)
+ * @returns The new group list
+ */
+function retagGroups(groups: TagGroup[], rename: (tag: string) => string | null): TagGroup[] {
+  return groups
+    .map((group) => ({
+      ...group,
+      tags: [...new Set((group.tags || []).map(rename).filter((tag): tag is string => tag !== null))],
+    }))
+    .filter((group) => group.tags.length > 0)
+}
+
+/**
+ * Puts a tag into one group (and takes it out of the others)
+ * @returns The new group list
+ */
+function moveToGroup(groups: TagGroup[], tagName: string, groupName: string): TagGroup[] {
+  const others = retagGroups(groups, (tag) => (tag === tagName ? null : tag))
+  if (!others.some((group) => group.name === groupName)) return [...others, { name: groupName, tags: [tagName] }]
+  return others.map((group) => (group.name === groupName ? { ...group, tags: [...group.tags, tagName] } : group))
+}
+
+export class TagsManageTool extends BaseTool {
+  constructor(private specManager: SpecManager, private auditLogger: AuditLogger) {
+    super()
+  }
+
+  async execute(params: TagsManageParams): Promise<ToolResult> {
+    this.validate(params, tagsManageSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'delete':
+          return await this.handleDelete(params)
+        case 'rename':
+          return await this.handleRename(params)
+        case 'merge':
+          return await this.handleMerge(params)
+        case 'set_groups':
+          return await this.handleSetGroups(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Tags manage failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  /**
+   * Declared tags with usage counts, plus the two kinds of drift: orphaned tags (declared,
+   * used by nothing) and undeclared tags (used by operations, missing from `tags`)
+   */
+  private async handleList(params: TagsManageParams): Promise<ToolResult> {
+    const spec = await this.load(params)
+    const usage = tagUsage(spec)
+    const declared = declaredTags(spec)
+    const declaredNames = new Set(declared.map((tag) => tag.name))
+    const groups = tagGroups(spec)
+    const grouped = new Set(groups.flatMap((group) => group.tags || []))
+
+    const tags = declared.map((tag) => ({
+      ...tag,
+      operationCount: usage.get(tag.name)?.length || 0,
+      operations: usage.get(tag.name) || [],
+    }))
+    const orphaned = declared.filter((tag) => !usage.has(tag.name)).map((tag) => tag.name)
+    const undeclared = [...usage.keys()].filter((name) => !declaredNames.has(name))
+    // Redoc hides tags that are in no group once x-tagGroups exists
+    const ungrouped =
+      groups.length > 0 ? [...declaredNames, ...undeclared].filter((name) => !grouped.has(name)) : []
+
+    return this.success(`Found ${tags.length} tags (${orphaned.length} orphaned, ${undeclared.length} undeclared)`, {
+      count: tags.length,
+      tags,
+      orphaned,
+      undeclared,
+      groups,
+      ungrouped,
+    })
+  }
+
+  private async handleAdd(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { tagName, description, externalDocs, group } = params
+    const spec = await this.load(params)
+    const declared = declaredTags(spec)
+
+    if (declared.some((tag) => tag.name === tagName)) {
+      throw createToolError(`Tag ${tagName} already exists`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const tag: TagObject = { name: tagName }
+    if (description !== undefined) tag.description = description
+    if (externalDocs) tag.externalDocs = externalDocs
+    spec.tags = [...declared, tag]
+    if (group) spec['x-tagGroups'] = moveToGroup(tagGroups(spec), tagName, group)
+
+    await this.save(params, spec, 'tag_added', { tagName, group })
+    return this.success(`Added tag ${tagName}`, { tag, group: group || null })
+  }
+
+  private async handleUpdate(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { tagName, description, externalDocs, group } = params
+    const spec = await this.load(params)
+    const tag = declaredTags(spec).find((candidate) => candidate.name === tagName)
+
+    if (!tag) {
+      throw createToolError(`Tag ${tagName} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    if (description !== undefined) tag.description = description
+    if (externalDocs) tag.externalDocs = externalDocs
+    if (group) spec['x-tagGroups'] = moveToGroup(tagGroups(spec), tagName, group)
+
+    await this.save(params, spec, 'tag_updated', { tagName, group })
+    return this.success(`Updated tag ${tagName}`, { tag, group: group || null })
+  }
+
+  /**
+   * Deletes a tag from `tags`, from every operation and from `x-tagGroups`
+   */
+  private async handleDelete(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'delete') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { tagName } = params
+    const spec = await this.load(params)
+    this.assertTagExists(spec, tagName, params)
+
+    const remove = (tag: string) => (tag === tagName ? null : tag)
+    const tags = declaredTags(spec).filter((tag) => tag.name !== tagName)
+    if (tags.length > 0) spec.tags = tags
+    else delete spec.tags
+    const affectedOperations = retagOperations(spec, remove)
+    const groups = retagGroups(tagGroups(spec), remove)
+    if (groups.length > 0) spec['x-tagGroups'] = groups
+    else delete spec['x-tagGroups']
+
+    await this.save(params, spec, 'tag_deleted', { tagName, affectedOperations })
+    return this.success(`Deleted tag ${tagName} (removed from ${affectedOperations.length} operations)`, {
+      tagName,
+      affectedOperations,
+    })
+  }
+
+  private async handleRename(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'rename') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { tagName, newName } = params
+    const spec = await this.load(params)
+    this.assertTagExists(spec, tagName, params)
+
+    if (this.tagExists(spec, newName)) {
+      throw createToolError(`Tag ${newName} already exists - use merge to combine tags`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const rename = (tag: string) => (tag === tagName ? newName : tag)
+    const declared = declaredTags(spec)
+    if (declared.length > 0) spec.tags = declared.map((tag) => (tag.name === tagName ? { ...tag, name: newName } : tag))
+    const affectedOperations = retagOperations(spec, rename)
+    const groups = retagGroups(tagGroups(spec), rename)
+    if (groups.length > 0) spec['x-tagGroups'] = groups
+    else delete spec['x-tagGroups']
+
+    await this.save(params, spec, 'tag_renamed', { tagName, newName, affectedOperations })
+    return this.success(`Renamed tag ${tagName} to ${newName} (${affectedOperations.length} operations retagged)`, {
+      tagName,
+      newName,
+      affectedOperations,
+    })
+  }
+
+  /**
+   * Folds several tags into one: operations, groups and the `tags` array end up with only the
+   * target, which inherits the first source's description if it wasn't declared yet
+   */
+  private async handleMerge(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'merge') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { sourceTags, tagName } = params
+    const spec = await this.load(params)
+    const sources = new Set(sourceTags.filter((tag) => tag !== tagName))
+
+    if (sources.size === 0) {
+      throw createToolError('Nothing to merge: sourceTags only contains the target tag', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    sources.forEach((source) => this.assertTagExists(spec, source, params))
+
+    const declared = declaredTags(spec)
+    const target = declared.find((tag) => tag.name === tagName)
+    const firstSource = declared.find((tag) => sources.has(tag.name))
+    const rename = (tag: string) => (sources.has(tag) ? tagName : tag)
+
+    if (target) {
+      spec.tags = declared.filter((tag) => !sources.has(tag.name))
+    } else {
+      // The target takes the place (and docs) of the first declared source
+      const tags = declared
+        .map((tag) => (tag === firstSource ? { ...tag, name: tagName } : tag))
+        .filter((tag) => !sources.has(tag.name))
+      spec.tags = firstSource ? tags : [...tags, { name: tagName }]
+    }
+    const affectedOperations = retagOperations(spec, rename)
+    const groups = retagGroups(tagGroups(spec), rename)
+    if (groups.length > 0) spec['x-tagGroups'] = groups
+    else delete spec['x-tagGroups']
+
+    await this.save(params, spec, 'tags_merged', { sourceTags: [...sources], tagName, affectedOperations })
+    return this.success(`Merged ${[...sources].join(', ')} into ${tagName} (${affectedOperations.length} operations retagged)`, {
+      sourceTags: [...sources],
+      tagName,
+      affectedOperations,
+    })
+  }
+
+  /**
+   * Replaces `x-tagGroups` (an empty list removes it)
+   */
+  private async handleSetGroups(params: TagsManageParams): Promise<ToolResult> {
+    if (params.operation !== 'set_groups') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { groups } = params
+    const spec = await this.load(params)
+    const unknown = groups.flatMap((group) => group.tags).filter((tag) => !this.tagExists(spec, tag))
+
+    if (unknown.length > 0) {
+      throw createToolError(`Unknown tags in groups: ${[...new Set(unknown)].join(', ')}`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    if (groups.length > 0) spec['x-tagGroups'] = groups
+    else delete spec['x-tagGroups']
+
+    await this.save(params, spec, 'tag_groups_updated', { groups })
+    return this.success(`Set ${groups.length} tag groups`, { groups })
+  }
+
+  private async load(params: TagsManageParams): Promise<SpecObject> {
+    const doc = await this.specManager.loadSpec(params.apiId as ApiId, params.version as VersionTag)
+    return asSpecObject(doc.spec)
+  }
+
+  private async save(params: TagsManageParams, spec: SpecObject, event: string, details: Record<string, unknown>): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  /**
+   * Whether a tag is declared in `tags` or used by any operation
+   */
+  private tagExists(spec: SpecObject, tagName: string): boolean {
+    return declaredTags(spec).some((tag) => tag.name === tagName) || tagUsage(spec).has(tagName)
+  }
+
+  private assertTagExists(spec: SpecObject, tagName: string, params: TagsManageParams): void {
+    if (!this.tagExists(spec, tagName)) {
+      throw createToolError(`Tag ${tagName} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+  }
+
+  describe() {
+    return {
+      name: 'tags_manage',
+      description:
+        'Manage tags: list declared tags with usage counts, orphaned tags (declared but unused) and undeclared ones (used but not declared); add/update/delete/rename tags and merge several into one - every affected operation is retagged. Supports x-tagGroups (group on add/update, set_groups to replace all groups).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: { type: 'string', enum: ['list', 'add', 'update', 'delete', 'rename', 'merge', 'set_groups'] },
+          tagName: { type: 'string', description: 'Tag to add/update/delete/rename, or the target of merge' },
+          newName: { type: 'string', description: 'New name (rename)' },
+          sourceTags: { type: 'array', items: { type: 'string' }, description: 'Tags folded into tagName (merge)' },
+          description: { type: 'string' },
+          externalDocs: {
+            type: 'object',
+            properties: { url: { type: 'string' }, description: { type: 'string' } },
+            required: ['url'],
+          },
+          group: { type: 'string', description: 'x-tagGroups group to put the tag in (add/update)' },
+          groups: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+              required: ['name', 'tags'],
+            },
+            description: 'Complete x-tagGroups list (set_groups)',
+          },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation'],
+      },
+    }
+  }
+}
@@ -9,14 +9,32 @@
  * Think of it as Git for your OpenAPI specs, minus the merge conflicts (thankfully).
  */
 
+import * as yaml from 'js-yaml'
+import type { OpenAPIV3 } from 'openapi-types'
 import { BaseTool } from '../types/mcp-tool.js'
 import type { ToolResult } from '../types/mcp-tool.js'
-import type { ApiId, VersionTag } from '../types/openapi.js'
+import { asSpecObject, detectOpenAPIVersion, isOpenAPI31 } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag, SwaggerV2Document } from '../types/openapi.js'
+import { versionStateOf, type VersionMetadata, type VersionState, type VersionStats } from '../types/metadata.js'
 import type { SpecManager } from '../services/spec-manager.js'
 import type { VersionManager } from '../services/version-manager.js'
 import type { DiffCalculator } from '../services/diff-calculator.js'
 import type { AuditLogger } from '../services/audit-logger.js'
-import { createToolError } from '../utils/errors.js'
+import { SpecConverter, type ConversionResult } from '../services/spec-converter.js'
+import { ChangelogGenerator } from '../services/changelog-generator.js'
+import { SpecMerger } from '../services/spec-merger.js'
+import { EditHistory } from '../services/edit-history.js'
+import { createToolError, createValidationError, toolErrorContext } from '../utils/errors.js'
+import { calculateVersionStats } from '../utils/spec-stats.js'
+import { applyDeprecationNotice, type DeprecationNoticeResult } from '../utils/deprecation-notice.js'
+import {
+  bumpVersionTag,
+  compareVersionTags,
+  parseVersionTag,
+  sortVersionTags,
+  suggestVersionBump,
+  syncInfoVersion,
+} from '../utils/semver.js'
 import {
   versionControlSchema,
   type VersionControlParams,
@@ -34,7 +52,16 @@ export class VersionControlTool extends BaseTool {
     private specManager: SpecManager,
     private versionManager: VersionManager,
     private diffCalculator: DiffCalculator,
-    private auditLogger: AuditLogger
+    private auditLogger: AuditLogger,
+    private specConverter: SpecConverter = new SpecConverter(),
+    private changelogGenerator: ChangelogGenerator = new ChangelogGenerator(
+      specManager,
+      versionManager,
+      diffCalculator,
+      auditLogger
+    ),
+    private specMerger: SpecMerger = new SpecMerger(),
+    private editHistory: EditHistory = new EditHistory(specManager, auditLogger)
   ) {
     super()
   }
@@ -64,11 +91,30 @@ export class VersionControlTool extends BaseTool {
           return await this.handleSetCurrent(params)
         case 'delete':
           return await this.handleDelete(params)
+        case 'convert':
+          return await this.handleConvert(params)
+        case 'upgrade_openapi':
+          return await this.handleUpgradeOpenApi(params)
+        case 'changelog':
+          return await this.handleChangelog(params)
+        case 'merge':
+          return await this.handleMerge(params)
+        case 'publish':
+          return await this.handlePublish(params)
+        case 'deprecate':
+          return await this.handleDeprecate(params)
+        case 'set_state':
+          return await this.handleSetState(params)
+        case 'suggest_bump':
+          return await this.handleSuggestBump(params)
+        case 'undo':
+        case 'redo':
+          return await this.handleUndoRedo(params)
         default:
           throw createToolError(
             `Unknown operation: ${operation}`,
             'VALIDATION_ERROR',
-            params as any
+            toolErrorContext(params)
           )
       }
     } catch (error) {
@@ -88,7 +134,7 @@ export class VersionControlTool extends BaseTool {
    */
   private async handleList(params: VersionControlParams): Promise<ToolResult> {
     if (params.operation !== 'list') {
-      throw createToolError('Invalid operation for handleList', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation for handleList', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
     const { apiId } = params
@@ -109,40 +155,52 @@ export class VersionControlTool extends BaseTool {
    *
    * @description Creates a new version, optionally copying from a source version.
    * It's like having a baby - you can start from scratch or clone an existing one.
-   * (We recommend the cloning approach for API versions.)
+   * (We recommend the cloning approach for API versions.) With `bump` instead of a
+   * tag, the next major/minor/patch after sourceVersion (default: the newest semver
+   * version) is picked, and that version is what gets copied.
    */
   private async handleCreate(params: VersionControlParams): Promise<ToolResult> {
     if (params.operation !== 'create') {
-      throw createToolError('Invalid operation for handleCreate', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation for handleCreate', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
-    const { apiId, version, sourceVersion, description, llmReason } = params
+    const { apiId, bump, description, llmReason } = params
+    let { version, sourceVersion } = params
 
-    // Check if version already exists by getting API metadata
-    let apiExists = true
-    try {
+    if (!version === !bump) {
+      throw createValidationError('Give either version or bump (major, minor, patch)', 'version')
+    }
+    if (bump) {
+      const baseVersion = sourceVersion || await this.newestSemverVersion(apiId as ApiId)
+      if (!parseVersionTag(baseVersion)) {
+        throw createValidationError(`Cannot bump ${baseVersion}: not a semantic version`, 'sourceVersion', 'v1.2.3', baseVersion)
+      }
+      version = bumpVersionTag(baseVersion, bump)
+      sourceVersion = baseVersion
+    }
+    if (!version) {
+      throw createValidationError('Version is required', 'version')
+    }
+
+    // No folder means the API doesn't exist yet, which is fine for a first version.
+    // Anything else (duplicate tag, unreadable metadata) stops here, before a spec is written.
+    const apiExists = (await this.versionManager.findApiFolder(apiId as ApiId)) !== null
+    if (apiExists) {
       const metadata = await this.versionManager.getApiMetadata(apiId as ApiId)
       if (metadata.versions.includes(version as VersionTag)) {
         throw createToolError(
           `Version ${version} already exists for ${apiId}`,
           'VALIDATION_ERROR',
-          params as any
+          toolErrorContext(params)
         )
       }
-    } catch (error) {
-      // API doesn't exist yet, that's fine for first version
-      apiExists = false
     }
 
-    let spec: any
+    let spec: SpecObject
 
     if (sourceVersion) {
       // Copy from source version
-      const sourceSpec = await this.specManager.loadSpec(
-        apiId as ApiId,
-        sourceVersion as VersionTag
-      )
-      spec = (sourceSpec as any).spec || sourceSpec
+      spec = await this.loadSpecDocument(apiId as ApiId, sourceVersion as VersionTag)
     } else {
       // Create minimal new spec
       spec = {
@@ -157,7 +215,7 @@ export class VersionControlTool extends BaseTool {
     }
 
     // Save the new version spec
-    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, spec)
+    await this.specManager.saveSpec(apiId as ApiId, version as VersionTag, syncInfoVersion(spec, version))
 
     // If API doesn't exist, create API metadata first (which adds the initial version)
     if (!apiExists) {
@@ -181,6 +239,7 @@ export class VersionControlTool extends BaseTool {
         created_at: new Date().toISOString(),
         created_by: 'mcp-tool',
         parent_version: (sourceVersion as VersionTag) || null,
+        state: 'draft',
         description: description || `Version ${version}`,
         changes: {
           endpoints_added: [],
@@ -218,10 +277,11 @@ export class VersionControlTool extends BaseTool {
       },
     })
 
-    return this.success(`Created version ${version} for ${apiId}`, {
+    return this.success(`Created version ${version} for ${apiId}${bump ? ` (${bump} bump of ${sourceVersion})` : ''}`, {
       version,
       apiId,
       sourceVersion: sourceVersion || null,
+      bump: bump || null,
       description: description || null,
     })
   }
@@ -234,7 +294,7 @@ export class VersionControlTool extends BaseTool {
    */
   private async handleGet(params: VersionControlParams): Promise<ToolResult> {
     if (params.operation !== 'get') {
-      throw createToolError('Invalid operation for handleGet', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation for handleGet', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
     const { apiId, version } = params
@@ -261,7 +321,7 @@ export class VersionControlTool extends BaseTool {
       throw createToolError(
         'Invalid operation for handleCompare',
         'VALIDATION_ERROR',
-        params as any
+        toolErrorContext(params)
       )
     }
 
@@ -272,7 +332,7 @@ export class VersionControlTool extends BaseTool {
     const toSpec = await this.specManager.loadSpec(apiId as ApiId, toVersion as VersionTag)
 
     // Calculate diff
-    const changes = await this.diffCalculator.calculateDiff(fromSpec as any, toSpec as any)
+    const changes = await this.diffCalculator.calculateDiff(fromSpec, toSpec)
 
     return this.success(`Compared ${fromVersion} to ${toVersion}`, {
       fromVersion,
@@ -282,6 +342,41 @@ export class VersionControlTool extends BaseTool {
     })
   }
 
+  /**
+   * Generate a changelog between two versions
+   *
+   * @description Runs the diff, pulls the reasons from the audit log and writes the release
+   * notes you were about to write by hand. Breaking changes first, as is tradition.
+   */
+  private async handleChangelog(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'changelog') {
+      throw createToolError(
+        'Invalid operation for handleChangelog',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    const { apiId, fromVersion, toVersion, format = 'markdown', groupBy = 'tag' } = params
+
+    const result = await this.changelogGenerator.generate(
+      apiId as ApiId,
+      fromVersion as VersionTag,
+      toVersion as VersionTag,
+      format,
+      groupBy
+    )
+
+    return this.success(`Generated ${format} changelog from ${fromVersion} to ${toVersion}`, {
+      fromVersion,
+      toVersion,
+      format,
+      summary: result.changelog.summary,
+      content: result.content,
+      changelog: result.changelog,
+    })
+  }
+
   /**
    * Set current version
    *
@@ -293,7 +388,7 @@ export class VersionControlTool extends BaseTool {
       throw createToolError(
         'Invalid operation for handleSetCurrent',
         'VALIDATION_ERROR',
-        params as any
+        toolErrorContext(params)
       )
     }
 
@@ -305,7 +400,7 @@ export class VersionControlTool extends BaseTool {
       throw createToolError(
         `Version ${version} does not exist for ${apiId}`,
         'VALIDATION_ERROR',
-        params as any
+        toolErrorContext(params)
       )
     }
 
@@ -338,7 +433,7 @@ export class VersionControlTool extends BaseTool {
    */
   private async handleDelete(params: VersionControlParams): Promise<ToolResult> {
     if (params.operation !== 'delete') {
-      throw createToolError('Invalid operation for handleDelete', 'VALIDATION_ERROR', params as any)
+      throw createToolError('Invalid operation for handleDelete', 'VALIDATION_ERROR', toolErrorContext(params))
     }
 
     const { apiId, version, llmReason } = params
@@ -349,7 +444,7 @@ export class VersionControlTool extends BaseTool {
       throw createToolError(
         `Cannot delete current version ${version}. Set a different version as current first.`,
         'VALIDATION_ERROR',
-        params as any
+        toolErrorContext(params)
       )
     }
 
@@ -360,8 +455,10 @@ export class VersionControlTool extends BaseTool {
     await this.versionManager.deleteVersion(apiId as ApiId, version as VersionTag)
 
     // Log audit event
+    // The version goes on the event itself - that's what the git provider drops the tag by
     await this.auditLogger.logEvent({
       api_id: apiId as ApiId,
+      version: version as VersionTag,
       event: 'version_deleted',
       user: 'mcp-tool',
       timestamp: new Date().toISOString(),
@@ -377,6 +474,568 @@ export class VersionControlTool extends BaseTool {
     })
   }
 
+  /**
+   * Convert a Swagger 2.0 version to OpenAPI 3.x
+   *
+   * @description Converts a version into a new version using the target dialect.
+   * The original stays untouched - we're renovating a copy, not the museum piece.
+   */
+  private async handleConvert(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'convert') {
+      throw createToolError('Invalid operation for handleConvert', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, targetVersion, description, llmReason } = params
+    const openapiVersion = params.openapiVersion || '3.0'
+
+    await this.assertVersionAvailable(apiId as ApiId, targetVersion as VersionTag)
+
+    const sourceSpec = await this.loadSpecDocument(apiId as ApiId, version as VersionTag)
+    if (detectOpenAPIVersion(sourceSpec) !== '2.0') {
+      throw createToolError(
+        `Version ${version} is already OpenAPI 3.x - only Swagger 2.0 versions can be converted`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    const result = this.specConverter.convertSwagger2(sourceSpec as SwaggerV2Document, openapiVersion)
+    const metadata = await this.saveConvertedVersion(
+      apiId as ApiId,
+      version as VersionTag,
+      targetVersion as VersionTag,
+      result,
+      description || `Converted ${version} from Swagger 2.0 to OpenAPI ${openapiVersion}`
+    )
+
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: targetVersion as VersionTag,
+      event: 'version_converted',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: {
+        sourceVersion: version,
+        from: result.from,
+        to: result.to,
+        warnings: result.warnings,
+      },
+    })
+
+    return this.success(`Converted ${apiId} ${version} to OpenAPI ${openapiVersion} as ${targetVersion}`, {
+      apiId,
+      sourceVersion: version,
+      version: targetVersion,
+      openapiVersion,
+      warnings: result.warnings,
+      metadata,
+    })
+  }
+
+  /**
+   * Move a version between OpenAPI 3.0 and 3.1
+   *
+   * @description Upgrades a 3.0 version to 3.1 (or downgrades a 3.1 version to 3.0) into a
+   * new version. Time travel, but the paradoxes get logged as warnings.
+   */
+  private async handleUpgradeOpenApi(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'upgrade_openapi') {
+      throw createToolError('Invalid operation for handleUpgradeOpenApi', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, targetVersion, openapiVersion, description, llmReason } = params
+
+    await this.assertVersionAvailable(apiId as ApiId, targetVersion as VersionTag)
+
+    const sourceSpec = await this.loadSpecDocument(apiId as ApiId, version as VersionTag)
+    const sourceOpenApi = detectOpenAPIVersion(sourceSpec)
+    if (sourceOpenApi === '2.0') {
+      throw createToolError(
+        `Version ${version} is Swagger 2.0 - use the convert operation instead`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    if (sourceOpenApi === openapiVersion) {
+      throw createToolError(
+        `Version ${version} is already OpenAPI ${openapiVersion}`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    // The checks above leave a 3.1 source to come down and a 3.0 source to go up
+    const result = isOpenAPI31(sourceSpec)
+      ? this.specConverter.downgradeTo30(sourceSpec)
+      : this.specConverter.upgradeTo31(sourceSpec as unknown as OpenAPIV3.Document)
+    const direction = openapiVersion === '3.1' ? 'Upgraded' : 'Downgraded'
+
+    const metadata = await this.saveConvertedVersion(
+      apiId as ApiId,
+      version as VersionTag,
+      targetVersion as VersionTag,
+      result,
+      description || `${direction} ${version} from OpenAPI ${result.from} to ${result.to}`
+    )
+
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: targetVersion as VersionTag,
+      event: 'openapi_version_changed',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: {
+        sourceVersion: version,
+        from: result.from,
+        to: result.to,
+        applied: result.applied.length,
+        warnings: result.warnings,
+      },
+    })
+
+    return this.success(`${direction} ${apiId} ${version} to OpenAPI ${openapiVersion} as ${targetVersion}`, {
+      apiId,
+      sourceVersion: version,
+      version: targetVersion,
+      openapiVersion,
+      applied: result.applied,
+      warnings: result.warnings,
+      metadata,
+    })
+  }
+
+  /**
+   * Three-way merge two versions into a new one
+   *
+   * @description Combines our version and their version relative to a common ancestor (given,
+   * or found by walking parent_version). Non-overlapping changes merge automatically; if both
+   * sides touched the same node the conflicts are returned and nothing is written, unless a
+   * resolution side was chosen. Couples therapy for diverging branches.
+   */
+  private async handleMerge(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'merge') {
+      throw createToolError('Invalid operation for handleMerge', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, theirsVersion, targetVersion, resolution, description, llmReason } = params
+
+    await this.assertVersionAvailable(apiId as ApiId, targetVersion as VersionTag)
+
+    const baseVersion =
+      (params.baseVersion as VersionTag | undefined) ||
+      (await this.findCommonAncestor(apiId as ApiId, version as VersionTag, theirsVersion as VersionTag))
+    if (!baseVersion) {
+      throw createToolError(
+        `No common ancestor found for ${version} and ${theirsVersion} - pass baseVersion explicitly`,
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+
+    const base = await this.loadSpecDocument(apiId as ApiId, baseVersion)
+    // info.version follows each branch's tag, so the branches always disagree on it - not a conflict
+    const ours = syncInfoVersion(await this.loadSpecDocument(apiId as ApiId, version as VersionTag), baseVersion)
+    const theirs = syncInfoVersion(await this.loadSpecDocument(apiId as ApiId, theirsVersion as VersionTag), baseVersion)
+
+    const result = this.specMerger.merge(base, ours, theirs, resolution)
+
+    if (!result.clean) {
+      return this.success(
+        `Merge of ${theirsVersion} into ${version} has ${result.conflicts.length} conflict(s) - nothing was written`,
+        {
+          apiId,
+          baseVersion,
+          oursVersion: version,
+          theirsVersion,
+          merged: false,
+          conflicts: result.conflicts,
+          fromTheirs: result.fromTheirs,
+        }
+      )
+    }
+
+    // SwaggerParser dereferences in place, so validate a copy and keep the $refs intact
+    await this.specManager.validateSpec(structuredClone(result.merged))
+    await this.specManager.saveSpec(apiId as ApiId, targetVersion as VersionTag, syncInfoVersion(result.merged, targetVersion))
+    await this.versionManager.addVersion(apiId as ApiId, targetVersion as VersionTag, false)
+
+    const diff = this.diffCalculator.calculateDiff(ours, result.merged)
+    const metadata: VersionMetadata = {
+      version: targetVersion as VersionTag,
+      created_at: new Date().toISOString(),
+      created_by: 'mcp-tool',
+      parent_version: version as VersionTag,
+      state: 'draft',
+      description: description || `Merged ${theirsVersion} into ${version}`,
+      changes: diff.summary,
+      validation: {
+        spectral_errors: 0,
+        spectral_warnings: 0,
+        openapi_valid: true,
+      },
+      stats: calculateVersionStats(result.merged, yaml.dump(result.merged)),
+      merge: {
+        base: baseVersion,
+        ours: version as VersionTag,
+        theirs: theirsVersion as VersionTag,
+        conflicts: result.conflicts.length,
+        ...(result.conflicts.length > 0 && resolution ? { resolution } : {}),
+      },
+    }
+    await this.versionManager.createVersionMetadata(apiId as ApiId, targetVersion as VersionTag, metadata)
+
+    await this.auditLogger.logEvent({
+      api_id: apiId as ApiId,
+      version: targetVersion as VersionTag,
+      event: 'version_merged',
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason as string | undefined,
+      details: {
+        baseVersion,
+        oursVersion: version,
+        theirsVersion,
+        conflicts: result.conflicts.map((conflict) => conflict.pointer),
+        resolution: resolution || null,
+      },
+    })
+
+    return this.success(`Merged ${theirsVersion} into ${version} as ${targetVersion}`, {
+      apiId,
+      baseVersion,
+      oursVersion: version,
+      theirsVersion,
+      version: targetVersion,
+      merged: true,
+      conflicts: result.conflicts,
+      fromTheirs: result.fromTheirs,
+      metadata,
+    })
+  }
+
+  /**
+   * Publish a draft version
+   *
+   * @description Validates the spec one last time, refreshes the stats and freezes the
+   * version as stable (or beta). Further edits need a new draft (create with sourceVersion).
+   */
+  private async handlePublish(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'publish') {
+      throw createToolError('Invalid operation for handlePublish', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, state, llmReason } = params
+    const metadata = await this.transition(apiId as ApiId, version as VersionTag, state || 'stable', llmReason)
+
+    return this.success(`Published ${version} of ${apiId} as ${metadata.state} - it is now read-only`, {
+      apiId,
+      version,
+      state: metadata.state,
+      publishedAt: metadata.published_at,
+    })
+  }
+
+  /**
+   * Deprecate a version
+   *
+   * @description Flags the version as on its way out and writes the news into the spec:
+   * every operation becomes `deprecated: true`, every response documents the Deprecation
+   * and Sunset headers. It stays frozen - deprecated means "please migrate", not "editable".
+   */
+  private async handleDeprecate(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'deprecate') {
+      throw createToolError('Invalid operation for handleDeprecate', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, sunsetDate, llmReason } = params
+    const metadata = await this.transition(apiId as ApiId, version as VersionTag, 'deprecated', llmReason, sunsetDate)
+
+    return this.success(
+      `Deprecated ${version} of ${apiId}${metadata.sunset_date ? ` (sunset ${metadata.sunset_date.slice(0, 10)})` : ''}`,
+      {
+        apiId,
+        version,
+        state: metadata.state,
+        deprecatedAt: metadata.deprecated_at,
+        sunsetDate: metadata.sunset_date || null,
+      }
+    )
+  }
+
+  /**
+   * Move a version to any lifecycle state its current state allows
+   *
+   * @description The general form of publish and deprecate (and the only way to retire).
+   */
+  private async handleSetState(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'set_state') {
+      throw createToolError('Invalid operation for handleSetState', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { apiId, version, state, sunsetDate, llmReason } = params
+    const metadata = await this.transition(apiId as ApiId, version as VersionTag, state, llmReason, sunsetDate)
+
+    return this.success(`Moved ${version} of ${apiId} to ${metadata.state}`, {
+      apiId,
+      version,
+      state: metadata.state,
+      lifecycle: metadata.lifecycle || [],
+      sunsetDate: metadata.sunset_date || null,
+    })
+  }
+
+  /**
+   * Runs a lifecycle transition with everything that comes with it
+   *
+   * @description Leaving draft validates the spec and refreshes its stats; deprecating
+   * writes the deprecation notice into the (otherwise frozen) spec; every transition is audited.
+   */
+  private async transition(
+    apiId: ApiId,
+    version: VersionTag,
+    to: VersionState,
+    llmReason?: string,
+    sunsetDate?: string
+  ): Promise<VersionMetadata> {
+    const from = versionStateOf((await this.versionManager.getVersionMetadata(apiId, version))?.state)
+
+    let stats: VersionStats | undefined
+    if (from === 'draft') {
+      const spec = await this.loadSpecDocument(apiId, version)
+      await this.specManager.validateSpec(structuredClone(spec))
+      stats = calculateVersionStats(spec, yaml.dump(spec))
+    }
+
+    const metadata = await this.versionManager.transitionVersion(apiId, version, to, {
+      user: 'mcp-tool',
+      reason: llmReason,
+      sunsetDate,
+      stats,
+    })
+
+    let notice: DeprecationNoticeResult | undefined
+    if (to === 'deprecated') {
+      const spec = structuredClone(await this.loadSpecDocument(apiId, version))
+      notice = applyDeprecationNotice(spec, {
+        deprecatedAt: metadata.deprecated_at as string,
+        sunsetDate: metadata.sunset_date,
+      })
+      await this.specManager.saveFrozenSpec(apiId, version, spec)
+    }
+
+    let event = from === 'draft' ? 'version_published' : 'version_promoted'
+    if (to === 'deprecated' || to === 'retired') {
+      event = `version_${to}`
+    }
+    await this.auditLogger.logEvent({
+      api_id: apiId,
+      version,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: llmReason,
+      details: {
+        from,
+        to,
+        ...(metadata.sunset_date ? { sunset_date: metadata.sunset_date } : {}),
+        ...(notice || {}),
+      },
+    })
+
+    return metadata
+  }
+
+  /**
+   * Suggest a semver bump for a version
+   *
+   * @description Diffs the version against its base (default: its parent) and maps the result
+   * to a bump: breaking → major, additions → minor, docs-only → patch. Also says whether the
+   * version's tag is big enough a step from the base. SemVer, without the honor system. 🔢
+   */
+  private async handleSuggestBump(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'suggest_bump') {
+      throw createToolError('Invalid operation for handleSuggestBump', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const apiId = params.apiId as ApiId
+    const version = params.version as VersionTag
+    const baseVersion = (params.baseVersion ||
+      (await this.versionManager.getVersionMetadata(apiId, version)).parent_version) as VersionTag | null
+    if (!baseVersion) {
+      throw createValidationError(`${version} of ${apiId} has no parent version - pass baseVersion`, 'baseVersion')
+    }
+
+    const baseSpec = await this.specManager.loadSpec(apiId, baseVersion)
+    const spec = await this.specManager.loadSpec(apiId, version)
+    const diff = await this.diffCalculator.calculateDiff(baseSpec, spec)
+    const { bump, reasons } = suggestVersionBump(diff)
+
+    const suggestedVersion = parseVersionTag(baseVersion) ? bumpVersionTag(baseVersion, bump) : null
+    // Pre-releases of the suggested version count (v2.0.0-beta.1 is fine for a major bump)
+    const tagIsSufficient =
+      suggestedVersion && parseVersionTag(version)
+        ? compareVersionTags(version.replace(/[-+].*$/, ''), suggestedVersion) >= 0
+        : null
+
+    return this.success(`Suggested ${bump} bump for ${version} (from ${baseVersion})`, {
+      apiId,
+      version,
+      baseVersion,
+      bump,
+      reasons,
+      suggestedVersion,
+      tagIsSufficient,
+    })
+  }
+
+  /**
+   * Undo or redo edits to a draft version
+   *
+   * @description Every editing tool records its change as a JSON Patch pair; undo applies the
+   * inverse patches newest first, redo re-applies what was undone. A new edit clears the redo
+   * stack, and an edit whose spot in the spec has changed since refuses to undo rather than
+   * guess. Ctrl+Z, with an audit trail. ↩️
+   */
+  private async handleUndoRedo(params: VersionControlParams): Promise<ToolResult> {
+    if (params.operation !== 'undo' && params.operation !== 'redo') {
+      throw createToolError('Invalid operation for handleUndoRedo', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { operation, steps, llmReason } = params
+    const apiId = params.apiId as ApiId
+    const version = params.version as VersionTag
+    const options = { steps, user: 'mcp-tool', llmReason }
+    const result =
+      operation === 'undo'
+        ? await this.editHistory.undo(apiId, version, options)
+        : await this.editHistory.redo(apiId, version, options)
+
+    const verb = operation === 'undo' ? 'Undid' : 'Redid'
+    return this.success(
+      `${verb} ${result.applied.length} edit${result.applied.length === 1 ? '' : 's'} to ${version} of ${apiId}`,
+      {
+        apiId,
+        version,
+        applied: result.applied,
+        undoable: result.state.undo.length,
+        redoable: result.state.redo.length,
+        nextUndo: result.state.undo[0] || null,
+        nextRedo: result.state.redo[0] || null,
+      }
+    )
+  }
+
+  /**
+   * Newest semver version of an API (what `create` with `bump` starts from)
+   */
+  private async newestSemverVersion(apiId: ApiId): Promise<VersionTag> {
+    const versions = await this.versionManager.listVersions(apiId)
+    const newest = sortVersionTags(versions).find((tag) => parseVersionTag(tag))
+    if (!newest) {
+      throw createValidationError(`${apiId} has no semantic version to bump - pass version instead`, 'bump')
+    }
+    return newest
+  }
+
+  /**
+   * Nearest version both lineages share, following parent_version links
+   */
+  private async findCommonAncestor(apiId: ApiId, ours: VersionTag, theirs: VersionTag): Promise<VersionTag | null> {
+    const lineage = async (start: VersionTag): Promise<VersionTag[]> => {
+      const chain: VersionTag[] = []
+      let current: VersionTag | null = start
+      while (current && !chain.includes(current)) {
+        chain.push(current)
+        try {
+          current = (await this.versionManager.getVersionMetadata(apiId, current)).parent_version
+        } catch {
+          current = null
+        }
+      }
+      return chain
+    }
+
+    const ourLineage = await lineage(ours)
+    const theirLineage = await lineage(theirs)
+    return ourLineage.find((candidate) => theirLineage.includes(candidate)) || null
+  }
+
+  /**
+   * Ensure a version tag is not taken yet
+   */
+  private async assertVersionAvailable(apiId: ApiId, version: VersionTag): Promise<void> {
+    const apiMetadata = await this.versionManager.getApiMetadata(apiId)
+    if (apiMetadata.versions.includes(version)) {
+      throw createToolError(
+        `Version ${version} already exists for ${apiId}`,
+        'VALIDATION_ERROR',
+        { apiId, version }
+      )
+    }
+  }
+
+  /**
+   * Load the raw spec document of a version
+   */
+  private async loadSpecDocument(apiId: ApiId, version: VersionTag): Promise<SpecObject> {
+    return asSpecObject((await this.specManager.loadSpec(apiId, version)).spec)
+  }
+
+  /**
+   * Validate and store a converted spec as a new (non-current) version
+   *
+   * @description Writes the spec, registers the version and records the conversion in
+   * the version's ChangesSummary. Returns the version metadata.
+   */
+  private async saveConvertedVersion(
+    apiId: ApiId,
+    sourceVersion: VersionTag,
+    targetVersion: VersionTag,
+    result: ConversionResult,
+    description: string
+  ): Promise<VersionMetadata> {
+    // SwaggerParser dereferences in place, so validate a copy and keep the $refs intact
+    await this.specManager.validateSpec(structuredClone(result.spec))
+
+    await this.specManager.saveSpec(apiId, targetVersion, syncInfoVersion(result.spec, targetVersion))
+    await this.versionManager.addVersion(apiId, targetVersion, false)
+
+    const metadata: VersionMetadata = {
+      version: targetVersion,
+      created_at: new Date().toISOString(),
+      created_by: 'mcp-tool',
+      parent_version: sourceVersion,
+      state: 'draft',
+      description,
+      changes: {
+        endpoints_added: [],
+        endpoints_modified: [],
+        endpoints_deleted: [],
+        schemas_added: [],
+        schemas_modified: [],
+        schemas_deleted: [],
+        breaking_changes: [],
+        transformation: {
+          from: result.from,
+          to: result.to,
+          applied: result.applied,
+          warnings: result.warnings,
+        },
+      },
+      validation: {
+        spectral_errors: 0,
+        spectral_warnings: 0,
+        openapi_valid: true,
+      },
+      stats: calculateVersionStats(result.spec, yaml.dump(result.spec)),
+    }
+    await this.versionManager.createVersionMetadata(apiId, targetVersion, metadata)
+
+    return metadata
+  }
+
   /**
    * Describe the tool for MCP registration
    *
@@ -386,19 +1045,24 @@ export class VersionControlTool extends BaseTool {
     return {
       name: 'version_control',
       description:
-        'Manage API versions: list, create, compare, and delete versions. Handles version metadata, diffs between versions, and setting the current version. Your Swiss Army knife for API version management.',
+        'Manage API versions: list, create, compare, and delete versions. Lifecycle: versions start as editable drafts and move draft → beta → stable → deprecated → retired; publish freezes a draft, deprecate marks the spec deprecated with Deprecation/Sunset headers, set_state does any allowed transition. Versions are sorted by semver (pre-releases included); create can bump major/minor/patch, suggest_bump recommends the bump from the diff, and info.version follows the tag. Every edit by the editing tools is recorded as a JSON Patch pair; undo/redo step back and forth through the edits to a draft. Handles version metadata, diffs between versions, Markdown/HTML/JSON changelogs, three-way merges of diverging versions, setting the current version, converting Swagger 2.0 versions to OpenAPI 3.x, and moving versions between OpenAPI 3.0 and 3.1. Your Swiss Army knife for API version management.',
       inputSchema: {
         type: 'object',
         properties: {
           apiId: { type: 'string', description: 'API identifier (kebab-case)' },
           operation: {
             type: 'string',
-            enum: ['list', 'create', 'get', 'compare', 'set_current', 'delete'],
+            enum: ['list', 'create', 'get', 'compare', 'set_current', 'delete', 'convert', 'upgrade_openapi', 'changelog', 'merge', 'publish', 'deprecate', 'set_state', 'suggest_bump', 'undo', 'redo'],
             description: 'Version control operation to perform',
           },
           version: {
             type: 'string',
-            description: 'Version tag (format: v{major}.{minor}.{patch}) - required for create/get/set_current/delete',
+            description: 'Version tag (format: v{major}.{minor}.{patch}, optionally with a pre-release: v2.0.0-beta.1) - required for get/set_current/delete/convert/upgrade_openapi/publish/deprecate/set_state/suggest_bump/undo/redo, and for create unless bump is given; "ours" side for merge',
+          },
+          bump: {
+            type: 'string',
+            enum: ['major', 'minor', 'patch'],
+            description: 'Create the next major/minor/patch version after sourceVersion (default: newest version) instead of naming it (create, instead of version)',
           },
           sourceVersion: {
             type: 'string',
@@ -406,15 +1070,62 @@ export class VersionControlTool extends BaseTool {
           },
           description: {
             type: 'string',
-            description: 'Version description (optional for create)',
+            description: 'Version description (optional for create/convert/upgrade_openapi/merge)',
           },
           fromVersion: {
             type: 'string',
-            description: 'Starting version for comparison (required for compare)',
+            description: 'Starting version for comparison (required for compare/changelog)',
           },
           toVersion: {
             type: 'string',
-            description: 'Target version for comparison (required for compare)',
+            description: 'Target version for comparison (required for compare/changelog)',
+          },
+          format: {
+            type: 'string',
+            enum: ['markdown', 'html', 'json'],
+            description: 'Changelog output format (optional for changelog, default: markdown)',
+          },
+          groupBy: {
+            type: 'string',
+            enum: ['tag', 'endpoint'],
+            description: 'Group changelog entries by operation tag or endpoint (optional for changelog, default: tag)',
+          },
+          targetVersion: {
+            type: 'string',
+            description: 'New version tag to write the converted or merged spec to (required for convert/upgrade_openapi/merge)',
+          },
+          theirsVersion: {
+            type: 'string',
+            description: 'Version to merge into "version" (required for merge)',
+          },
+          baseVersion: {
+            type: 'string',
+            description: 'Common ancestor for merge, or version to diff against for suggest_bump (optional, parent_version when omitted)',
+          },
+          resolution: {
+            type: 'string',
+            enum: ['ours', 'theirs'],
+            description: 'Side that wins conflicting changes (optional for merge; without it conflicts are returned and nothing is written)',
+          },
+          state: {
+            type: 'string',
+            enum: ['draft', 'beta', 'stable', 'deprecated', 'retired'],
+            description: 'Lifecycle state (required for set_state; optional for publish: beta or stable, default stable)',
+          },
+          sunsetDate: {
+            type: 'string',
+            description: 'ISO 8601 date the version stops working, documented as the Sunset header (optional for deprecate/set_state to deprecated)',
+          },
+          steps: {
+            type: 'number',
+            minimum: 1,
+            maximum: 100,
+            description: 'Number of edits to undo or redo (optional for undo/redo, default: 1)',
+          },
+          openapiVersion: {
+            type: 'string',
+            enum: ['3.0', '3.1'],
+            description: 'Target OpenAPI version: optional for convert (default: 3.0), required for upgrade_openapi (3.1 upgrades, 3.0 downgrades)',
           },
           llmReason: {
             type: 'string',
@@ -0,0 +1,201 @@
+/**
+ * Webhooks Manage Tool
+ *
+ * @description Manages top-level `webhooks` (OpenAPI 3.1): the requests your API sends
+ * when something happens. Endpoints, but the phone rings the other way. 🔔
+ */
+
+import { BaseTool } from '../types/mcp-tool.js'
+import type { ToolResult } from '../types/mcp-tool.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { ApiId, SpecObject, VersionTag } from '../types/openapi.js'
+import type { SpecManager } from '../services/spec-manager.js'
+import type { AuditLogger } from '../services/audit-logger.js'
+import { createToolError, toolErrorContext } from '../utils/errors.js'
+import { resolveLocalRef } from '../utils/refs.js'
+import { operationMethods, webhookPathItems } from '../utils/webhooks.js'
+import { webhooksManageSchema, type WebhooksManageParams } from './schemas/webhooks-manage-schema.js'
+
+export class WebhooksManageTool extends BaseTool {
+  constructor(
+    private specManager: SpecManager,
+    private auditLogger: AuditLogger
+  ) {
+    super()
+  }
+
+  async execute(params: WebhooksManageParams): Promise<ToolResult> {
+    this.validate(params, webhooksManageSchema)
+
+    try {
+      switch (params.operation) {
+        case 'list':
+          return await this.handleList(params)
+        case 'add':
+          return await this.handleAdd(params)
+        case 'update':
+          return await this.handleUpdate(params)
+        case 'delete':
+          return await this.handleDelete(params)
+        default:
+          throw createToolError('Unknown operation', 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+    } catch (error) {
+      throw createToolError(
+        `Webhooks manage failed: ${(error as Error).message}`,
+        'TOOL_ERROR',
+        { apiId: params.apiId, operation: params.operation }
+      )
+    }
+  }
+
+  private async handleList(params: WebhooksManageParams): Promise<ToolResult> {
+    const spec = await this.load(params)
+
+    const declared = asSpecObject(spec.webhooks)
+    const webhooks = [...webhookPathItems(spec)].map(([name, pathItem]) => ({
+      name,
+      ref: asSpecObject(declared[name]).$ref,
+      operations: operationMethods(pathItem).map((method) => {
+        const { operationId, summary } = asSpecObject(pathItem[method])
+        return { method: method.toUpperCase(), operationId, summary }
+      }),
+    }))
+
+    return this.success(`Found ${webhooks.length} webhooks`, { count: webhooks.length, webhooks })
+  }
+
+  private async handleAdd(params: WebhooksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'add') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { webhookName, method, operationObject } = params
+    const spec = await this.load(params)
+    const webhooks = asSpecObject(spec.webhooks)
+    spec.webhooks = webhooks
+    webhooks[webhookName] = webhooks[webhookName] || {}
+
+    const pathItem = this.resolve(spec, webhookName)
+    const key = method.toLowerCase()
+    if (pathItem[key]) {
+      throw createToolError(`Webhook ${method} ${webhookName} already exists`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    pathItem[key] = operationObject
+
+    await this.save(params, spec, 'webhook_added', { webhookName, method })
+    return this.success(`Added webhook ${method} ${webhookName}`, { webhookName, method, operation: operationObject })
+  }
+
+  private async handleUpdate(params: WebhooksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'update') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { webhookName, method, updates } = params
+    const spec = await this.load(params)
+    const operation = this.resolve(spec, webhookName)[method.toLowerCase()]
+    if (!isSpecObject(operation)) {
+      throw createToolError(`Webhook ${method} ${webhookName} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+    Object.assign(operation, updates)
+
+    await this.save(params, spec, 'webhook_updated', { webhookName, method, updates })
+    return this.success(`Updated webhook ${method} ${webhookName}`, { webhookName, method, operation })
+  }
+
+  /**
+   * Deletes one webhook operation, or the whole webhook when no method is given
+   */
+  private async handleDelete(params: WebhooksManageParams): Promise<ToolResult> {
+    if (params.operation !== 'delete') {
+      throw createToolError('Invalid operation', 'VALIDATION_ERROR', toolErrorContext(params))
+    }
+
+    const { webhookName, method } = params
+    const spec = await this.load(params)
+    const pathItem = this.resolve(spec, webhookName)
+
+    if (method) {
+      if (!pathItem[method.toLowerCase()]) {
+        throw createToolError(`Webhook ${method} ${webhookName} not found`, 'VALIDATION_ERROR', toolErrorContext(params))
+      }
+      delete pathItem[method.toLowerCase()]
+    }
+    // A webhook without operations documents nothing (a referenced path item stays in components)
+    const webhooks = asSpecObject(spec.webhooks)
+    if (!method || operationMethods(pathItem).length === 0) delete webhooks[webhookName]
+    if (Object.keys(webhooks).length === 0) delete spec.webhooks
+
+    await this.save(params, spec, 'webhook_deleted', { webhookName, method })
+    const label = method ? `${method} ${webhookName}` : webhookName
+    return this.success(`Deleted webhook ${label}`, { webhookName, method })
+  }
+
+  private async load(params: WebhooksManageParams): Promise<SpecObject> {
+    const doc = await this.specManager.loadSpec(params.apiId as ApiId, params.version as VersionTag)
+    const spec = asSpecObject(doc.spec)
+    if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.1')) {
+      throw createToolError(
+        'Webhooks need OpenAPI 3.1 - upgrade the version with version_control upgrade_openapi, or use callbacks_manage',
+        'VALIDATION_ERROR',
+        toolErrorContext(params)
+      )
+    }
+    return spec
+  }
+
+  /**
+   * The webhook's path item - for a `$ref` that's the shared components/pathItems entry
+   */
+  private resolve(spec: SpecObject, webhookName: string): SpecObject {
+    const webhook = asSpecObject(spec.webhooks)[webhookName]
+    if (!isSpecObject(webhook)) {
+      throw createToolError(`Webhook ${webhookName} not found`, 'VALIDATION_ERROR', { webhookName })
+    }
+    const pathItem = resolveLocalRef(spec, webhook)
+    if (!isSpecObject(pathItem)) {
+      throw createToolError(
+        `Cannot resolve webhook reference ${webhook.$ref}`,
+        'VALIDATION_ERROR',
+        { webhookName }
+      )
+    }
+    return pathItem
+  }
+
+  private async save(params: WebhooksManageParams, spec: SpecObject, event: string, details: Record<string, unknown>): Promise<void> {
+    const edit = await this.specManager.saveSpec(params.apiId as ApiId, params.version as VersionTag, spec)
+    await this.auditLogger.logEvent({
+      api_id: params.apiId as ApiId,
+      version: params.version as VersionTag,
+      event,
+      user: 'mcp-tool',
+      timestamp: new Date().toISOString(),
+      llm_reason: params.llmReason,
+      details: { ...details, ...edit },
+    })
+  }
+
+  describe() {
+    return {
+      name: 'webhooks_manage',
+      description:
+        'Manage top-level webhooks (OpenAPI 3.1): list, add, update and delete webhook operations - requests the API sends to subscribers. Delete without method removes the whole webhook. For OpenAPI 3.0 use callbacks_manage.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          apiId: { type: 'string' },
+          version: { type: 'string' },
+          operation: { type: 'string', enum: ['list', 'add', 'update', 'delete'] },
+          webhookName: { type: 'string', description: 'Webhook name, e.g. newPet' },
+          method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'] },
+          operationObject: { type: 'object', description: 'Operation object (add): requestBody, responses, summary, ...' },
+          updates: { type: 'object', description: 'Operation fields to change (update)' },
+          llmReason: { type: 'string' },
+        },
+        required: ['apiId', 'version', 'operation'],
+      },
+    }
+  }
+}
@@ -9,6 +9,45 @@
  */
 
 import type { ApiId, VersionTag } from './openapi.js'
+import type { JsonPatchOperation } from '../utils/json-patch.js'
+import { createValidationError } from '../utils/errors.js'
+
+/**
+ * How much a change should worry API consumers
+ */
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'unclassified'
+
+/**
+ * A single spec change labelled by the breaking-change rules
+ * @description One line in the "what did you do to my API" report, with a rule id you can grep for
+ */
+export interface ClassifiedChange {
+  /** Stable rule identifier (e.g. 'request-parameter-added-required') */
+  rule: string
+  /** Severity assigned by the rule */
+  severity: ChangeSeverity
+  /** Human-readable description */
+  message: string
+  /** Affected operation (e.g. 'GET /users/{id}') */
+  endpoint?: string
+  /** Affected component schema name */
+  schema?: string
+}
+
+/**
+ * Record of an OpenAPI dialect conversion
+ * @description What we rewrote when moving a spec between OpenAPI versions. The moving company's inventory list. 📦
+ */
+export interface SpecTransformation {
+  /** Source OpenAPI version */
+  from: '2.0' | '3.0' | '3.1'
+  /** Target OpenAPI version */
+  to: '3.0' | '3.1'
+  /** Rewrites that were applied, with the location they were applied at */
+  applied: string[]
+  /** Constructs that could not be converted faithfully */
+  warnings: string[]
+}
 
 /**
  * Changes summary for version comparison
@@ -27,8 +66,39 @@ export interface ChangesSummary {
   schemas_modified: string[]
   /** Schemas that were deleted */
   schemas_deleted: string[]
+  /** Webhook operations that were added (OpenAPI 3.1) */
+  webhooks_added?: string[]
+  /** Webhook operations that were modified */
+  webhooks_modified?: string[]
+  /** Webhook operations that were deleted */
+  webhooks_deleted?: string[]
+  /** Callback operations that were added */
+  callbacks_added?: string[]
+  /** Callback operations that were modified */
+  callbacks_modified?: string[]
+  /** Callback operations that were deleted */
+  callbacks_deleted?: string[]
   /** Breaking changes detected (uh oh) */
-  breaking_changes: string[]
+  breaking_changes: ClassifiedChange[]
+  /** Dialect conversion applied to produce this version (convert/upgrade_openapi only) */
+  transformation?: SpecTransformation
+}
+
+/**
+ * Record of a three-way merge
+ * @description Where a merged version came from. Family tree with two parents, one grandparent. 🌳
+ */
+export interface MergeRecord {
+  /** Common ancestor */
+  base: VersionTag
+  /** Our side (also the version's parent_version) */
+  ours: VersionTag
+  /** Their side */
+  theirs: VersionTag
+  /** Number of conflicts that had to be resolved */
+  conflicts: number
+  /** Side that won the conflicts, if there were any */
+  resolution?: 'ours' | 'theirs'
 }
 
 /**
@@ -65,6 +135,72 @@ export interface VersionStats {
   security_schemes_count?: number
   /** Number of tags */
   tags_count?: number
+  /** Number of webhook operations (OpenAPI 3.1) */
+  webhook_count?: number
+  /** Number of callback operations */
+  callback_count?: number
+}
+
+/**
+ * Lifecycle states a version moves through
+ * @description draft → beta → stable → deprecated → retired. Only drafts are editable;
+ * everything past draft is frozen. Versions from before states existed count as drafts.
+ */
+export const VERSION_STATES = ['draft', 'beta', 'stable', 'deprecated', 'retired'] as const
+
+/**
+ * Where a version stands in its lifecycle
+ */
+export type VersionState = (typeof VERSION_STATES)[number]
+
+/**
+ * Allowed lifecycle transitions
+ * @description No way back: a version consumers have seen can't turn into a draft again,
+ * and a deprecation notice, once announced, isn't taken back.
+ */
+export const VERSION_TRANSITIONS: Record<VersionState, VersionState[]> = {
+  draft: ['beta', 'stable'],
+  beta: ['stable', 'deprecated'],
+  stable: ['deprecated'],
+  deprecated: ['retired'],
+  retired: [],
+}
+
+/**
+ * Lifecycle state of a version
+ * @param state - Stored state (missing = draft)
+ * @throws ValidationError if the stored state isn't one of VERSION_STATES
+ */
+export function versionStateOf(state?: string): VersionState {
+  if (!state) return 'draft'
+  if (!(VERSION_STATES as readonly string[]).includes(state)) {
+    throw createValidationError(`Unknown version state "${state}"`, 'state', VERSION_STATES.join('|'), state)
+  }
+  return state as VersionState
+}
+
+/**
+ * Whether a version's spec may still be edited
+ * @param state - Stored state (missing = draft)
+ */
+export function isVersionMutable(state?: string): boolean {
+  return versionStateOf(state) === 'draft'
+}
+
+/**
+ * One step in a version's lifecycle
+ */
+export interface LifecycleTransition {
+  /** State before */
+  from: VersionState
+  /** State after */
+  to: VersionState
+  /** When it happened */
+  at: string // ISO 8601 format
+  /** Who did it */
+  by: string
+  /** Why (LLM reason or free text) */
+  reason?: string
 }
 
 /**
@@ -90,6 +226,22 @@ export interface VersionMetadata {
   stats: VersionStats
   /** Optional tags (e.g., 'production', 'stable', 'beta') */
   tags?: string[]
+  /** Set when this version was produced by a three-way merge */
+  merge?: MergeRecord
+  /** Lifecycle state (missing = draft) */
+  state?: VersionState
+  /** When this version left the draft state (and was frozen) */
+  published_at?: string
+  /** Who took this version out of draft */
+  published_by?: string
+  /** When this version was deprecated */
+  deprecated_at?: string
+  /** When this version stops working (announced in the Sunset header) */
+  sunset_date?: string
+  /** When this version was retired */
+  retired_at?: string
+  /** Every lifecycle transition, oldest first */
+  lifecycle?: LifecycleTransition[]
 }
 
 /**
@@ -131,8 +283,8 @@ export interface ApiMetadata {
   current_version: VersionTag
   /** All available versions (sorted newest first) */
   versions: VersionTag[]
-  /** Latest stable version */
-  latest_stable: VersionTag
+  /** Newest version in the stable state (unset until a version is made stable) */
+  latest_stable?: VersionTag
   /** Owner/team responsible for this API */
   owner: string
   /** Optional tags for organization */
@@ -165,6 +317,19 @@ export interface AuditEvent {
   details?: Record<string, unknown>
 }
 
+/**
+ * A spec edit as JSON Patch, recorded in the audit event's details
+ * @description Forward to redo it, inverse to undo it. The edit's receipt, refundable. 🧾
+ */
+export interface SpecEdit {
+  /** Identifies the edit for undo/redo */
+  edit_id: string
+  /** RFC 6902 patch from the spec before to the spec after */
+  patch: JsonPatchOperation[]
+  /** RFC 6902 patch from the spec after back to the spec before */
+  inverse_patch: JsonPatchOperation[]
+}
+
 /**
  * Filters for querying audit log
  * @description For when you need to find that one specific change in 10,000 events
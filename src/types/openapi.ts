@@ -53,6 +53,30 @@ export interface SwaggerV2Document {
   [key: string]: unknown
 }
 
+/**
+ * Any JSON object inside a spec
+ * @description Schemas, operations, path items, media types... whatever a walk over the raw
+ * document lands on. Narrow it with `isSpecObject` before poking at it.
+ */
+export type SpecObject = Record<string, unknown>
+
+/**
+ * Type guard for a JSON object (not an array, not null)
+ * @param value - Whatever was found in the spec
+ * @returns True if the value is a SpecObject
+ */
+export function isSpecObject(value: unknown): value is SpecObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * The value as a SpecObject, or an empty one if it isn't an object
+ * @description For optional maps like `components.schemas` that are fine to walk when missing
+ */
+export function asSpecObject(value: unknown): SpecObject {
+  return isSpecObject(value) ? value : {}
+}
+
 /**
  * Type guard to check if spec is OpenAPI 3.0
  * @param spec - The spec to check
@@ -138,17 +162,18 @@ export function createApiId(id: string): ApiId {
  * @returns A branded VersionTag
  * @throws Error if the version format is invalid
  * @description Validates version format (semantic versioning or timestamp).
- * Accepts v1.2.3 (semver) or v20250109-120000 (timestamp).
+ * Accepts v1.2.3 (semver, with optional pre-release and build: v1.2.3-beta.1+build.5)
+ * or v20250109-120000 (timestamp).
  */
 export function createVersionTag(version: string): VersionTag {
-  // Semver format: v1.2.3
-  const semverPattern = /^v\d+\.\d+\.\d+$/
+  // Semver format: v1.2.3, v1.2.3-rc.1, v1.2.3+build.5
+  const semverPattern = /^v\d+\.\d+\.\d+(-[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?(\+[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?$/
   // Timestamp format: v20250109-120000
   const timestampPattern = /^v\d{8}-\d{6}$/
 
   if (!semverPattern.test(version) && !timestampPattern.test(version)) {
     throw new Error(
-      `Invalid version format: "${version}". Must be semantic (v1.2.3) or timestamp (v20250109-120000).`
+      `Invalid version format: "${version}". Must be semantic (v1.2.3, v1.2.3-beta.1) or timestamp (v20250109-120000).`
     )
   }
   return version as VersionTag
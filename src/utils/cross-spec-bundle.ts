@@ -0,0 +1,195 @@
+/**
+ * Cross-Spec Bundling
+ *
+ * @description Replaces refs into other specs (`shared-api@v1.0.0#/components/schemas/Error`)
+ * with local content, so the document stands on its own. Packing for a trip: everything
+ * you borrowed goes in the suitcase. 🧳
+ *
+ * @module utils/cross-spec-bundle
+ */
+
+import { createReferenceError } from './errors.js'
+import { escapePointerToken, getByPointer } from './json-patch.js'
+import { componentRef, crossSpecRef, parseCrossSpecRef, type CrossSpecRef } from './refs.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+
+/**
+ * A component copied into a document by bundling
+ */
+export interface BundledComponent {
+  /** The cross-spec ref it came from */
+  ref: string
+  componentType: string
+  /** Name in the bundled document (prefixed with the API when the original name was taken) */
+  componentName: string
+}
+
+/**
+ * A bundled document and what went into it
+ */
+export interface BundleResult {
+  spec: Record<string, any>
+  /** Components copied into `components` */
+  imported: BundledComponent[]
+  /** Cross-spec refs to something other than a component, replaced by a copy of the target */
+  inlined: string[]
+}
+
+/**
+ * Loads the spec a cross-spec ref points into (undefined if there is none)
+ */
+export type SpecLoader = (target: CrossSpecRef) => Promise<SpecObject | undefined>
+
+const COMPONENT_POINTER = /^(\/components\/[^/]+\/[^/]+)(\/.*)?$/
+
+const pascalCase = (apiId: string): string =>
+  apiId
+    .split('-')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('')
+
+/**
+ * Maps items one at a time, in order - bundling reserves component names in document order
+ */
+function mapInOrder<T, R>(items: T[], map: (item: T) => Promise<R>): Promise<R[]> {
+  return items.reduce<Promise<R[]>>(async (done, item) => [...(await done), await map(item)], Promise.resolve([]))
+}
+
+/**
+ * One bundling run - the state of copying other specs' content into a document
+ */
+class SpecBundler {
+  private importedComponents: Record<string, Record<string, unknown>> = {}
+  private localRefs = new Map<string, string>()
+  private imported: BundledComponent[] = []
+  private inlined: string[] = []
+  private spec: SpecObject
+  private load: SpecLoader
+
+  constructor(spec: SpecObject, load: SpecLoader) {
+    this.spec = spec
+    this.load = load
+  }
+
+  async run(): Promise<BundleResult> {
+    const bundled = asSpecObject(await this.rewrite(this.spec))
+    if (this.imported.length > 0) {
+      const components = asSpecObject(bundled.components)
+      bundled.components = Object.fromEntries([
+        ...Object.entries(components),
+        ...Object.entries(this.importedComponents).map(([type, entries]) => [type, { ...asSpecObject(components[type]), ...entries }]),
+      ])
+    }
+    return { spec: bundled, imported: this.imported, inlined: this.inlined }
+  }
+
+  /**
+   * A copy of a node with its cross-spec refs replaced
+   * @param source - The spec the node was copied from; its local refs mean that spec
+   */
+  private async rewrite(node: unknown, source?: CrossSpecRef): Promise<unknown> {
+    if (Array.isArray(node)) return mapInOrder(node, (item) => this.rewrite(item, source))
+    if (!isSpecObject(node)) return node
+
+    const object: SpecObject = Object.fromEntries(
+      await mapInOrder(Object.entries(node), async ([key, value]) => [key, key === '$ref' ? value : await this.rewrite(value, source)])
+    )
+
+    const { mapping } = asSpecObject(object.discriminator)
+    if (isSpecObject(mapping)) {
+      await mapInOrder(Object.entries(mapping), async ([value, ref]) => {
+        if (typeof ref !== 'string') return
+        // Bare names are schema names - of the source spec, inside copied content
+        const target = ref.includes('/')
+          ? this.targetOf(ref, source)
+          : source && { ...source, pointer: `/components/schemas/${escapePointerToken(ref)}` }
+        const local = target && (await this.localize(target))
+        if (typeof local === 'string') mapping[value] = local
+      })
+    }
+
+    const target = typeof object.$ref === 'string' ? this.targetOf(object.$ref, source) : undefined
+    if (!target) return object
+    const local = await this.localize(target)
+    if (typeof local === 'string') return { ...object, $ref: local }
+    // $ref siblings (3.1 summary/description overrides) win over the copied target's own fields
+    const siblings = { ...object }
+    delete siblings.$ref
+    return { ...local, ...siblings }
+  }
+
+  private targetOf(ref: string, source?: CrossSpecRef): CrossSpecRef | undefined {
+    const cross = parseCrossSpecRef(ref)
+    if (cross) return cross
+    return source && ref.startsWith('#') ? { ...source, pointer: ref.slice(1) } : undefined
+  }
+
+  /**
+   * A local ref for components (and anything inside one), a copy of the target for everything else
+   */
+  private async localize(target: CrossSpecRef): Promise<string | SpecObject> {
+    const match = COMPONENT_POINTER.exec(target.pointer)
+    if (match) {
+      return (await this.importComponent({ ...target, pointer: match[1] })) + (match[2] ?? '')
+    }
+    this.inlined.push(crossSpecRef(target))
+    return asSpecObject(await this.rewrite(structuredClone(await this.resolve(target)), target))
+  }
+
+  private async importComponent(target: CrossSpecRef): Promise<string> {
+    const key = crossSpecRef(target)
+    const known = this.localRefs.get(key)
+    if (known) return known
+
+    const value = await this.resolve(target)
+    const [, , type, token] = target.pointer.split('/')
+    const name = token.replace(/~1/g, '/').replace(/~0/g, '~')
+    const prefix = pascalCase(target.apiId)
+    let localName = this.isTaken(type, name) ? `${prefix}${name}` : name
+    let suffix = 2
+    while (this.isTaken(type, localName)) {
+      localName = `${prefix}${name}${suffix}`
+      suffix += 1
+    }
+
+    // Reserve the name before following the component's own refs - they may lead back here
+    const local = componentRef(type, localName)
+    this.localRefs.set(key, local)
+    this.importedComponents[type] = this.importedComponents[type] || {}
+    this.importedComponents[type][localName] = {}
+    this.importedComponents[type][localName] = await this.rewrite(structuredClone(value), target)
+    this.imported.push({ ref: key, componentType: type, componentName: localName })
+    return local
+  }
+
+  private isTaken(type: string, name: string): boolean {
+    const local = asSpecObject(asSpecObject(this.spec.components)[type])
+    return local[name] !== undefined || this.importedComponents[type]?.[name] !== undefined
+  }
+
+  private async resolve(target: CrossSpecRef): Promise<unknown> {
+    const source = await this.load(target)
+    const value = source ? getByPointer(source, target.pointer) : undefined
+    if (value === undefined) {
+      throw createReferenceError(`Cannot resolve ${crossSpecRef(target)}`, crossSpecRef(target))
+    }
+    return value
+  }
+}
+
+/**
+ * Replaces every cross-spec ref in a document with local content
+ * @param spec - OpenAPI 3.x document (not modified)
+ * @param load - Loads referenced specs
+ * @returns The bundled copy and what was copied in
+ * @throws ReferenceError if a cross-spec ref can't be resolved
+ * @description Referenced components are copied into `components` and the refs pointed at
+ * the copies, so shared schemas stay shared within the document. Their own refs - local
+ * ones included, which meant the other spec - are followed the same way. Refs to anything
+ * that isn't a component (say, a path item) are replaced by a copy of the target.
+ */
+export function bundleCrossSpecRefs(spec: object, load: SpecLoader): Promise<BundleResult> {
+  return new SpecBundler(asSpecObject(spec), load).run()
+}
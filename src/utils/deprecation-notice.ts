@@ -0,0 +1,123 @@
+/**
+ * Deprecation Notice Utilities
+ *
+ * @description Writes a version's deprecation into the spec itself: every operation gets
+ * `deprecated: true` and every response documents the `Deprecation` (RFC 9745) and
+ * `Sunset` (RFC 8594) headers. So client generators and doc viewers see the news too,
+ * not just people who read the changelog. 🌅
+ *
+ * @module utils/deprecation-notice
+ */
+
+import { HTTP_METHODS } from './http-methods.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+
+/**
+ * When the version was deprecated and when it goes away
+ */
+export interface DeprecationNotice {
+  /** When the version was deprecated (ISO 8601) */
+  deprecatedAt: string
+  /** When the version stops working (ISO 8601) - no Sunset header without it */
+  sunsetDate?: string
+}
+
+/**
+ * What applyDeprecationNotice changed
+ */
+export interface DeprecationNoticeResult {
+  /** Operations newly marked `deprecated: true` */
+  operations_deprecated: number
+  /** Responses that got the headers documented */
+  responses_annotated: number
+}
+
+/**
+ * Header objects for the notice, in the shape the spec's OpenAPI version wants
+ */
+function deprecationHeaders(notice: DeprecationNotice, swagger2: boolean): Record<string, Record<string, unknown>> {
+  const header = (description: string, example: string) =>
+    swagger2
+      ? { description, type: 'string', 'x-example': example }
+      : { description, schema: { type: 'string' }, example }
+
+  const deprecatedAt = new Date(notice.deprecatedAt)
+  const headers: Record<string, Record<string, unknown>> = {
+    Deprecation: header(
+      `This API version is deprecated since ${deprecatedAt.toISOString().slice(0, 10)} (RFC 9745).`,
+      `@${Math.floor(deprecatedAt.getTime() / 1000)}`
+    ),
+  }
+  if (notice.sunsetDate) {
+    const sunset = new Date(notice.sunsetDate)
+    headers.Sunset = header(
+      `This API version stops working on ${sunset.toISOString().slice(0, 10)} (RFC 8594).`,
+      sunset.toUTCString()
+    )
+  }
+  return headers
+}
+
+/**
+ * Marks a spec as deprecated, in place
+ * @param spec - OpenAPI 3.x or Swagger 2.0 document (mutated)
+ * @param notice - Deprecation and sunset dates
+ * @returns Counts of what changed
+ * @description OpenAPI 3.x specs get the headers once in `components.headers` and `$ref`s
+ * from each response; Swagger 2.0 has no reusable headers, so they're inlined. Responses
+ * that are `$ref`s are annotated at their component. The dates also land in
+ * `info.x-lifecycle` for tools that want them without parsing header descriptions.
+ */
+export function applyDeprecationNotice(spec: object, notice: DeprecationNotice): DeprecationNoticeResult {
+  const doc = asSpecObject(spec)
+  const swagger2 = typeof doc.swagger === 'string'
+  const headers = deprecationHeaders(notice, swagger2)
+  const result: DeprecationNoticeResult = { operations_deprecated: 0, responses_annotated: 0 }
+
+  let headerRefs: Record<string, unknown> = headers
+  if (!swagger2) {
+    const components = asSpecObject(doc.components)
+    components.headers = { ...asSpecObject(components.headers), ...headers }
+    doc.components = components
+    headerRefs = Object.fromEntries(Object.keys(headers).map((name) => [name, { $ref: `#/components/headers/${name}` }]))
+  }
+
+  const responseComponents = asSpecObject(swagger2 ? doc.responses : asSpecObject(doc.components).responses)
+  const annotated = new Set<SpecObject>()
+  const annotate = (response: unknown) => {
+    if (!isSpecObject(response)) return
+    if (typeof response.$ref === 'string') {
+      const match = /^#\/(?:components\/responses|responses)\/(.+)$/.exec(response.$ref)
+      if (match) annotate(responseComponents[match[1]])
+      return
+    }
+    if (annotated.has(response)) return
+    annotated.add(response)
+    Object.assign(response, { headers: { ...asSpecObject(response.headers), ...headerRefs } })
+    result.responses_annotated += 1
+  }
+
+  Object.values(asSpecObject(doc.paths)).forEach((pathItem) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = asSpecObject(pathItem)[method]
+      if (!isSpecObject(operation)) return
+      if (operation.deprecated !== true) {
+        operation.deprecated = true
+        result.operations_deprecated += 1
+      }
+      Object.values(asSpecObject(operation.responses)).forEach((response) => annotate(response))
+    })
+  })
+
+  doc.info = {
+    ...asSpecObject(doc.info),
+    'x-lifecycle': {
+      state: 'deprecated',
+      deprecated_at: notice.deprecatedAt,
+      ...(notice.sunsetDate ? { sunset_date: notice.sunsetDate } : {}),
+    },
+  }
+
+  return result
+}
@@ -189,6 +189,26 @@ export function createToolError(
   return new ToolError(message, { tool_name: toolName, params, cause })
 }
 
+/**
+ * Which call a tool was handling, for the `params` of a ToolError
+ */
+export interface ToolErrorContext extends Record<string, unknown> {
+  apiId?: string
+  version?: string
+  operation?: string
+}
+
+/**
+ * Picks the identifying part of a tool call for a ToolError
+ * @param params - The validated tool parameters
+ * @returns apiId, version and operation - enough to find the call again, without echoing whole payloads
+ * @example throw createToolError('Tag pets not found', 'VALIDATION_ERROR', toolErrorContext(params))
+ */
+export function toolErrorContext(params: { apiId?: string; version?: string; operation?: string }): ToolErrorContext {
+  const { apiId, version, operation } = params
+  return { apiId, version, operation }
+}
+
 /**
  * Creates a ReferenceError with helpful details
  * @param message - Error message
@@ -0,0 +1,24 @@
+/**
+ * HTTP Method Utilities
+ *
+ * @description The one list of methods that count as operations on a path item. It used to be
+ * copied into every file that walks paths, and the copies drifted - TRACE kept going missing. 🚦
+ *
+ * @module utils/http-methods
+ */
+
+/**
+ * HTTP methods that count as operations on a path item (OpenAPI 3.x; Swagger 2.0 has no `trace`)
+ */
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const
+
+export type HttpMethod = (typeof HTTP_METHODS)[number]
+
+/**
+ * Whether a path item key is an operation
+ * @example isHttpMethod('get') // true
+ * @example isHttpMethod('parameters') // false
+ */
+export function isHttpMethod(key: string): key is HttpMethod {
+  return (HTTP_METHODS as readonly string[]).includes(key)
+}
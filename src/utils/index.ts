@@ -16,3 +16,6 @@ export * from './errors.js'
 // Validation
 export * from './validation.js'
 
+
+// Spec statistics
+export * from './spec-stats.js'
@@ -0,0 +1,191 @@
+/**
+ * Inline Component Utilities
+ *
+ * @description Finds inline schemas, parameters and responses - the things that could be
+ * components but were copy-pasted into five operations instead - and groups the ones that
+ * are structurally identical. Spotting the twins is step one of any good refactoring. 👯
+ *
+ * @module utils/inline-components
+ */
+
+import { escapePointerToken } from './json-patch.js'
+import { HTTP_METHODS } from './http-methods.js'
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+
+/**
+ * Component kinds the extract/inline refactorings work on
+ */
+export const EXTRACTABLE_TYPES = ['schemas', 'parameters', 'responses'] as const
+
+export type ExtractableType = (typeof EXTRACTABLE_TYPES)[number]
+
+/**
+ * An inline (non-$ref) schema, parameter or response
+ */
+export interface InlineCandidate {
+  kind: ExtractableType
+  /** JSON Pointer to the inline object */
+  pointer: string
+  value: SpecObject
+  /** Structural fingerprint: JSON with sorted keys */
+  fingerprint: string
+}
+
+const COMPOSITION_KEYWORDS = ['allOf', 'oneOf', 'anyOf']
+
+const NESTED_SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not']
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : [])
+
+/**
+ * JSON with object keys sorted, so key order doesn't make two schemas "different"
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (isSpecObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Collects every inline schema, parameter and response of a document
+ * @description Schemas are collected wherever they can appear (parameters, media types,
+ * headers, nested properties/items/compositions, and inside component schemas); component
+ * roots themselves are not candidates - they already are components.
+ */
+export function collectInlineCandidates(spec: unknown): InlineCandidate[] {
+  const doc = asSpecObject(spec)
+  const candidates: InlineCandidate[] = []
+  const add = (kind: ExtractableType, value: SpecObject, pointer: string) => {
+    candidates.push({ kind, pointer, value, fingerprint: canonicalJson(value) })
+  }
+  const eachEntry = (map: unknown, pointer: string, visit: (value: unknown, at: string) => void) => {
+    Object.entries(asSpecObject(map)).forEach(([key, value]) => visit(value, `${pointer}/${escapePointerToken(key)}`))
+  }
+
+  const visitSchema = (schema: unknown, pointer: string, isRoot = false) => {
+    if (!isSpecObject(schema) || typeof schema.$ref === 'string') return
+    if (!isRoot) add('schemas', schema, pointer)
+    eachEntry(schema.properties, `${pointer}/properties`, (property, at) => visitSchema(property, at))
+    NESTED_SCHEMA_KEYWORDS.forEach((keyword) => visitSchema(schema[keyword], `${pointer}/${keyword}`))
+    COMPOSITION_KEYWORDS.forEach((keyword) => {
+      listOf(schema[keyword]).forEach((member, index) => visitSchema(member, `${pointer}/${keyword}/${index}`))
+    })
+  }
+  const visitContent = (content: unknown, pointer: string) => {
+    eachEntry(content, pointer, (media, at) => visitSchema(asSpecObject(media).schema, `${at}/schema`))
+  }
+  const visitHeaders = (headers: unknown, pointer: string) => {
+    eachEntry(headers, pointer, (header, at) => visitSchema(asSpecObject(header).schema, `${at}/schema`))
+  }
+  const visitParameter = (parameter: unknown, pointer: string, asCandidate: boolean) => {
+    if (!isSpecObject(parameter) || typeof parameter.$ref === 'string') return
+    if (asCandidate) add('parameters', parameter, pointer)
+    visitSchema(parameter.schema, `${pointer}/schema`)
+    visitContent(parameter.content, `${pointer}/content`)
+  }
+  const visitResponse = (response: unknown, pointer: string, asCandidate: boolean) => {
+    if (!isSpecObject(response) || typeof response.$ref === 'string') return
+    if (asCandidate) add('responses', response, pointer)
+    visitContent(response.content, `${pointer}/content`)
+    visitHeaders(response.headers, `${pointer}/headers`)
+  }
+  const visitParameters = (parameters: unknown, pointer: string) => {
+    listOf(parameters).forEach((parameter, index) => visitParameter(parameter, `${pointer}/parameters/${index}`, true))
+  }
+  const visitPathItem = (value: unknown, pointer: string) => {
+    const pathItem = asSpecObject(value)
+    visitParameters(pathItem.parameters, pointer)
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method]
+      if (!isSpecObject(operation)) return
+      const base = `${pointer}/${method}`
+      visitParameters(operation.parameters, base)
+      visitContent(asSpecObject(operation.requestBody).content, `${base}/requestBody/content`)
+      eachEntry(operation.responses, `${base}/responses`, (response, at) => visitResponse(response, at, true))
+    })
+  }
+
+  eachEntry(doc.paths, '/paths', visitPathItem)
+  eachEntry(doc.webhooks, '/webhooks', visitPathItem)
+
+  const components = asSpecObject(doc.components)
+  eachEntry(components.schemas, '/components/schemas', (schema, at) => visitSchema(schema, at, true))
+  eachEntry(components.parameters, '/components/parameters', (parameter, at) => visitParameter(parameter, at, false))
+  eachEntry(components.responses, '/components/responses', (response, at) => visitResponse(response, at, false))
+  eachEntry(components.requestBodies, '/components/requestBodies', (body, at) => {
+    visitContent(asSpecObject(body).content, `${at}/content`)
+  })
+  visitHeaders(components.headers, '/components/headers')
+
+  return candidates
+}
+
+/**
+ * Whether a schema is worth turning into a component (not just `{ type: 'string' }`)
+ */
+export function isSubstantialSchema(schema: SpecObject): boolean {
+  return (
+    isSpecObject(schema.properties) ||
+    COMPOSITION_KEYWORDS.some((keyword) => Array.isArray(schema[keyword])) ||
+    Array.isArray(schema.enum)
+  )
+}
+
+const pascalCase = (text: string): string =>
+  text
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('')
+
+/**
+ * Suggests a component name for an inline object, unique within `taken`
+ * @description Uses the schema title, parameter name or response description first, then
+ * where the object sits (property name, operationId + Request/Response). Naming things is
+ * hard; this gets you a name you'd at least not be embarrassed by.
+ */
+export function suggestComponentName(
+  spec: unknown,
+  candidate: Pick<InlineCandidate, 'kind' | 'pointer' | 'value'>,
+  taken: Iterable<string>
+): string {
+  const { kind, pointer, value } = candidate
+  const tokens = pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+
+  let base = ''
+  if (typeof value.title === 'string') base = pascalCase(value.title)
+  if (!base && kind === 'parameters' && typeof value.name === 'string') base = pascalCase(value.name)
+  if (!base && kind === 'responses' && typeof value.description === 'string') base = pascalCase(value.description)
+  if (!base && kind === 'schemas') {
+    const propertyIndex = tokens.lastIndexOf('properties')
+    if (propertyIndex !== -1 && propertyIndex === tokens.length - 2) {
+      base = pascalCase(tokens[tokens.length - 1])
+    } else if ((tokens[0] === 'paths' || tokens[0] === 'webhooks') && tokens.length > 3) {
+      const { operationId } = asSpecObject(asSpecObject(asSpecObject(asSpecObject(spec)[tokens[0]])[tokens[1]])[tokens[2]])
+      const suffixes: Record<string, string> = { requestBody: 'Request', responses: 'Response' }
+      const label = typeof operationId === 'string' && operationId ? operationId : `${tokens[2]} ${tokens[1]}`
+      base = `${pascalCase(label)}${suffixes[tokens[3]] ?? ''}`
+    }
+  }
+  if (!base || !/^[A-Za-z]/.test(base)) base = `${pascalCase(kind.replace(/s$/, ''))}${base}`
+
+  const used = new Set(taken)
+  let name = base
+  let suffix = 2
+  while (used.has(name)) {
+    name = `${base}${suffix}`
+    suffix += 1
+  }
+  return name
+}
@@ -0,0 +1,289 @@
+/**
+ * JSON Patch Utilities
+ *
+ * @description RFC 6902 JSON Patch: compute the patch between two documents and apply a
+ * patch to one, plus RFC 7386 JSON Merge Patch for "just overlay this" edits. Every spec
+ * edit is recorded as a forward and an inverse patch, so a bad edit can be taken back
+ * without throwing away the whole version. Ctrl+Z for specs. ↩️
+ *
+ * @module utils/json-patch
+ */
+
+import { createValidationError } from './errors.js'
+
+/**
+ * One RFC 6902 operation
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown }
+
+/**
+ * Escapes a key for use in a JSON Pointer (RFC 6901)
+ */
+export function escapePointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Splits a JSON Pointer into unescaped tokens
+ * @throws ValidationError if the pointer doesn't start with '/'
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw createValidationError(`Invalid JSON Pointer "${pointer}": must be empty or start with /`, 'path')
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Deep equality for JSON values (key order and prototypes don't matter - unlike
+ * util.isDeepStrictEqual, which tells a structuredClone from a JSON.parse across realms)
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual(a[key], b[key]))
+    )
+  }
+  return false
+}
+
+/**
+ * Appends the operations turning `from` into `to` (both at `path`)
+ */
+function diffInto(from: unknown, to: unknown, path: string, ops: JsonPatchOperation[]): void {
+  if (jsonEqual(from, to)) return
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length)
+    for (let i = 0; i < common; i += 1) {
+      diffInto(from[i], to[i], `${path}/${i}`, ops)
+    }
+    for (let i = from.length - 1; i >= to.length; i -= 1) {
+      ops.push({ op: 'remove', path: `${path}/${i}` })
+    }
+    for (let i = from.length; i < to.length; i += 1) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: structuredClone(to[i]) })
+    }
+    return
+  }
+
+  if (isObject(from) && isObject(to)) {
+    Object.keys(from).forEach((key) => {
+      const child = `${path}/${escapePointerToken(key)}`
+      if (!(key in to)) {
+        ops.push({ op: 'remove', path: child })
+      } else {
+        diffInto(from[key], to[key], child, ops)
+      }
+    })
+    Object.keys(to).forEach((key) => {
+      if (!(key in from)) {
+        ops.push({ op: 'add', path: `${path}/${escapePointerToken(key)}`, value: structuredClone(to[key]) })
+      }
+    })
+    return
+  }
+
+  ops.push({ op: 'replace', path, value: structuredClone(to) })
+}
+
+/**
+ * Computes the JSON Patch that turns one document into another
+ * @param from - Document before
+ * @param to - Document after
+ * @returns Operations (add/remove/replace only); empty if the documents are equal
+ * @description Objects are compared key by key, arrays index by index (trailing elements
+ * added or removed), so a one-line edit gives a one-line patch. The inverse patch is
+ * simply `createJsonPatch(to, from)`.
+ */
+export function createJsonPatch(from: unknown, to: unknown): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = []
+  diffInto(from, to, '', ops)
+  return ops
+}
+
+/**
+ * Turns a patch's effects into `test` operations
+ * @param patch - A patch that was applied
+ * @returns One `test` per add/replace, checking the value is still what the patch left there
+ * @description Prepend these to the inverse patch and undo refuses to run over later edits
+ * instead of quietly clobbering them.
+ */
+export function createTestOperations(patch: JsonPatchOperation[]): JsonPatchOperation[] {
+  return patch.flatMap((operation): JsonPatchOperation[] =>
+    operation.op === 'add' || operation.op === 'replace'
+      ? [{ op: 'test', path: operation.path, value: operation.value }]
+      : []
+  )
+}
+
+/**
+ * Reads the value a pointer points at
+ * @returns The value, or undefined if the path doesn't exist
+ */
+export function getByPointer(document: unknown, pointer: string): unknown {
+  return parsePointer(pointer).reduce<unknown>((current, token) => {
+    if (Array.isArray(current)) {
+      return /^(0|[1-9]\d*)$/.test(token) ? current[Number(token)] : undefined
+    }
+    return isObject(current) && Object.prototype.hasOwnProperty.call(current, token) ? current[token] : undefined
+  }, document)
+}
+
+/**
+ * Finds the container and key a pointer's last token refers to
+ * @throws ValidationError if an intermediate path doesn't exist
+ */
+function resolveParent(document: unknown, pointer: string): { parent: unknown; key: string } {
+  const tokens = parsePointer(pointer)
+  const key = tokens.pop() as string
+  const parentPointer = tokens.map(escapePointerToken).map((token) => `/${token}`).join('')
+  const parent = getByPointer(document, parentPointer)
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw createValidationError(`Path ${pointer} does not exist (no container at "${parentPointer}")`, 'path')
+  }
+  return { parent, key }
+}
+
+/**
+ * Checks an array index token
+ * @param allowEnd - Whether the index may be the array length ('-' or length: append)
+ */
+function arrayIndex(array: unknown[], key: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && key === '-') return array.length
+  const max = allowEnd ? array.length : array.length - 1
+  if (!/^(0|[1-9]\d*)$/.test(key) || Number(key) > max) {
+    throw createValidationError(`Array index out of range at ${pointer}`, 'path')
+  }
+  return Number(key)
+}
+
+/**
+ * Applies one operation to a document
+ * @returns The new document (the root may be replaced)
+ */
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const { op, path } = operation
+
+  switch (op) {
+    case 'add':
+    case 'replace': {
+      const value = structuredClone(operation.value)
+      if (path === '') return value
+      const { parent, key } = resolveParent(document, path)
+      if (Array.isArray(parent)) {
+        const index = arrayIndex(parent, key, path, op === 'add')
+        if (op === 'add') parent.splice(index, 0, value)
+        else parent[index] = value
+      } else {
+        const target = parent as Record<string, unknown>
+        if (op === 'replace' && !Object.prototype.hasOwnProperty.call(target, key)) {
+          throw createValidationError(`Cannot replace ${path}: it does not exist`, 'path')
+        }
+        target[key] = value
+      }
+      return document
+    }
+    case 'remove': {
+      if (path === '') {
+        throw createValidationError('Cannot remove the document root', 'path')
+      }
+      const { parent, key } = resolveParent(document, path)
+      if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, key, path, false), 1)
+      } else {
+        const target = parent as Record<string, unknown>
+        if (!Object.prototype.hasOwnProperty.call(target, key)) {
+          throw createValidationError(`Cannot remove ${path}: it does not exist`, 'path')
+        }
+        delete target[key]
+      }
+      return document
+    }
+    case 'move':
+    case 'copy': {
+      const { from } = operation
+      if (op === 'move' && (path === from || path.startsWith(`${from}/`))) {
+        if (path === from) return document
+        throw createValidationError(`Cannot move ${from} into its own child ${path}`, 'path')
+      }
+      const value = getByPointer(document, from)
+      if (value === undefined) {
+        throw createValidationError(`Cannot ${op} from ${from}: it does not exist`, 'from')
+      }
+      const moved = op === 'move' ? applyOperation(document, { op: 'remove', path: from }) : document
+      return applyOperation(moved, { op: 'add', path, value })
+    }
+    case 'test': {
+      if (!jsonEqual(getByPointer(document, path), operation.value)) {
+        throw createValidationError(`Test failed at ${path || '/'}: value differs`, 'path')
+      }
+      return document
+    }
+    default:
+      throw createValidationError(`Unknown JSON Patch operation "${op as string}"`, 'op')
+  }
+}
+
+/**
+ * Applies a JSON Patch
+ * @param document - Document to patch (left untouched)
+ * @param patch - RFC 6902 operations, applied in order
+ * @returns The patched copy
+ * @throws ValidationError if any operation fails - all or nothing, the input is never half-patched
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = structuredClone(document)
+  patch.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation)
+    } catch (error) {
+      throw createValidationError(
+        `JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${(error as Error).message}`,
+        'patch'
+      )
+    }
+  })
+  return result as T
+}
+
+/**
+ * Applies a JSON Merge Patch (RFC 7386)
+ * @param document - Document to patch (left untouched)
+ * @param patch - Merge patch: objects merge key by key, `null` deletes, anything else replaces
+ * @returns The patched copy
+ * @description Arrays are replaced wholesale, and there's no way to set a value to null -
+ * that's the RFC's trade-off for patches you can write by hand.
+ */
+export function applyMergePatch<T>(document: T, patch: unknown): T {
+  if (!isObject(patch)) return structuredClone(patch) as T
+
+  const result: Record<string, unknown> = isObject(document) ? structuredClone(document) : {}
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  })
+  return result as T
+}
@@ -0,0 +1,204 @@
+/**
+ * Migration Utility: Copy Everything Between Storage Providers
+ *
+ * @description Copies every folder, API, version, metadata and audit file from one storage
+ * provider to another, then reads it all back from the target and compares checksums.
+ * Moving house, but someone counts the boxes at both ends. 🚚
+ *
+ * @module utils/migrate-storage
+ */
+
+import { createHash } from 'crypto'
+import type { BaseStorageProvider } from '../storage/base-storage-provider.js'
+import { logger } from './logger.js'
+
+/**
+ * Migration options
+ */
+export interface StorageMigrationOptions {
+  /** Only report what would be copied (default: false) */
+  dryRun?: boolean
+  /** Replace target files whose content differs (default: false - reported as errors) */
+  overwrite?: boolean
+  /** Keys to leave behind (default: DEFAULT_MIGRATION_EXCLUDES) */
+  exclude?: RegExp[]
+}
+
+/**
+ * Migration results
+ * @description What moved, what was already there, and whether it all arrived intact.
+ */
+export interface StorageMigrationResults {
+  /** Whether every file was copied and verified */
+  success: boolean
+  /** Whether this was a dry run */
+  dry_run: boolean
+  /** Files found in the source */
+  files_found: number
+  /** Files written to the target (in a dry run: files that would be written) */
+  files_copied: number
+  /** Files already present in the target with identical content */
+  files_skipped: number
+  /** Files whose checksum was verified in the target */
+  files_verified: number
+  /** Bytes written to the target */
+  bytes_copied: number
+  /** Keys whose content in the target differs from the source after copying */
+  checksum_mismatches: string[]
+  /** Errors encountered during migration */
+  errors: Array<{ key: string; error: string }>
+}
+
+/**
+ * Files that belong to a provider rather than to the data
+ * @description git internals, half-written temp files and SQLite databases (which would
+ * otherwise be "migrated" as text when moving from filesystem to sqlite in the same directory)
+ */
+export const DEFAULT_MIGRATION_EXCLUDES: RegExp[] = [
+  /(^|\/)\.git(\/|$)/,
+  /\.tmp\.\d+$/,
+  /\.db(-wal|-shm|-journal)?$/,
+]
+
+/**
+ * Copy order: folders, then API and version files, then audit logs
+ */
+function migrationPriority(key: string): number {
+  if (key === 'folders.json' || key.endsWith('/_folder.json')) return 0
+  if (/^[^/]+\/audit\.json$/.test(key)) return 2
+  return 1
+}
+
+/**
+ * Deep copy with object keys in sorted order
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Checksum of a stored file
+ * @param key - Storage key (JSON files are compared by content, not formatting)
+ * @param content - File content
+ * @returns SHA-256 hex digest
+ * @description Providers may re-serialize JSON (SQLite renders audit logs from rows),
+ * so JSON documents are checksummed in a canonical form with sorted keys.
+ */
+export function storageChecksum(key: string, content: string): string {
+  let canonical = content
+  if (key.endsWith('.json')) {
+    try {
+      canonical = JSON.stringify(sortKeys(JSON.parse(content)))
+    } catch {
+      // Not valid JSON after all - compare it byte for byte
+    }
+  }
+  return createHash('sha256').update(canonical).digest('hex')
+}
+
+/**
+ * Copies all data from one storage provider to another and verifies it
+ * @param source - Provider to copy from (left untouched)
+ * @param target - Provider to copy to
+ * @param options - Dry run, overwrite and exclude settings
+ * @returns Promise resolving to migration results
+ * @description Idempotent: files already in the target with the same content are skipped,
+ * so an interrupted migration can simply be run again. Folders are copied first and audit
+ * logs last, so providers that react to audit writes (git commits) see complete changes.
+ */
+export async function migrateStorage(
+  source: BaseStorageProvider,
+  target: BaseStorageProvider,
+  options: StorageMigrationOptions = {}
+): Promise<StorageMigrationResults> {
+  const { dryRun = false, overwrite = false, exclude = DEFAULT_MIGRATION_EXCLUDES } = options
+  const results: StorageMigrationResults = {
+    success: true,
+    dry_run: dryRun,
+    files_found: 0,
+    files_copied: 0,
+    files_skipped: 0,
+    files_verified: 0,
+    bytes_copied: 0,
+    checksum_mismatches: [],
+    errors: [],
+  }
+
+  let keys: string[]
+  try {
+    keys = [...new Set((await source.list('/')).map((key) => key.replace(/\\/g, '/')))]
+      .filter((key) => !exclude.some((pattern) => pattern.test(key)))
+      .sort((a, b) => migrationPriority(a) - migrationPriority(b) || a.localeCompare(b))
+  } catch (error) {
+    results.success = false
+    results.errors.push({ key: '/', error: (error as Error).message })
+    return results
+  }
+  results.files_found = keys.length
+  logger.info({ files: keys.length, dryRun }, 'Starting storage migration')
+
+  // Step 1: Copy
+  const expected = new Map<string, string>()
+  for (const key of keys) {
+    try {
+      const content = await source.read(key)
+      const checksum = storageChecksum(key, content)
+
+      const existing = (await target.exists(key)) ? await target.read(key) : undefined
+      if (existing !== undefined && storageChecksum(key, existing) === checksum) {
+        results.files_skipped += 1
+        expected.set(key, checksum)
+      } else {
+        if (existing !== undefined && !overwrite) {
+          throw new Error('Already exists in target with different content (use overwrite to replace it)')
+        }
+        results.files_copied += 1
+        results.bytes_copied += Buffer.byteLength(content)
+        if (!dryRun) {
+          await target.write(key, content)
+          expected.set(key, checksum)
+        }
+      }
+    } catch (error) {
+      results.errors.push({ key, error: (error as Error).message })
+      logger.error({ error, key }, 'Failed to migrate file')
+    }
+  }
+
+  // Step 2: Verify
+  for (const [key, checksum] of expected) {
+    try {
+      if (storageChecksum(key, await target.read(key)) === checksum) {
+        results.files_verified += 1
+      } else {
+        results.checksum_mismatches.push(key)
+      }
+    } catch (error) {
+      results.checksum_mismatches.push(key)
+      logger.error({ error, key }, 'Failed to verify migrated file')
+    }
+  }
+
+  results.success = results.errors.length === 0 && results.checksum_mismatches.length === 0
+  logger.info(
+    {
+      copied: results.files_copied,
+      skipped: results.files_skipped,
+      verified: results.files_verified,
+      mismatches: results.checksum_mismatches.length,
+      errors: results.errors.length,
+      dryRun,
+    },
+    'Storage migration completed'
+  )
+
+  return results
+}
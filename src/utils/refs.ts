@@ -0,0 +1,325 @@
+/**
+ * Reference Utilities
+ *
+ * @description Finds, counts and rewrites `$ref`s to `#/components/...` entries.
+ * The spec's plumbing: nobody notices it until something gets renamed and the water stops. 🔧
+ *
+ * @module utils/refs
+ */
+
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+import { escapePointerToken, getByPointer } from './json-patch.js'
+
+/**
+ * Every kind of reusable component in OpenAPI 3.x (`pathItems` is 3.1 only)
+ */
+export const COMPONENT_TYPES = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'pathItems',
+] as const
+
+export type ComponentType = (typeof COMPONENT_TYPES)[number]
+
+/**
+ * A `$ref` (or ref-like string) found in a document
+ */
+export interface RefLocation {
+  /** JSON Pointer of the object holding the ref, e.g. '/paths/~1pets/get/responses/200' */
+  pointer: string
+  /** The ref value */
+  ref: string
+}
+
+/**
+ * Local ref of a component
+ * @example componentRef('schemas', 'Pet') // '#/components/schemas/Pet'
+ */
+export function componentRef(type: string, name: string): string {
+  return `#/components/${type}/${escapePointerToken(name)}`
+}
+
+/**
+ * Whether a ref points at the target or somewhere inside it
+ * @example refersTo('#/components/schemas/Pet/properties/id', '#/components/schemas/Pet') // true
+ */
+export function refersTo(ref: string, target: string): boolean {
+  return ref === target || ref.startsWith(`${target}/`)
+}
+
+/**
+ * Visits every ref in a document: `$ref` values and discriminator mapping targets, including
+ * bare schema names, which are visited as the local ref they stand for
+ * @param visit - Called with the ref and a setter that replaces it in place
+ */
+export function walkRefs(
+  node: unknown,
+  visit: (location: RefLocation, replace: (ref: string) => void) => void,
+  pointer = ''
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => walkRefs(item, visit, `${pointer}/${index}`))
+    return
+  }
+  if (!isSpecObject(node)) return
+
+  const object: SpecObject = node
+  if (typeof object.$ref === 'string') {
+    visit({ pointer, ref: object.$ref }, (ref) => {
+      object.$ref = ref
+    })
+  }
+
+  const { mapping } = asSpecObject(object.discriminator)
+  if (isSpecObject(mapping)) {
+    Object.entries(mapping).forEach(([value, target]) => {
+      if (typeof target !== 'string') return
+      // A bare name ('Dog') is shorthand for '#/components/schemas/Dog' - and stays bare when rewritten
+      const bare = !target.includes('/')
+      if (!bare && !target.includes('#/')) return
+      const schemaPrefix = componentRef('schemas', '')
+      const ref = bare ? componentRef('schemas', target) : target
+      visit({ pointer: `${pointer}/discriminator/mapping/${escapePointerToken(value)}`, ref }, (next) => {
+        const token = next.slice(schemaPrefix.length)
+        const stillBare = bare && next.startsWith(schemaPrefix) && !token.includes('/')
+        mapping[value] = stillBare ? token.replace(/~1/g, '/').replace(/~0/g, '~') : next
+      })
+    })
+  }
+
+  Object.entries(object).forEach(([key, value]) => {
+    if (key !== '$ref' && value !== null && typeof value === 'object') {
+      walkRefs(value, visit, `${pointer}/${escapePointerToken(key)}`)
+    }
+  })
+}
+
+/**
+ * Resolves a local `$ref` one hop (components/pathItems, components/requestBodies, ...)
+ * @returns The referenced value, the value itself if it isn't a local ref, or undefined if the ref dangles
+ */
+export function resolveLocalRef(spec: unknown, value: unknown): unknown {
+  if (isSpecObject(value) && typeof value.$ref === 'string' && value.$ref.startsWith('#/')) {
+    return getByPointer(spec, value.$ref.slice(1))
+  }
+  return value
+}
+
+/**
+ * Every ref in a document pointing at (or into) the target
+ */
+export function findRefs(spec: unknown, target: string): RefLocation[] {
+  const found: RefLocation[] = []
+  walkRefs(spec, (location) => {
+    if (refersTo(location.ref, target)) found.push(location)
+  })
+  return found
+}
+
+/**
+ * Points every ref at (or into) `from` at `to` instead
+ * @returns Number of refs rewritten
+ */
+export function rewriteRefs(spec: unknown, from: string, to: string): number {
+  let count = 0
+  walkRefs(spec, (location, replace) => {
+    if (refersTo(location.ref, from)) {
+      replace(to + location.ref.slice(from.length))
+      count += 1
+    }
+  })
+  return count
+}
+
+/**
+ * Objects that may carry a `security` list - the document and its path/webhook operations -
+ * with the JSON Pointer of each
+ */
+function securityHolders(spec: unknown): Array<{ pointer: string; holder: SpecObject }> {
+  const doc = asSpecObject(spec)
+  const holders = [{ pointer: '', holder: doc }]
+  const sections = ['paths', 'webhooks']
+  sections.forEach((section) => {
+    Object.entries(asSpecObject(doc[section])).forEach(([key, pathItem]) => {
+      Object.entries(asSpecObject(pathItem)).forEach(([method, operation]) => {
+        if (isSpecObject(operation)) {
+          holders.push({ pointer: `/${section}/${escapePointerToken(key)}/${method}`, holder: operation })
+        }
+      })
+    })
+  })
+  return holders
+}
+
+/**
+ * Security requirements naming a scheme - they use its name, not a `$ref`
+ * @returns JSON Pointers of the requirement objects
+ */
+export function findSecurityRequirements(spec: unknown, scheme: string): string[] {
+  return securityHolders(spec).flatMap(({ pointer, holder }) => {
+    const { security } = holder
+    if (!Array.isArray(security)) return []
+    return security.flatMap((requirement, index) =>
+      isSpecObject(requirement) && scheme in requirement ? [`${pointer}/security/${index}`] : []
+    )
+  })
+}
+
+/**
+ * Renames a scheme in every security requirement, keeping the key order
+ * @returns Number of requirements rewritten
+ */
+export function renameSecurityRequirements(spec: unknown, from: string, to: string): number {
+  let count = 0
+  securityHolders(spec).forEach(({ holder }) => {
+    const { security } = holder
+    if (!Array.isArray(security)) return
+    security.forEach((requirement, index) => {
+      if (!isSpecObject(requirement) || !(from in requirement)) return
+      security[index] = Object.fromEntries(
+        Object.entries(requirement).map(([key, scopes]) => [key === from ? to : key, scopes])
+      )
+      count += 1
+    })
+  })
+  return count
+}
+
+/**
+ * The component a local ref points at (or into)
+ * @example parseComponentRef('#/components/schemas/Pet/properties/id') // { type: 'schemas', name: 'Pet' }
+ */
+export function parseComponentRef(ref: string): { type: string; name: string } | undefined {
+  const [hash, components, type, name] = ref.split('/')
+  if (hash !== '#' || components !== 'components' || !type || !name) return undefined
+  return { type, name: name.replace(/~1/g, '/').replace(/~0/g, '~') }
+}
+
+function walkNodes(node: unknown, visit: (object: SpecObject) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((item) => walkNodes(item, visit))
+    return
+  }
+  if (!isSpecObject(node)) return
+  visit(node)
+  Object.values(node).forEach((value) => walkNodes(value, visit))
+}
+
+/**
+ * Security schemes named by requirements anywhere below a node - the references that
+ * neither `$ref` nor a discriminator mapping can express
+ */
+function namedComponents(node: unknown): Array<{ type: string; name: string }> {
+  const named: Array<{ type: string; name: string }> = []
+  walkNodes(node, (object) => {
+    if (Array.isArray(object.security)) {
+      object.security.filter(isSpecObject).forEach((requirement) => {
+        Object.keys(requirement).forEach((name) => named.push({ type: 'securitySchemes', name }))
+      })
+    }
+  })
+  return named
+}
+
+/**
+ * Refs of every component reachable from the document proper - paths, webhooks,
+ * security requirements and anything else outside `components` - following refs transitively
+ * @description Counted as used, too: schemas named (not referenced) in a discriminator mapping,
+ * and schemas that `allOf` a reachable schema with a discriminator - the implicit subtypes.
+ * @param roots - Further refs to start from, e.g. the components other specs reference
+ * @returns Component refs, e.g. '#/components/schemas/Pet'
+ */
+export function reachableComponents(spec: unknown, roots: Iterable<string> = []): Set<string> {
+  const reachable = new Set<string>()
+  const queue: unknown[] = []
+  const doc = asSpecObject(spec)
+  const components = asSpecObject(doc.components)
+  const schemas = asSpecObject(components.schemas)
+
+  const reach = (type: string, name: string) => {
+    const ref = componentRef(type, name)
+    const component = asSpecObject(components[type])[name]
+    if (reachable.has(ref) || component === undefined) return
+    reachable.add(ref)
+    queue.push(component)
+  }
+  const scan = (node: unknown) => {
+    walkRefs(node, ({ ref }) => {
+      const target = parseComponentRef(ref)
+      if (target) reach(target.type, target.name)
+    })
+    namedComponents(node).forEach(({ type, name }) => reach(type, name))
+  }
+
+  scan({ ...doc, components: undefined })
+  Array.from(roots).forEach((ref) => {
+    const target = parseComponentRef(ref)
+    if (target) reach(target.type, target.name)
+  })
+  for (;;) {
+    while (queue.length > 0) scan(queue.shift())
+
+    const subtypes = Object.entries(schemas).filter(
+      ([name, schema]) =>
+        !reachable.has(componentRef('schemas', name)) &&
+        isSpecObject(schema) &&
+        Array.isArray(schema.allOf) &&
+        schema.allOf.some((member) => {
+          const parent = isSpecObject(member) && typeof member.$ref === 'string' ? parseComponentRef(member.$ref) : undefined
+          return (
+            parent?.type === 'schemas' &&
+            reachable.has(componentRef('schemas', parent.name)) &&
+            Boolean(asSpecObject(schemas[parent.name]).discriminator)
+          )
+        })
+    )
+    if (subtypes.length === 0) return reachable
+    subtypes.forEach(([name]) => reach('schemas', name))
+  }
+}
+
+/**
+ * A ref into another spec stored in the control plane: `<apiId>@<version>#<pointer>`
+ */
+export interface CrossSpecRef {
+  apiId: string
+  version: string
+  /** JSON Pointer inside the other spec, e.g. '/components/schemas/Error' */
+  pointer: string
+}
+
+const CROSS_SPEC_REF = /^([a-z0-9-]+)@(v[0-9][0-9A-Za-z.+-]*)#(\/.*)?$/
+
+/**
+ * Parses a cross-spec ref
+ * @example parseCrossSpecRef('shared-api@v1.0.0#/components/schemas/Error')
+ * // { apiId: 'shared-api', version: 'v1.0.0', pointer: '/components/schemas/Error' }
+ */
+export function parseCrossSpecRef(ref: string): CrossSpecRef | undefined {
+  const match = CROSS_SPEC_REF.exec(ref)
+  if (!match) return undefined
+  return { apiId: match[1], version: match[2], pointer: match[3] ?? '' }
+}
+
+/**
+ * Whether a ref points into another file: not local, not cross-spec, not a URL
+ * @example isFileRef('./common.yaml#/components/schemas/Error') // true
+ */
+export function isFileRef(ref: string): boolean {
+  return !ref.startsWith('#') && !parseCrossSpecRef(ref) && !/^[a-z][a-z0-9+.-]*:\/\//i.test(ref)
+}
+
+/**
+ * Formats a cross-spec ref
+ */
+export function crossSpecRef({ apiId, version, pointer }: CrossSpecRef): string {
+  return `${apiId}@${version}#${pointer}`
+}
@@ -0,0 +1,206 @@
+/**
+ * Semantic Versioning Utilities
+ *
+ * @description Parses, compares and bumps version tags (`v1.2.3`, `v2.0.0-beta.1`) by the
+ * SemVer 2.0.0 rules, and turns a spec diff into the bump it deserves. Because `v1.10.0`
+ * is newer than `v1.9.0`, whatever the string sort says. 🔢
+ *
+ * @module utils/semver
+ */
+
+import type { SpecDiff } from '../services/diff-calculator.js'
+
+/**
+ * Which part of the version to increment
+ */
+export type VersionBump = 'major' | 'minor' | 'patch'
+
+/**
+ * A version tag taken apart
+ */
+export interface ParsedVersion {
+  major: number
+  minor: number
+  patch: number
+  /** Pre-release identifiers (`beta.1` → ['beta', '1']), empty for releases */
+  prerelease: string[]
+  /** Build metadata (ignored when comparing) */
+  build?: string
+}
+
+/**
+ * A suggested bump and why
+ */
+export interface VersionBumpSuggestion {
+  bump: VersionBump
+  /** What in the diff led to the suggestion */
+  reasons: string[]
+}
+
+/**
+ * `v` + SemVer 2.0.0 (numeric parts without leading zeros, optional pre-release and build)
+ */
+const SEMVER_TAG_PATTERN =
+  /^v(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/
+
+/**
+ * Parses a semver version tag
+ * @param tag - Version tag (`v1.2.3`, `v1.2.3-rc.1`, `v1.2.3+build.5`)
+ * @returns The parsed version, or null for anything else (timestamp tags included)
+ */
+export function parseVersionTag(tag: string): ParsedVersion | null {
+  const match = SEMVER_TAG_PATTERN.exec(tag)
+  if (!match) return null
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+    build: match[5],
+  }
+}
+
+/**
+ * Compares pre-release identifier lists by SemVer precedence
+ * @description A release outranks its pre-releases; numeric identifiers compare as numbers
+ * and rank below alphanumeric ones; a longer list wins when all shared identifiers are equal.
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    const aNumeric = /^\d+$/.test(a[i])
+    const bNumeric = /^\d+$/.test(b[i])
+    if (aNumeric && bNumeric) {
+      const diff = Number(a[i]) - Number(b[i])
+      if (diff !== 0) return diff
+    } else if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1
+    }
+  }
+  return a.length - b.length
+}
+
+/**
+ * Compares two version tags by precedence
+ * @returns Negative if `a` is older, positive if newer, 0 if equal
+ * @description Semver tags rank above non-semver ones (timestamp tags), which compare as strings.
+ */
+export function compareVersionTags(a: string, b: string): number {
+  const left = parseVersionTag(a)
+  const right = parseVersionTag(b)
+  if (!left || !right) {
+    if (left) return 1
+    if (right) return -1
+    return a.localeCompare(b)
+  }
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  )
+}
+
+/**
+ * Sorts version tags newest first
+ * @returns A new array
+ */
+export function sortVersionTags<T extends string>(tags: T[]): T[] {
+  return [...tags].sort((a, b) => compareVersionTags(b, a))
+}
+
+/**
+ * Increments a version tag
+ * @param tag - Semver version tag to bump
+ * @param bump - Which part to increment
+ * @returns The next version tag (pre-release and build dropped)
+ * @throws Error if the tag isn't semver
+ * @description Like `npm version`: bumping a pre-release releases it when it already sits at
+ * the target (`v2.0.0-rc.1` + major → `v2.0.0`), otherwise increments as usual.
+ */
+export function bumpVersionTag(tag: string, bump: VersionBump): string {
+  const version = parseVersionTag(tag)
+  if (!version) {
+    throw new Error(`Cannot bump "${tag}": not a semantic version tag (v1.2.3)`)
+  }
+  const { major, minor, patch } = version
+  const prerelease = version.prerelease.length > 0
+
+  switch (bump) {
+    case 'major':
+      return prerelease && minor === 0 && patch === 0 ? `v${major}.0.0` : `v${major + 1}.0.0`
+    case 'minor':
+      return prerelease && patch === 0 ? `v${major}.${minor}.0` : `v${major}.${minor + 1}.0`
+    default:
+      return prerelease ? `v${major}.${minor}.${patch}` : `v${major}.${minor}.${patch + 1}`
+  }
+}
+
+/**
+ * Suggests a version bump from a spec diff
+ * @param diff - DiffCalculator output, old → new
+ * @returns The bump and the reasons for it
+ * @description Breaking changes → major; non-breaking changes or anything added (endpoints,
+ * webhooks, callbacks, schemas) → minor; unclassified contract changes (a removed parameter,
+ * a reshuffled oneOf) → minor too, flagged for review since the classifier can't tell whether
+ * they break anyone. Only what's left is a patch: endpoints that changed without any rule
+ * firing, and `schema-modified`, which fires for a new description just as readily. 🔍
+ */
+export function suggestVersionBump(diff: SpecDiff): VersionBumpSuggestion {
+  if (diff.breaking_changes.length > 0) {
+    return {
+      bump: 'major',
+      reasons: diff.breaking_changes.map((change) => change.message),
+    }
+  }
+
+  const { summary } = diff
+  const reasons = diff.classified_changes
+    .filter((change) => change.severity === 'non-breaking')
+    .map((change) => change.message)
+  if (reasons.length === 0) {
+    // Additions the classifier has no rule for still show up in the summary
+    reasons.push(
+      ...summary.endpoints_added.map((endpoint) => `Endpoint added: ${endpoint}`),
+      ...(summary.webhooks_added ?? []).map((webhook) => `Webhook added: ${webhook}`),
+      ...(summary.callbacks_added ?? []).map((callback) => `Callback added: ${callback}`),
+      ...summary.schemas_added.map((schema) => `Schema added: ${schema}`)
+    )
+  }
+  // Could be breaking, could be harmless - not a patch either way until someone looks
+  reasons.push(
+    ...diff.classified_changes
+      .filter((change) => change.severity === 'unclassified' && change.rule !== 'schema-modified')
+      .map((change) => `${change.message} (needs review: may be breaking)`)
+  )
+  if (reasons.length > 0) {
+    return { bump: 'minor', reasons }
+  }
+
+  // Changed schemas are already in there as `schema-modified`, the only change left by now
+  const documented = [
+    ...diff.classified_changes.map((change) => change.message),
+    ...summary.endpoints_modified.map((endpoint) => `Endpoint docs changed: ${endpoint}`),
+    ...(summary.webhooks_modified ?? []).map((webhook) => `Webhook docs changed: ${webhook}`),
+    ...(summary.callbacks_modified ?? []).map((callback) => `Callback docs changed: ${callback}`),
+  ]
+  return { bump: 'patch', reasons: documented.length > 0 ? documented : ['No changes to the API contract'] }
+}
+
+/**
+ * Sets `info.version` to match a semver version tag
+ * @param spec - OpenAPI/Swagger document
+ * @param tag - Version tag the spec is stored under
+ * @returns The spec with `info.version` synced (a shallow copy if it changed, else the spec itself)
+ * @description Timestamp tags say nothing about the API's version, so they leave `info.version` alone.
+ */
+export function syncInfoVersion<T extends object>(spec: T, tag: string): T {
+  const { info } = spec as { info?: Record<string, unknown> }
+  if (!info || !parseVersionTag(tag)) return spec
+
+  const version = tag.slice(1)
+  if (info.version === version) return spec
+  return { ...spec, info: { ...info, version } }
+}
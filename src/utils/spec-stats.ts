@@ -0,0 +1,56 @@
+/**
+ * Spec Statistics Utilities
+ *
+ * @description Computes the VersionStats numbers stored alongside every version.
+ * Counting endpoints by hand is a fine hobby, but we have computers for that. 🧮
+ *
+ * @module utils/spec-stats
+ */
+
+import type { VersionStats } from '../types/metadata.js'
+import { asSpecObject } from '../types/openapi.js'
+import { countEventOperations } from './webhooks.js'
+import { isHttpMethod } from './http-methods.js'
+
+/**
+ * Counts operations across a map of path items
+ * @param paths - Paths object (or webhooks object) from a spec
+ * @returns Number of HTTP operations found
+ */
+function countOperations(paths: unknown): number {
+  if (!paths || typeof paths !== 'object') return 0
+
+  return Object.values(paths as Record<string, unknown>).reduce<number>((total, pathItem) => {
+    if (!pathItem || typeof pathItem !== 'object') return total
+    return total + Object.keys(pathItem).filter((key) => isHttpMethod(key)).length
+  }, 0)
+}
+
+/**
+ * Calculates statistics for a spec version
+ * @param spec - Raw OpenAPI/Swagger specification object
+ * @param serialized - Serialized spec content, used for the file size
+ * @returns Version statistics
+ * @description Works for Swagger 2.0 (definitions/securityDefinitions) and OpenAPI 3.x
+ * (components). Webhooks and callbacks are counted apart from endpoints, since the API is the
+ * caller there. The numbers that make dashboards look busy.
+ */
+export function calculateVersionStats(spec: object, serialized?: string): VersionStats {
+  const doc = asSpecObject(spec)
+  const components = asSpecObject(doc.components)
+
+  const schemas = asSpecObject(components.schemas || doc.definitions)
+  const securitySchemes = asSpecObject(components.securitySchemes || doc.securityDefinitions)
+  const content = serialized ?? JSON.stringify(spec)
+  const events = countEventOperations(doc)
+
+  return {
+    endpoint_count: countOperations(doc.paths),
+    schema_count: Object.keys(schemas).length,
+    file_size_bytes: Buffer.byteLength(content, 'utf-8'),
+    security_schemes_count: Object.keys(securitySchemes).length,
+    tags_count: Array.isArray(doc.tags) ? doc.tags.length : 0,
+    webhook_count: events.webhooks,
+    callback_count: events.callbacks,
+  }
+}
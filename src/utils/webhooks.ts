@@ -0,0 +1,102 @@
+/**
+ * Webhook and Callback Utilities
+ *
+ * @description Finds the operations that live outside `paths`: top-level `webhooks`
+ * (OpenAPI 3.1) and operation `callbacks` (OpenAPI 3.0+). The API calling *you* for a change. 📞
+ *
+ * @module utils/webhooks
+ */
+
+import { asSpecObject, isSpecObject } from '../types/openapi.js'
+import type { SpecObject } from '../types/openapi.js'
+import { resolveLocalRef } from './refs.js'
+import { isHttpMethod } from './http-methods.js'
+
+/**
+ * A callback path item together with the operation that registers it
+ */
+export interface CallbackPathItem {
+  /** Operation that owns the callback, e.g. 'POST /subscriptions' */
+  endpoint: string
+  /** Callback name, e.g. 'onEvent' */
+  callback: string
+  /** Runtime expression keying the path item, e.g. '{$request.body#/callbackUrl}' */
+  expression: string
+  /** The callback's path item (refs resolved) */
+  pathItem: SpecObject
+}
+
+/**
+ * Lowercase HTTP methods present on a path item
+ */
+export function operationMethods(pathItem: SpecObject): string[] {
+  return Object.keys(pathItem).filter((key) => isHttpMethod(key))
+}
+
+/**
+ * Top-level webhooks by name (OpenAPI 3.1)
+ */
+export function webhookPathItems(spec: unknown): Map<string, SpecObject> {
+  const webhooks = new Map<string, SpecObject>()
+  Object.entries(asSpecObject(asSpecObject(spec).webhooks)).forEach(([name, pathItem]) => {
+    const resolved = resolveLocalRef(spec, pathItem)
+    if (isSpecObject(resolved)) webhooks.set(name, resolved)
+  })
+  return webhooks
+}
+
+/**
+ * Every callback path item registered by an operation under `paths`
+ */
+export function callbackPathItems(spec: unknown): CallbackPathItem[] {
+  return Object.entries(asSpecObject(asSpecObject(spec).paths)).flatMap(([path, pathItem]) =>
+    operationMethods(asSpecObject(pathItem)).flatMap((method) => {
+      const endpoint = `${method.toUpperCase()} ${path}`
+      const operation = asSpecObject(asSpecObject(pathItem)[method])
+      return Object.entries(asSpecObject(operation.callbacks)).flatMap(([callback, callbackObject]) =>
+        Object.entries(asSpecObject(resolveLocalRef(spec, callbackObject))).flatMap(([expression, callbackItem]) => {
+          const item = resolveLocalRef(spec, callbackItem)
+          return isSpecObject(item) ? [{ endpoint, callback, expression, pathItem: item }] : []
+        })
+      )
+    })
+  )
+}
+
+/**
+ * Human-readable key of a callback path item, unique within a spec
+ * @example callbackLabel(entry) // '{$request.body#/url} (onEvent callback of POST /subscriptions)'
+ */
+export function callbackLabel(entry: Pick<CallbackPathItem, 'endpoint' | 'callback' | 'expression'>): string {
+  return `${entry.expression} (${entry.callback} callback of ${entry.endpoint})`
+}
+
+/**
+ * Counts operations across webhooks and callbacks
+ */
+export function countEventOperations(spec: unknown): { webhooks: number; callbacks: number } {
+  const webhooks = [...webhookPathItems(spec).values()].reduce(
+    (total, pathItem) => total + operationMethods(pathItem).length,
+    0
+  )
+  const callbacks = callbackPathItems(spec).reduce((total, entry) => total + operationMethods(entry.pathItem).length, 0)
+  return { webhooks, callbacks }
+}
+
+/**
+ * Checks a callback key (a runtime expression, optionally embedded in a URL)
+ * @returns Problems found (empty if it's fine)
+ * @example validateCallbackExpression('{$request.body#/callbackUrl}') // []
+ */
+export function validateCallbackExpression(expression: string): string[] {
+  const problems: string[] = []
+  if (/[{}]/.test(expression.replace(/\{[^{}]+\}/g, ''))) {
+    problems.push(`Callback expression ${expression} has unbalanced braces`)
+  }
+  Array.from(expression.matchAll(/\{([^{}]+)\}/g), ([, embedded]) => embedded)
+    .filter((embedded) => !/^\$(url|method|statusCode|request\.|response\.)/.test(embedded))
+    .forEach((embedded) => {
+      problems.push(`{${embedded}} is not a runtime expression ($url, $method, $statusCode, $request.*, $response.*)`)
+    })
+  return problems
+}
@@ -0,0 +1,49 @@
+/**
+ * Tool Test Harness
+ *
+ * @description The scaffold every spec-editing tool test needs: a SpecManager serving a fresh
+ * copy of a fixture spec on every load, an AuditLogger that just records, and a typed look at
+ * whatever the tool saved. Set up once here instead of once per test file. 🧰
+ *
+ * @module tests/helpers/tool-harness
+ */
+
+import type { SpecManager } from '../../src/services/spec-manager'
+import type { AuditLogger } from '../../src/services/audit-logger'
+
+/**
+ * Mocked services for a tool under test, plus what it saved
+ */
+export interface ToolHarness<T> {
+  specManager: jest.Mocked<SpecManager>
+  auditLogger: jest.Mocked<AuditLogger>
+  /**
+   * The spec passed to `saveSpec`
+   * @param call - Which save (default: the first)
+   */
+  saved(call?: number): T
+}
+
+/**
+ * Creates the mocked services for one test
+ * @param fixture - Builds the spec `loadSpec` returns (called on every load, so edits never leak)
+ * @param version - OpenAPI version `loadSpec` reports
+ * @example
+ * harness = createToolHarness(spec)
+ * tool = new TagsManageTool(harness.specManager, harness.auditLogger)
+ * await tool.execute({ ... })
+ * expect(harness.saved().tags).toEqual([...])
+ */
+export function createToolHarness<T extends object>(fixture: () => T, version = '3.0'): ToolHarness<T> {
+  const specManager = {
+    loadSpec: jest.fn().mockImplementation(async () => ({ version, spec: fixture() })),
+    saveSpec: jest.fn(),
+  } as unknown as jest.Mocked<SpecManager>
+  const auditLogger = { logEvent: jest.fn() } as unknown as jest.Mocked<AuditLogger>
+
+  return {
+    specManager,
+    auditLogger,
+    saved: (call = 0) => specManager.saveSpec.mock.calls[call][2] as T,
+  }
+}
@@ -341,5 +341,16 @@ describe('REST API Integration Tests', () => {
       // Should either 404 or 500, but not 200
       expect(response.statusCode).not.toBe(200)
     })
+
+    it('should refuse to import a spec from a server-side file path', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/specs/import',
+        payload: { apiId: 'sneaky-api', filePath: '/etc/passwd' },
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).error).toContain('filePath is not accepted over HTTP')
+    })
   })
 })
@@ -0,0 +1,203 @@
+/**
+ * Integration Tests - Spec Import Workflow
+ *
+ * @description Tests importing existing OpenAPI/Swagger documents end to end
+ */
+
+import { FileSystemStorage } from '../../src/storage/file-system-storage'
+import { SpecManager } from '../../src/services/spec-manager'
+import { VersionManager } from '../../src/services/version-manager'
+import { FolderManager } from '../../src/services/folder-manager'
+import { AuditLogger } from '../../src/services/audit-logger'
+import { SpecImportTool } from '../../src/tools/spec-import-tool'
+import { createDefaultFolders } from '../../src/utils/migrate-to-folders'
+import { createApiId, createVersionTag } from '../../src/types/openapi'
+import { promises as fs } from 'fs'
+import path from 'path'
+import os from 'os'
+
+describe('Integration: Spec Import Workflow', () => {
+  const fixturesDir = path.join(__dirname, '../fixtures')
+  let tempDir: string
+  let storage: FileSystemStorage
+  let specManager: SpecManager
+  let versionManager: VersionManager
+  let auditLogger: AuditLogger
+  let tool: SpecImportTool
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-import-test-'))
+    storage = new FileSystemStorage({ basePath: tempDir })
+    specManager = new SpecManager(storage)
+    versionManager = new VersionManager(storage)
+    auditLogger = new AuditLogger(storage)
+    tool = new SpecImportTool(specManager, versionManager, new FolderManager(storage), auditLogger)
+
+    await createDefaultFolders(storage)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should import an OpenAPI 3.0 spec from a file path', async () => {
+    const result = await tool.execute({
+      apiId: 'petstore',
+      filePath: path.join(fixturesDir, 'petstore-v3.0.yaml'),
+      llmReason: 'Onboarding legacy spec',
+    })
+
+    expect(result.success).toBe(true)
+    const data = result.data as any
+    expect(data.openapiVersion).toBe('3.0')
+    expect(data.folder).toBe('active')
+    expect(data.api.name).toBe('Petstore API')
+    expect(data.metadata.stats.endpoint_count).toBe(2)
+    expect(data.metadata.stats.schema_count).toBe(2)
+    expect(data.metadata.stats.file_size_bytes).toBeGreaterThan(0)
+
+    const apiId = createApiId('petstore')
+    const version = createVersionTag('v1.0.0')
+    const loaded = await specManager.loadSpec(apiId, version)
+    expect((loaded.spec as any).components.schemas.Pets.items.$ref).toBe('#/components/schemas/Pet')
+
+    const versionMetadata = await versionManager.getVersionMetadata(apiId, version)
+    expect(versionMetadata.parent_version).toBeNull()
+    expect(versionMetadata.validation.openapi_valid).toBe(true)
+
+    const audit = await auditLogger.getAuditLog(apiId)
+    expect(audit[0].event).toBe('spec_imported')
+    expect(audit[0].llm_reason).toBe('Onboarding legacy spec')
+  })
+
+  it('should bundle file refs of a spec imported from a file, leaving cross-spec refs alone', async () => {
+    const sourceDir = path.join(tempDir, 'source')
+    await fs.mkdir(sourceDir)
+    await fs.writeFile(
+      path.join(sourceDir, 'common.yaml'),
+      'components:\n  schemas:\n    Error:\n      type: object\n      properties:\n        message:\n          type: string\n'
+    )
+    await fs.writeFile(
+      path.join(sourceDir, 'orders.json'),
+      JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'Orders', version: '1.0.0' },
+        paths: {
+          '/orders': {
+            get: {
+              responses: {
+                '200': { $ref: 'shared-api@v1.0.0#/components/responses/Ok' },
+                default: {
+                  description: 'Error',
+                  content: { 'application/json': { schema: { $ref: './common.yaml#/components/schemas/Error' } } },
+                },
+              },
+            },
+          },
+        },
+      })
+    )
+    // Spec validation would go looking for shared-api@v1.0.0 on disk too
+    jest.spyOn(specManager, 'validateSpec').mockResolvedValue(undefined as any)
+
+    await tool.execute({ apiId: 'orders', filePath: path.join(sourceDir, 'orders.json') })
+
+    const loaded = await specManager.loadSpec(createApiId('orders'), createVersionTag('v1.0.0'))
+    const responses = (loaded.spec as any).paths['/orders'].get.responses
+    expect(responses.default.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { message: { type: 'string' } },
+    })
+    expect(responses['200']).toEqual({ $ref: 'shared-api@v1.0.0#/components/responses/Ok' })
+  })
+
+  it('should import raw Swagger 2.0 content into a chosen folder and version', async () => {
+    const content = await fs.readFile(path.join(fixturesDir, 'swagger-v2.0.yaml'), 'utf-8')
+
+    const result = await tool.execute({
+      apiId: 'legacy-pets',
+      version: 'v2.3.0',
+      content,
+      folder: 'recycled',
+      format: 'json',
+      owner: 'platform-team',
+    })
+
+    const data = result.data as any
+    expect(data.openapiVersion).toBe('2.0')
+    expect(data.api.folder).toBe('recycled')
+    expect(data.api.owner).toBe('platform-team')
+    expect(data.metadata.stats.schema_count).toBe(1)
+
+    const exists = await storage.exists('recycled/legacy-pets/v2.3.0/spec.json')
+    expect(exists).toBe(true)
+
+    const audit = await auditLogger.getAuditLog(createApiId('legacy-pets'))
+    expect(audit[0].user).toBe('platform-team')
+  })
+
+  it('should convert Swagger 2.0 to OpenAPI 3.x on import when asked', async () => {
+    const result = await tool.execute({
+      apiId: 'legacy-pets',
+      filePath: path.join(fixturesDir, 'swagger-v2.0.yaml'),
+      convertTo: '3.0',
+    })
+
+    const data = result.data as any
+    expect(data.openapiVersion).toBe('3.0')
+    expect(data.convertedFrom).toBe('2.0')
+
+    const loaded = await specManager.loadSpec(createApiId('legacy-pets'), createVersionTag('v1.0.0'))
+    const spec = loaded.spec as any
+    expect(loaded.version).toBe('3.0')
+    expect(spec.servers).toEqual([{ url: 'https://api.petstore.example.com/v1' }])
+    expect(spec.components.schemas.Pet['x-team']).toBe('backend-team')
+    expect(spec.paths['/pets'].get.responses['200'].content['application/json'].schema.items.$ref).toBe(
+      '#/components/schemas/Pet'
+    )
+  })
+
+  it('should reject content that is not a valid spec', async () => {
+    await expect(
+      tool.execute({
+        apiId: 'broken',
+        content: JSON.stringify({ openapi: '3.0.0', paths: {} }),
+      })
+    ).rejects.toThrow('Spec import failed')
+
+    expect(await versionManager.findApiFolder(createApiId('broken'))).toBeNull()
+  })
+
+  it('should reject importing over an existing API', async () => {
+    const filePath = path.join(fixturesDir, 'petstore-v3.0.yaml')
+    await tool.execute({ apiId: 'petstore', filePath })
+
+    await expect(tool.execute({ apiId: 'petstore', filePath })).rejects.toThrow('already exists')
+  })
+
+  it('should not write the spec when the API metadata cannot be created', async () => {
+    jest.spyOn(versionManager, 'createApiMetadata').mockRejectedValueOnce(new Error('disk full'))
+
+    await expect(
+      tool.execute({ apiId: 'petstore', filePath: path.join(fixturesDir, 'petstore-v3.0.yaml') })
+    ).rejects.toThrow('disk full')
+    expect(await storage.exists('active/petstore/v1.0.0/spec.yaml')).toBe(false)
+  })
+
+  it('should reject unknown folders', async () => {
+    await expect(
+      tool.execute({
+        apiId: 'petstore',
+        filePath: path.join(fixturesDir, 'petstore-v3.0.yaml'),
+        folder: 'nope',
+      })
+    ).rejects.toThrow('Spec import failed')
+  })
+
+  it('should require exactly one of content or filePath', async () => {
+    await expect(tool.execute({ apiId: 'petstore' })).rejects.toThrow('Validation failed')
+    await expect(
+      tool.execute({ apiId: 'petstore', content: 'openapi: 3.0.0', filePath: '/tmp/x.yaml' })
+    ).rejects.toThrow('Validation failed')
+  })
+})
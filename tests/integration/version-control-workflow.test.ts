@@ -227,6 +227,155 @@ describe('VersionControlTool - Integration', () => {
     })
   })
 
+  describe('OpenAPI version conversion', () => {
+    const dialectApi = createApiId('dialects')
+    const spec30 = {
+      openapi: '3.0.3',
+      info: { title: 'Dialects API', version: '1.0.0' },
+      paths: {
+        '/items': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Item: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', nullable: true, example: 'widget' },
+              quantity: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+            },
+          },
+        },
+      },
+    }
+
+    beforeAll(async () => {
+      await tool.execute({ apiId: dialectApi, operation: 'create', version: v1 })
+      await specManager.saveSpec(dialectApi, v1, spec30 as any)
+    })
+
+    it('should upgrade a 3.0 version to 3.1 as a new version', async () => {
+      const result = await tool.execute({
+        apiId: dialectApi,
+        operation: 'upgrade_openapi',
+        version: v1,
+        targetVersion: v2,
+        openapiVersion: '3.1',
+      })
+
+      expect(result.success).toBe(true)
+      const loaded = await specManager.loadSpec(dialectApi, v2)
+      expect(loaded.version).toBe('3.1')
+      const item = (loaded.spec as any).components.schemas.Item
+      expect(item.properties.name).toEqual({ type: ['string', 'null'], examples: ['widget'] })
+      expect(item.properties.quantity).toEqual({ type: 'integer', exclusiveMinimum: 0 })
+
+      const metadata = await versionManager.getVersionMetadata(dialectApi, v2)
+      expect(metadata.parent_version).toBe(v1)
+      expect(metadata.changes.transformation?.from).toBe('3.0')
+      expect(metadata.changes.transformation?.to).toBe('3.1')
+      expect(metadata.changes.transformation?.applied.length).toBe(3)
+
+      // Source version is left alone and stays current
+      expect((await specManager.loadSpec(dialectApi, v1)).version).toBe('3.0')
+      expect((await versionManager.getApiMetadata(dialectApi)).current_version).toBe(v1)
+    })
+
+    it('should downgrade a 3.1 version back to the original 3.0 document', async () => {
+      await tool.execute({
+        apiId: dialectApi,
+        operation: 'upgrade_openapi',
+        version: v2,
+        targetVersion: v3,
+        openapiVersion: '3.0',
+      })
+
+      const loaded = await specManager.loadSpec(dialectApi, v3)
+      expect(loaded.version).toBe('3.0')
+      expect((loaded.spec as any).components).toEqual(spec30.components)
+    })
+
+    it('should refuse a no-op conversion', async () => {
+      await expect(
+        tool.execute({
+          apiId: dialectApi,
+          operation: 'upgrade_openapi',
+          version: v1,
+          targetVersion: createVersionTag('v4.0.0'),
+          openapiVersion: '3.0',
+        })
+      ).rejects.toThrow('already OpenAPI 3.0')
+    })
+  })
+
+  describe('Three-way merge', () => {
+    const branchApi = createApiId('branches')
+    const mainSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Branches API', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            summary: 'List pets',
+            parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    }
+
+    beforeAll(async () => {
+      await tool.execute({ apiId: branchApi, operation: 'create', version: v1 })
+      await specManager.saveSpec(branchApi, v1, mainSpec as any)
+      await tool.execute({ apiId: branchApi, operation: 'create', version: v2, sourceVersion: v1 })
+      await tool.execute({ apiId: branchApi, operation: 'create', version: v3, sourceVersion: v1 })
+
+      const ours = structuredClone(mainSpec) as any
+      ours.paths['/pets'].get.parameters.push({ name: 'page', in: 'query', schema: { type: 'integer' } })
+      await specManager.saveSpec(branchApi, v2, ours)
+
+      const theirs = structuredClone(mainSpec) as any
+      theirs.paths['/owners'] = { get: { responses: { '200': { description: 'OK' } } } }
+      theirs.paths['/pets'].get.summary = 'List all pets'
+      await specManager.saveSpec(branchApi, v3, theirs)
+    })
+
+    it('should merge two branches of the same version into a new version', async () => {
+      const merged = createVersionTag('v4.0.0')
+      const result = await tool.execute({
+        apiId: branchApi,
+        operation: 'merge',
+        version: v2,
+        theirsVersion: v3,
+        targetVersion: merged,
+        llmReason: 'Combine pagination with the owners endpoint',
+      })
+
+      expect(result.data).toEqual(expect.objectContaining({ baseVersion: v1, merged: true }))
+
+      const spec = (await specManager.loadSpec(branchApi, merged)).spec as any
+      expect(Object.keys(spec.paths)).toEqual(['/pets', '/owners'])
+      expect(spec.paths['/pets'].get.summary).toBe('List all pets')
+      expect(spec.paths['/pets'].get.parameters.map((p: any) => p.name)).toEqual(['limit', 'page'])
+
+      const metadata = await versionManager.getVersionMetadata(branchApi, merged)
+      expect(metadata.parent_version).toBe(v2)
+      expect(metadata.merge).toEqual({ base: v1, ours: v2, theirs: v3, conflicts: 0 })
+      expect(metadata.changes.endpoints_added).toContain('get /owners')
+
+      const [event] = await auditLogger.getAuditLog(branchApi, 1)
+      expect(event.event).toBe('version_merged')
+    })
+  })
+
   describe('Error scenarios', () => {
     it('should handle non-existent API gracefully', async () => {
       const nonExistentApi = createApiId('does-not-exist')
@@ -80,6 +80,18 @@ describe('Config', () => {
       })
     })
 
+    it('should parse git integration flags literally', () => {
+      process.env.ENABLE_GIT_INTEGRATION = 'false'
+      process.env.GIT_AUTO_PUSH = 'true'
+
+      jest.isolateModules(() => {
+        const { config: freshConfig } = require('../../../src/config')
+        expect(freshConfig.ENABLE_GIT_INTEGRATION).toBe(false)
+        expect(freshConfig.GIT_AUTO_PUSH).toBe(true)
+        expect(freshConfig.GIT_BRANCH).toBe('main')
+      })
+    })
+
     it('should reject invalid PORT', () => {
       process.env.PORT = 'invalid'
       
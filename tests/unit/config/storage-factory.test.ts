@@ -0,0 +1,89 @@
+/**
+ * Tests for the storage factory and provider registry
+ */
+
+import { config } from '../../../src/config'
+import { createStorage, resolveStorageProviderName, storageConfigFor } from '../../../src/config/storage-factory'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { GitStorageProvider } from '../../../src/storage/git-storage-provider'
+import { S3StorageProvider } from '../../../src/storage/s3-storage-provider'
+import { SqliteStorageProvider } from '../../../src/storage/sqlite-storage-provider'
+import { getStorageProviderNames, registerStorageProvider } from '../../../src/storage/storage-registry'
+
+describe('storage factory', () => {
+  const withConfig = (overrides: Partial<typeof config>) => ({ ...config, ...overrides })
+
+  describe('resolveStorageProviderName', () => {
+    it('should default to the file system', () => {
+      expect(resolveStorageProviderName(withConfig({ STORAGE_PROVIDER: undefined, ENABLE_GIT_INTEGRATION: false }))).toBe(
+        'filesystem'
+      )
+    })
+
+    it('should keep honouring ENABLE_GIT_INTEGRATION', () => {
+      expect(resolveStorageProviderName(withConfig({ STORAGE_PROVIDER: undefined, ENABLE_GIT_INTEGRATION: true }))).toBe('git')
+    })
+
+    it('should prefer STORAGE_PROVIDER', () => {
+      expect(resolveStorageProviderName(withConfig({ STORAGE_PROVIDER: 'sqlite', ENABLE_GIT_INTEGRATION: true }))).toBe(
+        'sqlite'
+      )
+    })
+  })
+
+  describe('createStorage', () => {
+    it('should create each built-in provider', () => {
+      const appConfig = withConfig({ S3_BUCKET: 'specs' })
+
+      expect(createStorage({ provider: 'filesystem' }, appConfig)).toBeInstanceOf(FileSystemStorage)
+      expect(createStorage({ provider: 'git' }, appConfig)).toBeInstanceOf(GitStorageProvider)
+      expect(createStorage({ provider: 's3' }, appConfig)).toBeInstanceOf(S3StorageProvider)
+
+      const sqlite = createStorage({ provider: 'sqlite', location: ':memory:' }, appConfig)
+      expect(sqlite).toBeInstanceOf(SqliteStorageProvider)
+      ;(sqlite as SqliteStorageProvider).close()
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => createStorage({ provider: 'carrier-pigeon' })).toThrow('Unknown storage provider: carrier-pigeon')
+    })
+
+    it('should create custom providers by name', () => {
+      const factory = jest.fn((storageConfig) => new FileSystemStorage(storageConfig))
+      registerStorageProvider('custom', factory)
+
+      createStorage({ provider: 'custom', location: '/tmp/custom' })
+
+      expect(getStorageProviderNames()).toContain('custom')
+      expect(factory).toHaveBeenCalledWith({ basePath: '/tmp/custom' })
+    })
+  })
+
+  describe('storageConfigFor', () => {
+    it('should map the S3 settings', () => {
+      const storageConfig = storageConfigFor(
+        's3',
+        undefined,
+        withConfig({
+          S3_BUCKET: 'specs',
+          S3_ENDPOINT: 'http://minio:9000',
+          S3_ACCESS_KEY_ID: 'key',
+          S3_SECRET_ACCESS_KEY: 'secret',
+        })
+      )
+
+      expect(storageConfig).toMatchObject({
+        basePath: 'specs',
+        options: { endpoint: 'http://minio:9000', credentials: { accessKeyId: 'key', secretAccessKey: 'secret' } },
+      })
+    })
+
+    it('should require a bucket for S3', () => {
+      expect(() => storageConfigFor('s3', undefined, withConfig({ S3_BUCKET: undefined }))).toThrow('S3_BUCKET is required')
+    })
+
+    it('should treat the location as database file for SQLite', () => {
+      expect(storageConfigFor('sqlite', './specs.db').options).toEqual({ filename: './specs.db' })
+    })
+  })
+})
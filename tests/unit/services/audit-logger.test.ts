@@ -33,6 +33,12 @@ describe('AuditLogger', () => {
   beforeEach(() => {
     mockStorage = new FileSystemStorage({ basePath: '/data' }) as jest.Mocked<FileSystemStorage>
     auditLogger = new AuditLogger(mockStorage)
+    // The automock replaces update() as well; run it as the plain read-modify-write it defaults to
+    mockStorage.update.mockImplementation(async (key, transform) => {
+      const next = await transform(await mockStorage.read(key).catch(() => null))
+      await mockStorage.write(key, next)
+      return next
+    })
   })
 
   describe('logEvent', () => {
@@ -276,6 +282,59 @@ describe('AuditLogger', () => {
     })
   })
 
+  describe('queryEvents', () => {
+    it('should combine the audit logs of all APIs', async () => {
+      mockStorage.list.mockResolvedValue([
+        'test-api/audit.json',
+        'active/test-api/metadata.json',
+        'other-api/audit.json',
+      ])
+      mockStorage.read.mockImplementation(async (key: string) =>
+        JSON.stringify(
+          key.startsWith('test-api')
+            ? [sampleEvent, { ...sampleEvent, user: 'jane@example.com', timestamp: '2024-01-17T10:00:00.000Z' }]
+            : [{ ...sampleEvent, api_id: createApiId('other-api'), timestamp: '2024-01-16T10:00:00.000Z' }]
+        )
+      )
+
+      const result = await auditLogger.queryEvents({ user: 'john@example.com' })
+
+      expect(mockStorage.read).toHaveBeenCalledTimes(2)
+      expect(result.map((event) => event.api_id)).toEqual(['other-api', 'test-api'])
+    })
+
+    it('should skip an audit log it cannot read', async () => {
+      mockStorage.list.mockResolvedValue(['test-api/audit.json', 'broken-api/audit.json'])
+      mockStorage.read.mockImplementation(async (key: string) =>
+        key.startsWith('broken-api') ? '[{"event": "spec_cre' : JSON.stringify([sampleEvent])
+      )
+
+      const result = await auditLogger.queryEvents()
+
+      expect(result).toEqual([sampleEvent])
+    })
+
+    it('should filter by date range and apply the limit', async () => {
+      mockStorage.read.mockResolvedValue(
+        JSON.stringify([
+          sampleEvent,
+          { ...sampleEvent, timestamp: '2024-01-20T10:00:00.000Z' },
+          { ...sampleEvent, timestamp: '2024-01-25T10:00:00.000Z' },
+        ])
+      )
+
+      const result = await auditLogger.queryEvents({
+        api_id: apiId,
+        from_date: '2024-01-16T00:00:00.000Z',
+        limit: 1,
+      })
+
+      expect(mockStorage.list).not.toHaveBeenCalled()
+      expect(result).toHaveLength(1)
+      expect(result[0].timestamp).toBe('2024-01-25T10:00:00.000Z')
+    })
+  })
+
   describe('createEvent', () => {
     it('should create properly formatted event', () => {
       const event = auditLogger.createEvent({
@@ -0,0 +1,292 @@
+/**
+ * Tests for ChangeClassifier
+ */
+
+import { ChangeClassifier, CHANGE_RULES } from '../../../src/services/change-classifier'
+
+describe('ChangeClassifier', () => {
+  let classifier: ChangeClassifier
+
+  const baseSpec = (): any => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    security: [{ apiKey: [] }],
+    paths: {
+      '/users': {
+        get: {
+          parameters: [
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'blocked'] } },
+          ],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+                },
+              },
+            },
+            '404': { description: 'Not found' },
+          },
+        },
+        post: {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/NewUser' } } },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'X-Key' } },
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['id', 'email'],
+          properties: {
+            id: { type: 'string' },
+            email: { type: 'string' },
+            role: { type: 'string', enum: ['admin', 'member'] },
+            manager: { $ref: '#/components/schemas/User' },
+          },
+        },
+        NewUser: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string' },
+            age: { type: 'integer' },
+          },
+        },
+      },
+    },
+  })
+
+  const rules = (changes: Array<{ rule: string }>) => changes.map((change) => change.rule)
+
+  beforeEach(() => {
+    classifier = new ChangeClassifier()
+  })
+
+  it('should report nothing for identical specs', () => {
+    expect(classifier.classify(baseSpec(), baseSpec())).toEqual([])
+  })
+
+  it('should give every rule a known severity', () => {
+    for (const rule of Object.values(CHANGE_RULES)) {
+      expect(['breaking', 'non-breaking', 'unclassified']).toContain(rule.severity)
+    }
+  })
+
+  it('should distinguish optional from required parameter additions', () => {
+    const newSpec = baseSpec()
+    newSpec.paths['/users'].get.parameters.push(
+      { name: 'page', in: 'query', schema: { type: 'integer' } },
+      { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } }
+    )
+
+    const changes = classifier.classify(baseSpec(), newSpec)
+
+    expect(changes).toContainEqual({
+      rule: 'request-parameter-added-optional',
+      severity: 'non-breaking',
+      message: "GET /users: optional query parameter 'page' added",
+      endpoint: 'GET /users',
+    })
+    expect(changes).toContainEqual(
+      expect.objectContaining({ rule: 'request-parameter-added-required', severity: 'breaking' })
+    )
+  })
+
+  it('should classify parameter requiredness, type and enum changes', () => {
+    const newSpec = baseSpec()
+    newSpec.paths['/users'].get.parameters[0] = {
+      name: 'status',
+      in: 'query',
+      required: true,
+      schema: { type: 'string', enum: ['active', 'archived'] },
+    }
+
+    expect(rules(classifier.classify(baseSpec(), newSpec))).toEqual([
+      'request-parameter-became-required',
+      'request-parameter-enum-value-removed',
+      'request-parameter-enum-value-added',
+    ])
+
+    const retyped = baseSpec()
+    retyped.paths['/users'].get.parameters[0].schema = { type: 'integer' }
+    expect(rules(classifier.classify(baseSpec(), retyped))).toContain('request-parameter-type-changed')
+  })
+
+  it('should flag response properties that disappear but not ones that appear', () => {
+    const newSpec = baseSpec()
+    delete newSpec.components.schemas.User.properties.email
+    newSpec.components.schemas.User.required = ['id']
+    newSpec.components.schemas.User.properties.avatar = { type: 'string' }
+
+    const changes = classifier.classify(baseSpec(), newSpec)
+
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        rule: 'response-property-removed',
+        severity: 'breaking',
+        message: "GET /users: 200 response (application/json) property '[].email' removed",
+      })
+    )
+    expect(changes).toContainEqual(
+      expect.objectContaining({ rule: 'response-property-added', severity: 'non-breaking' })
+    )
+  })
+
+  it('should treat new response enum values as breaking and request enum values as safe', () => {
+    const newSpec = baseSpec()
+    newSpec.components.schemas.User.properties.role.enum.push('owner')
+
+    expect(rules(classifier.classify(baseSpec(), newSpec))).toContain('response-property-enum-value-added')
+    expect(CHANGE_RULES['response-property-enum-value-added'].severity).toBe('breaking')
+    expect(CHANGE_RULES['request-property-enum-value-added'].severity).toBe('non-breaking')
+  })
+
+  it('should classify request body property changes', () => {
+    const newSpec = baseSpec()
+    newSpec.components.schemas.NewUser.required = ['email', 'age']
+    newSpec.components.schemas.NewUser.properties.nickname = { type: 'string' }
+    newSpec.components.schemas.NewUser.properties.email = { type: ['string', 'null'] }
+
+    const changes = classifier.classify(baseSpec(), newSpec).filter((c) => c.endpoint === 'POST /users')
+
+    expect(rules(changes)).toEqual([
+      'request-property-type-widened',
+      'request-property-became-required',
+      'request-property-added-optional',
+    ])
+  })
+
+  it('should classify request body and media type changes', () => {
+    const optional = baseSpec()
+    optional.paths['/users'].post.requestBody.required = false
+    optional.paths['/users'].post.requestBody.content['application/xml'] = { schema: { type: 'object' } }
+    expect(rules(classifier.classify(baseSpec(), optional))).toEqual([
+      'request-body-became-optional',
+      'request-body-media-type-added',
+    ])
+
+    const removed = baseSpec()
+    delete removed.paths['/users'].post.requestBody
+    expect(rules(classifier.classify(baseSpec(), removed))).toEqual(['request-body-removed'])
+  })
+
+  it('should treat a removed success response as breaking and other statuses as unclassified', () => {
+    const newSpec = baseSpec()
+    delete newSpec.paths['/users'].get.responses['404']
+    delete newSpec.paths['/users'].post.responses['201']
+    newSpec.paths['/users'].post.responses['202'] = { description: 'Accepted' }
+
+    expect(classifier.classify(baseSpec(), newSpec)).toEqual([
+      expect.objectContaining({ rule: 'response-status-removed', severity: 'unclassified' }),
+      expect.objectContaining({ rule: 'response-success-status-removed', severity: 'breaking' }),
+      expect.objectContaining({ rule: 'response-status-added', severity: 'non-breaking' }),
+    ])
+  })
+
+  it('should classify security requirement changes', () => {
+    const open = baseSpec()
+    open.paths['/users'].get.security = []
+    expect(classifier.classify(baseSpec(), open)).toEqual([
+      expect.objectContaining({ rule: 'security-requirement-removed', endpoint: 'GET /users' }),
+    ])
+    expect(classifier.classify(open, baseSpec())).toEqual([
+      expect.objectContaining({ rule: 'security-requirement-added', severity: 'breaking' }),
+    ])
+
+    const optional = baseSpec()
+    optional.paths['/users'].get.security = [{ apiKey: [] }, {}]
+    expect(classifier.classify(optional, baseSpec())).toEqual([
+      expect.objectContaining({ rule: 'security-requirement-added', severity: 'breaking' }),
+    ])
+    expect(rules(classifier.classify(baseSpec(), optional))).toEqual(['security-requirement-removed'])
+    expect(classifier.classify(open, optional)).toEqual([
+      expect.objectContaining({ rule: 'security-alternative-added', message: 'GET /users: security requirement apiKey added' }),
+    ])
+
+    const swapped = baseSpec()
+    swapped.security = [{ oauth: ['read'] }]
+    expect(rules(classifier.classify(baseSpec(), swapped))).toEqual([
+      'security-alternative-removed',
+      'security-alternative-added',
+      'security-alternative-removed',
+      'security-alternative-added',
+    ])
+  })
+
+  it('should merge allOf members before comparing', () => {
+    const oldSpec = baseSpec()
+    oldSpec.components.schemas.NewUser = {
+      allOf: [{ type: 'object', properties: { email: { type: 'string' } } }],
+    }
+    const newSpec = structuredClone(oldSpec)
+    newSpec.components.schemas.NewUser.allOf.push({ required: ['email'] })
+
+    expect(rules(classifier.classify(oldSpec, newSpec))).toContain('request-property-became-required')
+  })
+
+  it('should report endpoint and schema level changes', () => {
+    const newSpec = baseSpec()
+    newSpec.paths['/users'].get.deprecated = true
+    delete newSpec.paths['/users'].post
+    newSpec.paths['/teams'] = { get: { responses: { '200': { description: 'OK' } } } }
+    newSpec.components.schemas.Team = { type: 'object' }
+
+    expect(rules(classifier.classify(baseSpec(), newSpec))).toEqual([
+      'endpoint-deprecated',
+      'endpoint-removed',
+      'endpoint-added',
+      'schema-added',
+    ])
+  })
+
+  it('should classify added and removed webhooks and callbacks', () => {
+    const oldSpec = baseSpec()
+    oldSpec.openapi = '3.1.0'
+    oldSpec.webhooks = { userCreated: { post: { responses: { '200': { description: 'OK' } } } } }
+    oldSpec.paths['/users'].post.callbacks = {
+      onImport: { '{$request.body#/callbackUrl}': { post: { responses: { '200': { description: 'OK' } } } } },
+    }
+    const newSpec = structuredClone(oldSpec)
+    delete newSpec.webhooks.userCreated
+    newSpec.webhooks.userDeleted = { post: { responses: { '200': { description: 'OK' } } } }
+    delete newSpec.paths['/users'].post.callbacks
+
+    const changes = classifier.classify(oldSpec, newSpec)
+    expect(rules(changes)).toEqual(['webhook-removed', 'webhook-added', 'callback-removed'])
+    expect(changes[2].message).toBe(
+      'Callback POST {$request.body#/callbackUrl} (onImport callback of POST /users) removed'
+    )
+  })
+
+  it('should understand Swagger 2.0 body parameters and response schemas', () => {
+    const oldSpec: any = {
+      swagger: '2.0',
+      info: { title: 'Legacy', version: '1' },
+      paths: {
+        '/pets': {
+          post: {
+            parameters: [{ name: 'body', in: 'body', schema: { $ref: '#/definitions/Pet' } }],
+            responses: { '200': { description: 'OK', schema: { $ref: '#/definitions/Pet' } } },
+          },
+        },
+      },
+      definitions: { Pet: { type: 'object', properties: { name: { type: 'string' } } } },
+    }
+    const newSpec = structuredClone(oldSpec)
+    newSpec.definitions.Pet.properties.tag = { type: 'string' }
+    newSpec.definitions.Pet.required = ['tag']
+
+    expect(rules(classifier.classify(oldSpec, newSpec))).toEqual([
+      'request-property-added-required',
+      'response-property-added',
+      'schema-modified',
+    ])
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * Tests for ChangeSetManager
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { ChangeSetManager } from '../../../src/services/change-set-manager'
+import { SchemaManageTool } from '../../../src/tools/schema-manage-tool'
+import { EndpointManageTool } from '../../../src/tools/endpoint-manage-tool'
+import { VersionControlTool } from '../../../src/tools/version-control-tool'
+import { ChangeSetTool } from '../../../src/tools/change-set-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('ChangeSetManager', () => {
+  const apiId = createApiId('pets')
+  const version = createVersionTag('v1.0.0')
+  const baseSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {},
+  }
+
+  let tmpDir: string
+  let storage: FileSystemStorage
+  let specManager: SpecManager
+  let auditLogger: AuditLogger
+  let manager: ChangeSetManager
+  let schemaTool: SchemaManageTool
+  let endpointTool: EndpointManageTool
+
+  const storedSpec = async () => ((await specManager.loadSpec(apiId, version)) as any).spec
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-set-'))
+    storage = new FileSystemStorage({ basePath: tmpDir })
+    specManager = new SpecManager(storage)
+    auditLogger = new AuditLogger(storage)
+    manager = new ChangeSetManager(specManager, auditLogger)
+    schemaTool = new SchemaManageTool(specManager, auditLogger)
+    endpointTool = new EndpointManageTool(specManager, auditLogger)
+    await specManager.saveSpec(apiId, version, structuredClone(baseSpec))
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  const addPet = (transactionId?: string) =>
+    manager.execute(schemaTool, {
+      apiId,
+      version,
+      operation: 'add',
+      schemaName: 'Pet',
+      schema: { type: 'object', properties: { name: { type: 'string' } } },
+      transactionId,
+    })
+
+  const addListPets = (transactionId?: string) =>
+    manager.execute(endpointTool, {
+      apiId,
+      version,
+      operation: 'add',
+      path: '/pets',
+      method: 'get',
+      operationObject: {
+        summary: 'List pets',
+        responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      },
+      transactionId,
+    })
+
+  it('should run tools without a transactionId against the stored spec', async () => {
+    await addPet()
+
+    expect((await storedSpec()).components.schemas.Pet).toBeDefined()
+    expect(manager.list()).toHaveLength(0)
+  })
+
+  it('should keep edits in the working copy until commit', async () => {
+    const changeSet = await manager.begin(apiId, version, 'Add pets')
+
+    await addPet(changeSet.id)
+    await addListPets(changeSet.id)
+
+    expect((await storedSpec()).components).toBeUndefined()
+    expect((changeSet.spec as any).paths['/pets'].get.summary).toBe('List pets')
+    expect(await storage.exists('pets/audit.json')).toBe(false)
+  })
+
+  it('should let later tools in a change set see earlier edits', async () => {
+    const changeSet = await manager.begin(apiId, version)
+    await addPet(changeSet.id)
+
+    const result = await manager.execute(schemaTool, { apiId, version, operation: 'list', transactionId: changeSet.id })
+
+    expect(JSON.stringify(result.data)).toContain('Pet')
+  })
+
+  it('should commit once with one aggregated audit event', async () => {
+    const changeSet = await manager.begin(apiId, version, 'Add pets')
+    await addPet(changeSet.id)
+    await addListPets(changeSet.id)
+
+    const summary = await manager.commit(changeSet.id)
+
+    expect(summary.operation_count).toBe(2)
+    const spec = await storedSpec()
+    expect(spec.components.schemas.Pet).toBeDefined()
+    expect(spec.paths['/pets'].get).toBeDefined()
+
+    const events = await auditLogger.getAuditLog(apiId)
+    expect(events).toHaveLength(1)
+    expect(events[0].event).toBe('change_set_committed')
+    expect(events[0].llm_reason).toBe('Add pets')
+    expect(events[0].details).toMatchObject({ transaction_id: changeSet.id, operation_count: 2 })
+    expect(manager.list()).toHaveLength(0)
+  })
+
+  it('should discard everything on rollback', async () => {
+    const changeSet = await manager.begin(apiId, version)
+    await addPet(changeSet.id)
+
+    const summary = await manager.rollback(changeSet.id)
+
+    expect(summary.operation_count).toBe(1)
+    expect((await storedSpec()).components).toBeUndefined()
+    expect(await storage.exists('pets/audit.json')).toBe(false)
+    await expect(addListPets(changeSet.id)).rejects.toThrow('not found')
+  })
+
+  it('should refuse to commit an invalid spec and keep the change set open', async () => {
+    const changeSet = await manager.begin(apiId, version)
+    await addListPets(changeSet.id) // references Pet, which was never added
+
+    await expect(manager.commit(changeSet.id)).rejects.toThrow('invalid spec')
+
+    expect(manager.get(changeSet.id)).toBe(changeSet)
+    await addPet(changeSet.id)
+    await expect(manager.commit(changeSet.id)).resolves.toMatchObject({ operation_count: 2 })
+  })
+
+  it('should refuse to commit when the stored spec changed meanwhile', async () => {
+    const changeSet = await manager.begin(apiId, version)
+    await addPet(changeSet.id)
+    await addListPets() // outside the change set
+
+    await expect(manager.commit(changeSet.id)).rejects.toThrow('changed outside change set')
+  })
+
+  it('should reject tool calls for another spec or tools that cannot run in a change set', async () => {
+    const changeSet = await manager.begin(apiId, version)
+    const versionTool = new VersionControlTool(specManager, {} as any, {} as any, auditLogger)
+
+    await expect(
+      manager.execute(schemaTool, { apiId, version: 'v2.0.0', operation: 'list', transactionId: changeSet.id })
+    ).rejects.toThrow('covers pets v1.0.0')
+    await expect(
+      manager.execute(versionTool, { apiId, operation: 'list', transactionId: changeSet.id })
+    ).rejects.toThrow('cannot run inside a change set')
+  })
+
+  it('should not open a change set on a published version', async () => {
+    await storage.write('active/pets/v1.0.0/metadata.json', JSON.stringify({ version, state: 'stable' }))
+
+    await expect(manager.begin(apiId, version)).rejects.toThrow('is stable and cannot be modified')
+  })
+
+  it('should expire idle change sets', async () => {
+    manager = new ChangeSetManager(specManager, auditLogger, { ttlMs: -1 })
+    const changeSet = await manager.begin(apiId, version)
+
+    expect(() => manager.get(changeSet.id)).toThrow('not found')
+  })
+
+  it('should advertise transactionId on tools that can run in a change set', () => {
+    const changeSetTool = new ChangeSetTool(manager)
+
+    expect((manager.describe(schemaTool).inputSchema as any).properties).toBeUndefined()
+    expect(JSON.stringify(manager.describe(schemaTool).inputSchema)).toContain('transactionId')
+    expect((manager.describe(endpointTool).inputSchema as any).properties.transactionId).toBeDefined()
+    expect(manager.describe(changeSetTool)).toEqual(changeSetTool.describe())
+    expect((schemaTool.describe().inputSchema as any).properties?.transactionId).toBeUndefined()
+  })
+
+  describe('ChangeSetTool', () => {
+    it('should begin, report status and commit', async () => {
+      const tool = new ChangeSetTool(manager)
+
+      const begun = await manager.execute(tool, { operation: 'begin', apiId, version })
+      const transactionId = (begun.data as any).transactionId
+      await addPet(transactionId)
+
+      const status = await manager.execute(tool, { operation: 'status' })
+      expect((status.data as any).count).toBe(1)
+
+      const committed = await manager.execute(tool, { operation: 'commit', transactionId })
+      expect(committed.success).toBe(true)
+      expect((await storedSpec()).components.schemas.Pet).toBeDefined()
+    })
+
+    it('should pass ToolErrors through and give other failures the call context', async () => {
+      const tool = new ChangeSetTool(manager)
+
+      await expect(tool.execute({ operation: 'commit', transactionId: 'nope' })).rejects.toMatchObject({
+        message: expect.stringMatching(/^Change set nope not found/),
+      })
+      await expect(tool.execute({ operation: 'begin', apiId: 'ghost', version })).rejects.toMatchObject({
+        message: expect.stringMatching(/^Change set failed: /),
+        params: { apiId: 'ghost', version, operation: 'begin' },
+      })
+    })
+  })
+})
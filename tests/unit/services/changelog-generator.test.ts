@@ -0,0 +1,168 @@
+/**
+ * Tests for ChangelogGenerator
+ */
+
+import { ChangelogGenerator } from '../../../src/services/changelog-generator'
+import { DiffCalculator } from '../../../src/services/diff-calculator'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+describe('ChangelogGenerator', () => {
+  const apiId = createApiId('pets-api')
+  const v1 = createVersionTag('v1.0.0')
+  const v2 = createVersionTag('v2.0.0')
+
+  const oldSpec = (): any => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          tags: ['pets'],
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+      '/owners': {
+        delete: { responses: { '204': { description: 'Deleted' } } },
+      },
+    },
+    components: { schemas: { Pet: { type: 'object' } } },
+  })
+
+  const newSpec = (): any => {
+    const spec = oldSpec()
+    spec.paths['/pets'].get.parameters.push({ name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } })
+    spec.paths['/pets'].get.parameters.push({ name: 'page', in: 'query', schema: { type: 'integer' } })
+    delete spec.paths['/owners']
+    spec.components.schemas.Owner = { type: 'object' }
+    return spec
+  }
+
+  let specManager: any
+  let versionManager: any
+  let auditLogger: any
+  let generator: ChangelogGenerator
+
+  beforeEach(() => {
+    specManager = {
+      loadSpec: jest.fn(async (_apiId: string, version: string) => ({
+        version: '3.0',
+        spec: version === v1 ? oldSpec() : newSpec(),
+      })),
+    }
+    versionManager = {
+      getVersionMetadata: jest.fn(async (_apiId: string, version: string) => ({
+        version,
+        parent_version: version === v2 ? v1 : null,
+      })),
+    }
+    auditLogger = {
+      getAuditLog: jest.fn().mockResolvedValue([
+        {
+          timestamp: '2026-01-02T00:00:00.000Z',
+          event: 'parameter_added',
+          api_id: apiId,
+          version: v2,
+          user: 'mcp-tool',
+          llm_reason: 'Multi-tenant routing',
+          details: { path: '/pets', method: 'get', parameterName: 'X-Tenant' },
+        },
+        {
+          timestamp: '2026-01-01T00:00:00.000Z',
+          event: 'version_created',
+          api_id: apiId,
+          version: v2,
+          user: 'mcp-tool',
+          llm_reason: 'Start of the 2.0 cycle',
+        },
+        {
+          timestamp: '2025-12-01T00:00:00.000Z',
+          event: 'schema_added',
+          api_id: apiId,
+          version: v1,
+          user: 'mcp-tool',
+          llm_reason: 'Belongs to v1, not in range',
+          details: { schemaName: 'Owner' },
+        },
+      ]),
+    }
+    generator = new ChangelogGenerator(specManager, versionManager, new DiffCalculator(), auditLogger)
+  })
+
+  it('should put breaking changes first and group by tag', async () => {
+    const { changelog } = await generator.generate(apiId, v1, v2, 'json')
+
+    expect(changelog.summary).toEqual({ breaking: 2, nonBreaking: 2, unclassified: 0 })
+    expect(changelog.breaking.map((group) => group.title)).toEqual(['pets', 'Other'])
+    expect(changelog.breaking[0].entries).toEqual([
+      expect.objectContaining({
+        rule: 'request-parameter-added-required',
+        endpoint: 'GET /pets',
+        reasons: ['Multi-tenant routing'],
+      }),
+    ])
+    expect(changelog.breaking[1].entries[0].rule).toBe('endpoint-removed')
+    expect(changelog.changes.map((group) => group.title)).toEqual(['pets', 'Schemas'])
+  })
+
+  it('should only use audit events from versions in range and keep the rest as notes', async () => {
+    const { changelog } = await generator.generate(apiId, v1, v2, 'json')
+
+    const schemaEntry = changelog.changes.find((group) => group.title === 'Schemas')?.entries[0]
+    expect(schemaEntry?.reasons).toEqual([])
+    expect(changelog.notes).toEqual([
+      expect.objectContaining({ event: 'version_created', reason: 'Start of the 2.0 cycle' }),
+    ])
+  })
+
+  it('should group by endpoint when asked', async () => {
+    const { changelog } = await generator.generate(apiId, v1, v2, 'json', 'endpoint')
+
+    expect(changelog.breaking.map((group) => group.title)).toEqual(['DELETE /owners', 'GET /pets'])
+  })
+
+  it('should render Markdown with reasons and rule ids', async () => {
+    const { content } = await generator.generate(apiId, v1, v2)
+
+    expect(content).toContain('# Pets API: v1.0.0 → v2.0.0')
+    expect(content.indexOf('## ⚠️ Breaking Changes')).toBeLessThan(content.indexOf('## Changes'))
+    expect(content).toContain("- GET /pets: required header parameter 'X-Tenant' added `request-parameter-added-required`")
+    expect(content).toContain('  - 💬 Multi-tenant routing')
+    expect(content).toContain('## Notes')
+  })
+
+  it('should render escaped HTML', async () => {
+    auditLogger.getAuditLog.mockResolvedValue([
+      {
+        timestamp: '2026-01-02T00:00:00.000Z',
+        event: 'parameter_added',
+        api_id: apiId,
+        version: v2,
+        user: 'mcp-tool',
+        llm_reason: 'Tenants <b>must</b> be explicit',
+        details: { path: '/pets', method: 'get' },
+      },
+    ])
+
+    const { content } = await generator.generate(apiId, v1, v2, 'html')
+
+    expect(content).toMatch(/^<article class="changelog">/)
+    expect(content).toContain('<li>Tenants &lt;b&gt;must&lt;/b&gt; be explicit</li>')
+    expect(content).toContain('class="change-breaking"')
+  })
+
+  it('should fall back to the target version when the versions are not related', async () => {
+    versionManager.getVersionMetadata.mockResolvedValue({ parent_version: null })
+
+    const { changelog } = await generator.generate(apiId, v1, v2, 'json')
+
+    expect(changelog.notes.map((note) => note.version)).toEqual([v2])
+  })
+
+  it('should say so when nothing changed', async () => {
+    const { content, changelog } = await generator.generate(apiId, v1, v1)
+
+    expect(changelog.summary).toEqual({ breaking: 0, nonBreaking: 0, unclassified: 0 })
+    expect(content).toContain('No changes.')
+  })
+})
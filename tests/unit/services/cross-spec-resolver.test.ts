@@ -0,0 +1,179 @@
+/**
+ * Tests for CrossSpecResolver
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { VersionManager } from '../../../src/services/version-manager'
+import { FolderManager } from '../../../src/services/folder-manager'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { ChangeSetManager } from '../../../src/services/change-set-manager'
+import { CrossSpecResolver } from '../../../src/services/cross-spec-resolver'
+import { ReferencesManageTool } from '../../../src/tools/references-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('CrossSpecResolver', () => {
+  const v1 = createVersionTag('v1.0.0')
+  const v2 = createVersionTag('v2.0.0')
+
+  const sharedSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Shared', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        Error: { type: 'object', properties: { code: { type: 'string' }, detail: { $ref: '#/components/schemas/Detail' } } },
+        Detail: { type: 'object', properties: { field: { type: 'string' } } },
+        Page: { type: 'object', properties: { next: { type: 'string' } } },
+      },
+    },
+  }
+  const ordersSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Orders', version: '1.0.0' },
+    paths: {
+      '/orders': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: 'shared-api@v1.0.0#/components/schemas/Page' } } },
+            },
+            default: {
+              description: 'Error',
+              content: { 'application/json': { schema: { $ref: 'shared-api@v1.0.0#/components/schemas/Error' } } },
+            },
+          },
+        },
+      },
+    },
+    components: { schemas: { Error: { type: 'string' } } },
+  }
+  const billingSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Billing', version: '2.0.0' },
+    paths: {
+      '/invoices': {
+        get: {
+          responses: {
+            default: {
+              description: 'Error',
+              content: { 'application/json': { schema: { $ref: 'shared-api@v2.0.0#/components/schemas/Error' } } },
+            },
+          },
+        },
+      },
+    },
+  }
+
+  let tmpDir: string
+  let specManager: SpecManager
+  let versionManager: VersionManager
+  let resolver: CrossSpecResolver
+  let auditLogger: AuditLogger
+
+  const store = async (apiId: string, versions: Array<[ReturnType<typeof createVersionTag>, object]>) => {
+    const [[first]] = versions
+    await versionManager.createApiMetadata(createApiId(apiId), apiId, 'platform', first, 'active')
+    for (const [version, spec] of versions) {
+      if (version !== first) await versionManager.addVersion(createApiId(apiId), version, false)
+      await specManager.saveSpec(createApiId(apiId), version, structuredClone(spec))
+    }
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cross-spec-'))
+    const storage = new FileSystemStorage({ basePath: tmpDir })
+    specManager = new SpecManager(storage)
+    versionManager = new VersionManager(storage)
+    const folderManager = new FolderManager(storage)
+    auditLogger = new AuditLogger(storage)
+    resolver = new CrossSpecResolver(specManager, versionManager, folderManager)
+
+    await folderManager.createFolder('active', { title: 'Active' })
+    await store('shared-api', [[v1, sharedSpec], [v2, sharedSpec]])
+    await store('orders', [[v1, ordersSpec]])
+    await store('billing', [[v2, billingSpec]])
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should report unresolvable cross-spec refs with a reason', async () => {
+    const problems = await resolver.unresolvable([
+      'shared-api@v1.0.0#/components/schemas/Error',
+      'shared-api@v1.0.0#/components/schemas/Nope',
+      'shared-api@v9.0.0#/components/schemas/Error',
+    ])
+
+    expect([...problems]).toEqual([
+      ['shared-api@v1.0.0#/components/schemas/Nope', '/components/schemas/Nope not found in shared-api v1.0.0'],
+      ['shared-api@v9.0.0#/components/schemas/Error', 'shared-api v9.0.0 not found'],
+    ])
+  })
+
+  it('should bundle referenced components, following their refs and avoiding name clashes', async () => {
+    const { spec, imported } = await resolver.bundle(structuredClone(ordersSpec))
+
+    const responses = spec.paths['/orders'].get.responses
+    expect(responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Page' })
+    expect(responses.default.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/SharedApiError' })
+    expect(spec.components.schemas.Error).toEqual({ type: 'string' })
+    expect(spec.components.schemas.SharedApiError.properties.detail).toEqual({ $ref: '#/components/schemas/Detail' })
+    expect(spec.components.schemas.Detail).toEqual(sharedSpec.components.schemas.Detail)
+    expect(imported.map((component) => component.componentName)).toEqual(['Page', 'Detail', 'SharedApiError'])
+  })
+
+  it('should refuse to bundle a ref it cannot resolve', async () => {
+    const spec = { openapi: '3.0.3', paths: { '/x': { $ref: 'shared-api@v1.0.0#/paths/~1missing' } } }
+
+    await expect(resolver.bundle(spec)).rejects.toThrow('Cannot resolve shared-api@v1.0.0#/paths/~1missing')
+  })
+
+  it('should find the specs depending on a shared component', async () => {
+    const error = '/components/schemas/Error'
+
+    expect(await resolver.dependents({ apiId: 'shared-api', version: 'v1.0.0', pointer: error })).toEqual([
+      {
+        apiId: 'orders',
+        version: 'v1.0.0',
+        pointer: '/paths/~1orders/get/responses/default/content/application~1json/schema',
+        ref: 'shared-api@v1.0.0#/components/schemas/Error',
+      },
+    ])
+    const allVersions = await resolver.dependents({ apiId: 'shared-api', pointer: error })
+    expect(allVersions.map((dependent) => `${dependent.apiId}@${dependent.version}`).sort()).toEqual([
+      'billing@v2.0.0',
+      'orders@v1.0.0',
+    ])
+  })
+
+  it('should read shared specs from inside a change set', async () => {
+    const manager = new ChangeSetManager(specManager, auditLogger)
+    const tool = new ReferencesManageTool(specManager, auditLogger, resolver)
+    const changeSet = await manager.begin(createApiId('orders'), v1)
+
+    const result = await manager.execute(tool, {
+      apiId: 'orders',
+      version: 'v1.0.0',
+      operation: 'validate',
+      transactionId: changeSet.id,
+    })
+
+    expect(result.data).toEqual(expect.objectContaining({ crossSpecRefs: 2, brokenRefs: 0 }))
+  })
+})
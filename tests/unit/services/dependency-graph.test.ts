@@ -0,0 +1,131 @@
+/**
+ * Tests for DependencyGraph
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { VersionManager } from '../../../src/services/version-manager'
+import { FolderManager } from '../../../src/services/folder-manager'
+import { CrossSpecResolver } from '../../../src/services/cross-spec-resolver'
+import { DiffCalculator } from '../../../src/services/diff-calculator'
+import { DependencyGraph } from '../../../src/services/dependency-graph'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('DependencyGraph', () => {
+  const v1 = createVersionTag('v1.0.0')
+
+  const sharedSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Shared', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        Error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } },
+        Page: { type: 'object', properties: { next: { type: 'string' } } },
+      },
+    },
+  }
+  const consumerSpec = (title: string, path: string, schema: string) => ({
+    openapi: '3.0.3',
+    info: { title, version: '1.0.0' },
+    paths: {
+      [path]: {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: `shared-api@v1.0.0#/components/schemas/${schema}` } } },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  let tmpDir: string
+  let graph: DependencyGraph
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-graph-'))
+    const storage = new FileSystemStorage({ basePath: tmpDir })
+    const specManager = new SpecManager(storage)
+    const versionManager = new VersionManager(storage)
+    const folderManager = new FolderManager(storage)
+    const resolver = new CrossSpecResolver(specManager, versionManager, folderManager)
+    graph = new DependencyGraph(resolver, specManager, new DiffCalculator())
+
+    await folderManager.createFolder('active', { title: 'Active' })
+    const specs: Array<[string, object]> = [
+      ['shared-api', sharedSpec],
+      ['orders', consumerSpec('Orders', '/orders', 'Error')],
+      ['billing', consumerSpec('Billing', '/invoices', 'Page')],
+    ]
+    for (const [apiId, spec] of specs) {
+      await versionManager.createApiMetadata(createApiId(apiId), apiId, 'platform', v1, 'active')
+      await specManager.saveSpec(createApiId(apiId), v1, structuredClone(spec))
+    }
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should link consumers to the APIs and components they reference', async () => {
+    const data = await graph.build()
+
+    expect(data.apis.map((api) => api.id).sort()).toEqual(['billing@v1.0.0', 'orders@v1.0.0', 'shared-api@v1.0.0'])
+    expect(data.components.map((component) => component.id).sort()).toEqual([
+      'shared-api@v1.0.0#/components/schemas/Error',
+      'shared-api@v1.0.0#/components/schemas/Page',
+    ])
+    expect(data.edges).toEqual(
+      expect.arrayContaining([
+        { type: 'api', from: 'orders@v1.0.0', to: 'shared-api@v1.0.0', refs: 1 },
+        { type: 'component', from: 'shared-api@v1.0.0#/components/schemas/Error', to: 'orders@v1.0.0', refs: 1 },
+      ])
+    )
+    expect(data.edges).toHaveLength(4)
+  })
+
+  it('should only keep the edges of the requested API', async () => {
+    const data = await graph.build('orders')
+
+    expect(data.apis.map((api) => api.id).sort()).toEqual(['orders@v1.0.0', 'shared-api@v1.0.0'])
+    expect(data.edges.every((edge) => edge.from.startsWith('orders') || edge.to.startsWith('orders'))).toBe(true)
+  })
+
+  it('should report the consumers a shared schema change would break', async () => {
+    const report = await graph.impact({
+      apiId: 'shared-api',
+      version: 'v1.0.0',
+      componentType: 'schemas',
+      componentName: 'Error',
+      definition: { type: 'object', properties: { code: { type: 'string' } } },
+    })
+
+    expect(report.component).toBe('shared-api@v1.0.0#/components/schemas/Error')
+    expect(report.breakingConsumers).toBe(1)
+    expect(report.affected).toEqual([expect.objectContaining({ id: 'orders@v1.0.0', breaking: true })])
+    expect(report.affected[0].breakingChanges.length).toBeGreaterThan(0)
+    expect(report.unaffected).toEqual(['billing@v1.0.0'])
+  })
+
+  it('should refuse to analyze a component that does not exist', async () => {
+    await expect(
+      graph.impact({ apiId: 'shared-api', version: 'v1.0.0', componentType: 'schemas', componentName: 'Nope', definition: {} })
+    ).rejects.toThrow('shared-api@v1.0.0#/components/schemas/Nope not found')
+  })
+})
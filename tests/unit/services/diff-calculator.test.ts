@@ -112,7 +112,9 @@ describe('DiffCalculator', () => {
         path: '/posts',
         methods: ['get'],
       })
-      expect(diff.breaking_changes).toContainEqual('Removed endpoint: get /posts')
+      expect(diff.breaking_changes).toContainEqual(
+        expect.objectContaining({ rule: 'endpoint-removed', severity: 'breaking', endpoint: 'GET /posts' })
+      )
     })
 
     it('should detect added methods on existing path', () => {
@@ -206,7 +208,9 @@ describe('DiffCalculator', () => {
 
       expect(diff.summary.schemas_deleted).toContain('Post')
       expect(diff.schemas_removed_detail).toContainEqual({ name: 'Post' })
-      expect(diff.breaking_changes).toContainEqual('Removed schema: Post')
+      expect(diff.breaking_changes).toContainEqual(
+        expect.objectContaining({ rule: 'schema-removed', severity: 'breaking', schema: 'Post' })
+      )
     })
 
     it('should detect modified schemas', () => {
@@ -230,7 +234,11 @@ describe('DiffCalculator', () => {
       const diff = diffCalculator.calculateDiff(baseSpec as any, newSpec as any)
 
       expect(diff.summary.schemas_modified).toContain('User')
-      expect(diff.breaking_changes.some((bc) => bc.includes('User'))).toBe(true)
+      expect(diff.classified_changes).toContainEqual(
+        expect.objectContaining({ rule: 'schema-modified', severity: 'unclassified', schema: 'User' })
+      )
+      // Adding a property to a schema no operation uses breaks nobody
+      expect(diff.breaking_changes).toEqual([])
     })
 
     it('should detect breaking changes from request body removal', () => {
@@ -272,7 +280,9 @@ describe('DiffCalculator', () => {
 
       const diff = diffCalculator.calculateDiff(oldSpec as any, newSpec as any)
 
-      expect(diff.breaking_changes.some((bc) => bc.includes('request body removed'))).toBe(true)
+      expect(diff.breaking_changes).toContainEqual(
+        expect.objectContaining({ rule: 'request-body-removed', endpoint: 'POST /users' })
+      )
     })
 
     it('should handle specs without paths', () => {
@@ -301,5 +311,34 @@ describe('DiffCalculator', () => {
       expect(diff.summary.schemas_deleted).toEqual([])
     })
   })
+
+  describe('webhooks and callbacks', () => {
+    it('should report webhook and callback operations like endpoints', () => {
+      const oldSpec: any = {
+        ...structuredClone(baseSpec),
+        openapi: '3.1.0',
+        webhooks: {
+          userCreated: { post: { summary: 'User created', responses: { '200': { description: 'OK' } } } },
+        },
+      }
+      const newSpec = structuredClone(oldSpec)
+      newSpec.webhooks.userCreated.post.summary = 'A user signed up'
+      newSpec.webhooks.userDeleted = { post: { responses: { '200': { description: 'OK' } } } }
+      newSpec.paths['/users'].post.callbacks = {
+        onCreated: { '{$request.body#/callbackUrl}': { post: { responses: { '200': { description: 'OK' } } } } },
+      }
+
+      const diff = diffCalculator.calculateDiff(oldSpec, newSpec)
+
+      expect(diff.summary.webhooks_added).toEqual(['post userDeleted'])
+      expect(diff.summary.webhooks_modified).toEqual(['POST userCreated'])
+      expect(diff.summary.callbacks_added).toEqual([
+        'post {$request.body#/callbackUrl} (onCreated callback of POST /users)',
+      ])
+      expect(diff.summary.endpoints_added).toEqual([])
+      expect(diff.classified_changes.map((change) => change.rule)).toEqual(['webhook-added', 'callback-added'])
+    })
+  })
+
 })
 
@@ -0,0 +1,122 @@
+/**
+ * Tests for EditHistory (undo/redo)
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { EditHistory } from '../../../src/services/edit-history'
+import { SchemaManageTool } from '../../../src/tools/schema-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('EditHistory', () => {
+  const apiId = createApiId('pets')
+  const version = createVersionTag('v1.0.0')
+  const user = { user: 'test' }
+
+  let tmpDir: string
+  let specManager: SpecManager
+  let auditLogger: AuditLogger
+  let history: EditHistory
+  let schemaTool: SchemaManageTool
+
+  const schemas = async () => Object.keys(((await specManager.loadSpec(apiId, version)) as any).spec.components?.schemas || {})
+
+  const addSchema = (schemaName: string) =>
+    schemaTool.execute({ apiId, version, operation: 'add', schemaName, schema: { type: 'object' } })
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'edit-history-'))
+    const storage = new FileSystemStorage({ basePath: tmpDir })
+    specManager = new SpecManager(storage)
+    auditLogger = new AuditLogger(storage)
+    history = new EditHistory(specManager, auditLogger)
+    schemaTool = new SchemaManageTool(specManager, auditLogger)
+    await specManager.saveSpec(apiId, version, { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' }, paths: {} })
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should record forward and inverse patches in the audit event', async () => {
+    await addSchema('Pet')
+
+    const [event] = await auditLogger.getVersionAuditLog(apiId, version)
+    expect(event.details).toMatchObject({
+      edit_id: expect.any(String),
+      patch: [{ op: 'add', path: '/components', value: { schemas: { Pet: { type: 'object' } } } }],
+      inverse_patch: [{ op: 'remove', path: '/components' }],
+    })
+  })
+
+  it('should undo and redo edits in order', async () => {
+    await addSchema('Pet')
+    await addSchema('Owner')
+
+    const undone = await history.undo(apiId, version, { ...user, steps: 2 })
+    expect(undone.applied.map((edit) => edit.event)).toEqual(['schema_add', 'schema_add'])
+    expect(await schemas()).toEqual([])
+    expect(undone.state).toMatchObject({ undo: [], redo: [{}, {}] })
+
+    await history.redo(apiId, version, user)
+    expect(await schemas()).toEqual(['Pet'])
+
+    const events = await auditLogger.getVersionAuditLog(apiId, version)
+    const undoEvents = events.filter((event) => event.event === 'edit_undone')
+    expect(undoEvents).toHaveLength(1)
+    expect(undoEvents[0].details?.undo_of).toEqual(undone.applied.map((edit) => edit.edit_id))
+    expect(events.filter((event) => event.event === 'edit_redone')).toHaveLength(1)
+  })
+
+  it('should save nothing when a middle step of a multi-step undo fails', async () => {
+    await addSchema('Pet')
+    await addSchema('Owner')
+    await addSchema('Tag')
+    const doc = (await specManager.loadSpec(apiId, version)) as any
+    await specManager.saveSpec(apiId, version, {
+      ...doc.spec,
+      components: { schemas: { ...doc.spec.components.schemas, Owner: { type: 'string' } } },
+    })
+
+    await expect(history.undo(apiId, version, { ...user, steps: 3 })).rejects.toThrow('the spec changed since')
+    expect(await schemas()).toEqual(['Pet', 'Owner', 'Tag'])
+    const events = await auditLogger.getVersionAuditLog(apiId, version)
+    expect(events.filter((event) => event.event === 'edit_undone')).toHaveLength(0)
+  })
+
+  it('should drop the redo stack after a new edit', async () => {
+    await addSchema('Pet')
+    await history.undo(apiId, version, user)
+    await addSchema('Owner')
+
+    expect((await history.history(apiId, version)).redo).toHaveLength(0)
+    await expect(history.redo(apiId, version, user)).rejects.toThrow('Nothing to redo')
+  })
+
+  it('should refuse to undo an edit the spec has moved on from', async () => {
+    await addSchema('Pet')
+    const doc = (await specManager.loadSpec(apiId, version)) as any
+    await specManager.saveSpec(apiId, version, { ...doc.spec, components: { schemas: { Pet: { type: 'string' } } } })
+
+    await expect(history.undo(apiId, version, user)).rejects.toThrow('the spec changed since')
+    expect(await schemas()).toEqual(['Pet'])
+  })
+
+  it('should have nothing to undo on a fresh spec', async () => {
+    await expect(history.undo(apiId, version, user)).rejects.toThrow('Nothing to undo')
+  })
+})
@@ -0,0 +1,456 @@
+/**
+ * Tests for SpecConverter
+ */
+
+import { SpecConverter } from '../../../src/services/spec-converter'
+
+describe('SpecConverter', () => {
+  let converter: SpecConverter
+
+  const swaggerSpec: any = {
+    swagger: '2.0',
+    info: { title: 'Legacy API', version: '1.0.0' },
+    host: 'api.example.com',
+    basePath: '/v1',
+    schemes: ['https', 'http'],
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    tags: [{ name: 'users' }],
+    'x-owner': 'platform',
+    paths: {
+      '/users': {
+        get: {
+          operationId: 'listUsers',
+          tags: ['users'],
+          parameters: [
+            { name: 'ids', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'csv' },
+            { $ref: '#/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'OK',
+              headers: { 'X-Rate-Limit': { type: 'integer', description: 'Calls left' } },
+              schema: { type: 'array', items: { $ref: '#/definitions/User' } },
+              examples: { 'application/json': [{ id: 1 }] },
+            },
+            '404': { $ref: '#/responses/NotFound' },
+          },
+        },
+        post: {
+          operationId: 'createUser',
+          parameters: [
+            { name: 'body', in: 'body', required: true, description: 'User to create', schema: { $ref: '#/definitions/User' } },
+          ],
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/users/{id}/avatar': {
+        parameters: [{ name: 'id', in: 'path', required: true, type: 'string' }],
+        put: {
+          consumes: ['multipart/form-data'],
+          parameters: [
+            { name: 'file', in: 'formData', type: 'file', required: true },
+            { name: 'caption', in: 'formData', type: 'string' },
+          ],
+          responses: { '204': { description: 'Uploaded' } },
+        },
+        patch: {
+          parameters: [{ $ref: '#/parameters/UserPatch' }],
+          responses: { '200': { description: 'Patched' } },
+        },
+      },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', type: 'integer', minimum: 1 },
+      UserPatch: { name: 'patch', in: 'body', schema: { type: 'object' } },
+    },
+    responses: {
+      NotFound: { description: 'Not found', schema: { $ref: '#/definitions/Error' } },
+    },
+    definitions: {
+      User: {
+        type: 'object',
+        discriminator: 'kind',
+        properties: {
+          id: { type: 'integer', exclusiveMinimum: true, minimum: 0 },
+          nickname: { type: 'string', 'x-nullable': true },
+        },
+      },
+      Error: { type: 'object', properties: { message: { type: 'string' } } },
+    },
+    securityDefinitions: {
+      basicAuth: { type: 'basic' },
+      apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+      oauth: {
+        type: 'oauth2',
+        flow: 'accessCode',
+        authorizationUrl: 'https://auth.example.com/authorize',
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: { read: 'Read access' },
+      },
+    },
+    security: [{ apiKey: [] }],
+  }
+
+  beforeEach(() => {
+    converter = new SpecConverter()
+  })
+
+  it('should build the 3.0 document skeleton', () => {
+    const { spec, from, to } = converter.convertSwagger2(swaggerSpec)
+
+    expect(from).toBe('2.0')
+    expect(to).toBe('3.0')
+    expect(spec.openapi).toBe('3.0.3')
+    expect(spec.swagger).toBeUndefined()
+    expect(spec.servers).toEqual([
+      { url: 'https://api.example.com/v1' },
+      { url: 'http://api.example.com/v1' },
+    ])
+    expect(spec.tags).toEqual([{ name: 'users' }])
+    expect(spec.security).toEqual([{ apiKey: [] }])
+    expect(spec['x-owner']).toBe('platform')
+  })
+
+  it('should move definitions to components/schemas and rewrite refs', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+
+    expect(spec.definitions).toBeUndefined()
+    expect(spec.components.schemas.User.discriminator).toEqual({ propertyName: 'kind' })
+    expect(spec.components.schemas.User.properties.nickname).toEqual({ type: 'string', nullable: true })
+    expect(spec.components.responses.NotFound.content['application/json'].schema.$ref).toBe(
+      '#/components/schemas/Error'
+    )
+    expect(spec.paths['/users'].get.responses['404'].$ref).toBe('#/components/responses/NotFound')
+  })
+
+  it('should convert body parameters to requestBody', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+    const post = spec.paths['/users'].post
+
+    expect(post.parameters).toBeUndefined()
+    expect(post.requestBody).toEqual({
+      description: 'User to create',
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+    })
+  })
+
+  it('should convert referenced global body parameters to components/requestBodies', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+
+    expect(spec.components.requestBodies.UserPatch.content['application/json'].schema).toEqual({ type: 'object' })
+    expect(spec.components.parameters.UserPatch).toBeUndefined()
+    expect(spec.paths['/users/{id}/avatar'].patch.requestBody).toEqual({
+      $ref: '#/components/requestBodies/UserPatch',
+    })
+  })
+
+  it('should convert formData parameters to a multipart requestBody', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+    const put = spec.paths['/users/{id}/avatar'].put
+
+    expect(put.consumes).toBeUndefined()
+    expect(put.requestBody.required).toBe(true)
+    expect(put.requestBody.content['multipart/form-data'].schema).toEqual({
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        caption: { type: 'string' },
+      },
+      required: ['file'],
+    })
+  })
+
+  it('should wrap simple parameters in schema objects', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+    const [ids, limit] = spec.paths['/users'].get.parameters
+
+    expect(ids).toEqual({
+      name: 'ids',
+      in: 'query',
+      schema: { type: 'array', items: { type: 'string' } },
+      style: 'form',
+      explode: false,
+    })
+    expect(limit).toEqual({ $ref: '#/components/parameters/Limit' })
+    expect(spec.components.parameters.Limit).toEqual({
+      name: 'limit',
+      in: 'query',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    expect(spec.paths['/users/{id}/avatar'].parameters[0].schema).toEqual({ type: 'string' })
+  })
+
+  it('should convert response schemas, examples and headers', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+    const ok = spec.paths['/users'].get.responses['200']
+
+    expect(ok.content['application/json']).toEqual({
+      schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+      example: [{ id: 1 }],
+    })
+    expect(ok.headers['X-Rate-Limit']).toEqual({ description: 'Calls left', schema: { type: 'integer' } })
+    expect(spec.paths['/users'].post.responses['201']).toEqual({ description: 'Created' })
+  })
+
+  it('should convert securityDefinitions to securitySchemes', () => {
+    const { spec } = converter.convertSwagger2(swaggerSpec)
+    const schemes = spec.components.securitySchemes
+
+    expect(schemes.basicAuth).toEqual({ type: 'http', scheme: 'basic' })
+    expect(schemes.apiKey).toEqual({ type: 'apiKey', name: 'X-API-Key', in: 'header' })
+    expect(schemes.oauth).toEqual({
+      type: 'oauth2',
+      flows: {
+        authorizationCode: {
+          authorizationUrl: 'https://auth.example.com/authorize',
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { read: 'Read access' },
+        },
+      },
+    })
+  })
+
+  it('should use JSON Schema keywords when targeting 3.1', () => {
+    const { spec, to } = converter.convertSwagger2(swaggerSpec, '3.1')
+    const user = spec.components.schemas.User
+
+    expect(to).toBe('3.1')
+    expect(spec.openapi).toBe('3.1.0')
+    expect(user.properties.nickname).toEqual({ type: ['string', 'null'] })
+    expect(user.properties.id).toEqual({ type: 'integer', exclusiveMinimum: 0 })
+  })
+
+  it('should report features without a 3.x equivalent', () => {
+    const { warnings } = converter.convertSwagger2({
+      swagger: '2.0',
+      info: { title: 'T', version: '1' },
+      paths: {
+        '/x': {
+          get: {
+            parameters: [{ name: 'q', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'tsv' }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    } as any)
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toContain('tsv')
+  })
+
+  it('should not modify the source document', () => {
+    const source = structuredClone(swaggerSpec)
+    converter.convertSwagger2(source)
+
+    expect(source).toEqual(swaggerSpec)
+  })
+
+  it('should reject documents that are not Swagger 2.0', () => {
+    expect(() =>
+      converter.convertSwagger2({ openapi: '3.0.0', info: { title: 'T', version: '1' }, paths: {} } as any)
+    ).toThrow('Only Swagger 2.0 documents can be converted')
+  })
+
+  it('should record the rewrites it applied', () => {
+    const { applied } = converter.convertSwagger2(swaggerSpec)
+
+    expect(applied).toContain('definitions → components/schemas')
+    expect(applied).toContain('securityDefinitions → components/securitySchemes')
+    expect(applied).toContain('body/formData parameters → requestBody at POST /users')
+  })
+
+  describe('upgradeTo31', () => {
+    const spec30: any = {
+      openapi: '3.0.3',
+      info: { title: 'Modern API', version: '1.0.0' },
+      paths: {
+        '/items/{id}': {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } }],
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { type: 'array', items: { $ref: '#/components/schemas/Item' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      'x-webhooks': {
+        itemCreated: {
+          post: {
+            requestBody: {
+              content: { 'application/json': { schema: { type: 'string', nullable: true } } },
+            },
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Item: {
+            type: 'object',
+            properties: {
+              status: { type: 'string', enum: ['on', 'off'], nullable: true },
+              price: { type: 'number', minimum: 0, exclusiveMinimum: true, example: 9.99 },
+              parent: { $ref: '#/components/schemas/Item', nullable: true },
+              size: { type: 'integer', maximum: 10, exclusiveMaximum: false, nullable: false },
+            },
+          },
+        },
+      },
+    }
+
+    it('should rewrite 3.0 schema keywords to JSON Schema 2020-12', () => {
+      const { spec, from, to } = converter.upgradeTo31(spec30)
+      const item = spec.components.schemas.Item
+
+      expect(from).toBe('3.0')
+      expect(to).toBe('3.1')
+      expect(spec.openapi).toBe('3.1.0')
+      expect(item.properties.status).toEqual({ type: ['string', 'null'], enum: ['on', 'off', null] })
+      expect(item.properties.price).toEqual({ type: 'number', exclusiveMinimum: 0, examples: [9.99] })
+      expect(item.properties.parent).toEqual({
+        anyOf: [{ $ref: '#/components/schemas/Item' }, { type: 'null' }],
+      })
+      expect(item.properties.size).toEqual({ type: 'integer', maximum: 10 })
+    })
+
+    it('should promote x-webhooks to webhooks and convert their schemas', () => {
+      const { spec, applied } = converter.upgradeTo31(spec30)
+
+      expect(spec['x-webhooks']).toBeUndefined()
+      expect(spec.webhooks.itemCreated.post.requestBody.content['application/json'].schema).toEqual({
+        type: ['string', 'null'],
+      })
+      expect(applied).toContain('x-webhooks → webhooks')
+      expect(applied).toContain(
+        'nullable → type null at #/webhooks/itemCreated/post/requestBody/content/application~1json/schema'
+      )
+    })
+
+    it('should convert schemas of TRACE operations too', () => {
+      const source = structuredClone(spec30) as any
+      source.paths['/items/{id}'].trace = {
+        responses: {
+          '200': { description: 'OK', content: { 'message/http': { schema: { type: 'string', nullable: true } } } },
+        },
+      }
+
+      const { spec } = converter.upgradeTo31(source)
+
+      expect(spec.paths['/items/{id}'].trace.responses['200'].content['message/http'].schema).toEqual({
+        type: ['string', 'null'],
+      })
+    })
+
+    it('should leave schemas without 3.0-only keywords alone', () => {
+      const { spec } = converter.upgradeTo31(spec30)
+
+      expect(spec.paths['/items/{id}'].parameters[0].schema).toEqual({ type: 'integer', minimum: 1 })
+    })
+
+    it('should not modify the source document', () => {
+      const source = structuredClone(spec30)
+      converter.upgradeTo31(source)
+
+      expect(source).toEqual(spec30)
+    })
+
+    it('should reject documents that are not OpenAPI 3.0', () => {
+      expect(() => converter.upgradeTo31({ ...spec30, openapi: '3.1.0' })).toThrow(
+        'Only OpenAPI 3.0 documents can be upgraded to 3.1'
+      )
+    })
+  })
+
+  describe('downgradeTo30', () => {
+    const spec31: any = {
+      openapi: '3.1.0',
+      jsonSchemaDialect: 'https://json-schema.org/draft/2020-12/schema',
+      info: { title: 'Modern API', version: '1.0.0', summary: 'Short' },
+      webhooks: {
+        ping: { post: { responses: { '200': { description: 'OK' } } } },
+      },
+      components: {
+        schemas: {
+          Item: {
+            type: 'object',
+            properties: {
+              name: { type: ['string', 'null'], examples: ['a', 'b'] },
+              id: { type: ['string', 'integer'] },
+              price: { type: 'number', exclusiveMinimum: 0 },
+              kind: { const: 'item' },
+              parent: { anyOf: [{ $ref: '#/components/schemas/Item' }, { type: 'null' }] },
+              tuple: { type: 'array', prefixItems: [{ type: 'string' }] },
+            },
+          },
+        },
+      },
+    }
+
+    it('should rewrite JSON Schema 2020-12 keywords to 3.0 equivalents', () => {
+      const { spec, from, to } = converter.downgradeTo30(spec31)
+      const item = spec.components.schemas.Item
+
+      expect(from).toBe('3.1')
+      expect(to).toBe('3.0')
+      expect(spec.openapi).toBe('3.0.3')
+      expect(spec.paths).toEqual({})
+      expect(item.properties.name).toEqual({ type: 'string', nullable: true, example: 'a' })
+      expect(item.properties.id).toEqual({ oneOf: [{ type: 'string' }, { type: 'integer' }] })
+      expect(item.properties.price).toEqual({ type: 'number', minimum: 0, exclusiveMinimum: true })
+      expect(item.properties.kind).toEqual({ enum: ['item'] })
+      expect(item.properties.parent).toEqual({ allOf: [{ $ref: '#/components/schemas/Item' }], nullable: true })
+      expect(item.properties.tuple).toEqual({ type: 'array' })
+    })
+
+    it('should demote 3.1-only document features and warn about them', () => {
+      const { spec, warnings } = converter.downgradeTo30(spec31)
+
+      expect(spec.webhooks).toBeUndefined()
+      expect(spec['x-webhooks'].ping).toBeDefined()
+      expect(spec.jsonSchemaDialect).toBeUndefined()
+      expect(spec.info.summary).toBeUndefined()
+      expect(warnings).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('x-webhooks'),
+          expect.stringContaining('Only the first of 2 examples'),
+          expect.stringContaining('prefixItems'),
+          'jsonSchemaDialect removed',
+          'info.summary removed',
+        ])
+      )
+    })
+
+    it('should round-trip a 3.0 document through 3.1', () => {
+      const original: any = {
+        openapi: '3.0.3',
+        info: { title: 'Round trip', version: '1.0.0' },
+        paths: {},
+        components: {
+          schemas: {
+            A: { type: 'string', nullable: true, example: 'x' },
+            B: { type: 'integer', minimum: 1, exclusiveMinimum: true },
+          },
+        },
+      }
+
+      const { spec } = converter.downgradeTo30(converter.upgradeTo31(original).spec as any)
+
+      expect(spec).toEqual(original)
+    })
+
+    it('should reject documents that are not OpenAPI 3.1', () => {
+      expect(() => converter.downgradeTo30({ ...spec31, openapi: '3.0.3' })).toThrow(
+        'Only OpenAPI 3.1 documents can be downgraded to 3.0'
+      )
+    })
+  })
+})
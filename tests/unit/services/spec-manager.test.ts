@@ -154,6 +154,29 @@ describe('SpecManager', () => {
         StorageError
       )
     })
+
+    it('should refuse to overwrite a published version', async () => {
+      mockStorage.exists.mockResolvedValue(true)
+      mockStorage.read.mockResolvedValue(JSON.stringify({ version, state: 'stable' }))
+
+      await expect(specManager.saveSpec(apiId, version, sampleSpec, 'yaml', 'active')).rejects.toMatchObject({
+        code: 'VERSION_IMMUTABLE',
+      })
+      expect(mockStorage.read).toHaveBeenCalledWith('active/test-api/v1.0.0/metadata.json')
+      expect(mockStorage.write).not.toHaveBeenCalled()
+    })
+
+    it('should save draft versions and versions without a state', async () => {
+      mockStorage.exists.mockResolvedValue(true)
+      mockStorage.read
+        .mockResolvedValueOnce(JSON.stringify({ version, state: 'draft' }))
+        .mockResolvedValueOnce(JSON.stringify({ version }))
+
+      await specManager.saveSpec(apiId, version, sampleSpec, 'yaml', 'active')
+      await specManager.saveSpec(apiId, version, sampleSpec, 'yaml', 'active')
+
+      expect(mockStorage.write).toHaveBeenCalledTimes(2)
+    })
   })
 
   describe('specExists', () => {
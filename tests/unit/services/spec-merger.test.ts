@@ -0,0 +1,174 @@
+/**
+ * Tests for SpecMerger
+ */
+
+import { SpecMerger } from '../../../src/services/spec-merger'
+
+describe('SpecMerger', () => {
+  let merger: SpecMerger
+
+  const baseSpec = (): any => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets API', version: '1.0.0' },
+    tags: [{ name: 'pets' }],
+    paths: {
+      '/pets': {
+        get: {
+          summary: 'List pets',
+          tags: ['pets'],
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'string' }, name: { type: 'string' } },
+        },
+      },
+    },
+  })
+
+  beforeEach(() => {
+    merger = new SpecMerger()
+  })
+
+  it('should take whichever side changed when only one did', () => {
+    const theirs = baseSpec()
+    theirs.info.description = 'Now with docs'
+
+    const result = merger.merge(baseSpec(), baseSpec(), theirs)
+
+    expect(result.clean).toBe(true)
+    expect(result.merged).toEqual(theirs)
+    expect(result.fromTheirs).toEqual(['info'])
+  })
+
+  it('should combine non-overlapping path, operation and schema changes', () => {
+    const ours = baseSpec()
+    ours.paths['/pets'].post = { responses: { '201': { description: 'Created' } } }
+    ours.paths['/pets'].get.summary = 'List all pets'
+    ours.components.schemas.Pet.properties.age = { type: 'integer' }
+
+    const theirs = baseSpec()
+    theirs.paths['/owners'] = { get: { responses: { '200': { description: 'OK' } } } }
+    theirs.paths['/pets'].get.deprecated = true
+    theirs.components.schemas.Owner = { type: 'object' }
+
+    const result = merger.merge(baseSpec(), ours, theirs)
+
+    expect(result.conflicts).toEqual([])
+    expect(Object.keys((result.merged as any).paths)).toEqual(['/pets', '/owners'])
+    expect((result.merged as any).paths['/pets'].get).toEqual(expect.objectContaining({ summary: 'List all pets', deprecated: true }))
+    expect((result.merged as any).paths['/pets'].post).toBeDefined()
+    expect(Object.keys((result.merged as any).components.schemas)).toEqual(['Pet', 'Owner'])
+    expect((result.merged as any).components.schemas.Pet.properties.age).toEqual({ type: 'integer' })
+  })
+
+  it('should merge parameters by location and name and primitive lists as sets', () => {
+    const ours = baseSpec()
+    ours.paths['/pets'].get.parameters.push({ name: 'page', in: 'query', schema: { type: 'integer' } })
+    ours.components.schemas.Pet.required.push('name')
+
+    const theirs = baseSpec()
+    theirs.paths['/pets'].get.parameters[0].description = 'Max results'
+    theirs.paths['/pets'].get.parameters.push({ name: 'X-Tenant', in: 'header', schema: { type: 'string' } })
+    theirs.paths['/pets'].get.tags.push('public')
+    theirs.components.schemas.Pet.required = ['name', 'id']
+
+    const result = merger.merge(baseSpec(), ours, theirs)
+
+    expect(result.conflicts).toEqual([])
+    expect((result.merged as any).paths['/pets'].get.parameters.map((p: any) => `${p.in}:${p.name}`)).toEqual([
+      'query:limit',
+      'query:page',
+      'header:X-Tenant',
+    ])
+    expect((result.merged as any).paths['/pets'].get.parameters[0].description).toBe('Max results')
+    expect((result.merged as any).paths['/pets'].get.tags).toEqual(['pets', 'public'])
+    expect((result.merged as any).components.schemas.Pet.required).toEqual(['id', 'name'])
+  })
+
+  it('should honour removals from either side in set-like lists', () => {
+    const ours = baseSpec()
+    ours.components.schemas.Pet.required = []
+    const theirs = baseSpec()
+    theirs.components.schemas.Pet.required = ['id', 'name']
+
+    expect((merger.merge(baseSpec(), ours, theirs).merged as any).components.schemas.Pet.required).toEqual(['name'])
+  })
+
+  it('should report conflicts with pointer, location and kind', () => {
+    const ours = baseSpec()
+    ours.paths['/pets'].get.summary = 'Ours'
+    ours.components.schemas.Pet.properties.name.type = 'integer'
+
+    const theirs = baseSpec()
+    theirs.paths['/pets'].get.summary = 'Theirs'
+    delete theirs.components.schemas.Pet.properties.name
+
+    const result = merger.merge(baseSpec(), ours, theirs)
+
+    expect(result.clean).toBe(false)
+    expect(result.conflicts).toEqual([
+      {
+        pointer: '/paths/~1pets/get/summary',
+        location: 'GET /pets',
+        kind: 'both-modified',
+        base: 'List pets',
+        ours: 'Ours',
+        theirs: 'Theirs',
+      },
+      expect.objectContaining({
+        pointer: '/components/schemas/Pet/properties/name',
+        location: 'schema Pet',
+        kind: 'modified-deleted',
+        theirs: undefined,
+      }),
+    ])
+    // Unresolved conflicts keep our side in the preview
+    expect((result.merged as any).paths['/pets'].get.summary).toBe('Ours')
+  })
+
+  it('should flag different additions at the same node', () => {
+    const ours = baseSpec()
+    ours.paths['/owners'] = { get: { summary: 'A', responses: {} } }
+    const theirs = baseSpec()
+    theirs.paths['/owners'] = { get: { summary: 'B', responses: {} } }
+
+    const [conflict] = merger.merge(baseSpec(), ours, theirs).conflicts
+
+    expect(conflict).toEqual(expect.objectContaining({ kind: 'both-added', location: 'GET /owners' }))
+  })
+
+  it('should resolve every conflict to the chosen side', () => {
+    const ours = baseSpec()
+    ours.info.version = '1.1.0'
+    ours.paths['/pets'].post = { responses: { '201': { description: 'Created' } } }
+    const theirs = baseSpec()
+    theirs.info.version = '2.0.0'
+
+    const result = merger.merge(baseSpec(), ours, theirs, 'theirs')
+
+    expect(result.clean).toBe(true)
+    expect(result.conflicts).toHaveLength(1)
+    expect((result.merged as any).info.version).toBe('2.0.0')
+    expect((result.merged as any).paths['/pets'].post).toBeDefined()
+  })
+
+  it('should not mutate its inputs', () => {
+    const ours = baseSpec()
+    ours.paths['/pets'].get.summary = 'Ours'
+    const theirs = baseSpec()
+    theirs.paths['/pets'].get.deprecated = true
+
+    const merged = merger.merge(baseSpec(), ours, theirs).merged as any
+    merged.paths['/pets'].get.parameters.push({ name: 'x', in: 'query' })
+
+    expect(ours.paths['/pets'].get.parameters).toHaveLength(1)
+    expect(theirs.paths['/pets'].get.parameters).toHaveLength(1)
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests for VersionManager lifecycle transitions
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { VersionManager } from '../../../src/services/version-manager'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import type { VersionMetadata } from '../../../src/types/metadata'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('VersionManager lifecycle', () => {
+  const apiId = createApiId('pets')
+  const v1 = createVersionTag('v1.0.0')
+  const v2 = createVersionTag('v2.0.0')
+  const user = 'team@example.com'
+
+  let tmpDir: string
+  let versionManager: VersionManager
+
+  const versionMetadata = (version: string, state?: string): VersionMetadata =>
+    ({
+      version,
+      created_at: '2026-01-01T00:00:00.000Z',
+      created_by: user,
+      parent_version: null,
+      description: version,
+      changes: {},
+      validation: {},
+      stats: {},
+      ...(state ? { state } : {}),
+    }) as unknown as VersionMetadata
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lifecycle-'))
+    versionManager = new VersionManager(new FileSystemStorage({ basePath: tmpDir }))
+    await versionManager.createApiMetadata(apiId, 'Pets', user, v1)
+    await versionManager.addVersion(apiId, v2, false)
+    await versionManager.createVersionMetadata(apiId, v1, versionMetadata(v1))
+    await versionManager.createVersionMetadata(apiId, v2, versionMetadata(v2))
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should walk draft → beta → stable → deprecated → retired and keep the history', async () => {
+    await versionManager.transitionVersion(apiId, v1, 'beta', { user, reason: 'Preview' })
+    await versionManager.transitionVersion(apiId, v1, 'stable', { user })
+    await versionManager.transitionVersion(apiId, v1, 'deprecated', { user, sunsetDate: '2999-12-31' })
+    const retired = await versionManager.transitionVersion(apiId, v1, 'retired', { user })
+
+    expect(retired.state).toBe('retired')
+    expect(retired.published_by).toBe(user)
+    expect(retired.sunset_date).toBe('2999-12-31T00:00:00.000Z')
+    expect(retired.retired_at).toBeDefined()
+    expect(retired.lifecycle?.map((step) => `${step.from}→${step.to}`)).toEqual([
+      'draft→beta',
+      'beta→stable',
+      'stable→deprecated',
+      'deprecated→retired',
+    ])
+    expect(retired.lifecycle?.[0].reason).toBe('Preview')
+  })
+
+  it('should reject transitions the lifecycle does not allow', async () => {
+    await expect(versionManager.transitionVersion(apiId, v1, 'deprecated', { user })).rejects.toThrow(
+      'Cannot move v1.0.0 of pets from draft to deprecated (allowed: beta, stable)'
+    )
+
+    await versionManager.transitionVersion(apiId, v1, 'stable', { user })
+    await versionManager.transitionVersion(apiId, v1, 'deprecated', { user })
+    await versionManager.transitionVersion(apiId, v1, 'retired', { user })
+    await expect(versionManager.transitionVersion(apiId, v1, 'stable', { user })).rejects.toThrow('retired is final')
+  })
+
+  it('should only accept future sunset dates when deprecating', async () => {
+    await versionManager.transitionVersion(apiId, v1, 'stable', { user })
+
+    await expect(
+      versionManager.transitionVersion(apiId, v1, 'deprecated', { user, sunsetDate: '2001-01-01' })
+    ).rejects.toThrow('in the future')
+    await expect(
+      versionManager.transitionVersion(apiId, v2, 'stable', { user, sunsetDate: '2999-01-01' })
+    ).rejects.toThrow('only be set when deprecating')
+  })
+
+  it('should refuse to transition a version with an unknown stored state', async () => {
+    await versionManager.createVersionMetadata(apiId, v1, versionMetadata(v1, 'published'))
+
+    await expect(versionManager.transitionVersion(apiId, v1, 'deprecated', { user })).rejects.toThrow(
+      'Unknown version state "published"'
+    )
+  })
+
+  it('should keep latest_stable pointing at a stable version', async () => {
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBeUndefined()
+
+    await versionManager.transitionVersion(apiId, v1, 'stable', { user })
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBe(v1)
+
+    await versionManager.transitionVersion(apiId, v2, 'stable', { user })
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBe(v2)
+
+    await versionManager.transitionVersion(apiId, v2, 'deprecated', { user })
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBe(v1)
+
+    await versionManager.transitionVersion(apiId, v1, 'deprecated', { user })
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBeUndefined()
+  })
+
+  it('should keep the newer latest_stable when an older version becomes stable', async () => {
+    await versionManager.transitionVersion(apiId, v2, 'stable', { user })
+    await versionManager.transitionVersion(apiId, v1, 'stable', { user })
+
+    expect((await versionManager.getApiMetadata(apiId)).latest_stable).toBe(v2)
+  })
+})
@@ -31,6 +31,12 @@ describe('VersionManager', () => {
   beforeEach(() => {
     mockStorage = new FileSystemStorage({ basePath: '/data' }) as jest.Mocked<FileSystemStorage>
     versionManager = new VersionManager(mockStorage)
+    // The automock replaces update() as well; run it as the plain read-modify-write it defaults to
+    mockStorage.update.mockImplementation(async (key, transform) => {
+      const next = await transform(await mockStorage.read(key).catch(() => null))
+      await mockStorage.write(key, next)
+      return next
+    })
   })
 
   describe('createApiMetadata', () => {
@@ -50,7 +56,7 @@ describe('VersionManager', () => {
       expect(result.owner).toBe('team@example.com')
       expect(result.versions).toEqual([version1])
       expect(result.current_version).toBe(version1)
-      expect(result.latest_stable).toBe(version1)
+      expect(result.latest_stable).toBeUndefined()
       expect(mockStorage.write).toHaveBeenCalledWith(
         'test-api/metadata.json',
         expect.stringContaining('"name": "Test API"')
@@ -0,0 +1,176 @@
+/**
+ * Tests for GitStorageProvider
+ *
+ * @description Runs against real git in a temp directory - mocking git would only test the mock.
+ */
+
+import { execFileSync } from 'child_process'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { GitStorageProvider } from '../../../src/storage/git-storage-provider'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { VersionManager } from '../../../src/services/version-manager'
+import { DiffCalculator } from '../../../src/services/diff-calculator'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { VersionControlTool } from '../../../src/tools/version-control-tool'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('GitStorageProvider', () => {
+  let tmpDir: string
+  let dataDir: string
+  let remoteDir: string
+  let storage: GitStorageProvider
+
+  const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim()
+
+  const auditLog = (...events: object[]) =>
+    JSON.stringify(
+      events.map((event) => ({ timestamp: '2026-01-01T00:00:00.000Z', api_id: 'pets', user: 'mcp-tool', ...event })),
+      null,
+      2
+    )
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-storage-'))
+    dataDir = path.join(tmpDir, 'data')
+    remoteDir = path.join(tmpDir, 'remote.git')
+    storage = new GitStorageProvider({ basePath: dataDir, options: { remote: remoteDir } })
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should stage writes and commit them with the audit event', async () => {
+    await storage.write('active/pets/v1.0.0/spec.yaml', 'openapi: 3.0.3\n')
+    expect(git(dataDir, 'status', '--porcelain')).toBe('A  active/pets/v1.0.0/spec.yaml')
+
+    await storage.write(
+      'pets/audit.json',
+      auditLog({ event: 'version_created', version: 'v1.0.0', user: 'jane@example.com', llm_reason: 'Start the pets API' })
+    )
+
+    expect(git(dataDir, 'status', '--porcelain')).toBe('')
+    expect(git(dataDir, 'log', '--format=%an <%ae>|%s')).toBe('jane@example.com <jane@example.com>|Start the pets API')
+    expect(git(dataDir, 'log', '--format=%b')).toContain('Event: version_created')
+    expect(git(dataDir, 'show', '--name-only', '--format=')).toBe('active/pets/v1.0.0/spec.yaml\npets/audit.json')
+  })
+
+  it('should fall back to the event name when there is no llm_reason', async () => {
+    await storage.write('pets/audit.json', auditLog({ event: 'spec_updated', version: 'v1.0.0' }))
+
+    expect(git(dataDir, 'log', '--format=%an|%s')).toBe('mcp-tool|spec_updated pets v1.0.0')
+  })
+
+  it('should move the version tag along with each audited change', async () => {
+    await storage.write('active/pets/v1.0.0/spec.yaml', 'a')
+    await storage.write('pets/audit.json', auditLog({ event: 'version_created', version: 'v1.0.0' }))
+    const first = git(dataDir, 'rev-parse', 'HEAD')
+    expect(git(dataDir, 'rev-list', '-n', '1', 'pets/v1.0.0')).toBe(first)
+
+    await storage.write('active/pets/v1.0.0/spec.yaml', 'b')
+    await storage.write(
+      'pets/audit.json',
+      auditLog({ event: 'version_created', version: 'v1.0.0' }, { event: 'endpoint_added', version: 'v1.0.0' })
+    )
+    const second = git(dataDir, 'rev-parse', 'HEAD')
+    expect(second).not.toBe(first)
+    expect(git(dataDir, 'rev-list', '-n', '1', 'pets/v1.0.0')).toBe(second)
+  })
+
+  it('should drop the version tag when version_control deletes the version', async () => {
+    const specManager = new SpecManager(storage)
+    const versionManager = new VersionManager(storage)
+    const tool = new VersionControlTool(specManager, versionManager, new DiffCalculator(), new AuditLogger(storage))
+
+    await tool.execute({ apiId: 'pets', operation: 'create', version: 'v1.0.0' })
+    await tool.execute({ apiId: 'pets', operation: 'create', version: 'v1.1.0', sourceVersion: 'v1.0.0' })
+    expect(git(dataDir, 'tag', '--list').split('\n')).toEqual(['pets/v1.0.0', 'pets/v1.1.0'])
+
+    await tool.execute({ apiId: 'pets', operation: 'delete', version: 'v1.0.0' })
+
+    expect(git(dataDir, 'tag', '--list')).toBe('pets/v1.1.0')
+    expect(git(dataDir, 'log', '-1', '--format=%b')).toContain('Version: v1.0.0')
+  })
+
+  it('should hide the repository from listings', async () => {
+    await storage.write('pets/audit.json', auditLog({ event: 'version_created', version: 'v1.0.0' }))
+
+    expect(await storage.list('/')).toEqual(['pets/audit.json'])
+  })
+
+  it('should commit staged changes explicitly', async () => {
+    await storage.write('folders.json', '{}')
+
+    expect(await storage.commit('Add folders', 'ops')).toMatch(/^[0-9a-f]{40}$/)
+    expect(await storage.commit('Nothing to see')).toBeNull()
+    expect(git(dataDir, 'log', '--format=%an|%s')).toBe('ops|Add folders')
+  })
+
+  it('should push branch and tags to a bare repository it creates', async () => {
+    await storage.write('active/pets/v1.0.0/spec.yaml', 'a')
+    await storage.write('pets/audit.json', auditLog({ event: 'version_created', version: 'v1.0.0' }))
+
+    await storage.push()
+
+    expect(git(remoteDir, 'rev-parse', '--is-bare-repository')).toBe('true')
+    expect(git(remoteDir, 'rev-parse', 'main')).toBe(git(dataDir, 'rev-parse', 'HEAD'))
+    expect(git(remoteDir, 'tag', '--list')).toBe('pets/v1.0.0')
+  })
+
+  it('should refuse to overwrite a remote branch that moved on, and leave foreign tags alone', async () => {
+    await storage.write('pets/audit.json', auditLog({ event: 'version_created', version: 'v1.0.0' }))
+    await storage.push()
+    const clone = path.join(tmpDir, 'clone')
+    git(tmpDir, 'clone', '--quiet', '--branch', 'main', remoteDir, clone)
+    await fs.writeFile(path.join(clone, 'README.md'), 'code lives here too')
+    git(clone, 'add', 'README.md')
+    git(clone, '-c', 'user.name=dev', '-c', 'user.email=dev@example.com', 'commit', '--quiet', '-m', 'Add readme')
+    git(clone, 'tag', 'release-1')
+    git(clone, 'push', '--quiet', 'origin', 'main', 'release-1')
+    const theirs = git(remoteDir, 'rev-parse', 'main')
+
+    await storage.write(
+      'pets/audit.json',
+      auditLog({ event: 'version_created', version: 'v1.0.0' }, { event: 'spec_updated', version: 'v1.0.0' })
+    )
+
+    await expect(storage.push()).rejects.toThrow('Refusing to overwrite branch main')
+    expect(git(remoteDir, 'rev-parse', 'main')).toBe(theirs)
+    expect(git(remoteDir, 'tag', '--list')).toBe('pets/v1.0.0\nrelease-1')
+  })
+
+  it('should push automatically when asked to', async () => {
+    storage = new GitStorageProvider({ basePath: dataDir, options: { remote: remoteDir, autoPush: true } })
+
+    await storage.write('pets/audit.json', auditLog({ event: 'version_created', version: 'v1.0.0' }))
+    await storage.commit('flush the queue')
+
+    expect(git(remoteDir, 'tag', '--list')).toBe('pets/v1.0.0')
+  })
+
+  it('should refuse to push without a remote', async () => {
+    storage = new GitStorageProvider({ basePath: dataDir })
+
+    await expect(storage.push()).rejects.toThrow('No git remote configured')
+  })
+
+  it('should keep concurrent writes consistent', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => storage.write(`active/pets/v1.0.${i}/spec.yaml`, `${i}`))
+    )
+    await storage.commit('Batch')
+
+    expect(git(dataDir, 'ls-files').split('\n')).toHaveLength(5)
+  })
+})
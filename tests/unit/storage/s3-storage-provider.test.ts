@@ -0,0 +1,206 @@
+/**
+ * Tests for S3StorageProvider
+ *
+ * @description Runs against a small in-memory S3 stand-in that honours the conditional
+ * headers (If-Match / If-None-Match) the way S3 and MinIO do.
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  type S3Client,
+} from '@aws-sdk/client-s3'
+import { S3StorageProvider, isWriteConflict } from '../../../src/storage/s3-storage-provider'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { VersionManager } from '../../../src/services/version-manager'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+/**
+ * In-memory bucket speaking just enough S3
+ */
+class FakeS3 {
+  objects = new Map<string, { body: string; etag: string }>()
+  private revision = 0
+
+  async send(command: any): Promise<any> {
+    const { Key, IfMatch, IfNoneMatch } = command.input
+    const object = this.objects.get(Key)
+    const fail = (name: string, status: number) =>
+      Promise.reject(Object.assign(new Error(name), { name, $metadata: { httpStatusCode: status } }))
+
+    if (command instanceof GetObjectCommand || command instanceof HeadObjectCommand) {
+      if (!object) return fail(command instanceof GetObjectCommand ? 'NoSuchKey' : 'NotFound', 404)
+      return { ETag: object.etag, Body: { transformToString: async () => object.body } }
+    }
+    if (command instanceof PutObjectCommand) {
+      if ((IfMatch && object?.etag !== IfMatch) || (IfNoneMatch === '*' && object)) {
+        return fail('PreconditionFailed', 412)
+      }
+      this.revision += 1
+      const etag = `"${this.revision}"`
+      this.objects.set(Key, { body: command.input.Body as string, etag })
+      return { ETag: etag }
+    }
+    if (command instanceof DeleteObjectCommand) {
+      this.objects.delete(Key)
+      return {}
+    }
+    if (command instanceof ListObjectsV2Command) {
+      // Two keys per page, to exercise pagination
+      const keys = [...this.objects.keys()].filter((key) => key.startsWith(command.input.Prefix || '')).sort()
+      const start = Number(command.input.ContinuationToken || 0)
+      const page = keys.slice(start, start + 2)
+      const more = start + 2 < keys.length
+      return {
+        Contents: page.map((key) => ({ Key: key })),
+        IsTruncated: more,
+        NextContinuationToken: more ? String(start + 2) : undefined,
+      }
+    }
+    throw new Error(`Unsupported command ${command.constructor.name}`)
+  }
+}
+
+describe('S3StorageProvider', () => {
+  let s3: FakeS3
+  let storage: S3StorageProvider
+
+  const provider = (prefix?: string) =>
+    new S3StorageProvider({ basePath: 'specs', options: { client: s3 as unknown as S3Client, prefix } })
+
+  beforeEach(() => {
+    s3 = new FakeS3()
+    storage = provider()
+  })
+
+  describe('objects', () => {
+    it('should write, read, check and delete objects', async () => {
+      await storage.write('/active/pets/v1.0.0/spec.yaml', 'openapi: 3.0.3\n')
+
+      expect(await storage.read('active/pets/v1.0.0/spec.yaml')).toBe('openapi: 3.0.3\n')
+      expect(await storage.exists('active/pets/v1.0.0/spec.yaml')).toBe(true)
+
+      await storage.delete('active/pets/v1.0.0/spec.yaml')
+      expect(await storage.exists('active/pets/v1.0.0/spec.yaml')).toBe(false)
+    })
+
+    it('should report missing objects like the file system does', async () => {
+      await expect(storage.read('nope.json')).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(storage.read('nope.json')).rejects.toThrow('not found')
+      await expect(storage.delete('nope.json')).rejects.toThrow('does not exist')
+    })
+
+    it('should keep keys under the configured prefix', async () => {
+      storage = provider('/openapi/')
+      await storage.write('folders.json', '{}')
+
+      expect([...s3.objects.keys()]).toEqual(['openapi/folders.json'])
+      expect(await storage.list('/')).toEqual(['folders.json'])
+    })
+
+    it('should list by directory prefix across pages', async () => {
+      await Promise.all(
+        ['active/pets/a.json', 'active/pets/b.json', 'active/pets/c.json', 'active/petstore/a.json'].map((key) =>
+          storage.write(key, '{}')
+        )
+      )
+
+      expect(await storage.list('active/pets')).toEqual([
+        'active/pets/a.json',
+        'active/pets/b.json',
+        'active/pets/c.json',
+      ])
+    })
+  })
+
+  describe('conditional writes', () => {
+    it('should refuse to overwrite a change made by another instance', async () => {
+      const other = provider()
+      await storage.write('pets/audit.json', '[]')
+
+      await storage.read('pets/audit.json')
+      await other.read('pets/audit.json')
+      await other.write('pets/audit.json', '[{"event":"theirs"}]')
+
+      const error = await storage.write('pets/audit.json', '[{"event":"ours"}]').catch((e) => e)
+      expect(isWriteConflict(error)).toBe(true)
+      expect(await storage.read('pets/audit.json')).toBe('[{"event":"theirs"}]')
+
+      // After re-reading, writing is fine again
+      await expect(storage.write('pets/audit.json', '[]')).resolves.toBeUndefined()
+    })
+
+    it('should refuse to create an object someone else created first', async () => {
+      const other = provider()
+      expect(await storage.exists('folders.json')).toBe(false)
+      await other.write('folders.json', '{"theirs":true}')
+
+      await expect(storage.write('folders.json', '{}')).rejects.toThrow('Write conflict')
+    })
+
+    it('should retry read-modify-write updates until they apply cleanly', async () => {
+      const append = (event: string) => (current: string | null) =>
+        JSON.stringify([...JSON.parse(current ?? '[]'), event])
+
+      await Promise.all([
+        storage.update('pets/audit.json', append('a')),
+        provider().update('pets/audit.json', append('b')),
+        provider().update('pets/audit.json', append('c')),
+      ])
+
+      expect(JSON.parse(await storage.read('pets/audit.json')).sort()).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should land audit events and new versions written by two instances at once', async () => {
+      const pets = createApiId('pets')
+      const event = (name: string) => ({ event: name, api_id: pets, user: 'test', timestamp: '2024-01-01T00:00:00.000Z' })
+      const [first, second] = [new AuditLogger(storage), new AuditLogger(provider())]
+      const [ours, theirs] = [new VersionManager(storage), new VersionManager(provider())]
+      await first.logEvent(event('spec_imported'))
+      await ours.createApiMetadata(pets, 'Pets', 'team', createVersionTag('v1.0.0'))
+
+      // Both instances read the same ETag before either writes
+      await Promise.all([first.logEvent(event('endpoint_created')), second.logEvent(event('schema_created'))])
+      await Promise.all([
+        ours.addVersion(pets, createVersionTag('v1.1.0')),
+        theirs.addVersion(pets, createVersionTag('v2.0.0')),
+      ])
+
+      expect((await first.getAuditLog(pets)).map((logged) => logged.event).sort()).toEqual([
+        'endpoint_created',
+        'schema_created',
+        'spec_imported',
+      ])
+      expect((await ours.getApiMetadata(pets)).versions).toEqual(['v2.0.0', 'v1.1.0', 'v1.0.0'])
+    })
+
+    it('should give up after the configured number of attempts', async () => {
+      const other = provider()
+      await storage.write('pets/audit.json', '[]')
+
+      const update = storage.update(
+        'pets/audit.json',
+        async (current) => {
+          await other.update('pets/audit.json', (theirs) => `${theirs}!`)
+          return `${current}?`
+        },
+        2
+      )
+
+      await expect(update).rejects.toThrow('Write conflict')
+    })
+  })
+})
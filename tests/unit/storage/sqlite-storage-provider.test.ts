@@ -0,0 +1,171 @@
+/**
+ * Tests for SqliteStorageProvider
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { SqliteStorageProvider } from '../../../src/storage/sqlite-storage-provider'
+import { hasMetadataIndex } from '../../../src/storage/base-storage-provider'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import type { AuditEvent } from '../../../src/types/metadata'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('SqliteStorageProvider', () => {
+  let storage: SqliteStorageProvider
+
+  const event = (overrides: Partial<AuditEvent>): AuditEvent =>
+    ({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      event: 'spec_updated',
+      api_id: 'pets',
+      version: 'v1.0.0',
+      user: 'mcp-tool',
+      ...overrides,
+    }) as AuditEvent
+
+  beforeEach(() => {
+    storage = new SqliteStorageProvider({ basePath: '/unused', options: { filename: ':memory:' } })
+  })
+
+  afterEach(() => {
+    storage.close()
+  })
+
+  describe('documents', () => {
+    it('should read back what was written', async () => {
+      await storage.write('/active/pets/v1.0.0/spec.yaml', 'openapi: 3.0.3\n')
+
+      expect(await storage.read('active/pets/v1.0.0/spec.yaml')).toBe('openapi: 3.0.3\n')
+      expect(await storage.exists('active/pets/v1.0.0/spec.yaml')).toBe(true)
+    })
+
+    it('should fail like the file system does for missing keys', async () => {
+      await expect(storage.read('nope.json')).rejects.toThrow('not found')
+      await expect(storage.delete('nope.json')).rejects.toThrow('does not exist')
+      expect(await storage.exists('nope.json')).toBe(false)
+    })
+
+    it('should list keys by directory prefix', async () => {
+      await storage.write('active/pets/metadata.json', '{}')
+      await storage.write('active/pets_v2/metadata.json', '{}')
+      await storage.write('active/petstore/metadata.json', '{}')
+      await storage.write('folders.json', '{}')
+
+      expect(await storage.list('active/pets')).toEqual(['active/pets/metadata.json'])
+      expect(await storage.list('/')).toHaveLength(4)
+    })
+
+    it('should reject path traversal', async () => {
+      await expect(storage.read('../etc/passwd')).rejects.toThrow('directory traversal')
+    })
+  })
+
+  describe('metadata index', () => {
+    it('should index API and version metadata by shape', async () => {
+      await storage.write(
+        'active/pets/metadata.json',
+        JSON.stringify({ api_id: 'pets', name: 'Pets', versions: ['v1.0.0'], current_version: 'v1.0.0' })
+      )
+      await storage.write(
+        'active/pets/v1.0.0/metadata.json',
+        JSON.stringify({ version: 'v1.0.0', parent_version: null, created_by: 'jane' })
+      )
+      await storage.write('active/pets/v1.0.0/notes.json', JSON.stringify({ version: 'v1.0.0', parent_version: null }))
+
+      expect(hasMetadataIndex(storage)).toBe(true)
+      expect((await storage.listApiMetadata()).map((api) => api.api_id)).toEqual(['pets'])
+      expect(await storage.listVersionMetadata('pets' as any)).toEqual([
+        { version: 'v1.0.0', parent_version: null, created_by: 'jane' },
+      ])
+      expect(await storage.listVersionMetadata('cats' as any)).toEqual([])
+
+      await storage.delete('active/pets/metadata.json')
+      expect(await storage.listApiMetadata()).toEqual([])
+    })
+  })
+
+  describe('audit events', () => {
+    it('should serve appended events as the audit.json the AuditLogger expects', async () => {
+      await storage.appendAuditEvent(event({ details: { path: '/pets' } }))
+      await storage.appendAuditEvent(event({ event: 'endpoint_added', llm_reason: 'Add pets' }))
+
+      const log = JSON.parse(await storage.read('pets/audit.json'))
+      expect(log).toEqual([event({ details: { path: '/pets' } }), event({ event: 'endpoint_added', llm_reason: 'Add pets' })])
+      expect(await storage.list('/')).toEqual(['pets/audit.json'])
+    })
+
+    it('should replace the events of one API when audit.json is written', async () => {
+      await storage.appendAuditEvent(event({}))
+      await storage.appendAuditEvent(event({ api_id: 'cats' as any }))
+
+      await storage.write('pets/audit.json', JSON.stringify([event({ event: 'version_created' })]))
+
+      expect((await storage.queryAuditEvents({})).map((e) => `${e.api_id}:${e.event}`).sort()).toEqual([
+        'cats:spec_updated',
+        'pets:version_created',
+      ])
+
+      await storage.delete('pets/audit.json')
+      expect(await storage.exists('pets/audit.json')).toBe(false)
+    })
+
+    it('should query across APIs by user and date range, most recent first', async () => {
+      await storage.appendAuditEvent(event({ user: 'jane', timestamp: '2026-01-01T00:00:00.000Z' }))
+      await storage.appendAuditEvent(event({ user: 'jane', api_id: 'cats' as any, timestamp: '2026-01-05T00:00:00.000Z' }))
+      await storage.appendAuditEvent(event({ user: 'bob', timestamp: '2026-01-06T00:00:00.000Z' }))
+      await storage.appendAuditEvent(event({ user: 'jane', timestamp: '2026-01-09T00:00:00.000Z' }))
+
+      const events = await storage.queryAuditEvents({
+        user: 'jane',
+        from_date: '2026-01-02T00:00:00.000Z',
+        to_date: '2026-01-10T00:00:00.000Z',
+      })
+
+      expect(events.map((e) => `${e.api_id}@${e.timestamp.slice(0, 10)}`)).toEqual([
+        'pets@2026-01-09',
+        'cats@2026-01-05',
+      ])
+      expect(await storage.queryAuditEvents({ limit: 1 })).toHaveLength(1)
+    })
+
+    it('should let the AuditLogger append instead of rewriting the log', async () => {
+      const auditLogger = new AuditLogger(storage)
+      const writeSpy = jest.spyOn(storage, 'write')
+
+      await auditLogger.logEvent(event({}))
+      await auditLogger.logEvent(event({ event: 'version_created', timestamp: '2026-01-02T00:00:00.000Z' }))
+
+      expect(writeSpy).not.toHaveBeenCalled()
+      expect((await auditLogger.getAuditLog('pets' as any, 1))[0].event).toBe('version_created')
+      expect(await auditLogger.queryEvents({ event: 'spec_updated' })).toHaveLength(1)
+    })
+  })
+
+  describe('file database', () => {
+    it('should persist to basePath by default', async () => {
+      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-storage-'))
+      try {
+        const fileStorage = new SqliteStorageProvider({ basePath: path.join(tmpDir, 'data') })
+        await fileStorage.write('folders.json', '{"folders":[]}')
+        fileStorage.close()
+
+        const reopened = new SqliteStorageProvider({ basePath: path.join(tmpDir, 'data') })
+        expect(await reopened.read('folders.json')).toBe('{"folders":[]}')
+        reopened.close()
+        await expect(fs.access(path.join(tmpDir, 'data', 'openapi-control.db'))).resolves.toBeUndefined()
+      } finally {
+        await fs.rm(tmpDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
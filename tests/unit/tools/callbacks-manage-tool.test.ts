@@ -0,0 +1,115 @@
+/**
+ * Callbacks Manage Tool - Unit Tests
+ */
+
+import { CallbacksManageTool } from '../../../src/tools/callbacks-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('CallbacksManageTool', () => {
+  let tool: CallbacksManageTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+  const expression = '{$request.body#/callbackUrl}'
+
+  const spec = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Payments', version: '1.0.0' },
+    paths: {
+      '/payments': {
+        post: {
+          responses: { '201': { description: 'Created' } },
+          callbacks: {
+            onCompleted: {
+              [expression]: { post: { responses: { '200': { description: 'OK' } } } },
+            },
+            onRefund: { $ref: '#/components/callbacks/Refund' },
+          },
+        },
+      },
+    },
+    components: {
+      callbacks: {
+        Refund: { '{$request.body#/refundUrl}': { post: { responses: { '200': { description: 'OK' } } } } },
+      },
+    },
+  })
+
+  const base = { apiId, version, path: '/payments', method: 'POST' as const }
+
+  beforeEach(() => {
+    harness = createToolHarness(spec)
+    tool = new CallbacksManageTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list callbacks of an operation', async () => {
+    const result = await tool.execute({ ...base, operation: 'list' })
+
+    expect((result.data as any).callbacks).toEqual([
+      { name: 'onCompleted', component: undefined, expressions: [{ expression, methods: ['POST'], problems: [] }] },
+      {
+        name: 'onRefund',
+        component: 'Refund',
+        expressions: [{ expression: '{$request.body#/refundUrl}', methods: ['POST'], problems: [] }],
+      },
+    ])
+  })
+
+  it('should add a callback', async () => {
+    await tool.execute({
+      ...base,
+      operation: 'add',
+      callbackName: 'onFailed',
+      expression: 'https://hooks.example.com?payment={$response.body#/id}',
+      callbackMethod: 'POST',
+      operationObject: { responses: { '204': { description: 'Received' } } },
+    })
+
+    expect(harness.saved().paths['/payments'].post.callbacks).toHaveProperty('onFailed', {
+      'https://hooks.example.com?payment={$response.body#/id}': {
+        post: { responses: { '204': { description: 'Received' } } },
+      },
+    })
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'callback_added' }))
+  })
+
+  it('should reject invalid runtime expressions', async () => {
+    await expect(
+      tool.execute({
+        ...base,
+        operation: 'add',
+        callbackName: 'onFailed',
+        expression: '{request.body#/url}',
+        callbackMethod: 'POST',
+        operationObject: {},
+      })
+    ).rejects.toThrow('is not a runtime expression')
+  })
+
+  it('should update a referenced callback through its component', async () => {
+    await tool.execute({
+      ...base,
+      operation: 'update',
+      callbackName: 'onRefund',
+      expression: '{$request.body#/refundUrl}',
+      callbackMethod: 'POST',
+      updates: { summary: 'Refund issued' },
+    })
+
+    expect(harness.saved().components.callbacks.Refund['{$request.body#/refundUrl}'].post).toHaveProperty(
+      'summary',
+      'Refund issued'
+    )
+  })
+
+  it('should delete the last callback operation and clean up', async () => {
+    await tool.execute({ ...base, operation: 'delete', callbackName: 'onCompleted', expression, callbackMethod: 'POST' })
+    expect(harness.saved().paths['/payments'].post.callbacks).toEqual({ onRefund: { $ref: '#/components/callbacks/Refund' } })
+
+    harness.specManager.saveSpec.mockClear()
+    await tool.execute({ ...base, operation: 'delete', callbackName: 'onRefund' })
+    expect(harness.saved().paths['/payments'].post.callbacks.onRefund).toBeUndefined()
+    expect(harness.saved().components.callbacks.Refund).toBeDefined()
+  })
+})
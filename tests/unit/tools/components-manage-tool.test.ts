@@ -0,0 +1,202 @@
+/**
+ * Components Manage Tool - Unit Tests
+ */
+
+import { ComponentsManageTool } from '../../../src/tools/components-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('ComponentsManageTool', () => {
+  let tool: ComponentsManageTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    security: [{ apiKey: [] }],
+    paths: {
+      '/pets': {
+        get: {
+          parameters: [{ $ref: '#/components/parameters/Limit' }],
+          responses: {
+            '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+            '404': { $ref: '#/components/responses/NotFound' },
+          },
+          security: [{ apiKey: [], oauth: ['read'] }],
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          properties: {
+            id: { $ref: '#/components/schemas/Pet/properties/name' },
+            name: { type: 'string' },
+            parent: { $ref: '#/components/schemas/Pet' },
+          },
+          discriminator: { propertyName: 'kind', mapping: { pet: '#/components/schemas/Pet' } },
+        },
+        PetList: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+      },
+      parameters: { Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } } },
+      responses: { NotFound: { description: 'Not found' } },
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-Key' },
+        oauth: { type: 'oauth2', flows: {} },
+      },
+    },
+  })
+
+
+  beforeEach(() => {
+    harness = createToolHarness(spec)
+    tool = new ComponentsManageTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list every component kind with usage counts', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'list' })
+
+    expect((result.data as any).counts).toEqual({ schemas: 2, parameters: 1, responses: 1, securitySchemes: 2 })
+    expect((result.data as any).components.schemas).toEqual([
+      { name: 'Pet', usageCount: 2 },
+      { name: 'PetList', usageCount: 0 },
+    ])
+    expect((result.data as any).components.securitySchemes).toEqual([
+      { name: 'apiKey', usageCount: 2 },
+      { name: 'oauth', usageCount: 1 },
+    ])
+  })
+
+  it('should add a link component', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      componentType: 'links',
+      componentName: 'GetPetById',
+      definition: { operationId: 'getPet', parameters: { petId: '$response.body#/id' } },
+    })
+
+    expect(harness.saved().components).toHaveProperty('links.GetPetById.operationId', 'getPet')
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'component_added' }))
+  })
+
+  it('should refuse pathItems before OpenAPI 3.1', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'add', componentType: 'pathItems', componentName: 'Ping', definition: {} })
+    ).rejects.toThrow('needs OpenAPI 3.1')
+  })
+
+  it('should merge updates into a component', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'update',
+      componentType: 'responses',
+      componentName: 'NotFound',
+      definition: { headers: { 'X-Trace': { schema: { type: 'string' } } } },
+    })
+
+    expect(harness.saved().components.responses.NotFound).toEqual({
+      description: 'Not found',
+      headers: { 'X-Trace': { schema: { type: 'string' } } },
+    })
+  })
+
+  it('should refuse to delete a referenced component unless forced', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'delete', componentType: 'parameters', componentName: 'Limit' })
+    ).rejects.toThrow('still used at /paths/~1pets/get/parameters/0')
+
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'delete',
+      componentType: 'parameters',
+      componentName: 'Limit',
+      force: true,
+    })
+    expect(harness.saved().components.parameters).toBeUndefined()
+    expect((result.data as any).danglingRefs).toEqual(['/paths/~1pets/get/parameters/0'])
+  })
+
+  it('should rename a schema and rewrite refs, nested refs and discriminator mappings', async () => {
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'rename',
+      componentType: 'schemas',
+      componentName: 'Pet',
+      newName: 'Animal',
+    })
+
+    const schemas = harness.saved().components.schemas
+    expect(Object.keys(schemas)).toEqual(['Animal', 'PetList'])
+    expect(schemas.PetList.items.$ref).toBe('#/components/schemas/Animal')
+    expect(schemas).toMatchObject({
+      Animal: {
+        properties: {
+          id: { $ref: '#/components/schemas/Animal/properties/name' },
+          parent: { $ref: '#/components/schemas/Animal' },
+        },
+        discriminator: { mapping: { pet: '#/components/schemas/Animal' } },
+      },
+    })
+    expect(harness.saved().paths['/pets'].get.responses['200'].content['application/json'].schema.$ref).toBe(
+      '#/components/schemas/Animal'
+    )
+    expect((result.data as any).updatedRefs).toBe(5)
+  })
+
+  it('should rename a schema named by a bare discriminator mapping value', async () => {
+    harness.specManager.loadSpec.mockResolvedValueOnce({
+      version: '3.0',
+      spec: {
+        ...spec(),
+        components: {
+          schemas: {
+            Pet: { type: 'object', discriminator: { propertyName: 'kind', mapping: { dog: 'Dog', cat: 'Cat' } } },
+            Dog: { allOf: [{ $ref: '#/components/schemas/Pet' }] },
+            Cat: { allOf: [{ $ref: '#/components/schemas/Pet' }] },
+          },
+        },
+      },
+    } as any)
+
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'rename',
+      componentType: 'schemas',
+      componentName: 'Dog',
+      newName: 'Hound',
+    })
+
+    expect(harness.saved().components.schemas.Pet.discriminator.mapping).toEqual({ dog: 'Hound', cat: 'Cat' })
+    expect((result.data as any).updatedRefs).toBe(1)
+  })
+
+  it('should rename a security scheme in every security requirement', async () => {
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'rename',
+      componentType: 'securitySchemes',
+      componentName: 'apiKey',
+      newName: 'ApiKeyAuth',
+    })
+
+    expect(harness.saved().security).toEqual([{ ApiKeyAuth: [] }])
+    expect(harness.saved().paths['/pets'].get.security).toEqual([{ ApiKeyAuth: [], oauth: ['read'] }])
+    expect((result.data as any).updatedRequirements).toBe(2)
+  })
+
+  it('should not rename onto an existing component', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'rename', componentType: 'schemas', componentName: 'Pet', newName: 'PetList' })
+    ).rejects.toThrow('already exists')
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Dependency Graph Tool - Unit Tests
+ */
+
+import { DependencyGraphTool } from '../../../src/tools/dependency-graph-tool'
+import { DependencyGraph } from '../../../src/services/dependency-graph'
+
+jest.mock('../../../src/services/dependency-graph')
+
+describe('DependencyGraphTool', () => {
+  let tool: DependencyGraphTool
+  let mockGraph: jest.Mocked<DependencyGraph>
+
+  beforeEach(() => {
+    mockGraph = new DependencyGraph(null as any, null as any, null as any) as jest.Mocked<DependencyGraph>
+    tool = new DependencyGraphTool(mockGraph)
+  })
+
+  it('should return the graph, narrowed to an API when asked', async () => {
+    mockGraph.build.mockResolvedValue({
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      apis: [],
+      components: [],
+      edges: [{ type: 'api', from: 'orders@v1.0.0', to: 'shared-api@v1.0.0', refs: 2 }],
+    })
+
+    const result = await tool.execute({ operation: 'graph', apiId: 'orders' })
+
+    expect(mockGraph.build).toHaveBeenCalledWith('orders')
+    expect(result.success).toBe(true)
+    expect((result.data as any).edges).toHaveLength(1)
+  })
+
+  it('should pass the proposed component change to the impact analysis', async () => {
+    mockGraph.impact.mockResolvedValue({
+      component: 'shared-api@v1.0.0#/components/schemas/Error',
+      affected: [],
+      unaffected: ['orders@v1.0.0'],
+      breakingConsumers: 0,
+    })
+
+    const result = await tool.execute({
+      operation: 'impact',
+      apiId: 'shared-api',
+      version: 'v1.0.0',
+      componentType: 'schemas',
+      componentName: 'Error',
+      definition: null,
+    })
+
+    expect(mockGraph.impact).toHaveBeenCalledWith({
+      apiId: 'shared-api',
+      version: 'v1.0.0',
+      componentType: 'schemas',
+      componentName: 'Error',
+      definition: null,
+    })
+    expect((result.data as any).breakingConsumers).toBe(0)
+  })
+
+  it('should reject an impact request without a definition', async () => {
+    await expect(
+      tool.execute({ operation: 'impact', apiId: 'shared-api', version: 'v1.0.0', componentType: 'schemas', componentName: 'Error' } as any)
+    ).rejects.toThrow()
+    expect(mockGraph.impact).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Request Body Configure Tool - Unit Tests
+ */
+
+import { RequestBodyConfigureTool } from '../../../src/tools/request-body-configure-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('RequestBodyConfigureTool', () => {
+  let tool: RequestBodyConfigureTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: { responses: {} },
+        post: {
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+            },
+          },
+          responses: {},
+        },
+        put: { requestBody: { $ref: '#/components/requestBodies/PetBody' }, responses: {} },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: { type: 'object', properties: { name: { type: 'string' }, photo: { type: 'string', format: 'binary' } } },
+      },
+      requestBodies: {
+        PetBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+      },
+    },
+  })
+
+
+  beforeEach(() => {
+    harness = createToolHarness(spec)
+    tool = new RequestBodyConfigureTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list media types of a referenced body', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'list', path: '/pets', method: 'PUT' })
+
+    expect(result.data).toMatchObject({ component: 'PetBody', required: false, count: 1 })
+    expect((result.data as any).mediaTypes[0].mediaType).toBe('application/json')
+  })
+
+  it('should add a multipart media type with encoding', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      path: '/pets',
+      method: 'POST',
+      mediaType: 'multipart/form-data',
+      content: {
+        schema: { $ref: '#/components/schemas/Pet' },
+        encoding: { photo: { contentType: 'image/png' } },
+      },
+    })
+
+    expect(harness.saved().paths['/pets'].post.requestBody.content).toHaveProperty(['multipart/form-data', 'encoding'], {
+      photo: { contentType: 'image/png' },
+    })
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'request_body_added' }))
+  })
+
+  it('should create the request body when adding to an operation without one', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      path: '/pets',
+      method: 'GET',
+      mediaType: 'application/json',
+      content: { example: { name: 'Rex' } },
+      required: true,
+    })
+
+    expect(harness.saved().paths['/pets'].get).toHaveProperty('requestBody', {
+      content: { 'application/json': { example: { name: 'Rex' } } },
+      required: true,
+    })
+  })
+
+  it('should reject encoding on JSON and unknown encoding properties', async () => {
+    await expect(
+      tool.execute({
+        apiId,
+        version,
+        operation: 'update',
+        path: '/pets',
+        method: 'POST',
+        mediaType: 'application/json',
+        updates: { encoding: { avatar: { contentType: 'image/png' } } },
+      })
+    ).rejects.toThrow(/encoding only applies to multipart.*encoding for avatar does not match a schema property/)
+    expect(harness.specManager.saveSpec).not.toHaveBeenCalled()
+  })
+
+  it('should reject example together with examples', async () => {
+    await expect(
+      tool.execute({
+        apiId,
+        version,
+        operation: 'add',
+        path: '/pets',
+        method: 'POST',
+        mediaType: 'application/xml',
+        content: { example: {}, examples: { rex: { value: {} } } },
+      })
+    ).rejects.toThrow('mutually exclusive')
+  })
+
+  it('should update the shared component of a referenced body', async () => {
+    await tool.execute({ apiId, version, operation: 'update', path: '/pets', method: 'PUT', description: 'A pet' })
+
+    expect(harness.saved().components.requestBodies.PetBody).toHaveProperty('description', 'A pet')
+    expect(harness.saved().paths['/pets'].put.requestBody).toEqual({ $ref: '#/components/requestBodies/PetBody' })
+  })
+
+  it('should remove the body with its last media type', async () => {
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'delete',
+      path: '/pets',
+      method: 'POST',
+      mediaType: 'application/json',
+    })
+
+    expect(harness.saved().paths['/pets'].post.requestBody).toBeUndefined()
+    expect((result.data as any).removedBody).toBe(true)
+  })
+
+  it('should extract an inline body into components', async () => {
+    await tool.execute({ apiId, version, operation: 'extract', path: '/pets', method: 'POST', componentName: 'NewPet' })
+
+    expect(harness.saved().paths['/pets'].post.requestBody).toEqual({ $ref: '#/components/requestBodies/NewPet' })
+    expect(harness.saved().components.requestBodies).toHaveProperty('NewPet.required', true)
+  })
+
+  it('should not extract a referenced body or overwrite a component', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'extract', path: '/pets', method: 'PUT', componentName: 'Other' })
+    ).rejects.toThrow('already references')
+    await expect(
+      tool.execute({ apiId, version, operation: 'extract', path: '/pets', method: 'POST', componentName: 'PetBody' })
+    ).rejects.toThrow('already exists')
+  })
+})
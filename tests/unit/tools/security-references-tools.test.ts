@@ -7,6 +7,7 @@ import { ReferencesManageTool } from '../../../src/tools/references-manage-tool'
 import { SpecManager } from '../../../src/services/spec-manager'
 import { AuditLogger } from '../../../src/services/audit-logger'
 import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
 
 jest.mock('../../../src/services/spec-manager')
 jest.mock('../../../src/services/audit-logger')
@@ -482,6 +483,31 @@ describe('ReferencesManageTool', () => {
       expect((result.data as any)?.brokenRefs).toBe(1)
       expect((result.data as any)?.broken).toHaveLength(1)
     })
+
+    it('should report file refs as broken and leave URL refs alone', async () => {
+      mockSpecManager.loadSpec.mockResolvedValue({
+        version: '3.0',
+        spec: {
+          paths: {
+            '/users': {
+              get: {
+                responses: {
+                  '200': { $ref: 'https://example.com/responses.yaml#/Ok' },
+                  default: { $ref: './common.yaml#/components/responses/Error' },
+                },
+              },
+            },
+          },
+        },
+      } as any)
+
+      const result = await tool.execute({ apiId, version, operation: 'validate' })
+
+      expect((result.data as any)?.brokenRefs).toBe(1)
+      expect((result.data as any)?.broken[0]).toEqual(
+        expect.objectContaining({ ref: './common.yaml#/components/responses/Error', reason: expect.stringContaining('filePath') })
+      )
+    })
   })
 
   describe('update', () => {
@@ -544,5 +570,247 @@ describe('ReferencesManageTool', () => {
       } as any)).rejects.toThrow('Validation failed')
     })
   })
-})
 
+  describe('refactorings', () => {
+    const address = () => ({
+      type: 'object',
+      properties: { street: { type: 'string' }, city: { type: 'string' } },
+    })
+    const refactorSpec = () => ({
+      openapi: '3.0.3',
+      info: { title: 'Shop', version: '1.0.0' },
+      paths: {
+        '/orders': {
+          post: {
+            operationId: 'createOrder',
+            parameters: [{ name: 'X-Tenant', in: 'header', schema: { type: 'string' } }],
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { shipTo: address(), billTo: { properties: address().properties, type: 'object' } } },
+                },
+              },
+            },
+            responses: { '404': { description: 'Not found' } },
+          },
+        },
+        '/customers': {
+          get: {
+            parameters: [{ in: 'header', name: 'X-Tenant', schema: { type: 'string' } }],
+            responses: { '200': { description: 'OK', content: { 'application/json': { schema: address() } } } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Customer: { type: 'object', properties: { home: { $ref: '#/components/schemas/Place' } } },
+          Place: { type: 'object', properties: { lat: { type: 'number' } } },
+        },
+      },
+    })
+    let harness: ToolHarness<ReturnType<typeof refactorSpec>>
+
+    beforeEach(() => {
+      harness = createToolHarness(refactorSpec)
+      tool = new ReferencesManageTool(harness.specManager, harness.auditLogger)
+    })
+
+    it('should find structurally identical inline definitions regardless of key order', async () => {
+      const result = await tool.execute({ apiId, version, operation: 'find_duplicates' })
+
+      expect((result.data as any).duplicates).toEqual([
+        {
+          componentType: 'schemas',
+          occurrences: 3,
+          pointers: [
+            '/paths/~1orders/post/requestBody/content/application~1json/schema/properties/shipTo',
+            '/paths/~1orders/post/requestBody/content/application~1json/schema/properties/billTo',
+            '/paths/~1customers/get/responses/200/content/application~1json/schema',
+          ],
+          suggestedName: 'ShipTo',
+          matchesComponent: undefined,
+        },
+        {
+          componentType: 'parameters',
+          occurrences: 2,
+          pointers: ['/paths/~1orders/post/parameters/0', '/paths/~1customers/get/parameters/0'],
+          suggestedName: 'XTenant',
+          matchesComponent: undefined,
+        },
+      ])
+    })
+
+    it('should extract an inline schema and replace its copies', async () => {
+      const result = await tool.execute({
+        apiId,
+        version,
+        operation: 'extract',
+        pointer: '/paths/~1customers/get/responses/200/content/application~1json/schema',
+        componentName: 'Address',
+      })
+
+      const spec = harness.saved()
+      expect(spec.components.schemas).toHaveProperty('Address', address())
+      expect(spec.paths['/orders'].post.requestBody.content['application/json'].schema.properties).toEqual({
+        shipTo: { $ref: '#/components/schemas/Address' },
+        billTo: { $ref: '#/components/schemas/Address' },
+      })
+      expect((result.data as any).replacedCount).toBe(3)
+      expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'component_extracted' }))
+    })
+
+    it('should generate a name and extract only the given location when asked', async () => {
+      const result = await tool.execute({
+        apiId,
+        version,
+        operation: 'extract',
+        pointer: '/paths/~1orders/post/requestBody/content/application~1json/schema',
+        replaceDuplicates: false,
+      })
+
+      expect((result.data as any).componentName).toBe('CreateOrderRequest')
+      expect(harness.saved().paths['/orders'].post.requestBody.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/CreateOrderRequest',
+      })
+    })
+
+    it('should refuse to extract a ref', async () => {
+      await expect(
+        tool.execute({ apiId, version, operation: 'extract', pointer: '/components/schemas/Customer/properties/home' })
+      ).rejects.toThrow('No inline schema, parameter or response')
+    })
+
+    it('should inline a component and remove it', async () => {
+      const result = await tool.execute({
+        apiId,
+        version,
+        operation: 'inline',
+        componentType: 'schemas',
+        componentName: 'Place',
+      })
+
+      expect(harness.saved().components.schemas.Customer.properties.home).toEqual({
+        type: 'object',
+        properties: { lat: { type: 'number' } },
+      })
+      expect(harness.saved().components.schemas.Place).toBeUndefined()
+      expect((result.data as any).inlined).toEqual(['/components/schemas/Customer/properties/home'])
+    })
+
+    it('should refuse to inline a recursive component', async () => {
+      harness.specManager.loadSpec.mockResolvedValueOnce({
+        version: '3.0',
+        spec: { components: { schemas: { Node: { properties: { next: { $ref: '#/components/schemas/Node' } } } } } },
+      } as any)
+
+      await expect(
+        tool.execute({ apiId, version, operation: 'inline', componentType: 'schemas', componentName: 'Node' })
+      ).rejects.toThrow("can't be inlined")
+    })
+  })
+
+  describe('prune', () => {
+    const pruneSpec = () => ({
+      openapi: '3.0.3',
+      info: { title: 'Shop', version: '1.0.0' },
+      paths: { '/pets': { get: { responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } } } } },
+      components: {
+        schemas: {
+          Pet: { type: 'object', properties: { tag: { $ref: '#/components/schemas/Tag' } } },
+          Tag: { type: 'string' },
+          Legacy: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Owner' } } },
+          Owner: { type: 'object' },
+        },
+        parameters: { Unused: { name: 'q', in: 'query' } },
+      },
+    })
+
+    let harness: ToolHarness<ReturnType<typeof pruneSpec>>
+
+    beforeEach(() => {
+      harness = createToolHarness(pruneSpec)
+      tool = new ReferencesManageTool(harness.specManager, harness.auditLogger)
+    })
+
+    it('should list unreachable components transitively on a dry run', async () => {
+      const result = await tool.execute({ apiId, version, operation: 'prune', dryRun: true })
+
+      expect((result.data as any).unreachable).toEqual({ schemas: ['Legacy', 'Owner'], parameters: ['Unused'] })
+      expect(harness.specManager.saveSpec).not.toHaveBeenCalled()
+    })
+
+    it('should remove unreachable components in one audited change', async () => {
+      const result = await tool.execute({ apiId, version, operation: 'prune' })
+
+      const spec = harness.saved()
+      expect(Object.keys(spec.components.schemas)).toEqual(['Pet', 'Tag'])
+      expect(spec.components.parameters).toBeUndefined()
+      expect((result.data as any).count).toBe(3)
+      expect(harness.specManager.saveSpec).toHaveBeenCalledTimes(1)
+      expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'components_pruned' }))
+    })
+
+    it('should only prune the given component type', async () => {
+      const result = await tool.execute({ apiId, version, operation: 'prune', componentType: 'parameters' })
+
+      expect((result.data as any).unreachable).toEqual({ parameters: ['Unused'] })
+      expect(harness.saved().components.schemas.Legacy).toBeDefined()
+    })
+  })
+
+  describe('cross-spec refs', () => {
+    const sharedRef = 'shared-api@v1.0.0#/components/schemas/Error'
+    let resolver: { unresolvable: jest.Mock; bundle: jest.Mock; dependents: jest.Mock }
+
+    beforeEach(() => {
+      resolver = { unresolvable: jest.fn(), bundle: jest.fn(), dependents: jest.fn() }
+      tool = new ReferencesManageTool(mockSpecManager, mockAuditLogger, resolver as any)
+      mockSpecManager.loadSpec.mockResolvedValue({
+        version: '3.0',
+        spec: {
+          openapi: '3.0.3',
+          paths: { '/a': { get: { responses: { default: { $ref: sharedRef } } } } },
+          components: { schemas: { Error: { type: 'object' }, Unused: { type: 'object' } } },
+        },
+      } as any)
+    })
+
+    it('should report cross-spec refs the resolver cannot resolve as broken', async () => {
+      resolver.unresolvable.mockResolvedValue(new Map([[sharedRef, 'shared-api v1.0.0 not found']]))
+
+      const result = await tool.execute({ apiId, version, operation: 'validate' })
+
+      expect(result.data).toEqual(expect.objectContaining({ crossSpecRefs: 1, brokenRefs: 1 }))
+      expect((result.data as any).broken[0]).toEqual(expect.objectContaining({ ref: sharedRef, reason: 'shared-api v1.0.0 not found' }))
+    })
+
+    it('should keep components other specs reference when pruning', async () => {
+      resolver.dependents.mockResolvedValue([
+        { apiId: 'orders', version: 'v1.0.0', pointer: '/x', ref: 'test-api@v1.0.0#/components/schemas/Error' },
+      ])
+
+      const result = await tool.execute({ apiId, version, operation: 'prune', dryRun: true })
+
+      expect(resolver.dependents).toHaveBeenCalledWith({ apiId, version })
+      expect((result.data as any).unreachable).toEqual({ schemas: ['Unused'] })
+    })
+
+    it('should save a bundled spec only when asked', async () => {
+      resolver.bundle.mockResolvedValue({ spec: { openapi: '3.0.3' }, imported: [], inlined: [] })
+
+      const preview = await tool.execute({ apiId, version, operation: 'bundle' })
+      expect((preview.data as any).spec).toEqual({ openapi: '3.0.3' })
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+
+      await tool.execute({ apiId, version, operation: 'bundle', save: true })
+      expect(mockSpecManager.saveSpec).toHaveBeenCalledWith(apiId, version, { openapi: '3.0.3' })
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'spec_bundled' }))
+    })
+
+    it('should refuse bundle without a resolver', async () => {
+      tool = new ReferencesManageTool(mockSpecManager, mockAuditLogger)
+
+      await expect(tool.execute({ apiId, version, operation: 'bundle' })).rejects.toThrow('needs cross-spec ref support')
+    })
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Servers Configure Tool - Unit Tests
+ */
+
+import { ServersConfigureTool, validateServerTemplate } from '../../../src/tools/servers-configure-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('ServersConfigureTool', () => {
+  let tool: ServersConfigureTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    servers: [
+      { url: 'https://api.example.com' },
+      {
+        url: 'https://{env}.example.com/{basePath}',
+        variables: {
+          env: { default: 'staging', enum: ['staging', 'sandbox'] },
+          basePath: { default: 'v1' },
+        },
+      },
+    ],
+    paths: {
+      '/pets': {
+        servers: [{ url: 'https://pets.example.com' }],
+        get: { responses: {} },
+        post: { servers: [{ url: 'https://upload.example.com' }], responses: {} },
+      },
+    },
+  })
+
+
+  beforeEach(() => {
+    harness = createToolHarness(spec)
+    tool = new ServersConfigureTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list servers at every level', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'list' })
+
+    expect(result.data).toMatchObject({
+      paths: [{ path: '/pets', servers: [{ url: 'https://pets.example.com' }] }],
+      operations: [{ path: '/pets', method: 'post', servers: [{ url: 'https://upload.example.com' }] }],
+      problems: [],
+    })
+    expect((result.data as any).servers).toHaveLength(2)
+  })
+
+  it('should add a server at a position', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      server: { url: 'http://localhost:3000', description: 'Local' },
+      position: 0,
+    })
+
+    expect(harness.saved().servers[0]).toEqual({ url: 'http://localhost:3000', description: 'Local' })
+    expect(harness.saved().servers).toHaveLength(3)
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'server_added' }))
+  })
+
+  it('should add operation-level servers', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      path: '/pets',
+      method: 'get',
+      server: { url: 'https://read.example.com' },
+    })
+
+    expect(harness.saved().paths['/pets'].get).toHaveProperty('servers', [{ url: 'https://read.example.com' }])
+  })
+
+  it('should reject URL templates with undefined variables or bad defaults', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'add', server: { url: 'https://{region}.example.com' } })
+    ).rejects.toThrow('Variable {region} in https://{region}.example.com is not defined')
+
+    await expect(
+      tool.execute({
+        apiId,
+        version,
+        operation: 'set_variable',
+        serverUrl: 'https://{env}.example.com/{basePath}',
+        variableName: 'env',
+        variable: { default: 'prod', enum: ['staging', 'sandbox'] },
+      })
+    ).rejects.toThrow('is not in its enum')
+    expect(harness.specManager.saveSpec).not.toHaveBeenCalled()
+  })
+
+  it('should refuse duplicate servers in the same scope', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'add', server: { url: 'https://api.example.com' } })
+    ).rejects.toThrow('already exists on document')
+  })
+
+  it('should update a server url and keep its other fields', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'update',
+      serverUrl: 'https://{env}.example.com/{basePath}',
+      server: { url: 'https://{env}.example.org/{basePath}' },
+    })
+
+    expect(harness.saved().servers[1]).toMatchObject({
+      url: 'https://{env}.example.org/{basePath}',
+      variables: { env: { enum: ['staging', 'sandbox'] } },
+    })
+  })
+
+  it('should remove the last path-level server and drop the override', async () => {
+    await tool.execute({ apiId, version, operation: 'remove', path: '/pets', serverUrl: 'https://pets.example.com' })
+
+    expect(harness.saved().paths['/pets'].servers).toBeUndefined()
+  })
+
+  it('should reorder servers only with a complete list', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'reorder', urls: ['https://api.example.com'] })
+    ).rejects.toThrow('exactly once')
+
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'reorder',
+      urls: ['https://{env}.example.com/{basePath}', 'https://api.example.com'],
+    })
+    expect(harness.saved().servers.map((server: any) => server.url)).toEqual([
+      'https://{env}.example.com/{basePath}',
+      'https://api.example.com',
+    ])
+  })
+
+  it('should add a variable the URL does not use yet, with a warning', async () => {
+    const result = await tool.execute({
+      apiId,
+      version,
+      operation: 'set_variable',
+      serverUrl: 'https://api.example.com',
+      variableName: 'env',
+      variable: { default: 'prod' },
+    })
+
+    expect(harness.saved().servers[0]).toHaveProperty('variables.env', { default: 'prod' })
+    expect((result.data as any).warnings).toEqual(['Variable env is not used in https://api.example.com'])
+  })
+
+  it('should not remove a variable the URL still uses', async () => {
+    await expect(
+      tool.execute({
+        apiId,
+        version,
+        operation: 'remove_variable',
+        serverUrl: 'https://{env}.example.com/{basePath}',
+        variableName: 'env',
+      })
+    ).rejects.toThrow('still used')
+  })
+
+  it('should refuse Swagger 2.0 specs', async () => {
+    harness.specManager.loadSpec.mockResolvedValueOnce({ spec: { swagger: '2.0', paths: {} } } as any)
+
+    await expect(tool.execute({ apiId, version, operation: 'list' })).rejects.toThrow('Swagger 2.0 has no servers')
+  })
+
+  describe('validateServerTemplate', () => {
+    it('should flag unbalanced braces as errors and unused variables as warnings', () => {
+      expect(validateServerTemplate({ url: 'https://{env.example.com' })).toEqual({
+        errors: ['URL template https://{env.example.com has unbalanced or empty braces'],
+        warnings: [],
+      })
+      expect(validateServerTemplate({ url: 'https://example.com', variables: { env: { default: 'a' } } })).toEqual({
+        errors: [],
+        warnings: ['Variable env is not used in https://example.com'],
+      })
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Spec Patch Tool - Unit Tests
+ */
+
+import { SpecPatchTool } from '../../../src/tools/spec-patch-tool'
+import { SpecManager } from '../../../src/services/spec-manager'
+import { AuditLogger } from '../../../src/services/audit-logger'
+import { ValidationService, ValidationSeverity } from '../../../src/services/validation-service'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+
+jest.mock('../../../src/services/spec-manager')
+jest.mock('../../../src/services/audit-logger')
+
+describe('SpecPatchTool', () => {
+  let tool: SpecPatchTool
+  let mockSpecManager: jest.Mocked<SpecManager>
+  let mockValidationService: jest.Mocked<ValidationService>
+  let mockAuditLogger: jest.Mocked<AuditLogger>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0', 'x-internal': true },
+    tags: [{ name: 'pets' }],
+    paths: {},
+  }
+
+  const clean = { valid: true, issueCount: 0, summary: { errors: 0, warnings: 0, info: 0, hints: 0 }, issues: [] }
+  const withError = (message: string) => ({
+    valid: false,
+    issueCount: 1,
+    summary: { errors: 1, warnings: 0, info: 0, hints: 0 },
+    issues: [{ severity: ValidationSeverity.ERROR, message, path: ['servers', '0'], code: 'oas3-schema' }],
+  })
+
+  beforeEach(() => {
+    mockSpecManager = {
+      loadSpec: jest.fn().mockResolvedValue({ version: '3.0', spec: structuredClone(spec) }),
+      saveSpec: jest.fn().mockResolvedValue({ edit_id: 'edit-1', patch: [], inverse_patch: [] }),
+    } as any
+    mockValidationService = { validateSpecObject: jest.fn().mockResolvedValue(clean) } as any
+    mockAuditLogger = { logEvent: jest.fn() } as any
+    tool = new SpecPatchTool(mockSpecManager, mockValidationService, mockAuditLogger)
+  })
+
+  it('should apply a JSON Patch, validate and audit it', async () => {
+    const patch = [
+      { op: 'add' as const, path: '/tags/-', value: { name: 'owners' } },
+      { op: 'add' as const, path: '/servers', value: [{ url: 'https://api.example.com' }] },
+    ]
+
+    const result = await tool.execute({ apiId, version, format: 'json-patch', patch })
+
+    const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+    expect(saved.tags).toEqual([{ name: 'pets' }, { name: 'owners' }])
+    expect(saved.servers).toEqual([{ url: 'https://api.example.com' }])
+    expect(mockValidationService.validateSpecObject).toHaveBeenCalledTimes(2)
+    expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'spec_patched',
+        details: expect.objectContaining({ format: 'json-patch', submitted_patch: patch, edit_id: 'edit-1' }),
+      })
+    )
+    expect((result.data as any).changes).toHaveLength(2)
+  })
+
+  it('should apply a merge patch with null deleting keys', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      format: 'merge-patch',
+      patch: { info: { 'x-internal': null }, externalDocs: { url: 'https://docs.example.com' } },
+    })
+
+    const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+    expect(saved.info).toEqual({ title: 'Pets', version: '1.0.0' })
+    expect(saved.externalDocs).toEqual({ url: 'https://docs.example.com' })
+  })
+
+  it('should report without saving on dry run', async () => {
+    mockValidationService.validateSpecObject.mockResolvedValueOnce(clean).mockResolvedValueOnce(withError('bad url'))
+
+    const result = await tool.execute({
+      apiId,
+      version,
+      format: 'json-patch',
+      patch: [{ op: 'add', path: '/servers', value: [{}] }],
+      dryRun: true,
+    })
+
+    expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+    expect(mockAuditLogger.logEvent).not.toHaveBeenCalled()
+    expect(result.data).toMatchObject({ dryRun: true, validation: { valid: false, newErrors: [{ message: 'bad url' }] } })
+  })
+
+  it('should refuse patches that add validation errors but not ones the spec already had', async () => {
+    mockValidationService.validateSpecObject.mockResolvedValueOnce(clean).mockResolvedValueOnce(withError('bad url'))
+    const patch = [{ op: 'add' as const, path: '/servers', value: [{}] }]
+
+    await expect(tool.execute({ apiId, version, format: 'json-patch', patch })).rejects.toThrow(
+      '1 new validation error(s): bad url at servers.0'
+    )
+    expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+
+    mockValidationService.validateSpecObject.mockResolvedValue(withError('bad url'))
+    await tool.execute({ apiId, version, format: 'json-patch', patch: [{ op: 'remove', path: '/tags' }] })
+    expect(mockSpecManager.saveSpec).toHaveBeenCalled()
+  })
+
+  it('should fail the whole patch when an operation fails', async () => {
+    await expect(
+      tool.execute({
+        apiId,
+        version,
+        format: 'json-patch',
+        patch: [
+          { op: 'add', path: '/tags/-', value: { name: 'owners' } },
+          { op: 'test', path: '/info/title', value: 'Cats' },
+        ],
+      })
+    ).rejects.toThrow('JSON Patch operation 1 (test /info/title) failed')
+    expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+  })
+
+  it('should skip saving when the patch changes nothing', async () => {
+    const result = await tool.execute({ apiId, version, format: 'merge-patch', patch: { info: { title: 'Pets' } } })
+
+    expect(result.content[0].text).toContain('unchanged')
+    expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+  })
+
+  it('should reject operations without a value', async () => {
+    await expect(
+      tool.execute({ apiId, version, format: 'json-patch', patch: [{ op: 'add', path: '/tags/-' }] } as any)
+    ).rejects.toThrow('value is required')
+  })
+})
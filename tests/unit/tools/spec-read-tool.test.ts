@@ -394,6 +394,61 @@ describe('SpecReadTool', () => {
     })
   })
 
+  describe('execute - webhooks and callbacks', () => {
+    const eventSpec: any = {
+      ...sampleSpec,
+      openapi: '3.1.0',
+      webhooks: {
+        userCreated: { $ref: '#/components/pathItems/UserCreated' },
+      },
+      components: {
+        pathItems: {
+          UserCreated: { post: { summary: 'User created', responses: { '200': { description: 'OK' } } } },
+        },
+      },
+      paths: {
+        '/subscriptions': {
+          post: {
+            responses: { '201': { description: 'Created' } },
+            callbacks: {
+              onEvent: { '{$request.body#/url}': { post: { responses: { '200': { description: 'OK' } } } } },
+            },
+          },
+        },
+      },
+    }
+
+    beforeEach(() => {
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.1', spec: eventSpec } as any)
+    })
+
+    it('should list webhooks with referenced path items resolved', async () => {
+      const result = await tool.execute({ apiId: 'test-api', version: 'v1.0.0', queryType: 'webhooks_list' })
+
+      expect((result.data as any)?.webhooks).toEqual([{ name: 'userCreated', methods: ['POST'] }])
+    })
+
+    it('should return webhook details', async () => {
+      const result = await tool.execute({
+        apiId: 'test-api',
+        version: 'v1.0.0',
+        queryType: 'webhook_detail',
+        webhookName: 'userCreated',
+        method: 'POST',
+      })
+
+      expect((result.data as any)?.operation.summary).toBe('User created')
+    })
+
+    it('should list callbacks with their owning endpoint', async () => {
+      const result = await tool.execute({ apiId: 'test-api', version: 'v1.0.0', queryType: 'callbacks_list' })
+
+      expect((result.data as any)?.callbacks).toEqual([
+        { endpoint: 'POST /subscriptions', callback: 'onEvent', expression: '{$request.body#/url}', methods: ['POST'] },
+      ])
+    })
+  })
+
   describe('execute - endpoints_list', () => {
     it('should filter by tag', async () => {
       const specWithTags = {
@@ -0,0 +1,126 @@
+/**
+ * Tags Manage Tool - Unit Tests
+ */
+
+import { TagsManageTool } from '../../../src/tools/tags-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('TagsManageTool', () => {
+  let tool: TagsManageTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    tags: [
+      { name: 'pets', description: 'Pet operations' },
+      { name: 'animals', description: 'Legacy name' },
+      { name: 'legacy' },
+    ],
+    'x-tagGroups': [{ name: 'Store', tags: ['pets', 'animals'] }],
+    paths: {
+      '/pets': {
+        get: { tags: ['pets', 'animals'], responses: {} },
+        post: { tags: ['animals'], responses: {} },
+      },
+      '/owners': {
+        get: { tags: ['owners'], responses: {} },
+      },
+    },
+  })
+
+
+  beforeEach(() => {
+    harness = createToolHarness(spec)
+    tool = new TagsManageTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list tags with usage, orphaned, undeclared and ungrouped tags', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'list' })
+
+    expect(result.data).toMatchObject({
+      count: 3,
+      orphaned: ['legacy'],
+      undeclared: ['owners'],
+      ungrouped: ['legacy', 'owners'],
+    })
+    expect((result.data as any).tags[1]).toMatchObject({ name: 'animals', operationCount: 2, operations: ['GET /pets', 'POST /pets'] })
+  })
+
+  it('should add a tag into a group', async () => {
+    await tool.execute({ apiId, version, operation: 'add', tagName: 'owners', description: 'Owners', group: 'People' })
+
+    expect(harness.saved().tags[3]).toEqual({ name: 'owners', description: 'Owners' })
+    expect(harness.saved()['x-tagGroups']).toContainEqual({ name: 'People', tags: ['owners'] })
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'tag_added' }))
+  })
+
+  it('should refuse to add a tag twice', async () => {
+    await expect(tool.execute({ apiId, version, operation: 'add', tagName: 'pets' })).rejects.toThrow('already exists')
+  })
+
+  it('should update a tag and move it to another group', async () => {
+    await tool.execute({ apiId, version, operation: 'update', tagName: 'animals', description: 'Animals', group: 'Zoo' })
+
+    expect(harness.saved().tags[1]).toEqual({ name: 'animals', description: 'Animals' })
+    expect(harness.saved()['x-tagGroups']).toEqual([
+      { name: 'Store', tags: ['pets'] },
+      { name: 'Zoo', tags: ['animals'] },
+    ])
+  })
+
+  it('should rename a tag everywhere', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'rename', tagName: 'animals', newName: 'critters' })
+
+    expect(harness.saved().tags.map((tag: any) => tag.name)).toEqual(['pets', 'critters', 'legacy'])
+    expect(harness.saved().paths['/pets'].get.tags).toEqual(['pets', 'critters'])
+    expect(harness.saved()['x-tagGroups'][0].tags).toEqual(['pets', 'critters'])
+    expect((result.data as any).affectedOperations).toEqual(['GET /pets', 'POST /pets'])
+  })
+
+  it('should not rename onto an existing tag', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'rename', tagName: 'animals', newName: 'pets' })
+    ).rejects.toThrow('use merge')
+  })
+
+  it('should merge tags without duplicating them on operations', async () => {
+    await tool.execute({ apiId, version, operation: 'merge', sourceTags: ['animals'], tagName: 'pets' })
+
+    expect(harness.saved().tags.map((tag: any) => tag.name)).toEqual(['pets', 'legacy'])
+    expect(harness.saved().paths['/pets'].get.tags).toEqual(['pets'])
+    expect(harness.saved().paths['/pets'].post.tags).toEqual(['pets'])
+    expect(harness.saved()['x-tagGroups']).toEqual([{ name: 'Store', tags: ['pets'] }])
+  })
+
+  it('should create the merge target from the first declared source', async () => {
+    await tool.execute({ apiId, version, operation: 'merge', sourceTags: ['animals', 'owners'], tagName: 'creatures' })
+
+    expect(harness.saved().tags).toEqual([
+      { name: 'pets', description: 'Pet operations' },
+      { name: 'creatures', description: 'Legacy name' },
+      { name: 'legacy' },
+    ])
+    expect(harness.saved().paths['/owners'].get.tags).toEqual(['creatures'])
+  })
+
+  it('should delete a tag from operations and groups', async () => {
+    await tool.execute({ apiId, version, operation: 'delete', tagName: 'animals' })
+
+    expect(harness.saved().paths['/pets'].get.tags).toEqual(['pets'])
+    expect(harness.saved().paths['/pets'].post.tags).toBeUndefined()
+    expect(harness.saved()['x-tagGroups']).toEqual([{ name: 'Store', tags: ['pets'] }])
+  })
+
+  it('should set and clear tag groups', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'set_groups', groups: [{ name: 'A', tags: ['nope'] }] })
+    ).rejects.toThrow('Unknown tags in groups: nope')
+
+    await tool.execute({ apiId, version, operation: 'set_groups', groups: [] })
+    expect(harness.saved()['x-tagGroups']).toBeUndefined()
+  })
+})
@@ -38,12 +38,14 @@ describe('VersionControlTool', () => {
     mockVersionManager = {
       listVersions: jest.fn(),
       getApiMetadata: jest.fn(),
+      findApiFolder: jest.fn().mockResolvedValue('active'),
       createApiMetadata: jest.fn(),
       createVersionMetadata: jest.fn(),
       getVersionMetadata: jest.fn(),
       setCurrentVersion: jest.fn(),
       deleteVersion: jest.fn(),
       addVersion: jest.fn(),
+      transitionVersion: jest.fn(),
     } as any
 
     mockDiffCalculator = {
@@ -129,7 +131,7 @@ describe('VersionControlTool', () => {
 
   describe('create operation', () => {
     it('should create a new version from scratch', async () => {
-      mockVersionManager.getApiMetadata.mockRejectedValue(new Error('API not found'))
+      mockVersionManager.findApiFolder.mockResolvedValue(null)
       mockSpecManager.saveSpec.mockResolvedValue(undefined)
       mockVersionManager.createApiMetadata.mockResolvedValue({
         api_id: apiId,
@@ -198,7 +200,10 @@ describe('VersionControlTool', () => {
 
       expect(result.success).toBe(true)
       expect(mockSpecManager.loadSpec).toHaveBeenCalledWith(apiId, version1)
-      expect(mockSpecManager.saveSpec).toHaveBeenCalledWith(apiId, version2, sourceSpec)
+      expect(mockSpecManager.saveSpec).toHaveBeenCalledWith(apiId, version2, {
+        ...sourceSpec,
+        info: { title: 'Test', version: '2.0.0' },
+      })
       expect(mockVersionManager.addVersion).toHaveBeenCalledWith(apiId, version2, true)
       expect((result.data as any)?.sourceVersion).toBe(version1)
     })
@@ -211,9 +216,6 @@ describe('VersionControlTool', () => {
         versions: [version1],
       } as any)
       mockSpecManager.saveSpec.mockResolvedValue(undefined)
-      mockVersionManager.createVersionMetadata.mockRejectedValue(
-        new Error('Version already exists')
-      )
 
       await expect(
         tool.execute({
@@ -221,11 +223,63 @@ describe('VersionControlTool', () => {
           operation: 'create',
           version: version1,
         })
-      ).rejects.toThrow()
+      ).rejects.toThrow('Version v1.0.0 already exists for test-api')
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+    })
+
+    it('should reject a bump that lands on an existing version', async () => {
+      mockVersionManager.getApiMetadata.mockResolvedValue({ api_id: apiId, versions: [version1, 'v1.0.1'] } as any)
+
+      await expect(
+        tool.execute({ apiId, operation: 'create', bump: 'patch', sourceVersion: version1 })
+      ).rejects.toThrow('Version v1.0.1 already exists')
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+      expect(mockVersionManager.createApiMetadata).not.toHaveBeenCalled()
+    })
+
+    it('should not mistake unreadable metadata for a new API', async () => {
+      mockVersionManager.getApiMetadata.mockRejectedValue(new Error('Disk on fire'))
+
+      await expect(tool.execute({ apiId, operation: 'create', version: version2 })).rejects.toThrow('Disk on fire')
+      expect(mockVersionManager.createApiMetadata).not.toHaveBeenCalled()
+    })
+
+    it('should create the next version with a bump from the newest semver version', async () => {
+      const sourceSpec = { openapi: '3.0.0', info: { title: 'Test', version: '1.10.0' }, paths: {} }
+      mockVersionManager.getApiMetadata.mockResolvedValue({ api_id: apiId, versions: ['v1.9.0', 'v1.10.0'] } as any)
+      mockVersionManager.listVersions.mockResolvedValue(['v1.9.0', 'v1.10.0', 'v20250109-120000'] as any)
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec: sourceSpec } as any)
+
+      const result = await tool.execute({ apiId, operation: 'create', bump: 'minor' })
+
+      expect(result.data).toMatchObject({ version: 'v1.11.0', sourceVersion: 'v1.10.0', bump: 'minor' })
+      expect(mockSpecManager.loadSpec).toHaveBeenCalledWith(apiId, 'v1.10.0')
+      expect(mockVersionManager.addVersion).toHaveBeenCalledWith(apiId, 'v1.11.0', true)
+      expect(mockVersionManager.createVersionMetadata).toHaveBeenCalledWith(
+        apiId,
+        'v1.11.0',
+        expect.objectContaining({ parent_version: 'v1.10.0' })
+      )
+    })
+
+    it('should bump from sourceVersion when given', async () => {
+      mockVersionManager.getApiMetadata.mockResolvedValue({ api_id: apiId, versions: ['v1.5.0', version1] } as any)
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec: { info: {} } } as any)
+
+      const result = await tool.execute({ apiId, operation: 'create', bump: 'major', sourceVersion: version1 })
+
+      expect(result.data).toMatchObject({ version: 'v2.0.0' })
+      expect(mockVersionManager.listVersions).not.toHaveBeenCalled()
+    })
+
+    it('should require exactly one of version and bump', async () => {
+      await expect(
+        tool.execute({ apiId, operation: 'create', version: version2, bump: 'patch' })
+      ).rejects.toThrow('either version or bump')
     })
 
     it('should include llmReason in audit log', async () => {
-      mockVersionManager.getApiMetadata.mockRejectedValue(new Error('API not found'))
+      mockVersionManager.findApiFolder.mockResolvedValue(null)
       mockSpecManager.saveSpec.mockResolvedValue(undefined)
       mockVersionManager.createApiMetadata.mockResolvedValue({
         api_id: apiId,
@@ -443,6 +497,579 @@ describe('VersionControlTool', () => {
     })
   })
 
+  describe('convert operation', () => {
+    const swaggerSpec = {
+      swagger: '2.0',
+      info: { title: 'Legacy API', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: { responses: { '200': { description: 'OK', schema: { $ref: '#/definitions/Pet' } } } },
+        },
+      },
+      definitions: { Pet: { type: 'object' } },
+    }
+
+    beforeEach(() => {
+      ;(mockSpecManager as any).validateSpec = jest.fn()
+      mockVersionManager.getApiMetadata.mockResolvedValue({
+        api_id: apiId,
+        current_version: version1,
+        latest_stable: version1,
+        versions: [version1],
+      } as any)
+    })
+
+    it('should convert a Swagger 2.0 version into a new version', async () => {
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '2.0', spec: swaggerSpec } as any)
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'convert',
+        version: version1,
+        targetVersion: version2,
+        openapiVersion: '3.1',
+      })
+
+      expect(result.success).toBe(true)
+      const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+      expect(mockSpecManager.saveSpec.mock.calls[0][1]).toBe(version2)
+      expect(saved.openapi).toBe('3.1.0')
+      expect(saved.components.schemas.Pet).toEqual({ type: 'object' })
+      expect(mockVersionManager.addVersion).toHaveBeenCalledWith(apiId, version2, false)
+      expect(mockVersionManager.createVersionMetadata).toHaveBeenCalledWith(
+        apiId,
+        version2,
+        expect.objectContaining({ parent_version: version1 })
+      )
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'version_converted' })
+      )
+    })
+
+    it('should reject converting an OpenAPI 3.x version', async () => {
+      mockSpecManager.loadSpec.mockResolvedValue({
+        version: '3.0',
+        spec: { openapi: '3.0.0', info: { title: 'T', version: '1' }, paths: {} },
+      } as any)
+
+      await expect(
+        tool.execute({ apiId, operation: 'convert', version: version1, targetVersion: version2 })
+      ).rejects.toThrow('only Swagger 2.0 versions can be converted')
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+    })
+
+    it('should reject an existing target version', async () => {
+      await expect(
+        tool.execute({ apiId, operation: 'convert', version: version1, targetVersion: version1 })
+      ).rejects.toThrow('already exists')
+    })
+  })
+
+  describe('upgrade_openapi operation', () => {
+    const spec30 = {
+      openapi: '3.0.3',
+      info: { title: 'Modern API', version: '1.0.0' },
+      paths: {},
+      components: { schemas: { Name: { type: 'string', nullable: true } } },
+    }
+
+    beforeEach(() => {
+      ;(mockSpecManager as any).validateSpec = jest.fn()
+      mockVersionManager.getApiMetadata.mockResolvedValue({
+        api_id: apiId,
+        current_version: version1,
+        latest_stable: version1,
+        versions: [version1],
+      } as any)
+    })
+
+    it('should upgrade a 3.0 version and record the transformation', async () => {
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec: spec30 } as any)
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'upgrade_openapi',
+        version: version1,
+        targetVersion: version2,
+        openapiVersion: '3.1',
+      })
+
+      expect(result.success).toBe(true)
+      const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+      expect(saved.openapi).toBe('3.1.0')
+      expect(saved.components.schemas.Name).toEqual({ type: ['string', 'null'] })
+
+      const metadata = mockVersionManager.createVersionMetadata.mock.calls[0][2]
+      expect(metadata.changes.transformation).toEqual({
+        from: '3.0',
+        to: '3.1',
+        applied: ['nullable → type null at #/components/schemas/Name'],
+        warnings: [],
+      })
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'openapi_version_changed' })
+      )
+    })
+
+    it('should reject Swagger 2.0 sources', async () => {
+      mockSpecManager.loadSpec.mockResolvedValue({
+        version: '2.0',
+        spec: { swagger: '2.0', info: { title: 'T', version: '1' }, paths: {} },
+      } as any)
+
+      await expect(
+        tool.execute({
+          apiId,
+          operation: 'upgrade_openapi',
+          version: version1,
+          targetVersion: version2,
+          openapiVersion: '3.1',
+        })
+      ).rejects.toThrow('use the convert operation')
+    })
+
+    it('should require openapiVersion', async () => {
+      await expect(
+        tool.execute({
+          apiId,
+          operation: 'upgrade_openapi',
+          version: version1,
+          targetVersion: version2,
+        } as any)
+      ).rejects.toThrow('Validation failed')
+    })
+  })
+
+  describe('changelog operation', () => {
+    it('should delegate to the changelog generator with defaults', async () => {
+      const changelogGenerator = {
+        generate: jest.fn().mockResolvedValue({
+          format: 'markdown',
+          content: '# Test API: v1.0.0 → v2.0.0',
+          changelog: { summary: { breaking: 1, nonBreaking: 0, unclassified: 0 } },
+        }),
+      }
+      tool = new VersionControlTool(
+        mockSpecManager,
+        mockVersionManager,
+        mockDiffCalculator,
+        mockAuditLogger,
+        undefined,
+        changelogGenerator as any
+      )
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'changelog',
+        fromVersion: version1,
+        toVersion: version2,
+      })
+
+      expect(changelogGenerator.generate).toHaveBeenCalledWith(apiId, version1, version2, 'markdown', 'tag')
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          format: 'markdown',
+          summary: { breaking: 1, nonBreaking: 0, unclassified: 0 },
+          content: '# Test API: v1.0.0 → v2.0.0',
+        })
+      )
+    })
+
+    it('should reject unknown formats', async () => {
+      await expect(
+        tool.execute({
+          apiId,
+          operation: 'changelog',
+          fromVersion: version1,
+          toVersion: version2,
+          format: 'pdf',
+        } as any)
+      ).rejects.toThrow('Validation failed')
+    })
+  })
+
+  describe('merge operation', () => {
+    const version3 = createVersionTag('v1.2.0')
+    const target = createVersionTag('v1.3.0')
+    const base = {
+      openapi: '3.0.3',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: { '/pets': { get: { summary: 'List', responses: { '200': { description: 'OK' } } } } },
+    }
+    let ours: any
+    let theirs: any
+
+    beforeEach(() => {
+      ours = structuredClone(base)
+      theirs = structuredClone(base)
+      ;(mockSpecManager as any).validateSpec = jest.fn()
+      mockSpecManager.loadSpec.mockImplementation(async (_apiId, version) => {
+        const specs: Record<string, any> = { [version1]: base, [version2]: ours, [version3]: theirs }
+        return { version: '3.0', spec: specs[version] } as any
+      })
+      mockVersionManager.getApiMetadata.mockResolvedValue({
+        api_id: apiId,
+        current_version: version2,
+        latest_stable: version2,
+        versions: [version1, version2, version3],
+      } as any)
+      mockVersionManager.getVersionMetadata.mockImplementation(async (_apiId, version) => ({
+        version,
+        parent_version: version === version1 ? null : version1,
+      }) as any)
+      mockDiffCalculator.calculateDiff.mockReturnValue({ summary: { breaking_changes: [] } } as any)
+    })
+
+    it('should find the common ancestor and save a clean merge', async () => {
+      ours.paths['/pets'].post = { responses: { '201': { description: 'Created' } } }
+      theirs.paths['/owners'] = { get: { responses: { '200': { description: 'OK' } } } }
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'merge',
+        version: version2,
+        theirsVersion: version3,
+        targetVersion: target,
+      })
+
+      expect(result.data).toEqual(expect.objectContaining({ baseVersion: version1, merged: true, conflicts: [] }))
+      const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+      expect(Object.keys(saved.paths)).toEqual(['/pets', '/owners'])
+      expect(saved.paths['/pets'].post).toBeDefined()
+      expect(mockVersionManager.addVersion).toHaveBeenCalledWith(apiId, target, false)
+
+      const metadata = mockVersionManager.createVersionMetadata.mock.calls[0][2]
+      expect(metadata.parent_version).toBe(version2)
+      expect(metadata.merge).toEqual({ base: version1, ours: version2, theirs: version3, conflicts: 0 })
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'version_merged' }))
+    })
+
+    it('should return conflicts without writing anything', async () => {
+      ours.paths['/pets'].get.summary = 'Ours'
+      theirs.paths['/pets'].get.summary = 'Theirs'
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'merge',
+        version: version2,
+        theirsVersion: version3,
+        baseVersion: version1,
+        targetVersion: target,
+      })
+
+      expect(result.data).toEqual(expect.objectContaining({ merged: false }))
+      expect((result.data as any).conflicts).toEqual([
+        expect.objectContaining({ pointer: '/paths/~1pets/get/summary', location: 'GET /pets', kind: 'both-modified' }),
+      ])
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+      expect(mockAuditLogger.logEvent).not.toHaveBeenCalled()
+    })
+
+    it('should apply the requested resolution', async () => {
+      ours.paths['/pets'].get.summary = 'Ours'
+      theirs.paths['/pets'].get.summary = 'Theirs'
+
+      await tool.execute({
+        apiId,
+        operation: 'merge',
+        version: version2,
+        theirsVersion: version3,
+        targetVersion: target,
+        resolution: 'theirs',
+      })
+
+      const saved = mockSpecManager.saveSpec.mock.calls[0][2] as any
+      expect(saved.paths['/pets'].get.summary).toBe('Theirs')
+      const metadata = mockVersionManager.createVersionMetadata.mock.calls[0][2]
+      expect(metadata.merge).toEqual(expect.objectContaining({ conflicts: 1, resolution: 'theirs' }))
+    })
+
+    it('should fail when the versions share no ancestor', async () => {
+      mockVersionManager.getVersionMetadata.mockImplementation(async (_apiId, version) => ({
+        version,
+        parent_version: null,
+      }) as any)
+
+      await expect(
+        tool.execute({
+          apiId,
+          operation: 'merge',
+          version: version2,
+          theirsVersion: version3,
+          targetVersion: target,
+        })
+      ).rejects.toThrow('No common ancestor')
+    })
+  })
+
+  describe('publish operation', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: { '/pets': { get: { responses: { '200': { description: 'OK' } } } } },
+    }
+
+    beforeEach(() => {
+      ;(mockSpecManager as any).validateSpec = jest.fn()
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec } as any)
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: version1, state: 'draft' } as any)
+    })
+
+    it('should validate, freeze and audit the version', async () => {
+      mockVersionManager.transitionVersion.mockResolvedValue({
+        version: version1,
+        state: 'stable',
+        published_at: '2026-01-01T00:00:00.000Z',
+      } as any)
+
+      const result = await tool.execute({ apiId, operation: 'publish', version: version1, llmReason: 'GA release' })
+
+      expect(result.success).toBe(true)
+      expect((mockSpecManager as any).validateSpec).toHaveBeenCalledWith(spec)
+      expect(mockVersionManager.transitionVersion).toHaveBeenCalledWith(
+        apiId,
+        version1,
+        'stable',
+        expect.objectContaining({ user: 'mcp-tool', reason: 'GA release', stats: expect.objectContaining({ endpoint_count: 1 }) })
+      )
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'version_published',
+          llm_reason: 'GA release',
+          details: expect.objectContaining({ from: 'draft', to: 'stable' }),
+        })
+      )
+    })
+
+    it('should publish as beta when asked', async () => {
+      mockVersionManager.transitionVersion.mockResolvedValue({ version: version1, state: 'beta' } as any)
+
+      const result = await tool.execute({ apiId, operation: 'publish', version: version1, state: 'beta' })
+
+      expect(result.data).toMatchObject({ state: 'beta' })
+      expect(mockVersionManager.transitionVersion).toHaveBeenCalledWith(apiId, version1, 'beta', expect.anything())
+    })
+
+    it('should not publish an invalid spec', async () => {
+      ;(mockSpecManager as any).validateSpec.mockRejectedValue(new Error('Spec validation failed'))
+
+      await expect(tool.execute({ apiId, operation: 'publish', version: version1 })).rejects.toThrow(
+        'Spec validation failed'
+      )
+      expect(mockVersionManager.transitionVersion).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deprecate operation', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: { '/pets': { get: { responses: { '200': { description: 'OK' } } } } },
+    }
+
+    beforeEach(() => {
+      ;(mockSpecManager as any).saveFrozenSpec = jest.fn()
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec } as any)
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: version1, state: 'stable' } as any)
+    })
+
+    it('should deprecate a stable version and write the notice into the spec', async () => {
+      mockVersionManager.transitionVersion.mockResolvedValue({
+        version: version1,
+        state: 'deprecated',
+        deprecated_at: '2026-01-01T00:00:00.000Z',
+        sunset_date: '2027-01-01T00:00:00.000Z',
+      } as any)
+
+      const result = await tool.execute({
+        apiId,
+        operation: 'deprecate',
+        version: version1,
+        sunsetDate: '2027-01-01',
+      })
+
+      expect(result.data).toMatchObject({ state: 'deprecated', sunsetDate: '2027-01-01T00:00:00.000Z' })
+      expect(mockVersionManager.transitionVersion).toHaveBeenCalledWith(
+        apiId,
+        version1,
+        'deprecated',
+        expect.objectContaining({ sunsetDate: '2027-01-01' })
+      )
+
+      const saved = (mockSpecManager as any).saveFrozenSpec.mock.calls[0][2]
+      expect(saved.paths['/pets'].get.deprecated).toBe(true)
+      expect(saved.components.headers.Sunset).toBeDefined()
+      expect(spec.paths['/pets'].get).not.toHaveProperty('deprecated')
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'version_deprecated',
+          details: expect.objectContaining({ from: 'stable', to: 'deprecated', operations_deprecated: 1 }),
+        })
+      )
+    })
+
+    it('should surface version manager refusals', async () => {
+      mockVersionManager.transitionVersion.mockRejectedValue(new Error('Cannot move v1.0.0 of test-api from draft to deprecated'))
+
+      await expect(tool.execute({ apiId, operation: 'deprecate', version: version1 })).rejects.toThrow(
+        'from draft to deprecated'
+      )
+      expect((mockSpecManager as any).saveFrozenSpec).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('set_state operation', () => {
+    it('should retire a deprecated version', async () => {
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: version1, state: 'deprecated' } as any)
+      mockVersionManager.transitionVersion.mockResolvedValue({ version: version1, state: 'retired' } as any)
+
+      const result = await tool.execute({ apiId, operation: 'set_state', version: version1, state: 'retired' })
+
+      expect(result.data).toMatchObject({ state: 'retired' })
+      expect(mockSpecManager.loadSpec).not.toHaveBeenCalled()
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'version_retired' }))
+    })
+
+    it('should promote beta to stable without revalidating', async () => {
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: version1, state: 'beta' } as any)
+      mockVersionManager.transitionVersion.mockResolvedValue({ version: version1, state: 'stable' } as any)
+
+      await tool.execute({ apiId, operation: 'set_state', version: version1, state: 'stable' })
+
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'version_promoted' }))
+    })
+
+    it('should reject unknown states', async () => {
+      await expect(
+        tool.execute({ apiId, operation: 'set_state', version: version1, state: 'archived' } as any)
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('suggest_bump operation', () => {
+    const pets = { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' }, paths: {} }
+
+    beforeEach(() => {
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: 'v1.1.0', parent_version: version1 } as any)
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec: pets } as any)
+    })
+
+    const diffWith = (change: { rule: string; severity: string; message: string }) => ({
+      summary: {
+        endpoints_added: [],
+        endpoints_modified: [],
+        endpoints_deleted: [],
+        schemas_added: [],
+        schemas_modified: [],
+        schemas_deleted: [],
+        breaking_changes: [],
+      },
+      breaking_changes: change.severity === 'breaking' ? [change] : [],
+      classified_changes: [change],
+    })
+
+    it('should suggest a bump against the parent version', async () => {
+      ;(mockDiffCalculator.calculateDiff as jest.Mock).mockResolvedValueOnce(
+        diffWith({ rule: 'endpoint-added', severity: 'non-breaking', message: 'Endpoint added: GET /pets' })
+      )
+
+      const result = await tool.execute({ apiId, operation: 'suggest_bump', version: 'v1.1.0' })
+
+      expect(mockSpecManager.loadSpec).toHaveBeenNthCalledWith(1, apiId, version1)
+      expect(result.data).toMatchObject({
+        baseVersion: version1,
+        bump: 'minor',
+        reasons: ['Endpoint added: GET /pets'],
+        suggestedVersion: 'v1.1.0',
+        tagIsSufficient: true,
+      })
+    })
+
+    it('should flag tags that undersell a breaking change', async () => {
+      ;(mockDiffCalculator.calculateDiff as jest.Mock).mockResolvedValueOnce(
+        diffWith({ rule: 'endpoint-removed', severity: 'breaking', message: 'Endpoint removed: GET /pets' })
+      )
+
+      const result = await tool.execute({ apiId, operation: 'suggest_bump', version: 'v1.1.0' })
+
+      expect(result.data).toMatchObject({ bump: 'major', suggestedVersion: 'v2.0.0', tagIsSufficient: false })
+    })
+
+    it('should need a base version when there is no parent', async () => {
+      mockVersionManager.getVersionMetadata.mockResolvedValue({ version: version1, parent_version: null } as any)
+
+      await expect(tool.execute({ apiId, operation: 'suggest_bump', version: version1 })).rejects.toThrow(
+        'pass baseVersion'
+      )
+    })
+  })
+
+  describe('undo/redo operations', () => {
+    const withPet = { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' }, paths: {}, components: { schemas: { Pet: {} } } }
+    const schemaAdded = {
+      api_id: apiId,
+      version: version1,
+      event: 'schema_add',
+      user: 'mcp-tool',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      details: {
+        edit_id: 'edit-1',
+        patch: [{ op: 'add', path: '/components', value: { schemas: { Pet: {} } } }],
+        inverse_patch: [{ op: 'remove', path: '/components' }],
+      },
+    }
+    const undone = {
+      ...schemaAdded,
+      event: 'edit_undone',
+      timestamp: '2026-01-01T00:01:00.000Z',
+      details: { undo_of: 'edit-1', patch: [], inverse_patch: [] },
+    }
+
+    beforeEach(() => {
+      ;(mockAuditLogger as any).getVersionAuditLog = jest.fn()
+    })
+
+    it('should apply the inverse patch and log edit_undone', async () => {
+      ;(mockAuditLogger as any).getVersionAuditLog.mockResolvedValueOnce([schemaAdded]).mockResolvedValue([undone, schemaAdded])
+      mockSpecManager.loadSpec.mockResolvedValue({ version: '3.0', spec: withPet } as any)
+
+      const result = await tool.execute({ apiId, operation: 'undo', version: version1 })
+
+      expect(mockSpecManager.saveSpec).toHaveBeenCalledWith(apiId, version1, {
+        openapi: '3.0.3',
+        info: { title: 'Pets', version: '1.0.0' },
+        paths: {},
+      })
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'edit_undone', details: expect.objectContaining({ undo_of: ['edit-1'] }) })
+      )
+      expect(result.data).toMatchObject({ undoable: 0, redoable: 1, nextRedo: { edit_id: 'edit-1' } })
+    })
+
+    it('should re-apply the forward patch on redo', async () => {
+      ;(mockAuditLogger as any).getVersionAuditLog.mockResolvedValue([undone, schemaAdded])
+      mockSpecManager.loadSpec.mockResolvedValue({
+        version: '3.0',
+        spec: { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' }, paths: {} },
+      } as any)
+
+      await tool.execute({ apiId, operation: 'redo', version: version1 })
+
+      expect(mockSpecManager.saveSpec).toHaveBeenCalledWith(apiId, version1, withPet)
+      expect(mockAuditLogger.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'edit_redone', details: expect.objectContaining({ redo_of: ['edit-1'] }) })
+      )
+    })
+
+    it('should fail when there is nothing to undo', async () => {
+      ;(mockAuditLogger as any).getVersionAuditLog.mockResolvedValue([undone, schemaAdded])
+
+      await expect(tool.execute({ apiId, operation: 'undo', version: version1 })).rejects.toThrow('Nothing to undo')
+      expect(mockSpecManager.saveSpec).not.toHaveBeenCalled()
+    })
+  })
+
   describe('validation', () => {
     it('should validate apiId format', async () => {
       await expect(
@@ -475,7 +1102,7 @@ describe('VersionControlTool', () => {
 
   describe('error handling', () => {
     it('should handle spec manager failures', async () => {
-      mockVersionManager.getApiMetadata.mockRejectedValue(new Error('API not found'))
+      mockVersionManager.findApiFolder.mockResolvedValue(null)
       mockSpecManager.saveSpec.mockRejectedValue(new Error('Storage error'))
 
       await expect(
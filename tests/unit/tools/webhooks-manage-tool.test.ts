@@ -0,0 +1,107 @@
+/**
+ * Webhooks Manage Tool - Unit Tests
+ */
+
+import { WebhooksManageTool } from '../../../src/tools/webhooks-manage-tool'
+import { createApiId, createVersionTag } from '../../../src/types/openapi'
+import { createToolHarness, type ToolHarness } from '../../helpers/tool-harness'
+
+describe('WebhooksManageTool', () => {
+  let tool: WebhooksManageTool
+  let harness: ToolHarness<ReturnType<typeof spec>>
+  const apiId = createApiId('test-api')
+  const version = createVersionTag('v1.0.0')
+
+  const spec = () => ({
+    openapi: '3.1.0',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {},
+    webhooks: {
+      newPet: {
+        post: { operationId: 'newPet', responses: { '200': { description: 'OK' } } },
+        put: { responses: { '200': { description: 'OK' } } },
+      },
+      petAdopted: { $ref: '#/components/pathItems/PetAdopted' },
+    },
+    components: {
+      pathItems: {
+        PetAdopted: { post: { summary: 'Adopted', responses: { '200': { description: 'OK' } } } },
+      },
+    },
+  })
+
+
+  beforeEach(() => {
+    harness = createToolHarness(spec, '3.1')
+    tool = new WebhooksManageTool(harness.specManager, harness.auditLogger)
+  })
+
+  it('should list webhooks including referenced path items', async () => {
+    const result = await tool.execute({ apiId, version, operation: 'list' })
+
+    expect((result.data as any).webhooks).toEqual([
+      {
+        name: 'newPet',
+        ref: undefined,
+        operations: [
+          { method: 'POST', operationId: 'newPet', summary: undefined },
+          { method: 'PUT', operationId: undefined, summary: undefined },
+        ],
+      },
+      {
+        name: 'petAdopted',
+        ref: '#/components/pathItems/PetAdopted',
+        operations: [{ method: 'POST', operationId: undefined, summary: 'Adopted' }],
+      },
+    ])
+  })
+
+  it('should add a webhook', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'add',
+      webhookName: 'petLost',
+      method: 'POST',
+      operationObject: { responses: { '200': { description: 'OK' } } },
+    })
+
+    expect(harness.saved().webhooks).toHaveProperty('petLost.post', { responses: { '200': { description: 'OK' } } })
+    expect(harness.auditLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'webhook_added' }))
+  })
+
+  it('should refuse to add an existing webhook operation', async () => {
+    await expect(
+      tool.execute({ apiId, version, operation: 'add', webhookName: 'newPet', method: 'POST', operationObject: {} })
+    ).rejects.toThrow('already exists')
+  })
+
+  it('should update a referenced webhook through its component', async () => {
+    await tool.execute({
+      apiId,
+      version,
+      operation: 'update',
+      webhookName: 'petAdopted',
+      method: 'POST',
+      updates: { summary: 'A pet found a home' },
+    })
+
+    expect(harness.saved().components.pathItems.PetAdopted.post.summary).toBe('A pet found a home')
+    expect(harness.saved().webhooks.petAdopted).toEqual({ $ref: '#/components/pathItems/PetAdopted' })
+  })
+
+  it('should delete webhook operations and drop empty webhooks', async () => {
+    await tool.execute({ apiId, version, operation: 'delete', webhookName: 'newPet', method: 'PUT' })
+    expect(harness.saved().webhooks.newPet.post).toBeDefined()
+
+    harness.specManager.saveSpec.mockClear()
+    await tool.execute({ apiId, version, operation: 'delete', webhookName: 'newPet' })
+    expect(Object.keys(harness.saved().webhooks)).toEqual(['petAdopted'])
+  })
+
+  it('should require OpenAPI 3.1', async () => {
+    harness.specManager.loadSpec.mockResolvedValueOnce({ version: '3.0', spec: { openapi: '3.0.3', paths: {} } } as any)
+
+    await expect(tool.execute({ apiId, version, operation: 'list' })).rejects.toThrow('Webhooks need OpenAPI 3.1')
+  })
+})
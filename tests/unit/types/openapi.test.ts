@@ -106,6 +106,12 @@ describe('createVersionTag', () => {
     expect(createVersionTag('v10.20.30')).toBe('v10.20.30')
   })
 
+  it('should accept pre-release and build metadata', () => {
+    expect(createVersionTag('v2.0.0-beta.1')).toBe('v2.0.0-beta.1')
+    expect(createVersionTag('v1.0.0-rc.1+build.5')).toBe('v1.0.0-rc.1+build.5')
+    expect(() => createVersionTag('v1.0.0-')).toThrow('Invalid version format')
+  })
+
   it('should create valid timestamp version tags', () => {
     expect(createVersionTag('v20250109-120000')).toBe('v20250109-120000')
     expect(createVersionTag('v20240101-000000')).toBe('v20240101-000000')
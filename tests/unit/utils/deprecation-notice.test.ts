@@ -0,0 +1,54 @@
+/**
+ * Tests for deprecation notices
+ */
+
+import { applyDeprecationNotice } from '../../../src/utils/deprecation-notice'
+
+describe('applyDeprecationNotice', () => {
+  const notice = { deprecatedAt: '2026-01-01T00:00:00.000Z', sunsetDate: '2026-07-01T00:00:00.000Z' }
+
+  it('should deprecate operations and reference shared headers in OpenAPI 3.x', () => {
+    const spec: any = {
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          parameters: [],
+          get: { responses: { '200': { description: 'OK' }, default: { $ref: '#/components/responses/Error' } } },
+          post: { deprecated: true, responses: { '201': { description: 'Created' } } },
+        },
+      },
+      components: { responses: { Error: { description: 'Error' } } },
+    }
+
+    const result = applyDeprecationNotice(spec, notice)
+
+    expect(result).toEqual({ operations_deprecated: 1, responses_annotated: 3 })
+    expect(spec.paths['/pets'].get.deprecated).toBe(true)
+    expect(spec.components.headers.Deprecation.example).toBe('@1767225600')
+    expect(spec.components.headers.Sunset.example).toBe('Wed, 01 Jul 2026 00:00:00 GMT')
+    expect(spec.paths['/pets'].get.responses['200'].headers.Sunset).toEqual({ $ref: '#/components/headers/Sunset' })
+    expect(spec.paths['/pets'].get.responses.default).toEqual({ $ref: '#/components/responses/Error' })
+    expect(spec.components.responses.Error.headers.Deprecation).toBeDefined()
+    expect(spec.info['x-lifecycle']).toEqual({
+      state: 'deprecated',
+      deprecated_at: notice.deprecatedAt,
+      sunset_date: notice.sunsetDate,
+    })
+  })
+
+  it('should inline headers in Swagger 2.0 and skip Sunset without a sunset date', () => {
+    const spec: any = {
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: { '/pets': { get: { responses: { '200': { description: 'OK' } } } } },
+    }
+
+    applyDeprecationNotice(spec, { deprecatedAt: notice.deprecatedAt })
+
+    const { headers } = spec.paths['/pets'].get.responses['200']
+    expect(headers.Deprecation).toMatchObject({ type: 'string', 'x-example': '@1767225600' })
+    expect(headers.Sunset).toBeUndefined()
+    expect(spec.components).toBeUndefined()
+  })
+})
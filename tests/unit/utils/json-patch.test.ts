@@ -0,0 +1,109 @@
+/**
+ * Tests for JSON Patch utilities
+ */
+
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  createJsonPatch,
+  createTestOperations,
+  getByPointer,
+  parsePointer,
+} from '../../../src/utils/json-patch'
+
+describe('json-patch', () => {
+  const spec = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: { '/pets': { get: { tags: ['pets'], responses: { '200': { description: 'OK' } } } } },
+  }
+
+  describe('parsePointer / getByPointer', () => {
+    it('should unescape ~1 and ~0', () => {
+      expect(parsePointer('/paths/~1pets~1{id}/x~0y')).toEqual(['paths', '/pets/{id}', 'x~y'])
+      expect(getByPointer(spec, '/paths/~1pets/get/tags/0')).toBe('pets')
+      expect(getByPointer(spec, '/paths/~1cats')).toBeUndefined()
+    })
+
+    it('should reject pointers without a leading slash', () => {
+      expect(() => parsePointer('paths')).toThrow('must be empty or start with /')
+    })
+  })
+
+  describe('createJsonPatch', () => {
+    it('should produce small patches that round-trip both ways', () => {
+      const after = structuredClone(spec) as any
+      after.info.version = '1.1.0'
+      after.paths['/pets'].get.tags.push('animals')
+      after.paths['/pets/{id}'] = { delete: { responses: { '204': { description: 'Gone' } } } }
+      delete after.paths['/pets'].get.responses['200'].description
+
+      const patch = createJsonPatch(spec, after)
+      const inverse = createJsonPatch(after, spec)
+
+      expect(patch).toContainEqual({ op: 'replace', path: '/info/version', value: '1.1.0' })
+      expect(patch).toContainEqual({ op: 'add', path: '/paths/~1pets/get/tags/1', value: 'animals' })
+      expect(patch).toHaveLength(4)
+      expect(applyJsonPatch(spec, patch)).toEqual(after)
+      expect(applyJsonPatch(after, inverse)).toEqual(spec)
+    })
+
+    it('should return an empty patch for equal documents', () => {
+      expect(createJsonPatch(spec, structuredClone(spec))).toEqual([])
+    })
+  })
+
+  describe('createTestOperations', () => {
+    it('should test what adds and replaces left behind', () => {
+      expect(
+        createTestOperations([
+          { op: 'replace', path: '/info/title', value: 'Cats' },
+          { op: 'remove', path: '/paths/~1pets' },
+        ])
+      ).toEqual([{ op: 'test', path: '/info/title', value: 'Cats' }])
+    })
+  })
+
+  describe('applyJsonPatch', () => {
+    it('should support move, copy and test without touching the input', () => {
+      const result = applyJsonPatch(spec, [
+        { op: 'test', path: '/info/title', value: 'Pets' },
+        { op: 'copy', from: '/info/title', path: '/info/x-name' },
+        { op: 'move', from: '/paths/~1pets', path: '/paths/~1animals' },
+        { op: 'add', path: '/paths/~1animals/get/tags/-', value: 'zoo' },
+      ]) as any
+
+      expect(result.info['x-name']).toBe('Pets')
+      expect(result.paths['/pets']).toBeUndefined()
+      expect(result.paths['/animals'].get.tags).toEqual(['pets', 'zoo'])
+      expect(spec.paths['/pets']).toBeDefined()
+    })
+
+    it('should fail the whole patch when one operation fails', () => {
+      expect(() =>
+        applyJsonPatch(spec, [
+          { op: 'replace', path: '/info/title', value: 'Cats' },
+          { op: 'remove', path: '/components/schemas/Pet' },
+        ])
+      ).toThrow('JSON Patch operation 1 (remove /components/schemas/Pet) failed')
+      expect(() => applyJsonPatch(spec, [{ op: 'test', path: '/info/version', value: '2.0.0' }])).toThrow(
+        'Test failed at /info/version'
+      )
+      expect(spec.info.title).toBe('Pets')
+    })
+  })
+  describe('applyMergePatch', () => {
+    it('should merge objects, delete nulls and replace arrays (RFC 7386)', () => {
+      const result = applyMergePatch(spec, {
+        info: { version: '1.1.0', 'x-audience': 'public' },
+        openapi: null,
+        paths: { '/pets': { get: { tags: ['animals'] } } },
+      }) as any
+
+      expect(result.info).toEqual({ title: 'Pets', version: '1.1.0', 'x-audience': 'public' })
+      expect(result.openapi).toBeUndefined()
+      expect(result.paths['/pets'].get).toEqual({ tags: ['animals'], responses: { '200': { description: 'OK' } } })
+      expect(spec.openapi).toBe('3.0.3')
+    })
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for migrate-storage utility
+ */
+
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemStorage } from '../../../src/storage/file-system-storage'
+import { SqliteStorageProvider } from '../../../src/storage/sqlite-storage-provider'
+import { migrateStorage, storageChecksum } from '../../../src/utils/migrate-storage'
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  logStorageOperation: jest.fn(),
+}))
+
+describe('migrateStorage', () => {
+  let tmpDir: string
+  let source: FileSystemStorage
+  let target: SqliteStorageProvider
+
+  const files: Record<string, string> = {
+    'folders.json': '{"folders":["active"]}',
+    'active/_folder.json': '{"name":"active"}',
+    'active/pets/metadata.json': JSON.stringify({ api_id: 'pets', versions: ['v1.0.0'], current_version: 'v1.0.0' }),
+    'active/pets/v1.0.0/spec.yaml': 'openapi: 3.0.3\n',
+    'active/pets/v1.0.0/metadata.json': JSON.stringify({ version: 'v1.0.0', parent_version: null }),
+    'pets/audit.json': JSON.stringify([
+      { api_id: 'pets', version: 'v1.0.0', event: 'version_created', user: 'jane', timestamp: '2026-01-01T00:00:00.000Z' },
+    ]),
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrate-storage-'))
+    source = new FileSystemStorage({ basePath: tmpDir })
+    target = new SqliteStorageProvider({ basePath: tmpDir, options: { filename: ':memory:' } })
+    for (const [key, content] of Object.entries(files)) {
+      await source.write(key, content)
+    }
+  })
+
+  afterEach(async () => {
+    target.close()
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should copy and verify every file', async () => {
+    const results = await migrateStorage(source, target)
+
+    expect(results).toMatchObject({
+      success: true,
+      files_found: 6,
+      files_copied: 6,
+      files_verified: 6,
+      checksum_mismatches: [],
+      errors: [],
+    })
+    expect(await target.read('active/pets/v1.0.0/spec.yaml')).toBe('openapi: 3.0.3\n')
+    // Metadata and audit events ended up in the indexed tables
+    expect(await target.listApiMetadata()).toHaveLength(1)
+    expect(await target.queryAuditEvents({ user: 'jane' })).toHaveLength(1)
+  })
+
+  it('should leave provider files behind', async () => {
+    await fs.writeFile(path.join(tmpDir, 'openapi-control.db'), 'binary')
+    await fs.mkdir(path.join(tmpDir, '.git'))
+    await fs.writeFile(path.join(tmpDir, '.git', 'HEAD'), 'ref: refs/heads/main')
+
+    const results = await migrateStorage(source, target)
+
+    expect(results.files_found).toBe(6)
+  })
+
+  it('should skip identical files when run again', async () => {
+    await migrateStorage(source, target)
+
+    const results = await migrateStorage(source, target)
+
+    expect(results).toMatchObject({ success: true, files_copied: 0, files_skipped: 6, files_verified: 6 })
+  })
+
+  it('should not touch the target in a dry run', async () => {
+    const results = await migrateStorage(source, target, { dryRun: true })
+
+    expect(results).toMatchObject({ success: true, dry_run: true, files_copied: 6, files_verified: 0 })
+    expect(await target.list('/')).toEqual([])
+  })
+
+  it('should refuse to overwrite different content unless asked to', async () => {
+    await target.write('folders.json', '{"folders":[]}')
+
+    const refused = await migrateStorage(source, target)
+    expect(refused.success).toBe(false)
+    expect(refused.errors).toEqual([{ key: 'folders.json', error: expect.stringContaining('different content') }])
+
+    const overwritten = await migrateStorage(source, target, { overwrite: true })
+    expect(overwritten.success).toBe(true)
+    expect(await target.read('folders.json')).toBe(files['folders.json'])
+  })
+
+  it('should report files that do not survive the trip', async () => {
+    const lossy = Object.create(target) as SqliteStorageProvider
+    lossy.write = (key: string, data: string) => target.write(key, key.endsWith('.yaml') ? `${data}# oops\n` : data)
+
+    const results = await migrateStorage(source, lossy)
+
+    expect(results.success).toBe(false)
+    expect(results.checksum_mismatches).toEqual(['active/pets/v1.0.0/spec.yaml'])
+  })
+})
+
+describe('storageChecksum', () => {
+  it('should ignore JSON formatting and key order', () => {
+    expect(storageChecksum('a.json', '{"a":1,"b":[1,2]}')).toBe(storageChecksum('a.json', '{\n  "b": [1, 2],\n  "a": 1\n}'))
+    expect(storageChecksum('a.json', '{"a":1}')).not.toBe(storageChecksum('a.json', '{"a":2}'))
+  })
+
+  it('should compare everything else byte for byte', () => {
+    expect(storageChecksum('spec.yaml', 'a: 1\n')).not.toBe(storageChecksum('spec.yaml', 'a: 1'))
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Tests for reference utilities
+ */
+
+import { componentRef, findRefs, parseCrossSpecRef, reachableComponents, refersTo, rewriteRefs } from '../../../src/utils/refs'
+
+describe('refs', () => {
+  it('should escape component names in refs', () => {
+    expect(componentRef('schemas', 'a/b~c')).toBe('#/components/schemas/a~1b~0c')
+  })
+
+  it('should only match refs on a token boundary', () => {
+    expect(refersTo('#/components/schemas/Pet', '#/components/schemas/Pet')).toBe(true)
+    expect(refersTo('#/components/schemas/Pet/properties/id', '#/components/schemas/Pet')).toBe(true)
+    expect(refersTo('#/components/schemas/PetList', '#/components/schemas/Pet')).toBe(false)
+  })
+
+  it('should find and rewrite refs with their JSON Pointers', () => {
+    const doc = {
+      paths: { '/a/b': { get: { responses: { '200': { $ref: '#/components/responses/Ok' } } } } },
+      list: [{ $ref: '#/components/responses/Ok' }, { $ref: '#/components/responses/Other' }],
+    }
+
+    expect(findRefs(doc, '#/components/responses/Ok').map((location) => location.pointer)).toEqual([
+      '/paths/~1a~1b/get/responses/200',
+      '/list/0',
+    ])
+    expect(rewriteRefs(doc, '#/components/responses/Ok', '#/components/responses/Fine')).toBe(2)
+    expect(doc.list[0].$ref).toBe('#/components/responses/Fine')
+  })
+
+  it('should follow refs, security requirements and discriminators to find reachable components', () => {
+    const spec = {
+      security: [{ apiKey: [] }],
+      paths: { '/pets': { get: { responses: { '200': { $ref: '#/components/responses/Pets' } } } } },
+      components: {
+        responses: { Pets: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+        schemas: {
+          Pet: { discriminator: { propertyName: 'kind', mapping: { fish: 'Fish' } } },
+          Dog: { allOf: [{ $ref: '#/components/schemas/Pet' }] },
+          Fish: { type: 'object' },
+          Orphan: { properties: { friend: { $ref: '#/components/schemas/Lonely' } } },
+          Lonely: { type: 'object' },
+        },
+        securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'X-Key' }, unused: { type: 'http', scheme: 'basic' } },
+      },
+    }
+
+    expect([...reachableComponents(spec)].sort()).toEqual([
+      '#/components/responses/Pets',
+      '#/components/schemas/Dog',
+      '#/components/schemas/Fish',
+      '#/components/schemas/Pet',
+      '#/components/securitySchemes/apiKey',
+    ])
+  })
+
+  it('should parse cross-spec refs and nothing else', () => {
+    expect(parseCrossSpecRef('shared-api@v1.2.0-beta.1#/components/schemas/Error')).toEqual({
+      apiId: 'shared-api',
+      version: 'v1.2.0-beta.1',
+      pointer: '/components/schemas/Error',
+    })
+    expect(parseCrossSpecRef('#/components/schemas/Error')).toBeUndefined()
+    expect(parseCrossSpecRef('./common.yaml#/components/schemas/Error')).toBeUndefined()
+  })
+})
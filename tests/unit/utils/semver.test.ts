@@ -0,0 +1,159 @@
+/**
+ * Tests for semantic versioning utilities
+ */
+
+import {
+  bumpVersionTag,
+  compareVersionTags,
+  parseVersionTag,
+  sortVersionTags,
+  suggestVersionBump,
+  syncInfoVersion,
+} from '../../../src/utils/semver'
+import type { SpecDiff } from '../../../src/services/diff-calculator'
+
+describe('semver', () => {
+  describe('parseVersionTag', () => {
+    it('should parse releases, pre-releases and build metadata', () => {
+      expect(parseVersionTag('v1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [], build: undefined })
+      expect(parseVersionTag('v2.0.0-rc.1+build.5')).toMatchObject({ prerelease: ['rc', '1'], build: 'build.5' })
+    })
+
+    it('should reject timestamps and malformed tags', () => {
+      expect(parseVersionTag('v20250109-120000')).toBeNull()
+      expect(parseVersionTag('v01.2.3')).toBeNull()
+      expect(parseVersionTag('1.2.3')).toBeNull()
+    })
+  })
+
+  describe('compareVersionTags / sortVersionTags', () => {
+    it('should follow SemVer precedence', () => {
+      const ordered = [
+        'v1.0.0-alpha',
+        'v1.0.0-alpha.1',
+        'v1.0.0-alpha.beta',
+        'v1.0.0-beta',
+        'v1.0.0-beta.2',
+        'v1.0.0-beta.11',
+        'v1.0.0-rc.1',
+        'v1.0.0',
+        'v1.9.0',
+        'v1.10.0',
+      ]
+
+      for (let i = 1; i < ordered.length; i++) {
+        expect(compareVersionTags(ordered[i - 1], ordered[i])).toBeLessThan(0)
+      }
+      expect(compareVersionTags('v1.0.0+build.1', 'v1.0.0')).toBe(0)
+    })
+
+    it('should sort newest first with timestamp tags last', () => {
+      expect(sortVersionTags(['v1.9.0', 'v20250109-120000', 'v2.0.0-beta.1', 'v1.10.0', 'v2.0.0'])).toEqual([
+        'v2.0.0',
+        'v2.0.0-beta.1',
+        'v1.10.0',
+        'v1.9.0',
+        'v20250109-120000',
+      ])
+    })
+  })
+
+  describe('bumpVersionTag', () => {
+    it('should bump releases', () => {
+      expect(bumpVersionTag('v1.2.3', 'major')).toBe('v2.0.0')
+      expect(bumpVersionTag('v1.2.3', 'minor')).toBe('v1.3.0')
+      expect(bumpVersionTag('v1.2.3', 'patch')).toBe('v1.2.4')
+    })
+
+    it('should release pre-releases that already sit at the target', () => {
+      expect(bumpVersionTag('v2.0.0-rc.1', 'major')).toBe('v2.0.0')
+      expect(bumpVersionTag('v1.3.0-beta', 'minor')).toBe('v1.3.0')
+      expect(bumpVersionTag('v1.2.4-beta', 'patch')).toBe('v1.2.4')
+      expect(bumpVersionTag('v1.2.4-beta', 'major')).toBe('v2.0.0')
+    })
+
+    it('should refuse non-semver tags', () => {
+      expect(() => bumpVersionTag('v20250109-120000', 'patch')).toThrow('not a semantic version')
+    })
+  })
+
+  describe('suggestVersionBump', () => {
+    const diff = (overrides: Partial<SpecDiff> = {}, summary: Partial<SpecDiff['summary']> = {}): SpecDiff =>
+      ({
+        summary: {
+          endpoints_added: [],
+          endpoints_modified: [],
+          endpoints_deleted: [],
+          schemas_added: [],
+          schemas_modified: [],
+          schemas_deleted: [],
+          breaking_changes: [],
+          ...summary,
+        },
+        endpoints_added_detail: [],
+        endpoints_removed_detail: [],
+        endpoints_modified_detail: [],
+        schemas_added_detail: [],
+        schemas_removed_detail: [],
+        breaking_changes: [],
+        classified_changes: [],
+        ...overrides,
+      }) as SpecDiff
+
+    it('should suggest major for breaking changes', () => {
+      const removed = { rule: 'endpoint-removed', severity: 'breaking' as const, message: 'Endpoint removed: GET /pets' }
+
+      expect(suggestVersionBump(diff({ breaking_changes: [removed], classified_changes: [removed] }))).toEqual({
+        bump: 'major',
+        reasons: ['Endpoint removed: GET /pets'],
+      })
+    })
+
+    it('should suggest minor for additions', () => {
+      const added = { rule: 'endpoint-added', severity: 'non-breaking' as const, message: 'Endpoint added: POST /pets' }
+
+      expect(suggestVersionBump(diff({ classified_changes: [added] })).bump).toBe('minor')
+      expect(suggestVersionBump(diff({}, { schemas_added: ['Pet'] }))).toEqual({
+        bump: 'minor',
+        reasons: ['Schema added: Pet'],
+      })
+    })
+
+    it('should suggest patch when only docs changed', () => {
+      expect(suggestVersionBump(diff()).bump).toBe('patch')
+      const described = { rule: 'schema-modified', severity: 'unclassified' as const, message: 'Schema Pet modified', schema: 'Pet' }
+
+      expect(
+        suggestVersionBump(diff({ classified_changes: [described] }, { endpoints_modified: ['GET /a'], schemas_modified: ['Pet'] }))
+      ).toEqual({
+        bump: 'patch',
+        reasons: ['Schema Pet modified', 'Endpoint docs changed: GET /a'],
+      })
+    })
+
+    it.each([
+      ['request-parameter-removed', 'Parameter removed: limit (query)'],
+      ['request-property-removed', 'Request property removed: nickname'],
+      ['response-status-removed', 'Response removed: 404'],
+      ['schema-composition-changed', 'oneOf of Pet changed'],
+    ])('should suggest minor and ask for review for an unclassified %s', (rule, message) => {
+      const change = { rule, severity: 'unclassified' as const, message, endpoint: 'GET /pets' }
+
+      expect(suggestVersionBump(diff({ classified_changes: [change] }, { endpoints_modified: ['GET /pets'] }))).toEqual({
+        bump: 'minor',
+        reasons: [`${message} (needs review: may be breaking)`],
+      })
+    })
+  })
+
+  describe('syncInfoVersion', () => {
+    it('should copy the tag into info.version without touching the input', () => {
+      const spec = { openapi: '3.0.3', info: { title: 'Pets', version: '1.0.0' } }
+
+      expect(syncInfoVersion(spec, 'v1.1.0').info.version).toBe('1.1.0')
+      expect(spec.info.version).toBe('1.0.0')
+      expect(syncInfoVersion(spec, 'v1.0.0')).toBe(spec)
+      expect(syncInfoVersion(spec, 'v20250109-120000')).toBe(spec)
+    })
+  })
+})
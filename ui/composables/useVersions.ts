@@ -4,7 +4,7 @@
  * @description Fetches version history for an API.
  */
 
-import type { ApiId, VersionTag, VersionMetadata } from '~/types/api'
+import type { ApiId, VersionTag, VersionMetadata, VersionState } from '~/types/api'
 
 export function useVersions(apiId: ApiId) {
   const api = useApi()
@@ -44,6 +44,20 @@ export function useVersions(apiId: ApiId) {
     }
   }
 
+  /**
+   * Moves a version to another lifecycle state, then reloads the list
+   */
+  async function changeState(version: VersionTag, state: VersionState, sunsetDate?: string) {
+    try {
+      await api.post(`/specs/${apiId}/versions/${version}/state`, { state, sunsetDate })
+      await fetchVersions()
+    } catch (err: any) {
+      error.value = err.message
+      console.error(`Failed to move ${version} to ${state}:`, err)
+      throw err
+    }
+  }
+
   /**
    * Gets versions sorted by date (newest first)
    */
@@ -68,6 +82,7 @@ export function useVersions(apiId: ApiId) {
     versionsWithBreakingChanges,
     fetchVersions,
     fetchVersion,
+    changeState,
   }
 }
 
@@ -25,7 +25,33 @@ export interface ChangesSummary {
   schemas_added: string[]
   schemas_modified: string[]
   schemas_deleted: string[]
-  breaking_changes: string[]
+  breaking_changes: ClassifiedChange[]
+  transformation?: SpecTransformation
+}
+
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'unclassified'
+
+export interface ClassifiedChange {
+  rule: string
+  severity: ChangeSeverity
+  message: string
+  endpoint?: string
+  schema?: string
+}
+
+export interface SpecTransformation {
+  from: '2.0' | '3.0' | '3.1'
+  to: '3.0' | '3.1'
+  applied: string[]
+  warnings: string[]
+}
+
+export interface MergeRecord {
+  base: VersionTag
+  ours: VersionTag
+  theirs: VersionTag
+  conflicts: number
+  resolution?: 'ours' | 'theirs'
 }
 
 /**
@@ -53,6 +79,33 @@ export interface VersionStats {
   tags_count?: number
 }
 
+/**
+ * Version lifecycle state
+ */
+export type VersionState = 'draft' | 'beta' | 'stable' | 'deprecated' | 'retired'
+
+/**
+ * Allowed lifecycle transitions (mirrors VERSION_TRANSITIONS on the server)
+ */
+export const VERSION_TRANSITIONS: Record<VersionState, VersionState[]> = {
+  draft: ['beta', 'stable'],
+  beta: ['stable', 'deprecated'],
+  stable: ['deprecated'],
+  deprecated: ['retired'],
+  retired: [],
+}
+
+/**
+ * One step in a version's lifecycle
+ */
+export interface LifecycleTransition {
+  from: VersionState
+  to: VersionState
+  at: string
+  by: string
+  reason?: string
+}
+
 /**
  * Version metadata
  */
@@ -66,6 +119,14 @@ export interface VersionMetadata {
   validation: ValidationResults
   stats: VersionStats
   tags?: string[]
+  merge?: MergeRecord
+  state?: VersionState
+  published_at?: string
+  published_by?: string
+  deprecated_at?: string
+  sunset_date?: string
+  retired_at?: string
+  lifecycle?: LifecycleTransition[]
 }
 
 /**
@@ -91,7 +152,7 @@ export interface ApiMetadata {
   created_at: string
   current_version: VersionTag
   versions: VersionTag[]
-  latest_stable: VersionTag
+  latest_stable?: VersionTag
   owner: string
   tags?: string[]
   description?: string